@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AclSchema } from '../config/schema.js';
+import { urlFetchTool, webSearchTool } from '../tools/builtin/index.js';
+import { AccessControl } from './access-control.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function createAccess(config: Record<string, unknown> = {}) {
+  return new AccessControl(AclSchema.parse(config), createMockLogger() as never);
+}
+
+describe('AccessControl', () => {
+  describe('checkUser', () => {
+    it('should allow everyone by default', () => {
+      expect(createAccess().checkUser({ userId: 1001 })).toEqual({ allowed: true });
+    });
+
+    it('should reject users in denyUsers', () => {
+      const access = createAccess({ denyUsers: [1001] });
+
+      expect(access.checkUser({ userId: 1001, groupId: 2001 })).toEqual({
+        allowed: false,
+        reason: 'User is in denyUsers',
+      });
+      expect(access.checkUser({ userId: 1002 })).toEqual({ allowed: true });
+    });
+
+    it('should only allow listed users when allowUsers is set', () => {
+      const access = createAccess({ allowUsers: [1001], denyUsers: [1001], superusers: [9999] });
+
+      // denyUsers 优先于 allowUsers
+      expect(access.checkUser({ userId: 1001 }).allowed).toBe(false);
+      expect(access.checkUser({ userId: 1002 })).toEqual({
+        allowed: false,
+        reason: 'User is not in allowUsers',
+      });
+      expect(access.checkUser({ userId: 9999 }).allowed).toBe(true);
+    });
+  });
+
+  describe('checkTool', () => {
+    const tool = { name: 'urlFetch' };
+
+    it('should compare the sender role with the required role', () => {
+      const access = createAccess();
+      const adminTool = { name: 'ban', permission: 'admin' as const };
+
+      expect(access.checkTool({ userId: 1001 }, tool)).toEqual({ allowed: true });
+      expect(access.checkTool({ userId: 1001, role: 'member' }, adminTool)).toEqual({
+        allowed: false,
+        reason: 'Tool "ban" requires role admin',
+      });
+      expect(access.checkTool({ userId: 1001, role: 'admin' }, adminTool).allowed).toBe(true);
+      expect(access.checkTool({ userId: 1001, role: 'owner' }, adminTool).allowed).toBe(true);
+    });
+
+    it('should let acl.tools override the declared permission', () => {
+      const access = createAccess({ tools: { urlFetch: 'owner', ban: 'member' } });
+
+      expect(access.getToolRole(tool)).toBe('owner');
+      expect(access.getToolRole({ name: 'ban', permission: 'admin' })).toBe('member');
+      expect(access.checkTool({ userId: 1001, role: 'admin' }, tool).allowed).toBe(false);
+    });
+
+    it('should only restrict urlFetch among the built-in tools by default', () => {
+      const access = createAccess();
+      const member = { userId: 1001, role: 'member' as const };
+
+      expect(access.checkTool(member, urlFetchTool).allowed).toBe(false);
+      expect(access.checkTool(member, webSearchTool).allowed).toBe(true);
+      // 私聊没有群身份
+      expect(access.checkTool({ userId: 1001 }, webSearchTool).allowed).toBe(true);
+      // 可在 acl.tools 中提高要求
+      expect(
+        createAccess({ tools: { webSearch: 'admin' } }).checkTool(member, webSearchTool).allowed
+      ).toBe(false);
+    });
+
+    it('should let superusers use any tool', () => {
+      const access = createAccess({ tools: { urlFetch: 'owner' }, superusers: [1001] });
+
+      expect(access.checkTool({ userId: 1001 }, tool)).toEqual({ allowed: true });
+    });
+  });
+
+  it('should reject unknown roles in config', () => {
+    expect(() => AclSchema.parse({ tools: { urlFetch: 'root' } })).toThrow();
+  });
+});
@@ -0,0 +1,119 @@
+import type { Logger } from '../logger/logger.js';
+import type { AccessRole, AclConfig } from '../config/schema.js';
+import type { ToolDefinition } from '../tools/types.js';
+
+/** 身份等级，数值越大权限越高 */
+const ROLE_RANK: Record<AccessRole, number> = {
+  member: 0,
+  admin: 1,
+  owner: 2,
+};
+
+/**
+ * 访问主体：消息发送者及其群身份（私聊时无群身份）
+ */
+export interface AccessSubject {
+  userId: number;
+  role?: AccessRole | undefined;
+  groupId?: number | undefined;
+}
+
+/**
+ * 访问检查结果
+ */
+export type AccessDecision = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * 访问控制
+ *
+ * - 用户名单：denyUsers 中的用户始终拒绝；配置 allowUsers 后只允许名单中的用户
+ * - 工具权限：按发送者的群身份（member < admin < owner）判断，
+ *   要求取 acl.tools 中的配置，其次为工具声明的 permission，默认 member
+ * - superusers 不受以上限制
+ *
+ * 拒绝时记录 info 日志
+ */
+export class AccessControl {
+  private readonly config: AclConfig;
+  private readonly logger: Logger;
+  private readonly allowUsers: Set<number> | undefined;
+  private readonly denyUsers: Set<number>;
+  private readonly superusers: Set<number>;
+
+  constructor(config: AclConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger.child('AccessControl');
+    this.allowUsers = config.allowUsers && new Set(config.allowUsers);
+    this.denyUsers = new Set(config.denyUsers);
+    this.superusers = new Set(config.superusers);
+  }
+
+  /**
+   * 是否为超级用户
+   */
+  isSuperuser(userId: number): boolean {
+    return this.superusers.has(userId);
+  }
+
+  /**
+   * 检查用户是否可以使用机器人
+   */
+  checkUser(subject: AccessSubject): AccessDecision {
+    if (this.isSuperuser(subject.userId)) {
+      return { allowed: true };
+    }
+
+    let reason: string | undefined;
+    if (this.denyUsers.has(subject.userId)) {
+      reason = 'User is in denyUsers';
+    } else if (this.allowUsers && !this.allowUsers.has(subject.userId)) {
+      reason = 'User is not in allowUsers';
+    }
+    if (!reason) {
+      return { allowed: true };
+    }
+
+    this.logger.info('Access denied', {
+      userId: subject.userId,
+      groupId: subject.groupId,
+      reason,
+    });
+    return { allowed: false, reason };
+  }
+
+  /**
+   * 使用工具需要的最低身份
+   */
+  getToolRole(tool: Pick<ToolDefinition, 'name' | 'permission'>): AccessRole {
+    return this.config.tools[tool.name] ?? tool.permission ?? 'member';
+  }
+
+  /**
+   * 检查用户是否可以使用工具
+   *
+   * 没有明确的请求者（subject 为 undefined，如主动发言）时按普通成员判断
+   */
+  checkTool(
+    subject: AccessSubject | undefined,
+    tool: Pick<ToolDefinition, 'name' | 'permission'>
+  ): AccessDecision {
+    const required = this.getToolRole(tool);
+    const role = subject?.role ?? 'member';
+
+    if (
+      (subject && this.isSuperuser(subject.userId)) ||
+      ROLE_RANK[role] >= ROLE_RANK[required]
+    ) {
+      return { allowed: true };
+    }
+
+    this.logger.info('Tool access denied', {
+      tool: tool.name,
+      userId: subject?.userId,
+      groupId: subject?.groupId,
+      role,
+      required,
+    });
+    return { allowed: false, reason: `Tool "${tool.name}" requires role ${required}` };
+  }
+}
@@ -0,0 +1,5 @@
+export {
+  AccessControl,
+  type AccessDecision,
+  type AccessSubject,
+} from './access-control.js';
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi } from 'vitest';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
 import { createAgentGraph } from './graph.js';
+import { StubImageGenerator } from '../ai/images/index.js';
+import { BUILTIN_PROMPT_SOURCE } from '../prompts/index.js';
 import type { AggregatedMessages } from '../pipeline/index.js';
 import type { NormalizedMessage } from '../onebot/message-normalizer.js';
 
@@ -74,6 +77,9 @@ function createMockModel(responses: Record<string, string>) {
             '{"executorType": "chat", "steps": [{"action": "reply", "description": "回复"}]}',
         };
       }
+      if (systemContent.includes('帮用户画图')) {
+        return { content: responses['image'] ?? '{"prompt": "a cat", "reply": "画好了"}' };
+      }
       if (systemContent.includes('Huluwa')) {
         return { content: responses['chat'] ?? '你好！' };
       }
@@ -89,6 +95,9 @@ function createMockModelRegistry(model: ReturnType<typeof createMockModel>, hasG
     get: vi.fn().mockReturnValue(model),
     has: vi.fn().mockImplementation((name: string) => (hasGlm ? name === 'glm' : false)),
     getDefaultName: vi.fn().mockReturnValue('claude'),
+    supportsVision: vi.fn().mockReturnValue(true),
+    supportsPdf: vi.fn().mockReturnValue(true),
+    supportsStructuredOutput: vi.fn().mockReturnValue(false),
     getNames: vi.fn().mockReturnValue(hasGlm ? ['claude', 'glm'] : ['claude']),
   };
 }
@@ -169,6 +178,34 @@ describe('AgentGraph', () => {
       expect(result.response).toBe('今天天气晴朗，温度适宜！');
       expect(result.intent?.type).toBe('question');
     });
+
+    it('should record the prompt version used by each node', async () => {
+      const model = createMockModel({
+        intent: '{"type": "question", "confidence": 0.85, "description": "询问天气情况"}',
+      });
+      const registry = createMockModelRegistry(model);
+      const logger = createMockLogger();
+
+      const graph = createAgentGraph({
+        models: registry as never,
+        logger: logger as never,
+        prompts: {
+          render: (name, variables) => ({
+            ...BUILTIN_PROMPT_SOURCE.render(name, variables),
+            version: name === 'plan' ? 'plan-v2' : 'builtin',
+          }),
+        },
+      });
+
+      const result = await graph.invoke({ input: createMockInput({ text: '今天天气怎么样？' }) });
+
+      // 单条消息不调用 summary 模型，不记录版本
+      expect(result.promptVersions).toEqual({
+        intent: 'builtin',
+        plan: 'plan-v2',
+        chatExecutor: 'builtin',
+      });
+    });
   });
 
   describe('ignore intent handling', () => {
@@ -244,17 +281,17 @@ describe('AgentGraph', () => {
   });
 
   describe('model selection', () => {
-    it('should use glm model for summary when available', () => {
+    it('should use the default model for every node without ai.nodes', () => {
       const defaultModel = createMockModel({});
-      const glmModel = createMockModel({});
 
       const registry = {
         getDefault: vi.fn().mockReturnValue(defaultModel),
-        get: vi.fn().mockImplementation((name: string) =>
-          name === 'glm' ? glmModel : defaultModel
-        ),
-        has: vi.fn().mockImplementation((name: string) => name === 'glm'),
+        get: vi.fn().mockReturnValue(defaultModel),
+        has: vi.fn().mockReturnValue(true),
         getDefaultName: vi.fn().mockReturnValue('claude'),
+        supportsVision: vi.fn().mockReturnValue(true),
+        supportsPdf: vi.fn().mockReturnValue(true),
+        supportsStructuredOutput: vi.fn().mockReturnValue(false),
         getNames: vi.fn().mockReturnValue(['claude', 'glm']),
       };
       const logger = createMockLogger();
@@ -264,29 +301,151 @@ describe('AgentGraph', () => {
         logger: logger as never,
       });
 
-      // Should request glm model for summary
-      expect(registry.get).toHaveBeenCalledWith('glm');
+      // 不再按名称猜测轻量模型
+      expect(registry.get).not.toHaveBeenCalledWith('glm');
+      expect(registry.get).toHaveBeenCalledWith('claude');
     });
 
-    it('should use default model when glm is not available', () => {
+    it('should assign models to nodes from ai.nodes', async () => {
       const defaultModel = createMockModel({});
+      const glmModel = createMockModel({});
 
       const registry = {
-        getDefault: vi.fn().mockReturnValue(defaultModel),
-        get: vi.fn().mockReturnValue(defaultModel),
-        has: vi.fn().mockReturnValue(false),
-        getDefaultName: vi.fn().mockReturnValue('claude'),
-        getNames: vi.fn().mockReturnValue(['claude']),
+        ...createMockModelRegistry(defaultModel),
+        get: vi.fn().mockImplementation((name: string) =>
+          name === 'glm' ? glmModel : defaultModel
+        ),
       };
       const logger = createMockLogger();
 
-      createAgentGraph({
+      const graph = createAgentGraph({
+        models: registry as never,
+        logger: logger as never,
+        nodeModels: { summary: 'glm', intent: ['glm'] },
+      });
+
+      const result = await graph.invoke({ input: createMockInput({ text: '你好' }) });
+
+      expect(result.models).toEqual({
+        summary: 'glm',
+        intent: 'glm',
+        plan: 'claude',
+        chat: 'claude',
+      });
+      const usedForIntent = (model: typeof glmModel) =>
+        model.invoke.mock.calls.some((call: unknown[]) =>
+          String((call[0] as Array<{ content: unknown }>)[0]?.content).includes('意图识别助手')
+        );
+      expect(usedForIntent(glmModel)).toBe(true);
+      expect(usedForIntent(defaultModel)).toBe(false);
+    });
+
+    it('should fall back to the next model in the chain when the primary throws', async () => {
+      const failingModel = {
+        invoke: vi.fn().mockRejectedValue(new Error('overloaded')),
+      };
+      const backupModel = new FakeListChatModel({ responses: ['备用模型的回复'] });
+      const defaultModel = createMockModel({});
+
+      const registry = {
+        ...createMockModelRegistry(defaultModel),
+        getDefaultName: vi.fn().mockReturnValue('gpt'),
+        get: vi.fn().mockImplementation((name: string) => {
+          if (name === 'claude') return failingModel;
+          if (name === 'backup') return backupModel;
+          return defaultModel;
+        }),
+      };
+      const logger = createMockLogger();
+      const childLogger = createMockLogger();
+      logger.child.mockReturnValue(childLogger);
+
+      const graph = createAgentGraph({
         models: registry as never,
         logger: logger as never,
+        nodeModels: { chat: ['claude', 'backup'] },
+      });
+
+      const result = await graph.invoke({ input: createMockInput({ text: '你好' }) });
+
+      expect(result.response).toBe('备用模型的回复');
+      expect(result.models['chat']).toBe('backup');
+      expect(result.models['intent']).toBe('gpt');
+      expect(childLogger.warn).toHaveBeenCalledWith('Model fallback', {
+        node: 'chat',
+        failed: 'claude',
+        next: 'backup',
+        error: 'overloaded',
+      });
+      expect(childLogger.info).toHaveBeenCalledWith(
+        'Node model assignment',
+        expect.objectContaining({ chat: 'claude -> backup', intent: 'gpt' })
+      );
+    });
+
+    it('should use the session model for every node ahead of ai.nodes', async () => {
+      const defaultModel = createMockModel({});
+      const gptModel = createMockModel({});
+
+      const registry = {
+        ...createMockModelRegistry(defaultModel),
+        get: vi.fn().mockImplementation((name: string) =>
+          name === 'gpt' ? gptModel : defaultModel
+        ),
+      };
+
+      const graph = createAgentGraph({
+        models: registry as never,
+        logger: createMockLogger() as never,
+        modelOverride: 'gpt',
+        nodeModels: { summary: 'glm', chat: ['claude', 'backup'] },
       });
 
-      // Should not try to get glm when it's not available
+      const result = await graph.invoke({ input: createMockInput({ text: '你好' }) });
+
+      expect(result.models).toEqual({ summary: 'gpt', intent: 'gpt', plan: 'gpt', chat: 'gpt' });
       expect(registry.get).not.toHaveBeenCalledWith('glm');
+      expect(registry.get).not.toHaveBeenCalledWith('claude');
+      expect(defaultModel.invoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('input capabilities', () => {
+    it('should not send images when a model in the chat chain lacks vision', async () => {
+      const defaultModel = createMockModel({});
+      const registry = {
+        ...createMockModelRegistry(defaultModel),
+        // glm 只支持文本（也可能是 claude 的 failover 候选）
+        supportsVision: vi.fn().mockImplementation((name: string) => name !== 'glm'),
+      };
+
+      const graph = createAgentGraph({
+        models: registry as never,
+        logger: createMockLogger() as never,
+        nodeModels: { chat: ['claude', 'glm'] },
+      });
+
+      const input = createMockInput({ text: '看看这张图' });
+      input.attachments = [
+        {
+          type: 'image',
+          filename: 'cat.png',
+          url: 'https://example.com/cat.png',
+          mimeType: 'image/png',
+          base64Data: 'aGVsbG8=',
+        },
+      ];
+      await graph.invoke({ input });
+
+      expect(registry.supportsVision).toHaveBeenCalledWith('glm');
+      const chatCall = defaultModel.invoke.mock.calls.find(([messages]) =>
+        String(messages[0].content).includes('Huluwa')
+      );
+      const content = chatCall![0][1].content as { type: string; text?: string }[];
+      expect(content.some((block) => block.type === 'image')).toBe(false);
+      expect(content).toContainEqual(
+        expect.objectContaining({ text: expect.stringContaining('当前模型无法查看图片') })
+      );
     });
   });
 
@@ -362,5 +521,86 @@ describe('AgentGraph', () => {
       expect(result.executorType).toBe('chat');
       expect(result.response).toBe('Chat response');
     });
+    it('should route to image executor when image generation is enabled', async () => {
+      const model = createMockModel({
+        summary: '用户请求画猫',
+        intent: '{"type": "command", "confidence": 0.9, "description": "画猫"}',
+        plan: '{"executorType": "image", "steps": [{"action": "draw", "description": "画猫"}]}',
+      });
+      const registry = createMockModelRegistry(model);
+      const logger = createMockLogger();
+      const imageGenerator = new StubImageGenerator({ url: 'https://cdn.example.com/cat.png' });
+
+      const graph = createAgentGraph({
+        models: registry as never,
+        logger: logger as never,
+        imageGenerator,
+      });
+
+      const input = createMockInput({ text: '画一只猫', hasMention: true });
+      const result = await graph.invoke({ input });
+
+      expect(result.executorType).toBe('image');
+      expect(result.response).toBe('画好了');
+      expect(result.reply?.media).toEqual([
+        { type: 'image', file: 'https://cdn.example.com/cat.png' },
+      ]);
+      expect(imageGenerator.calls).toHaveLength(1);
+    });
+
+    it('should fall back to chat executor when the planned executor is not available', async () => {
+      const model = createMockModel({
+        summary: 'test',
+        intent: '{"type": "command", "confidence": 0.9, "description": "task"}',
+        plan: '{"executorType": "tool", "steps": []}',
+        chat: 'Chat fallback',
+      });
+      const registry = createMockModelRegistry(model);
+      const logger = createMockLogger();
+
+      const graph = createAgentGraph({
+        models: registry as never,
+        logger: logger as never,
+      });
+
+      const input = createMockInput({ text: 'test', hasMention: true });
+      const result = await graph.invoke({ input });
+
+      expect(result.response).toBe('Chat fallback');
+    });
+    it('should pass the reply stream from the run config to the chat executor', async () => {
+      const model = createMockModel({
+        summary: 'test',
+        intent: '{"type": "chat", "confidence": 0.9, "description": "chat"}',
+      });
+      const streamingModel = {
+        ...model,
+        stream: vi.fn(async () =>
+          (async function* () {
+            yield { content: '流式' };
+            yield { content: '回复。' };
+          })()
+        ),
+      };
+      const registry = createMockModelRegistry(streamingModel);
+      const logger = createMockLogger();
+      const replyStream = {
+        options: { flushOn: 'sentence' as const, minChars: 1 },
+        onSegment: vi.fn(),
+      };
+
+      const graph = createAgentGraph({
+        models: registry as never,
+        logger: logger as never,
+      });
+
+      const input = createMockInput({ text: 'test', hasMention: true });
+      const result = await graph.invoke({ input }, { configurable: { replyStream } });
+
+      expect(result.response).toBe('流式回复。');
+      expect(replyStream.onSegment).toHaveBeenCalledWith(
+        expect.objectContaining({ text: '流式回复。' })
+      );
+    });
   });
 });
@@ -1,4 +1,4 @@
-import { StateGraph, END } from '@langchain/langgraph';
+import { StateGraph, END, type LangGraphRunnableConfig } from '@langchain/langgraph';
 import { AgentState, type AgentStateType } from './state.js';
 import { createSummaryNode } from './nodes/summary.js';
 import { createIntentNode } from './nodes/intent.js';
@@ -6,11 +6,20 @@ import { createPlanNode } from './nodes/plan.js';
 import { createRouterNode, routeToExecutor } from './nodes/router.js';
 import { createChatExecutorNode } from './nodes/chat-executor.js';
 import { createToolExecutorNode } from './nodes/tool-executor.js';
+import { createImageExecutorNode } from './nodes/image-executor.js';
 import type { Logger } from '../logger/logger.js';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import type { ModelRegistry } from '../ai/model-registry.js';
+import { createModelChain } from '../ai/fallback-model.js';
+import { ChainedChatModel, servedModelName } from '../ai/chained-model.js';
+import { withUsageContext } from '../ai/usage.js';
 import type { ConversationMemory } from '../memory/index.js';
 import type { ToolRegistry } from '../tools/index.js';
-import type { ToolsConfig } from '../config/schema.js';
+import type { AINodesConfig, ToolsConfig } from '../config/schema.js';
+import type { ImageGenerator } from '../ai/images/index.js';
+import type { PersonaResolver } from '../persona/index.js';
+import type { AccessControl } from '../acl/index.js';
+import type { PromptSource } from '../prompts/index.js';
 
 /**
  * Intent 路由条件函数
@@ -36,74 +45,92 @@ function createIgnoreNode() {
 export interface AgentGraphConfig {
   models: ModelRegistry;
   logger: Logger;
-  memory?: ConversationMemory;
+  memory?: ConversationMemory | undefined;
   /** 工具注册表（可选，如果提供则启用工具执行器） */
-  tools?: ToolRegistry;
+  tools?: ToolRegistry | undefined;
   /** 工具配置（可选） */
   toolsConfig?: ToolsConfig;
+  /** 会话指定的模型（可选，目标配置的 model 或 /model 切换），优先于 nodeModels 用于所有节点 */
+  modelOverride?: string | undefined;
+  /** 各节点的模型分配（可选，来自 ai.nodes；未配置的节点使用默认模型） */
+  nodeModels?: AINodesConfig | undefined;
+  /** 当前人设（可选，每轮读取以支持运行时切换；未提供时使用默认人设） */
+  persona?: PersonaResolver | undefined;
+  /** 提示词来源（可选，每轮渲染以支持模板热更新；未提供时使用内置模板） */
+  prompts?: PromptSource | undefined;
+  /** 图片生成器（可选，如果提供则启用图片执行器） */
+  imageGenerator?: ImageGenerator | null | undefined;
+  /** 访问控制（可选，提供时按发送者身份检查工具权限） */
+  access?: AccessControl | undefined;
 }
 
+type AgentNode = (
+  state: AgentStateType,
+  config?: LangGraphRunnableConfig
+) => Promise<Partial<AgentStateType>>;
+
+/** 可单独分配模型的节点 */
+type ModelNode = keyof AINodesConfig;
+
 /**
- * 创建 Agent 工作流图（无工具版本）
+ * 节点解析后的模型
  */
-function createGraphWithoutTools(
-  summaryNode: ReturnType<typeof createSummaryNode>,
-  intentNode: ReturnType<typeof createIntentNode>,
-  ignoreNode: ReturnType<typeof createIgnoreNode>,
-  planNode: ReturnType<typeof createPlanNode>,
-  routerNode: ReturnType<typeof createRouterNode>,
-  chatExecutorNode: ReturnType<typeof createChatExecutorNode>,
-  wrapNode: <T extends (state: AgentStateType) => Promise<Partial<AgentStateType>>>(
-    name: string,
-    node: T
-  ) => (state: AgentStateType) => Promise<Partial<AgentStateType>>
-) {
-  return new StateGraph(AgentState)
-    .addNode('summarizer', wrapNode('summarizer', summaryNode))
-    .addNode('intentRecognizer', wrapNode('intentRecognizer', intentNode))
-    .addNode('ignoreHandler', wrapNode('ignoreHandler', ignoreNode))
-    .addNode('planner', wrapNode('planner', planNode))
-    .addNode('router', wrapNode('router', routerNode))
-    .addNode('chatExecutor', wrapNode('chatExecutor', chatExecutorNode))
-    .addEdge('__start__', 'summarizer')
-    .addEdge('summarizer', 'intentRecognizer')
-    .addConditionalEdges('intentRecognizer', routeAfterIntent, {
-      ignore: 'ignoreHandler',
-      continue: 'planner',
-    })
-    .addEdge('ignoreHandler', END)
-    .addEdge('planner', 'router')
-    .addConditionalEdges('router', routeToExecutor, {
-      chat: 'chatExecutor',
-    })
-    .addEdge('chatExecutor', END)
-    .compile();
+interface NodeModel {
+  /** 回退链中的模型名称，第一个为主模型 */
+  names: string[];
+  model: BaseChatModel;
+  /** 本次节点执行实际使用的模型名称 */
+  used(): string;
+  /** 节点执行前清除上次的使用记录 */
+  reset(): void;
+}
+
+interface GraphNodes {
+  summarizer: AgentNode;
+  intentRecognizer: AgentNode;
+  ignoreHandler: AgentNode;
+  planner: AgentNode;
+  router: AgentNode;
+  /** 执行器节点，key 为 Plan.executorType，必须包含 chat */
+  executors: Record<string, AgentNode>;
 }
 
 /**
- * 创建 Agent 工作流图（带工具版本）
+ * 组装 Agent 工作流图
+ *
+ * 执行器按需接入：每个执行器注册为 `${type}Executor` 节点，
+ * Router 选择了未接入的执行器时回退到 chat
  */
-function createGraphWithTools(
-  summaryNode: ReturnType<typeof createSummaryNode>,
-  intentNode: ReturnType<typeof createIntentNode>,
-  ignoreNode: ReturnType<typeof createIgnoreNode>,
-  planNode: ReturnType<typeof createPlanNode>,
-  routerNode: ReturnType<typeof createRouterNode>,
-  chatExecutorNode: ReturnType<typeof createChatExecutorNode>,
-  toolExecutorNode: ReturnType<typeof createToolExecutorNode>,
-  wrapNode: <T extends (state: AgentStateType) => Promise<Partial<AgentStateType>>>(
-    name: string,
-    node: T
-  ) => (state: AgentStateType) => Promise<Partial<AgentStateType>>
-) {
-  return new StateGraph(AgentState)
-    .addNode('summarizer', wrapNode('summarizer', summaryNode))
-    .addNode('intentRecognizer', wrapNode('intentRecognizer', intentNode))
-    .addNode('ignoreHandler', wrapNode('ignoreHandler', ignoreNode))
-    .addNode('planner', wrapNode('planner', planNode))
-    .addNode('router', wrapNode('router', routerNode))
-    .addNode('chatExecutor', wrapNode('chatExecutor', chatExecutorNode))
-    .addNode('toolExecutor', wrapNode('toolExecutor', toolExecutorNode))
+function buildGraph(nodes: GraphNodes) {
+  // 节点集合在运行时决定，以字符串作为节点名类型
+  const graph = new StateGraph(AgentState) as unknown as StateGraph<
+    typeof AgentState.spec,
+    AgentStateType,
+    Partial<AgentStateType>,
+    string
+  >;
+
+  graph
+    .addNode('summarizer', nodes.summarizer)
+    .addNode('intentRecognizer', nodes.intentRecognizer)
+    .addNode('ignoreHandler', nodes.ignoreHandler)
+    .addNode('planner', nodes.planner)
+    .addNode('router', nodes.router);
+
+  const executorTargets: Record<string, string> = {};
+  for (const [type, node] of Object.entries(nodes.executors)) {
+    const nodeName = `${type}Executor`;
+    graph.addNode(nodeName, node);
+    graph.addEdge(nodeName, END);
+    executorTargets[type] = nodeName;
+  }
+
+  const routeToAvailableExecutor = (state: AgentStateType): string => {
+    const executorType = routeToExecutor(state);
+    return executorType in executorTargets ? executorType : 'chat';
+  };
+
+  return graph
     .addEdge('__start__', 'summarizer')
     .addEdge('summarizer', 'intentRecognizer')
     .addConditionalEdges('intentRecognizer', routeAfterIntent, {
@@ -112,12 +139,7 @@ function createGraphWithTools(
     })
     .addEdge('ignoreHandler', END)
     .addEdge('planner', 'router')
-    .addConditionalEdges('router', routeToExecutor, {
-      chat: 'chatExecutor',
-      tool: 'toolExecutor',
-    })
-    .addEdge('chatExecutor', END)
-    .addEdge('toolExecutor', END)
+    .addConditionalEdges('router', routeToAvailableExecutor, executorTargets)
     .compile();
 }
 
@@ -131,30 +153,62 @@ function createGraphWithTools(
  * 4. Router：根据计划选择执行器
  * 5. Executor：执行对话/任务，生成回复
  *
- * 节点模型分配策略：
- * - summary：文本压缩，轻量任务，优先使用 "glm"（快速、低成本）
- * - intent / plan：决策关键节点，使用默认模型（高质量，保证准确性）
- * - chat / tool executor：核心功能，使用默认模型（高质量）
- * - 若指定模型未配置，自动回退到默认模型
+ * 节点模型分配：
+ * - nodeModels（ai.nodes）为节点指定模型，数组为回退链，主模型抛出错误时依次改用后面的模型
+ * - 未配置的节点使用默认模型
+ * - 传入 modelOverride（按目标会话指定）时所有节点都使用该模型，不再按 nodeModels 分配
+ * - 每次运行实际使用的模型记录在 state.models，发生回退时记录 warn 日志
  */
 export function createAgentGraph(config: AgentGraphConfig) {
-  const { models, logger, memory, tools, toolsConfig } = config;
+  const { models, logger, memory, tools, toolsConfig, persona, prompts, imageGenerator, access } =
+    config;
   const agentLogger = logger.child('AgentGraph');
 
-  const fastModel = models.has('glm') ? models.get('glm') : models.getDefault();
-  const primaryModel = models.getDefault();
+  const resolveNodeModel = (node: ModelNode): NodeModel => {
+    const assignment =
+      config.modelOverride ?? config.nodeModels?.[node] ?? models.getDefaultName();
+    const names = typeof assignment === 'string' ? [assignment] : assignment;
 
-  const fastModelName = models.has('glm') ? 'glm' : models.getDefaultName();
-  const primaryModelName = models.getDefaultName();
+    const model = createModelChain(names, (name) => models.get(name), {
+      onFallback: (event) => {
+        agentLogger.warn('Model fallback', { node, ...event });
+      },
+    });
+    const chain = model instanceof ChainedChatModel ? model : undefined;
+
+    return {
+      names,
+      model,
+      used: () => servedModelName(model, names[0]!),
+      reset: () => {
+        if (chain) {
+          chain.lastUsed = undefined;
+        }
+      },
+    };
+  };
 
   const hasTools = tools && tools.size > 0;
 
+  const nodeModels = {
+    summary: resolveNodeModel('summary'),
+    intent: resolveNodeModel('intent'),
+    plan: resolveNodeModel('plan'),
+    chat: resolveNodeModel('chat'),
+    tool: resolveNodeModel('tool'),
+    image: resolveNodeModel('image'),
+  };
+  const describeChain = (node: NodeModel) => node.names.join(' -> ');
+
   agentLogger.info('Node model assignment', {
-    summary: fastModelName,
-    intent: primaryModelName,
-    plan: primaryModelName,
-    chat: primaryModelName,
-    tool: hasTools ? primaryModelName : 'disabled',
+    summary: describeChain(nodeModels.summary),
+    intent: describeChain(nodeModels.intent),
+    plan: describeChain(nodeModels.plan),
+    chat: describeChain(nodeModels.chat),
+    tool: hasTools ? describeChain(nodeModels.tool) : 'disabled',
+    image: imageGenerator
+      ? `${describeChain(nodeModels.image)} + ${imageGenerator.name}`
+      : 'disabled',
   });
 
   if (hasTools) {
@@ -164,32 +218,55 @@ export function createAgentGraph(config: AgentGraphConfig) {
     });
   }
 
+  // 回退链中的模型可能互相替换，输入能力和原生结构化输出要求链中模型都支持
+  // （registry 的能力检查同时包含各模型的故障转移候选）
+  const chatNames = nodeModels.chat.names;
+  const supportsStructuredOutput = (node: NodeModel) =>
+    node.names.every((name) => models.supportsStructuredOutput(name));
+
   // 创建各个节点
-  const summaryNode = createSummaryNode(fastModel);
-  const intentNode = createIntentNode(primaryModel);
+  const summaryNode = createSummaryNode(nodeModels.summary.model, { persona, prompts });
+  const intentNode = createIntentNode(nodeModels.intent.model, {
+    prompts,
+    structuredOutput: supportsStructuredOutput(nodeModels.intent),
+  });
   const ignoreNode = createIgnoreNode();
 
   // Plan 节点需要工具描述
-  const planNode = createPlanNode(primaryModel, {
+  const planNode = createPlanNode(nodeModels.plan.model, {
     toolDescriptions: hasTools ? tools.getToolDescriptions() : undefined,
+    imageGeneration: !!imageGenerator,
+    prompts,
+    structuredOutput: supportsStructuredOutput(nodeModels.plan),
   });
 
   const routerNode = createRouterNode();
-  const chatExecutorNode = createChatExecutorNode(primaryModel, memory);
+  const chatExecutorNode = createChatExecutorNode(nodeModels.chat.model, memory, {
+    persona,
+    prompts,
+    vision: chatNames.every((name) => models.supportsVision(name)),
+    pdf: chatNames.every((name) => models.supportsPdf(name)),
+  });
 
   // 包装节点以添加日志
-  const wrapNode = <T extends (state: AgentStateType) => Promise<Partial<AgentStateType>>>(
-    name: string,
-    node: T
-  ) => {
-    return async (state: AgentStateType): Promise<Partial<AgentStateType>> => {
+  // 传入 modelNode 时把本次实际使用的模型记录到 state.models
+  const wrapNode = (name: string, node: AgentNode, modelNode?: ModelNode): AgentNode => {
+    return async (state, runConfig) => {
       agentLogger.debug(`Entering node: ${name}`);
       const startTime = Date.now();
+      const nodeModel = modelNode ? nodeModels[modelNode] : undefined;
+      nodeModel?.reset();
 
       try {
-        const result = await node(state);
+        // 节点内的 LLM 调用按节点统计 token 和费用
+        const result = await withUsageContext({ node: modelNode ?? name }, () =>
+          node(state, runConfig)
+        );
         const duration = Date.now() - startTime;
         agentLogger.debug(`Exiting node: ${name}`, { durationMs: duration });
+        if (modelNode && nodeModel) {
+          return { ...result, models: { [modelNode]: nodeModel.used() } };
+        }
         return result;
       } catch (error) {
         agentLogger.error(`Error in node: ${name}`, {
@@ -200,35 +277,39 @@ export function createAgentGraph(config: AgentGraphConfig) {
     };
   };
 
-  // 根据是否有工具，选择不同的图结构
+  const executors: Record<string, AgentNode> = {
+    chat: wrapNode('chatExecutor', chatExecutorNode, 'chat'),
+  };
+
   if (hasTools) {
     const toolExecutorNode = createToolExecutorNode(
-      primaryModel,
+      nodeModels.tool.model,
       tools,
       memory,
-      toolsConfig
+      toolsConfig,
+      { persona, prompts, access }
     );
-    return createGraphWithTools(
-      summaryNode,
-      intentNode,
-      ignoreNode,
-      planNode,
-      routerNode,
-      chatExecutorNode,
-      toolExecutorNode,
-      wrapNode
+    executors['tool'] = wrapNode('toolExecutor', toolExecutorNode, 'tool');
+  }
+
+  if (imageGenerator) {
+    const imageExecutorNode = createImageExecutorNode(
+      nodeModels.image.model,
+      imageGenerator,
+      memory,
+      { persona, prompts, structuredOutput: supportsStructuredOutput(nodeModels.image) }
     );
+    executors['image'] = wrapNode('imageExecutor', imageExecutorNode, 'image');
   }
 
-  return createGraphWithoutTools(
-    summaryNode,
-    intentNode,
-    ignoreNode,
-    planNode,
-    routerNode,
-    chatExecutorNode,
-    wrapNode
-  );
+  return buildGraph({
+    summarizer: wrapNode('summarizer', summaryNode, 'summary'),
+    intentRecognizer: wrapNode('intentRecognizer', intentNode, 'intent'),
+    ignoreHandler: wrapNode('ignoreHandler', ignoreNode),
+    planner: wrapNode('planner', planNode, 'plan'),
+    router: wrapNode('router', routerNode),
+    executors,
+  });
 }
 
 export type CompiledAgentGraph = ReturnType<typeof createAgentGraph>;
@@ -1,2 +1,9 @@
 export { AgentState, type AgentStateType, type Intent, type Plan } from './state.js';
 export { createAgentGraph, type CompiledAgentGraph } from './graph.js';
+export { buildReply, findTriggerMessage } from './reply.js';
+export {
+  StreamSegmenter,
+  getReplyStream,
+  type ReplyStream,
+  type ReplyStreamOptions,
+} from './streaming.js';
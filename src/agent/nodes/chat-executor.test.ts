@@ -4,6 +4,8 @@ import type { AgentStateType, Intent } from '../state.js';
 import type { AggregatedMessages } from '../../pipeline/index.js';
 import type { NormalizedMessage } from '../../onebot/message-normalizer.js';
 import type { Attachment } from '../../onebot/types.js';
+import { DEFAULT_PERSONA } from '../../persona/index.js';
+import type { PromptName, PromptVariables } from '../../prompts/index.js';
 
 // Helper to create mock AggregatedMessages
 function createMockInput(options: {
@@ -103,6 +105,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -137,6 +142,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -170,6 +178,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -197,6 +208,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -224,6 +238,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -245,6 +262,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -271,6 +291,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -280,6 +303,46 @@ describe('ChatExecutorNode', () => {
     });
   });
 
+  describe('structured reply', () => {
+    it('should return reply quoting the trigger message with markup parsed', async () => {
+      const model = createMockModel('[@User2] 你们说的是这个吗 [图片:https://example.com/a.png]');
+      const memory = createMockMemory(null);
+      const node = createChatExecutorNode(model as never, memory as never);
+
+      const input = createMockInput({
+        count: 2,
+        attachments: [
+          { type: 'image', filename: 'a.png', url: 'https://example.com/a.png', mimeType: 'image/png' },
+        ],
+      });
+      const state: AgentStateType = {
+        input,
+        summary: '闲聊',
+        intent: undefined,
+        plan: undefined,
+        executorType: 'chat',
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      const result = await node(state);
+
+      expect(result.reply).toEqual({
+        text: '你们说的是这个吗',
+        replyTo: input.messages[0]!.messageId,
+        mentions: [input.messages[1]!.userId],
+        media: [{ type: 'image', file: 'https://example.com/a.png' }],
+      });
+      expect(result.response).toBe('你们说的是这个吗');
+      expect(memory.addTurn).toHaveBeenCalledWith(input, '你们说的是这个吗');
+    });
+  });
+
   describe('attachment handling', () => {
     it('should handle image attachments', async () => {
       const model = createMockModel('Nice picture!');
@@ -305,6 +368,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -344,6 +410,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -380,6 +449,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -390,6 +462,97 @@ describe('ChatExecutorNode', () => {
       expect(content.some((c) => c.type === 'file' && c.mimeType === 'application/pdf')).toBe(true);
     });
 
+    it('should send extracted document chunks and note truncation', async () => {
+      const model = createMockModel('Read it');
+      const node = createChatExecutorNode(model as never);
+
+      const attachments: Attachment[] = [
+        {
+          type: 'file',
+          url: 'http://example.com/report.docx',
+          filename: 'report.docx',
+          mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          base64Data: 'docx_data',
+          textChunks: ['第一段', '第二段'],
+          totalChunks: 3,
+        },
+      ];
+
+      const state: AgentStateType = {
+        input: createMockInput({ attachments }),
+        summary: undefined,
+        intent: undefined,
+        plan: undefined,
+        executorType: 'chat',
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      await node(state);
+
+      const invokeCall = model.invoke.mock.calls[0]!;
+      const humanMessage = invokeCall[0][1];
+      const content = humanMessage.content as Array<{ type: string; text?: string }>;
+      expect(content.slice(1).map((block) => block.text)).toEqual([
+        '[文件: report.docx（第 1/3 段）]\n第一段',
+        '[文件: report.docx（第 2/3 段）]\n第二段',
+        '[文件: report.docx 内容过长，仅提供了前 2/3 段]',
+      ]);
+    });
+
+    it('should send extracted PDF text to models without file block support', async () => {
+      const model = createMockModel('Read it');
+      const node = createChatExecutorNode(model as never, undefined, { pdf: false });
+
+      const attachments: Attachment[] = [
+        {
+          type: 'file',
+          url: 'http://example.com/doc.pdf',
+          filename: 'doc.pdf',
+          mimeType: 'application/pdf',
+          base64Data: 'pdf_data',
+          textChunks: ['PDF 正文'],
+          totalChunks: 1,
+        },
+        {
+          type: 'file',
+          url: 'http://example.com/scan.pdf',
+          filename: 'scan.pdf',
+          mimeType: 'application/pdf',
+          base64Data: 'pdf_data',
+        },
+      ];
+
+      const state: AgentStateType = {
+        input: createMockInput({ attachments }),
+        summary: undefined,
+        intent: undefined,
+        plan: undefined,
+        executorType: 'chat',
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      await node(state);
+
+      const invokeCall = model.invoke.mock.calls[0]!;
+      const humanMessage = invokeCall[0][1];
+      const content = humanMessage.content as Array<{ type: string; text?: string }>;
+      expect(content.every((block) => block.type === 'text')).toBe(true);
+      expect(content[1]!.text).toBe('[文件: doc.pdf]\nPDF 正文');
+      expect(content[2]!.text).toContain('[PDF 文件: scan.pdf]');
+    });
+
     it('should handle audio attachments with placeholder', async () => {
       const model = createMockModel('Audio noted');
       const node = createChatExecutorNode(model as never);
@@ -414,6 +577,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -425,6 +591,43 @@ describe('ChatExecutorNode', () => {
       expect(audioBlock).toBeDefined();
     });
 
+    it('should not add blocks for transcribed audio', async () => {
+      const model = createMockModel('Got it');
+      const node = createChatExecutorNode(model as never);
+
+      const attachments: Attachment[] = [
+        {
+          type: 'audio',
+          url: 'http://example.com/voice.amr',
+          filename: 'voice.amr',
+          mimeType: 'audio/amr',
+          base64Data: 'audio_data',
+          transcript: '今天吃什么',
+        },
+      ];
+
+      const state: AgentStateType = {
+        input: createMockInput({ attachments }),
+        summary: undefined,
+        intent: undefined,
+        plan: undefined,
+        executorType: 'chat',
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      await node(state);
+
+      const invokeCall = model.invoke.mock.calls[0]!;
+      const humanMessage = invokeCall[0][1];
+      expect(typeof humanMessage.content).toBe('string');
+    });
+
     it('should handle video attachments with placeholder', async () => {
       const model = createMockModel('Video noted');
       const node = createChatExecutorNode(model as never);
@@ -449,6 +652,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -460,6 +666,101 @@ describe('ChatExecutorNode', () => {
       expect(videoBlock).toBeDefined();
     });
 
+    it('should send extracted video frames as images', async () => {
+      const model = createMockModel('Nice clip');
+      const node = createChatExecutorNode(model as never);
+
+      const attachments: Attachment[] = [
+        {
+          type: 'video',
+          url: 'http://example.com/video.mp4',
+          filename: 'clip.mp4',
+          mimeType: 'video/mp4',
+          base64Data: 'video_data',
+          durationSeconds: 12,
+          frames: ['frame_1', 'frame_2'],
+        },
+      ];
+
+      const state: AgentStateType = {
+        input: createMockInput({ attachments }),
+        summary: undefined,
+        intent: undefined,
+        plan: undefined,
+        executorType: 'chat',
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      await node(state);
+
+      const invokeCall = model.invoke.mock.calls[0]!;
+      const humanMessage = invokeCall[0][1];
+      const content = humanMessage.content as Array<{ type: string; text?: string; data?: string }>;
+      expect(content[1]).toEqual({
+        type: 'text',
+        text: '[视频: clip.mp4，时长 12 秒，以下为 2 帧按时间顺序截取的画面]',
+      });
+      expect(content.slice(2)).toEqual([
+        { type: 'image', data: 'frame_1', mimeType: 'image/jpeg' },
+        { type: 'image', data: 'frame_2', mimeType: 'image/jpeg' },
+      ]);
+    });
+
+    it('should describe videos and images in text for models without vision', async () => {
+      const model = createMockModel('Nice clip');
+      const node = createChatExecutorNode(model as never, undefined, { vision: false });
+
+      const attachments: Attachment[] = [
+        {
+          type: 'video',
+          url: 'http://example.com/video.mp4',
+          filename: 'clip.mp4',
+          mimeType: 'video/mp4',
+          base64Data: 'video_data',
+          durationSeconds: 12,
+          frames: ['frame_1'],
+          description: '一只猫在跳',
+        },
+        {
+          type: 'image',
+          url: 'http://example.com/a.jpg',
+          filename: 'a.jpg',
+          mimeType: 'image/jpeg',
+          base64Data: 'image_data',
+        },
+      ];
+
+      const state: AgentStateType = {
+        input: createMockInput({ attachments }),
+        summary: undefined,
+        intent: undefined,
+        plan: undefined,
+        executorType: 'chat',
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      await node(state);
+
+      const invokeCall = model.invoke.mock.calls[0]!;
+      const humanMessage = invokeCall[0][1];
+      const content = humanMessage.content as Array<{ type: string; text?: string }>;
+      expect(content.every((block) => block.type === 'text')).toBe(true);
+      expect(content[1]!.text).toBe('[视频: clip.mp4，时长 12 秒] 画面描述: 一只猫在跳');
+      expect(content[2]!.text).toBe('[图片: a.jpg]（当前模型无法查看图片）');
+    });
+
     it('should handle failed attachment downloads with placeholder', async () => {
       const model = createMockModel('Attachment failed');
       const node = createChatExecutorNode(model as never);
@@ -484,6 +785,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -519,6 +823,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -546,6 +853,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -574,6 +884,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -598,6 +911,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -623,6 +939,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -652,6 +971,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -660,6 +982,100 @@ describe('ChatExecutorNode', () => {
     });
   });
 
+  describe('streaming', () => {
+    function createStreamingModel(deltas: string[], error?: Error) {
+      return {
+        invoke: vi.fn(),
+        stream: vi.fn(async () =>
+          (async function* () {
+            for (const delta of deltas) {
+              yield { content: delta };
+            }
+            if (error) {
+              throw error;
+            }
+          })()
+        ),
+      };
+    }
+
+    function createReplyStream() {
+      return {
+        options: { flushOn: 'sentence' as const, minChars: 1 },
+        onToken: vi.fn(),
+        onSegment: vi.fn(),
+      };
+    }
+
+    function createState(input: AggregatedMessages): AgentStateType {
+      return {
+        input,
+        summary: undefined,
+        intent: undefined,
+        plan: undefined,
+        executorType: 'chat',
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+    }
+
+    it('should stream sentences as separate segments when a reply stream is given', async () => {
+      const model = createStreamingModel(['第一句', '话。第二', '句话！', '[@User1] 结尾']);
+      const memory = createMockMemory(null);
+      const replyStream = createReplyStream();
+      const node = createChatExecutorNode(model as never, memory as never);
+      const input = createMockInput({});
+
+      const result = await node(createState(input), { configurable: { replyStream } });
+
+      expect(model.invoke).not.toHaveBeenCalled();
+      expect(replyStream.onToken.mock.calls.map((call) => call[0])).toEqual([
+        '第一句',
+        '话。第二',
+        '句话！',
+        '[@User1] 结尾',
+      ]);
+      expect(replyStream.onSegment.mock.calls.map((call) => call[0])).toEqual([
+        { text: '第一句话。', replyTo: input.messages[0]!.messageId },
+        { text: '第二句话！' },
+        { text: '结尾', mentions: [10001] },
+      ]);
+      expect(result.response).toBe('第一句话。第二句话！ 结尾');
+      expect(memory.addTurn).toHaveBeenCalledWith(input, '第一句话。第二句话！ 结尾');
+    });
+
+    it('should report errors after partially streamed output', async () => {
+      const model = createStreamingModel(['第一句话。', '第二'], new Error('stream broken'));
+      const replyStream = createReplyStream();
+      const node = createChatExecutorNode(model as never);
+
+      const result = await node(createState(createMockInput({})), {
+        configurable: { replyStream },
+      });
+
+      // 已完成的句子已发出，未完成的部分丢弃
+      expect(replyStream.onSegment).toHaveBeenCalledTimes(1);
+      expect(result.error).toBe('stream broken');
+      expect(result.response).toBe('抱歉，我现在有点问题，稍后再试吧。');
+    });
+
+    it('should invoke the model when no reply stream is given', async () => {
+      const model = createStreamingModel([]);
+      model.invoke.mockResolvedValue({ content: '你好' });
+      const node = createChatExecutorNode(model as never);
+
+      const result = await node(createState(createMockInput({})));
+
+      expect(model.stream).not.toHaveBeenCalled();
+      expect(result.response).toBe('你好');
+    });
+  });
+
   describe('system prompt', () => {
     it('should use correct system prompt', async () => {
       const model = createMockModel('Hi');
@@ -675,6 +1091,9 @@ describe('ChatExecutorNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -685,5 +1104,84 @@ describe('ChatExecutorNode', () => {
       expect(systemMessage.content).toContain('葫芦娃');
       expect(systemMessage.content).toContain('[→@我]');
     });
+    it('should build the system prompt from the active persona', async () => {
+      const model = createMockModel('Hi');
+      let persona = DEFAULT_PERSONA;
+      const node = createChatExecutorNode(model as never, undefined, { persona: () => persona });
+
+      const state: AgentStateType = {
+        input: createMockInput({}),
+        summary: undefined,
+        intent: undefined,
+        plan: undefined,
+        executorType: 'chat',
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      await node(state);
+      persona = {
+        name: 'Tutor',
+        systemPrompt: '你是一位耐心的编程老师。',
+        language: 'English',
+        replyLength: 'long',
+        markdown: true,
+      };
+      await node(state);
+
+      const [first, second] = model.invoke.mock.calls.map((call) => call[0][0].content);
+      expect(first).toContain('不要使用 markdown 格式');
+      expect(second).toContain('你是 Tutor，在群聊中与用户对话');
+      expect(second).toContain('你是一位耐心的编程老师。');
+      expect(second).toContain('用English回复');
+      expect(second).toContain('可以给出详细、完整的回答');
+      expect(second).toContain('可以使用简单的 markdown 格式');
+      expect(second).toContain('不要说"Tutor"');
+      expect(second).not.toContain('Huluwa');
+    });
+
+    it('should render the template from the prompt source and record its version', async () => {
+      const model = createMockModel('Hi');
+      const prompts = {
+        render: vi.fn((name: PromptName, variables: PromptVariables = {}) => ({
+          name,
+          version: 'chat-v2',
+          text: `我是 ${variables['identity']}。`,
+        })),
+      };
+      const node = createChatExecutorNode(model as never, undefined, { prompts });
+
+      const state: AgentStateType = {
+        input: createMockInput({}),
+        summary: undefined,
+        intent: undefined,
+        plan: undefined,
+        executorType: 'chat',
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      const result = await node(state);
+
+      expect(prompts.render).toHaveBeenCalledWith(
+        'chatExecutor',
+        expect.objectContaining({
+          identity: 'Huluwa（葫芦娃）',
+          rules: expect.stringContaining('1. 只回复 [→@我] 标记的消息'),
+        })
+      );
+      expect(model.invoke.mock.calls[0]![0][0].content).toBe('我是 Huluwa（葫芦娃）。');
+      expect(result.promptVersions).toEqual({ chatExecutor: 'chat-v2' });
+    });
   });
 });
@@ -1,45 +1,148 @@
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { HumanMessage, SystemMessage } from '@langchain/core/messages';
-import type { MessageContent, ContentBlock } from '@langchain/core/messages';
+import type { BaseMessage, MessageContent, ContentBlock } from '@langchain/core/messages';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
 import type { AgentStateType } from '../state.js';
+import type { AggregatedMessages } from '../../pipeline/index.js';
 import type { Attachment } from '../../onebot/types.js';
 import type { ConversationMemory } from '../../memory/index.js';
+import { isTextMimeType } from '../../media/documents/index.js';
+import {
+  DEFAULT_PERSONA,
+  buildPersonaVariables,
+  buildStyleRules,
+  formatRules,
+  type PersonaResolver,
+} from '../../persona/index.js';
+import {
+  BUILTIN_PROMPT_SOURCE,
+  type PromptSource,
+  type PromptVariables,
+} from '../../prompts/index.js';
+import type { PersonaProfile } from '../../config/schema.js';
 import { extractTargetId } from '../../memory/types.js';
+import { buildReply, REPLY_MARKUP_PROMPT } from '../reply.js';
+import { chunkText, getReplyStream, StreamSegmenter, type ReplyStream } from '../streaming.js';
 
-const CHAT_SYSTEM_PROMPT = `你是 Huluwa（葫芦娃），一个友好的 AI 助手，在群聊中与用户对话。
-
-关于你的身份：
-- 你的名字是 Huluwa（葫芦娃）
-- 当用户 @Huluwa 时，他们是在和你说话
-- 消息中标有 [→@我] 的是直接对你说的话，你需要回复
-- 没有 [→@我] 标记的消息是群友之间的对话，仅作为上下文参考，不需要逐条回复
-
-规则：
-1. 回复要简洁、自然，像朋友聊天一样
-2. 只回复 [→@我] 标记的消息，其他消息作为上下文理解即可
-3. 用中文回复
-4. 不要过度正式，保持轻松的语气
-5. 回复不要太长，通常 1-3 句话即可
-6. 不要使用 markdown 格式，直接输出纯文本
-7. 如果用户发送了图片或文件，请根据内容进行回复
-8. 用第一人称"我"来称呼自己，不要说"Huluwa"`;
-
-/** 判断 MIME 类型是否为文本类 */
-function isTextMime(mimeType: string): boolean {
-  return (
-    mimeType.startsWith('text/') ||
-    mimeType === 'application/json' ||
-    mimeType === 'application/xml'
-  );
+/** 说明消息中引用和合并转发的格式（聊天和工具执行器共用） */
+export const MESSAGE_CONTEXT_PROMPT = `消息格式：
+- 发送者昵称后的 [群主] / [管理员] 表示其群身份，涉及群管理的请求只认可群主和管理员
+- 消息中的 @名称 表示提到了某位群友
+- 消息下方缩进的 [引用 昵称] 是该消息引用的原消息，用户的问题往往针对引用内容
+- 缩进的 [合并转发] 是用户转发的聊天记录，其下每行是一条被转发的消息`;
+
+/**
+ * 主动发言时的上下文说明（聊天和工具执行器共用），不是主动发言时为空
+ */
+export function formatProactiveContext(input: AggregatedMessages): string {
+  if (!input.proactive) {
+    return '';
+  }
+  return `[主动发言] 没有人 @你，你决定主动加入对话（${input.proactive}）。像群友一样自然地接话，简短回复，不要解释自己为什么出现\n\n`;
+}
+
+/**
+ * 构建对话执行器模板的变量
+ */
+function buildChatPromptVariables(persona: PersonaProfile): PromptVariables {
+  const styleRules = buildStyleRules(persona);
+  const rules = [
+    '只回复 [→@我] 标记的消息，其他消息作为上下文理解即可',
+    ...styleRules,
+    '如果用户发送了图片或文件，请根据内容进行回复',
+    `用第一人称"我"来称呼自己，不要说"${persona.name}"`,
+  ];
+
+  return {
+    ...buildPersonaVariables(persona),
+    rules: formatRules(rules),
+    styleRules: formatRules(styleRules),
+    messageContext: MESSAGE_CONTEXT_PROMPT,
+    replyMarkup: REPLY_MARKUP_PROMPT,
+  };
+}
+
+export interface ChatExecutorConfig {
+  /** 当前人设，未提供时使用默认人设 */
+  persona?: PersonaResolver | undefined;
+  /** 提示词来源，未提供时使用内置模板 */
+  prompts?: PromptSource | undefined;
+  /** 模型是否支持图片输入，默认 true；不支持时图片和视频画面以文字代替 */
+  vision?: boolean | undefined;
+  /** 模型是否接受 PDF file block，默认 true；不接受时使用提取的文本 */
+  pdf?: boolean | undefined;
+}
+
+interface AttachmentCapabilities {
+  vision: boolean;
+  pdf: boolean;
+}
+
+/** 视频附件：支持图片的模型直接查看抽取的画面帧，否则使用画面描述 */
+function buildVideoBlocks(att: Attachment, frames: string[], vision: boolean): ContentBlock[] {
+  const duration = att.durationSeconds !== undefined ? `，时长 ${att.durationSeconds} 秒` : '';
+
+  if (!vision) {
+    const description = att.description
+      ? `画面描述: ${att.description}`
+      : '（当前模型无法查看画面）';
+    return [{ type: 'text' as const, text: `[视频: ${att.filename}${duration}] ${description}` }];
+  }
+
+  return [
+    {
+      type: 'text' as const,
+      text: `[视频: ${att.filename}${duration}，以下为 ${frames.length} 帧按时间顺序截取的画面]`,
+    },
+    ...frames.map(
+      (data) => ({ type: 'image' as const, data, mimeType: 'image/jpeg' }) as ContentBlock
+    ),
+  ];
+}
+
+/** 已提取文本的文档：每段一个 text block，被预算截断时追加说明 */
+function buildDocumentBlocks(att: Attachment, chunks: string[]): ContentBlock[] {
+  const total = att.totalChunks ?? chunks.length;
+
+  if (total === 0) {
+    return [{ type: 'text' as const, text: `[文件: ${att.filename}]（未提取到文字内容）` }];
+  }
+
+  const blocks: ContentBlock[] = chunks.map((chunk, index) => ({
+    type: 'text' as const,
+    text:
+      total > 1
+        ? `[文件: ${att.filename}（第 ${index + 1}/${total} 段）]\n${chunk}`
+        : `[文件: ${att.filename}]\n${chunk}`,
+  }));
+
+  if (chunks.length < total) {
+    blocks.push({
+      type: 'text' as const,
+      text: `[文件: ${att.filename} 内容过长，仅提供了前 ${chunks.length}/${total} 段]`,
+    });
+  }
+  return blocks;
 }
 
 /** 将附件转为 LangChain content blocks */
 function buildAttachmentBlocks(
-  attachments: Attachment[]
+  attachments: Attachment[],
+  { vision, pdf }: AttachmentCapabilities
 ): ContentBlock[] {
   const blocks: ContentBlock[] = [];
 
   for (const att of attachments) {
+    // 已转写的语音在消息文本中展示转写结果，不再重复
+    if (att.type === 'audio' && att.transcript) {
+      continue;
+    }
+
+    if (att.type === 'video' && att.frames) {
+      blocks.push(...buildVideoBlocks(att, att.frames, vision));
+      continue;
+    }
+
     if (!att.base64Data) {
       // 下载失败，添加文本占位符
       blocks.push({
@@ -50,6 +153,13 @@ function buildAttachmentBlocks(
     }
 
     if (att.type === 'image') {
+      if (!vision) {
+        blocks.push({
+          type: 'text' as const,
+          text: `[图片: ${att.filename}]（当前模型无法查看图片）`,
+        });
+        continue;
+      }
       blocks.push({
         type: 'image' as const,
         data: att.base64Data,
@@ -59,7 +169,7 @@ function buildAttachmentBlocks(
     }
 
     if (att.type === 'file') {
-      if (att.mimeType === 'application/pdf') {
+      if (att.mimeType === 'application/pdf' && pdf) {
         // PDF → LangChain file block (Anthropic adapter 会转为 document block)
         blocks.push({
           type: 'file' as const,
@@ -69,7 +179,20 @@ function buildAttachmentBlocks(
         continue;
       }
 
-      if (isTextMime(att.mimeType)) {
+      if (att.textChunks) {
+        blocks.push(...buildDocumentBlocks(att, att.textChunks));
+        continue;
+      }
+
+      if (att.mimeType === 'application/pdf') {
+        blocks.push({
+          type: 'text' as const,
+          text: `[PDF 文件: ${att.filename}]（当前模型无法直接读取 PDF，且未能提取文字）`,
+        });
+        continue;
+      }
+
+      if (isTextMimeType(att.mimeType)) {
         // 文本文件 → 解码为文本
         const text = Buffer.from(att.base64Data, 'base64').toString('utf-8');
         blocks.push({
@@ -98,12 +221,76 @@ function buildAttachmentBlocks(
   return blocks;
 }
 
+/**
+ * 流式生成回复，每完成一段即通过 onSegment 发出
+ *
+ * 只有第一段引用触发消息，返回完整的模型输出
+ */
+async function streamResponse(
+  model: BaseChatModel,
+  messages: BaseMessage[],
+  input: AggregatedMessages,
+  replyStream: ReplyStream
+): Promise<string> {
+  const segmenter = new StreamSegmenter(replyStream.options);
+  let content = '';
+  let emitted = 0;
+
+  const emit = (text: string) => {
+    const segment = buildReply(input, text);
+    if (!segment.text && !segment.media?.length) {
+      return;
+    }
+    if (emitted > 0) {
+      delete segment.replyTo;
+    }
+    emitted++;
+    replyStream.onSegment(segment);
+  };
+
+  for await (const chunk of await model.stream(messages)) {
+    const delta = chunkText(chunk.content);
+    if (!delta) {
+      continue;
+    }
+    content += delta;
+    replyStream.onToken?.(delta);
+    for (const segment of segmenter.push(delta)) {
+      emit(segment);
+    }
+  }
+
+  const rest = segmenter.flush();
+  if (rest) {
+    emit(rest);
+  }
+
+  return content;
+}
+
 /**
  * 创建 Chat Executor 节点
+ *
+ * 运行配置中带有 replyStream 时使用 model.stream 边生成边发送
  */
-export function createChatExecutorNode(model: BaseChatModel, memory?: ConversationMemory) {
-  return async (state: AgentStateType): Promise<Partial<AgentStateType>> => {
+export function createChatExecutorNode(
+  model: BaseChatModel,
+  memory?: ConversationMemory,
+  config?: ChatExecutorConfig
+) {
+  const prompts = config?.prompts ?? BUILTIN_PROMPT_SOURCE;
+
+  return async (
+    state: AgentStateType,
+    runConfig?: LangGraphRunnableConfig
+  ): Promise<Partial<AgentStateType>> => {
     const { input, summary, intent } = state;
+    const replyStream = getReplyStream(runConfig);
+    const prompt = prompts.render(
+      'chatExecutor',
+      buildChatPromptVariables(config?.persona?.() ?? DEFAULT_PERSONA)
+    );
+    const promptVersions = { [prompt.name]: prompt.version };
 
     // 获取会话标识
     const isGroup = input.isGroup;
@@ -130,10 +317,14 @@ export function createChatExecutorNode(model: BaseChatModel, memory?: Conversati
       context += `[识别的意图] ${intent.description}\n\n`;
     }
 
+    context += formatProactiveContext(input);
     context += `[当前消息]\n${input.formattedText}`;
 
     // 构建附件 blocks
-    const attachmentBlocks = buildAttachmentBlocks(input.attachments);
+    const attachmentBlocks = buildAttachmentBlocks(input.attachments, {
+      vision: config?.vision ?? true,
+      pdf: config?.pdf ?? true,
+    });
 
     let humanContent: MessageContent;
     if (attachmentBlocks.length > 0) {
@@ -148,27 +339,35 @@ export function createChatExecutorNode(model: BaseChatModel, memory?: Conversati
     }
 
     const messages = [
-      new SystemMessage(CHAT_SYSTEM_PROMPT),
+      new SystemMessage(prompt.text),
       new HumanMessage({ content: humanContent }),
     ];
 
     try {
-      const response = await model.invoke(messages);
-      const content =
-        typeof response.content === 'string'
-          ? response.content
-          : JSON.stringify(response.content);
-
-      // 保存本轮对话到记忆
-      if (memory?.isEnabled() && content) {
-        await memory.addTurn(input, content);
+      let content: string;
+      if (replyStream) {
+        content = await streamResponse(model, messages, input, replyStream);
+      } else {
+        const response = await model.invoke(messages);
+        content =
+          typeof response.content === 'string'
+            ? response.content
+            : JSON.stringify(response.content);
+      }
+
+      const reply = buildReply(input, content);
+
+      // 保存本轮对话到记忆（去掉回复标记后的文本）
+      if (memory?.isEnabled() && reply.text) {
+        await memory.addTurn(input, reply.text);
       }
 
-      return { response: content };
+      return { response: reply.text, reply, promptVersions };
     } catch (error) {
       return {
         error: error instanceof Error ? error.message : String(error),
         response: '抱歉，我现在有点问题，稍后再试吧。',
+        promptVersions,
       };
     }
   };
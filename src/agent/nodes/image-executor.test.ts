@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createImageExecutorNode } from './image-executor.js';
+import type { AgentStateType } from '../state.js';
+import type { AggregatedMessages } from '../../pipeline/index.js';
+import type { NormalizedMessage } from '../../onebot/message-normalizer.js';
+import { StubImageGenerator } from '../../ai/images/index.js';
+
+function createState(text: string): AgentStateType {
+  const msg: NormalizedMessage = {
+    messageId: 42,
+    messageType: 'group',
+    userId: 10001,
+    nickname: '小明',
+    text,
+    timestamp: new Date(),
+    isGroup: true,
+    groupId: 12345,
+    isMentionBot: true,
+    attachments: [],
+  };
+
+  const input: AggregatedMessages = {
+    messages: [msg],
+    count: 1,
+    startTime: new Date(),
+    endTime: new Date(),
+    participants: [{ userId: msg.userId, nickname: msg.nickname, messageCount: 1 }],
+    formattedText: `[小明] [→@我] ${text}`,
+    plainText: text,
+    attachments: [],
+    isGroup: true,
+    groupId: 12345,
+  };
+
+  return {
+    input,
+    summary: undefined,
+    intent: { type: 'command', confidence: 0.9, description: '画图' },
+    plan: undefined,
+    executorType: 'image',
+    response: undefined,
+    error: undefined,
+    toolResults: undefined,
+    toolIterations: undefined,
+    reply: undefined,
+    promptVersions: {},
+    models: {},
+  };
+}
+
+function createMockModel(content: string) {
+  return {
+    invoke: vi.fn().mockResolvedValue({ content }),
+  };
+}
+
+describe('ImageExecutorNode', () => {
+  it('should generate an image from the model prompt and reply with it', async () => {
+    const model = createMockModel(
+      '{"prompt": "a cat wearing a hat", "reply": "给你画了一只戴帽子的猫", "size": "1792x1024"}'
+    );
+    const generator = new StubImageGenerator({ url: 'https://cdn.example.com/cat.png' });
+    const node = createImageExecutorNode(model as never, generator);
+
+    const result = await node(createState('画一只戴帽子的猫，横图'));
+
+    expect(generator.calls).toEqual([{ prompt: 'a cat wearing a hat', size: '1792x1024' }]);
+    expect(result.response).toBe('给你画了一只戴帽子的猫');
+    expect(result.reply).toEqual({
+      text: '给你画了一只戴帽子的猫',
+      replyTo: 42,
+      media: [{ type: 'image', file: 'https://cdn.example.com/cat.png' }],
+    });
+  });
+
+  it('should send base64 images and ignore unsupported sizes', async () => {
+    const model = createMockModel('{"prompt": "a dog", "reply": "好了", "size": "640x480"}');
+    const generator = new StubImageGenerator({ base64: 'iVBORw0KGgo=' });
+    const node = createImageExecutorNode(model as never, generator);
+
+    const result = await node(createState('画只狗'));
+
+    expect(generator.calls[0]).toEqual({ prompt: 'a dog', size: undefined });
+    expect(result.reply?.media).toEqual([{ type: 'image', file: 'base64://iVBORw0KGgo=' }]);
+  });
+
+  it('should fall back to the user text when the model output is not JSON', async () => {
+    const model = createMockModel('好的，我来画');
+    const generator = new StubImageGenerator();
+    const node = createImageExecutorNode(model as never, generator);
+
+    const result = await node(createState('画一片星空'));
+
+    expect(generator.calls[0]?.prompt).toBe('画一片星空');
+    expect(result.response).toBe('画好啦');
+    // 修正重试后仍无法解析，错误记录到状态中
+    expect(model.invoke).toHaveBeenCalledTimes(3);
+    expect(result.error).toContain('image: invalid output');
+  });
+
+  it('should record the turn with the prompt in memory', async () => {
+    const model = createMockModel('{"prompt": "a starry sky", "reply": "星空来了"}');
+    const memory = {
+      isEnabled: vi.fn().mockReturnValue(true),
+      addTurn: vi.fn().mockResolvedValue(undefined),
+    };
+    const node = createImageExecutorNode(model as never, new StubImageGenerator(), memory as never);
+
+    const state = createState('画星空');
+    await node(state);
+
+    expect(memory.addTurn).toHaveBeenCalledWith(state.input, '星空来了\n[图片: a starry sky]');
+  });
+
+  it('should return an error response when generation fails', async () => {
+    const model = createMockModel('{"prompt": "a cat", "reply": "好"}');
+    const generator = new StubImageGenerator(() => {
+      throw new Error('content policy violation');
+    });
+    const node = createImageExecutorNode(model as never, generator);
+
+    const result = await node(createState('画猫'));
+
+    expect(result.error).toBe('content policy violation');
+    expect(result.response).toBe('抱歉，图片没画出来，稍后再试吧。');
+    expect(result.reply).toBeUndefined();
+  });
+
+  it('should use the active persona in the system prompt', async () => {
+    const model = createMockModel('{"prompt": "a cat", "reply": "喵"}');
+    const node = createImageExecutorNode(model as never, new StubImageGenerator(), undefined, {
+      persona: () => ({
+        name: 'Mimi',
+        systemPrompt: '说话带喵',
+        language: '日语',
+        replyLength: 'short',
+        markdown: false,
+      }),
+    });
+
+    await node(createState('画猫'));
+
+    const systemMessage = model.invoke.mock.calls[0]![0][0];
+    expect(systemMessage.content).toContain('你是 Mimi，在群聊中帮用户画图');
+    expect(systemMessage.content).toContain('说话带喵');
+    expect(systemMessage.content).toContain('reply 用日语');
+  });
+});
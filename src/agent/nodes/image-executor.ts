@@ -0,0 +1,121 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { z } from 'zod';
+import type { AgentStateType } from '../state.js';
+import type { ConversationMemory } from '../../memory/index.js';
+import type { GeneratedImage, ImageGenerator } from '../../ai/images/index.js';
+import type { OutgoingMedia } from '../../onebot/types.js';
+import { extractTargetId } from '../../memory/types.js';
+import { buildReply } from '../reply.js';
+import { invokeStructured, StructuredOutputError } from '../structured-output.js';
+import { MESSAGE_CONTEXT_PROMPT } from './chat-executor.js';
+import {
+  DEFAULT_PERSONA,
+  buildPersonaVariables,
+  type PersonaResolver,
+} from '../../persona/index.js';
+import { BUILTIN_PROMPT_SOURCE, type PromptSource } from '../../prompts/index.js';
+
+/** 支持的尺寸 */
+const SUPPORTED_SIZES = new Set(['1024x1024', '1792x1024', '1024x1792']);
+
+export interface ImageExecutorConfig {
+  /** 当前人设，未提供时使用默认人设 */
+  persona?: PersonaResolver | undefined;
+  /** 提示词来源，未提供时使用内置模板 */
+  prompts?: PromptSource | undefined;
+  /** 是否使用模型原生的结构化输出，默认 false（解析 JSON 文本并修正重试） */
+  structuredOutput?: boolean | undefined;
+}
+
+/**
+ * 画图计划的输出格式
+ */
+export const ImagePlanSchema = z.object({
+  prompt: z.string().trim().min(1).describe('交给图片生成服务的提示词'),
+  reply: z.string().trim().default('').describe('随图片发送的文字回复'),
+  size: z.string().optional().describe('图片尺寸'),
+});
+
+type ImagePlan = z.infer<typeof ImagePlanSchema>;
+
+function toOutgoingMedia(image: GeneratedImage): OutgoingMedia {
+  return {
+    type: 'image',
+    file: image.url ?? `base64://${image.base64}`,
+  };
+}
+
+/**
+ * 创建 Image Executor 节点
+ *
+ * 由模型整理画图提示词，调用图片生成服务，以图片消息回复
+ */
+export function createImageExecutorNode(
+  model: BaseChatModel,
+  generator: ImageGenerator,
+  memory?: ConversationMemory,
+  config?: ImageExecutorConfig
+) {
+  const prompts = config?.prompts ?? BUILTIN_PROMPT_SOURCE;
+
+  return async (state: AgentStateType): Promise<Partial<AgentStateType>> => {
+    const { input, intent } = state;
+    const prompt = prompts.render('imageExecutor', {
+      ...buildPersonaVariables(config?.persona?.() ?? DEFAULT_PERSONA),
+      messageContext: MESSAGE_CONTEXT_PROMPT,
+    });
+    const promptVersions = { [prompt.name]: prompt.version };
+
+    let context = '';
+    if (intent) {
+      context += `[识别的意图] ${intent.description}\n\n`;
+    }
+    context += `[当前消息]\n${input.formattedText}`;
+
+    try {
+      // 提示词无法解析时直接使用用户原文，错误记录到状态中
+      let plan: ImagePlan;
+      let planError: string | undefined;
+      try {
+        plan = await invokeStructured(
+          model,
+          [new SystemMessage(prompt.text), new HumanMessage(context)],
+          ImagePlanSchema,
+          { node: 'image', native: config?.structuredOutput ?? false }
+        );
+      } catch (error) {
+        if (!(error instanceof StructuredOutputError)) {
+          throw error;
+        }
+        plan = { prompt: input.plainText, reply: '' };
+        planError = error.message;
+      }
+
+      // 模型给出不支持的尺寸时使用生成器默认尺寸
+      const size = plan.size && SUPPORTED_SIZES.has(plan.size) ? plan.size : undefined;
+      const image = await generator.generate({ prompt: plan.prompt, size });
+
+      const reply = buildReply(input, plan.reply || '画好啦');
+      reply.media = [...(reply.media ?? []), toOutgoingMedia(image)];
+
+      // 记忆中只保存文字回复和提示词，不保存图片内容
+      if (memory?.isEnabled()) {
+        await memory.addTurn(input, `${reply.text}\n[图片: ${plan.prompt}]`);
+      }
+
+      return {
+        response: reply.text,
+        reply,
+        promptVersions,
+        ...(planError !== undefined && { error: planError }),
+      };
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : String(error),
+        response: '抱歉，图片没画出来，稍后再试吧。',
+        promptVersions,
+      };
+    }
+  };
+}
@@ -40,6 +40,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -70,6 +73,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -97,6 +103,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -121,6 +130,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -144,6 +156,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -168,6 +183,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -194,6 +212,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -217,6 +238,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -238,6 +262,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -247,10 +274,16 @@ describe('IntentNode', () => {
   });
 
   describe('intent type validation', () => {
-    it('should return unknown for invalid intent type', async () => {
+    it('should ask the model to repair an invalid intent type', async () => {
       const model = createMockModel(
         '{"type": "invalid_type", "confidence": 0.9, "description": "test"}'
       );
+      model.invoke.mockResolvedValueOnce({
+        content: '{"type": "invalid_type", "confidence": 0.9, "description": "test"}',
+      });
+      model.invoke.mockResolvedValueOnce({
+        content: '{"type": "question", "confidence": 0.9, "description": "test"}',
+      });
       const node = createIntentNode(model as never);
 
       const state: AgentStateType = {
@@ -263,14 +296,22 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
 
-      expect(result.intent?.type).toBe('unknown');
+      expect(result.intent?.type).toBe('question');
+      expect(result.error).toBeUndefined();
+      expect(model.invoke).toHaveBeenCalledTimes(2);
+      const repairMessages = model.invoke.mock.calls[1]![0];
+      expect(repairMessages).toHaveLength(4);
+      expect(repairMessages[3].content).toContain('type');
     });
 
-    it('should return unknown when type is missing', async () => {
+    it('should fall back to chat and report an error when type stays missing', async () => {
       const model = createMockModel('{"confidence": 0.9, "description": "test"}');
       const node = createIntentNode(model as never);
 
@@ -284,11 +325,16 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
 
-      expect(result.intent?.type).toBe('unknown');
+      expect(result.intent?.type).toBe('chat');
+      expect(result.error).toContain('intent: invalid output after 3 attempts');
+      expect(model.invoke).toHaveBeenCalledTimes(3);
     });
   });
 
@@ -307,6 +353,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -316,6 +365,29 @@ describe('IntentNode', () => {
         confidence: 0.5,
         description: 'Default to chat intent',
       });
+      expect(result.error).toContain('不是合法的 JSON');
+    });
+
+    it('should propagate model errors', async () => {
+      const model = { invoke: vi.fn().mockRejectedValue(new Error('network down')) };
+      const node = createIntentNode(model as never);
+
+      const state: AgentStateType = {
+        input: mockInput,
+        summary: '测试',
+        intent: undefined,
+        plan: undefined,
+        executorType: undefined,
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      await expect(node(state)).rejects.toThrow('network down');
     });
 
     it('should return default chat intent for malformed JSON', async () => {
@@ -332,6 +404,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -354,6 +429,9 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -363,11 +441,7 @@ describe('IntentNode', () => {
   });
 
   describe('non-string response content', () => {
-    it('should handle array content by JSON stringifying', async () => {
-      // When content is an array, it gets JSON.stringified
-      // The regex matches the first {...} object which is the wrapper object,
-      // not the embedded intent JSON. The wrapper has type: "text" which is not
-      // a valid intent type, so validateIntentType returns 'unknown'
+    it('should read JSON from text content blocks', async () => {
       const model = {
         invoke: vi.fn().mockResolvedValue({
           content: [
@@ -387,13 +461,45 @@ describe('IntentNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
 
-      // The stringified array produces JSON like [{"type":"text",...}]
-      // The regex matches {"type":"text",...} and "text" is not a valid intent type
-      expect(result.intent?.type).toBe('unknown');
+      expect(result.intent).toEqual({ type: 'chat', confidence: 0.8, description: 'test' });
+    });
+  });
+
+  describe('proactive input', () => {
+    it('should tell the model not to ignore messages without mentions', async () => {
+      const model = createMockModel(
+        '{"type": "question", "confidence": 0.8, "description": "询问部署方式"}'
+      );
+      const node = createIntentNode(model as never);
+
+      const state: AgentStateType = {
+        input: { ...mockInput, proactive: '有人提问后没有人回答' },
+        summary: '有人问怎么部署',
+        intent: undefined,
+        plan: undefined,
+        executorType: undefined,
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      const result = await node(state);
+
+      expect(result.intent?.type).toBe('question');
+      const messages = model.invoke.mock.calls[0]![0] as { content: string }[];
+      expect(messages[1]!.content).toContain('[主动发言]');
+      expect(messages[1]!.content).toContain('有人提问后没有人回答');
     });
   });
 });
@@ -40,6 +40,9 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -65,6 +68,9 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -98,6 +104,9 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -131,6 +140,9 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -161,6 +173,9 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -192,6 +207,9 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -226,6 +244,9 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -234,8 +255,8 @@ describe('PlanNode', () => {
       expect(result.plan?.steps).toHaveLength(1);
     });
 
-    it('should use default values for missing fields', async () => {
-      const model = createMockModel('{"steps": [{}]}');
+    it('should use default values for missing step fields', async () => {
+      const model = createMockModel('{"executorType": "chat", "steps": [{}]}');
       const node = createPlanNode(model as never);
 
       const intent: Intent = {
@@ -254,11 +275,14 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
 
-      expect(result.plan?.executorType).toBe('chat'); // Default
+      expect(result.plan?.executorType).toBe('chat');
       expect(result.plan?.steps[0]).toEqual({
         action: 'reply', // Default
         description: '', // Default
@@ -285,6 +309,9 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -314,6 +341,9 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -322,6 +352,47 @@ describe('PlanNode', () => {
         executorType: 'chat',
         steps: [{ action: 'reply', description: '用户提问关于天气' }],
       });
+      expect(result.error).toContain('plan: invalid output after 3 attempts');
+      expect(model.invoke).toHaveBeenCalledTimes(3);
+    });
+
+    it('should repair a plan without executorType', async () => {
+      const model = createMockModel(
+        '{"executorType": "tool", "steps": [{"action": "search", "description": "搜索"}], "toolHints": ["webSearch"]}'
+      );
+      model.invoke.mockResolvedValueOnce({ content: '{"steps": [{"action": "search"}]}' });
+      const node = createPlanNode(model as never, { toolDescriptions: '- webSearch: 搜索' });
+
+      const intent: Intent = {
+        type: 'question',
+        confidence: 0.8,
+        description: '搜索新闻',
+      };
+
+      const state: AgentStateType = {
+        input: mockInput,
+        summary: '搜索新闻',
+        intent,
+        plan: undefined,
+        executorType: undefined,
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      const result = await node(state);
+
+      expect(result.plan).toEqual({
+        executorType: 'tool',
+        steps: [{ action: 'search', description: '搜索' }],
+        toolHints: ['webSearch'],
+      });
+      expect(result.error).toBeUndefined();
+      expect(model.invoke.mock.calls[1]![0][3].content).toContain('executorType');
     });
 
     it('should return default plan for malformed JSON', async () => {
@@ -344,6 +415,9 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -353,6 +427,47 @@ describe('PlanNode', () => {
     });
   });
 
+  describe('image executor', () => {
+    const commandState = (): AgentStateType => ({
+      input: mockInput,
+      summary: '用户请求画一只猫',
+      intent: { type: 'command', confidence: 0.9, description: '画一只猫' },
+      plan: undefined,
+      executorType: undefined,
+      response: undefined,
+      error: undefined,
+      toolResults: undefined,
+      toolIterations: undefined,
+      reply: undefined,
+      promptVersions: {},
+      models: {},
+    });
+
+    it('should route drawing requests to image when enabled', async () => {
+      const model = createMockModel(
+        '{"executorType": "image", "steps": [{"action": "draw", "description": "画猫"}]}'
+      );
+      const node = createPlanNode(model as never, { imageGeneration: true });
+
+      const result = await node(commandState());
+
+      expect(result.plan?.executorType).toBe('image');
+      const systemMessage = model.invoke.mock.calls[0]![0][0];
+      expect(systemMessage.content).toContain('- image: 生成图片');
+    });
+
+    it('should fall back to chat when image generation is disabled', async () => {
+      const model = createMockModel('{"executorType": "image", "steps": []}');
+      const node = createPlanNode(model as never);
+
+      const result = await node(commandState());
+
+      expect(result.plan?.executorType).toBe('chat');
+      const systemMessage = model.invoke.mock.calls[0]![0][0];
+      expect(systemMessage.content).not.toContain('image');
+    });
+  });
+
   describe('prompt construction', () => {
     it('should include summary and intent in the prompt', async () => {
       const model = createMockModel('{"executorType": "chat", "steps": []}');
@@ -374,6 +489,9 @@ describe('PlanNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -1,62 +1,104 @@
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { z } from 'zod';
 import type { AgentStateType, Plan } from '../state.js';
+import { invokeStructured, StructuredOutputError } from '../structured-output.js';
+import {
+  BUILTIN_PROMPT_SOURCE,
+  type PromptSource,
+  type PromptVariables,
+} from '../../prompts/index.js';
 
 /**
- * 构建系统提示词
+ * 构建 plan 模板的变量
  *
- * 如果提供了工具描述，则包含工具执行器选项
+ * 如果提供了工具描述，则包含工具执行器选项；启用图片生成时包含图片执行器选项
  */
-function buildSystemPrompt(toolDescriptions?: string): string {
-  const hasTools = toolDescriptions && toolDescriptions.length > 0;
-
-  let prompt = `你是一个执行计划助手。根据用户意图，生成简洁的执行计划。
-
-可用的执行器类型：
-- chat: 直接对话回复（适用于闲聊、问答、讨论、情感交流）`;
+function buildPlanVariables(
+  toolDescriptions?: string,
+  imageGeneration?: boolean
+): PromptVariables {
+  const hasTools = !!toolDescriptions && toolDescriptions.length > 0;
+
+  const executorTypes = ['"chat"'];
+  const executors = ['- chat: 直接对话回复（适用于闲聊、问答、讨论、情感交流）'];
+  const examples = [
+    '{"executorType": "chat", "steps": [{"action": "reply", "description": "回复用户的问候"}]}',
+  ];
+  const rules = [
+    '- 如果用户的请求可以通过对话直接回答（如闲聊、解释、建议），使用 chat',
+    '- 如果用户的请求需要执行具体操作（如计算、查询数据），使用 tool',
+  ];
 
   if (hasTools) {
-    prompt += `
-- tool: 使用工具完成任务（适用于计算、查询、执行操作等需要工具的场景）
-
-可用工具：
-${toolDescriptions}`;
+    executorTypes.push('"tool"');
+    executors.push(
+      '- tool: 使用工具完成任务（适用于计算、查询、执行操作等需要工具的场景）'
+    );
+    examples.push(
+      '{"executorType": "tool", "steps": [{"action": "search", "description": "搜索最新信息"}], "toolHints": ["webSearch"]}'
+    );
   }
 
-  prompt += `
-
-请用 JSON 格式回复，包含以下字段：
-- executorType: 执行器类型（${hasTools ? '"chat" 或 "tool"' : '"chat"'}）
-- steps: 执行步骤数组，每个步骤包含 action 和 description`;
+  if (imageGeneration) {
+    executorTypes.push('"image"');
+    executors.push('- image: 生成图片（适用于画图、生成插画/头像/表情等需要产出新图片的请求）');
+    examples.push(
+      '{"executorType": "image", "steps": [{"action": "draw", "description": "画一只戴帽子的猫"}]}'
+    );
+    rules.push('- 如果用户要求画图或生成新图片，使用 image；识别、描述已有图片使用 chat');
+  }
 
   if (hasTools) {
-    prompt += `
-- toolHints: （可选）建议使用的工具名称数组，仅当 executorType 为 "tool" 时需要`;
+    executors.push('', '可用工具：', toolDescriptions);
   }
 
-  prompt += `
-
-示例回复：
-{"executorType": "chat", "steps": [{"action": "reply", "description": "回复用户的问候"}]}`;
-
+  const fields = [
+    `- executorType: 执行器类型（${executorTypes.join(' 或 ')}）`,
+    '- steps: 执行步骤数组，每个步骤包含 action 和 description',
+  ];
   if (hasTools) {
-    prompt += `
-{"executorType": "tool", "steps": [{"action": "search", "description": "搜索最新信息"}], "toolHints": ["webSearch"]}`;
+    fields.push('- toolHints: （可选）建议使用的工具名称数组，仅当 executorType 为 "tool" 时需要');
   }
 
-  prompt += `
-
-判断规则：
-- 如果用户的请求可以通过对话直接回答（如闲聊、解释、建议），使用 chat
-- 如果用户的请求需要执行具体操作（如计算、查询数据），使用 tool
-- 保持计划简洁，通常 1-3 个步骤即可`;
+  rules.push('- 保持计划简洁，通常 1-3 个步骤即可');
 
-  return prompt;
+  return {
+    executors: executors.join('\n'),
+    fields: fields.join('\n'),
+    examples: examples.join('\n'),
+    rules: rules.join('\n'),
+  };
 }
 
+/**
+ * 执行计划的输出格式
+ */
+export const PlanOutputSchema = z.object({
+  executorType: z.enum(['chat', 'tool', 'image']).describe('执行器类型'),
+  steps: z
+    .array(
+      z.object({
+        action: z.string().default('reply'),
+        description: z.string().default(''),
+      })
+    )
+    .default([])
+    .describe('执行步骤'),
+  toolHints: z.array(z.string()).optional().describe('建议使用的工具名称，仅 tool 执行器需要'),
+});
+
+type PlanOutput = z.infer<typeof PlanOutputSchema>;
+
 export interface PlanNodeConfig {
   /** 工具描述（由 ToolRegistry.getToolDescriptions() 提供） */
   toolDescriptions?: string | undefined;
+  /** 是否启用图片执行器 */
+  imageGeneration?: boolean | undefined;
+  /** 提示词来源，未提供时使用内置模板 */
+  prompts?: PromptSource | undefined;
+  /** 是否使用模型原生的结构化输出，默认 false（解析 JSON 文本并修正重试） */
+  structuredOutput?: boolean | undefined;
 }
 
 /**
@@ -65,7 +107,9 @@ export interface PlanNodeConfig {
  * 根据摘要和意图生成执行计划，决定使用哪个执行器
  */
 export function createPlanNode(model: BaseChatModel, config?: PlanNodeConfig) {
-  const systemPrompt = buildSystemPrompt(config?.toolDescriptions);
+  const imageGeneration = config?.imageGeneration ?? false;
+  const prompts = config?.prompts ?? BUILTIN_PROMPT_SOURCE;
+  const variables = buildPlanVariables(config?.toolDescriptions, imageGeneration);
 
   return async (state: AgentStateType): Promise<Partial<AgentStateType>> => {
     const { summary, intent } = state;
@@ -89,56 +133,49 @@ export function createPlanNode(model: BaseChatModel, config?: PlanNodeConfig) {
       };
     }
 
+    // 每轮渲染，模板热更新后立即生效
+    const prompt = prompts.render('plan', variables);
+    const promptVersions = { [prompt.name]: prompt.version };
+
     const messages = [
-      new SystemMessage(systemPrompt),
+      new SystemMessage(prompt.text),
       new HumanMessage(
         `消息摘要：${summary}\n\n识别的意图：${JSON.stringify(intent)}\n\n请生成执行计划。`
       ),
     ];
 
-    const response = await model.invoke(messages);
-    const content =
-      typeof response.content === 'string'
-        ? response.content
-        : JSON.stringify(response.content);
-
+    let parsed: PlanOutput;
     try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]) as {
-          executorType?: string;
-          steps?: Array<{ action?: string; description?: string }>;
-          toolHints?: string[];
-        };
-
-        // 验证 executorType
-        const executorType =
-          parsed.executorType === 'tool' ? 'tool' : 'chat';
-
-        const plan: Plan = {
-          executorType,
-          steps: (parsed.steps ?? []).map((s) => ({
-            action: s.action ?? 'reply',
-            description: s.description ?? '',
-          })),
-        };
-
-        // 仅当选择 tool 执行器时添加 toolHints
-        if (executorType === 'tool' && parsed.toolHints) {
-          plan.toolHints = parsed.toolHints;
-        }
-
-        return { plan };
+      parsed = await invokeStructured(model, messages, PlanOutputSchema, {
+        node: 'plan',
+        native: config?.structuredOutput ?? false,
+      });
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) {
+        throw error;
       }
-    } catch {
-      // JSON 解析失败，使用默认计划
+      // 无法解析时直接对话回复，错误记录到状态中
+      return {
+        plan: {
+          executorType: 'chat',
+          steps: [{ action: 'reply', description: intent.description }],
+        },
+        error: error.message,
+        promptVersions,
+      };
+    }
+
+    // 未启用图片执行器时 image 回退为 chat（未接入的 tool 由图的路由回退）
+    const executorType: Plan['executorType'] =
+      parsed.executorType === 'image' && !imageGeneration ? 'chat' : parsed.executorType;
+
+    const plan: Plan = { executorType, steps: parsed.steps };
+
+    // 仅当选择 tool 执行器时添加 toolHints
+    if (executorType === 'tool' && parsed.toolHints) {
+      plan.toolHints = parsed.toolHints;
     }
 
-    return {
-      plan: {
-        executorType: 'chat',
-        steps: [{ action: 'reply', description: intent.description }],
-      },
-    };
+    return { plan, promptVersions };
   };
 }
@@ -37,6 +37,9 @@ describe('RouterNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -63,6 +66,9 @@ describe('RouterNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -83,6 +89,9 @@ describe('RouterNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -108,6 +117,9 @@ describe('RouterNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -128,6 +140,9 @@ describe('RouterNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = routeToExecutor(state);
@@ -146,6 +161,9 @@ describe('RouterNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = routeToExecutor(state);
@@ -164,6 +182,9 @@ describe('RouterNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = routeToExecutor(state);
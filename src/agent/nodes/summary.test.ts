@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { createSummaryNode } from './summary.js';
+import { DEFAULT_PERSONA } from '../../persona/index.js';
 import type { AgentStateType } from '../state.js';
 import type { AggregatedMessages } from '../../pipeline/index.js';
 import type { NormalizedMessage } from '../../onebot/message-normalizer.js';
@@ -68,6 +69,9 @@ describe('SummaryNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -98,6 +102,9 @@ describe('SummaryNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -121,6 +128,9 @@ describe('SummaryNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -149,6 +159,9 @@ describe('SummaryNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -175,6 +188,9 @@ describe('SummaryNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       const result = await node(state);
@@ -200,6 +216,9 @@ describe('SummaryNode', () => {
         error: undefined,
         toolResults: undefined,
         toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
       };
 
       await node(state);
@@ -209,5 +228,33 @@ describe('SummaryNode', () => {
       expect(systemMessage.content).toContain('消息总结助手');
       expect(systemMessage.content).toContain('[→@我]');
     });
+    it('should use the persona name and language in the system prompt', async () => {
+      const model = createMockModel('Summary');
+      const node = createSummaryNode(model as never, {
+        persona: () => ({ ...DEFAULT_PERSONA, name: 'Tutor', language: 'English' }),
+      });
+
+      const input = createMockInput(2, 'test', '[User1] [→@我] Hello\n[User2] World');
+      const state: AgentStateType = {
+        input,
+        summary: undefined,
+        intent: undefined,
+        plan: undefined,
+        executorType: undefined,
+        response: undefined,
+        error: undefined,
+        toolResults: undefined,
+        toolIterations: undefined,
+        reply: undefined,
+        promptVersions: {},
+        models: {},
+      };
+
+      await node(state);
+
+      const systemMessage = model.invoke.mock.calls[0]![0][0];
+      expect(systemMessage.content).toContain('@Tutor');
+      expect(systemMessage.content).toContain('用English回复');
+    });
   });
 });
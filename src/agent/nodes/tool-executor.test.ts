@@ -6,6 +6,9 @@ import type { AggregatedMessages } from '../../pipeline/index.js';
 import type { NormalizedMessage } from '../../onebot/message-normalizer.js';
 import { ToolRegistry } from '../../tools/index.js';
 import type { ToolDefinition } from '../../tools/index.js';
+import { urlFetchTool } from '../../tools/builtin/index.js';
+import { AccessControl } from '../../acl/index.js';
+import { AclSchema } from '../../config/schema.js';
 
 // Helper to create mock AggregatedMessages
 function createMockInput(options: {
@@ -132,6 +135,9 @@ describe('ToolExecutorNode', () => {
       plan: { executorType: 'tool', steps: [], toolHints: ['add'] },
       executorType: 'tool',
       response: undefined,
+      reply: undefined,
+      promptVersions: {},
+      models: {},
       error: undefined,
       toolResults: undefined,
       toolIterations: 0,
@@ -293,6 +299,166 @@ describe('ToolExecutorNode', () => {
       expect(result.toolResults![0]!.error).toContain('不存在');
     });
 
+    it('should deny tools that require a higher role', async () => {
+      const createModel = () => ({
+        bindTools: vi.fn().mockReturnThis(),
+        invoke: vi
+          .fn()
+          .mockResolvedValueOnce({
+            content: '',
+            tool_calls: [{ id: 'call_1', name: 'add', args: { a: 2, b: 3 } }],
+          })
+          .mockResolvedValueOnce({ content: '完成', tool_calls: undefined }),
+      });
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        child: vi.fn(),
+      };
+      logger.child.mockReturnValue(logger);
+      const access = new AccessControl(
+        AclSchema.parse({ tools: { add: 'admin' }, superusers: [20002] }),
+        logger as never
+      );
+      const createNode = () =>
+        createToolExecutorNode(createModel() as never, registry, undefined, undefined, { access });
+
+      const denied = await createNode()(createDefaultState());
+
+      expect(denied.toolResults![0]).toMatchObject({
+        success: false,
+        error: 'Tool "add" requires role admin',
+      });
+      expect(logger.info).toHaveBeenCalledWith(
+        'Tool access denied',
+        expect.objectContaining({ tool: 'add', userId: 10001, required: 'admin' })
+      );
+
+      const allowed = await createNode()(
+        createDefaultState({ input: createMockInput({ userId: 20002 }) })
+      );
+
+      expect(allowed.toolResults![0]).toMatchObject({ success: true, output: '5' });
+    });
+
+    it('should check tool permissions against the senders who mentioned the bot', async () => {
+      const createModel = () => ({
+        bindTools: vi.fn().mockReturnThis(),
+        invoke: vi
+          .fn()
+          .mockResolvedValueOnce({
+            content: '',
+            tool_calls: [{ id: 'call_1', name: 'add', args: { a: 2, b: 3 } }],
+          })
+          .mockResolvedValueOnce({ content: '完成', tool_calls: undefined }),
+      });
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        child: vi.fn(),
+      };
+      logger.child.mockReturnValue(logger);
+      const access = new AccessControl(AclSchema.parse({ tools: { add: 'admin' } }), logger as never);
+      const createNode = () =>
+        createToolExecutorNode(createModel() as never, registry, undefined, undefined, { access });
+
+      // 普通成员 @bot，群管理员最后发言
+      const input = createMockInput({ count: 2 });
+      input.messages[1]!.role = 'admin';
+      const mixed = await createNode()(createDefaultState({ input }));
+      expect(mixed.toolResults![0]).toMatchObject({
+        success: false,
+        error: 'Tool "add" requires role admin',
+      });
+
+      // 没有人 @bot（如主动发言）时不以任何人的身份调用
+      input.messages[0]!.isMentionBot = false;
+      const unmentioned = await createNode()(createDefaultState({ input }));
+      expect(unmentioned.toolResults![0]).toMatchObject({ success: false });
+
+      // 只有群管理员 @bot
+      input.messages[1]!.isMentionBot = true;
+      const admin = await createNode()(createDefaultState({ input }));
+      expect(admin.toolResults![0]).toMatchObject({ success: true, output: '5' });
+
+      // 主动发言始终不以任何人的身份调用
+      const proactive = await createNode()(
+        createDefaultState({ input: { ...input, proactive: '有人提问后没有人回答' } })
+      );
+      expect(proactive.toolResults![0]).toMatchObject({ success: false });
+    });
+
+    it('should deny urlFetch to members with the default ACL config', async () => {
+      registry.register(urlFetchTool);
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+      const mockModel = {
+        bindTools: vi.fn().mockReturnThis(),
+        invoke: vi
+          .fn()
+          .mockResolvedValueOnce({
+            content: '',
+            tool_calls: [{ id: 'call_1', name: 'urlFetch', args: { url: 'http://10.0.0.1/' } }],
+          })
+          .mockResolvedValueOnce({ content: '没有权限', tool_calls: undefined }),
+      };
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        child: vi.fn(),
+      };
+      logger.child.mockReturnValue(logger);
+
+      const node = createToolExecutorNode(mockModel as never, registry, undefined, undefined, {
+        access: new AccessControl(AclSchema.parse({}), logger as never),
+      });
+      const result = await node(
+        createDefaultState({ plan: { executorType: 'tool', steps: [], toolHints: ['urlFetch'] } })
+      );
+
+      expect(result.toolResults![0]).toMatchObject({
+        success: false,
+        error: 'Tool "urlFetch" requires role admin',
+      });
+      expect(fetchSpy).not.toHaveBeenCalled();
+      fetchSpy.mockRestore();
+    });
+
+    it('should not attach internal links found in tool results', async () => {
+      const mockModel = {
+        bindTools: vi.fn().mockReturnThis(),
+        invoke: vi
+          .fn()
+          .mockResolvedValueOnce({
+            content: '',
+            tool_calls: [
+              {
+                id: 'call_1',
+                name: 'echo',
+                args: { message: '[文件:http://169.254.169.254/latest/meta-data/]' },
+              },
+            ],
+          })
+          .mockResolvedValueOnce({
+            content: '给你 [文件:http://169.254.169.254/latest/meta-data/]',
+            tool_calls: undefined,
+          }),
+      };
+
+      const node = createToolExecutorNode(mockModel as never, registry);
+      const result = await node(
+        createDefaultState({ plan: { executorType: 'tool', steps: [], toolHints: ['echo'] } })
+      );
+
+      expect(result.reply!.media).toBeUndefined();
+      expect(result.reply!.text).toBe('给你 [文件:http://169.254.169.254/latest/meta-data/]');
+    });
+
     it('should execute multiple tool calls in parallel', async () => {
       const mockModel = {
         bindTools: vi.fn().mockReturnThis(),
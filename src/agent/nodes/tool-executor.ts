@@ -7,12 +7,29 @@ import {
   type BaseMessage,
 } from '@langchain/core/messages';
 import type { AgentStateType } from '../state.js';
-import type { ToolRegistry, ToolExecutionResult } from '../../tools/index.js';
+import type { ToolDefinition, ToolRegistry, ToolExecutionResult } from '../../tools/index.js';
 import type { ConversationMemory } from '../../memory/index.js';
 import { extractTargetId } from '../../memory/types.js';
 import { getToolCache } from '../../tools/cache.js';
 import { metrics } from '../../metrics/index.js';
 import type { ToolsConfig } from '../../config/schema.js';
+import { MESSAGE_CONTEXT_PROMPT, formatProactiveContext } from './chat-executor.js';
+import {
+  DEFAULT_PERSONA,
+  buildPersonaVariables,
+  buildStyleRules,
+  formatRules,
+  type PersonaResolver,
+} from '../../persona/index.js';
+import {
+  BUILTIN_PROMPT_SOURCE,
+  type PromptSource,
+  type PromptVariables,
+} from '../../prompts/index.js';
+import type { PersonaProfile } from '../../config/schema.js';
+import type { AccessControl, AccessDecision, AccessSubject } from '../../acl/index.js';
+import type { AggregatedMessages } from '../../pipeline/index.js';
+import { buildReply, collectPublicUrls, REPLY_MARKUP_PROMPT } from '../reply.js';
 
 /** 最大 ReAct 循环次数 */
 const MAX_ITERATIONS = 5;
@@ -20,16 +37,79 @@ const MAX_ITERATIONS = 5;
 /** 默认工具执行超时（毫秒） */
 const DEFAULT_TIMEOUT_MS = 30000;
 
-const TOOL_SYSTEM_PROMPT = `你是 Huluwa（葫芦娃），一个友好的 AI 助手。
-你可以使用工具来帮助用户完成任务。
+/**
+ * 构建工具执行器模板的变量
+ */
+function buildToolPromptVariables(persona: PersonaProfile): PromptVariables {
+  const styleRules = buildStyleRules(persona);
+  const rules = [
+    '仔细分析用户请求，决定是否需要使用工具',
+    '如果需要使用工具，调用合适的工具并等待结果',
+    '根据工具返回的结果，生成对用户友好的回复',
+    ...styleRules,
+  ];
+
+  return {
+    ...buildPersonaVariables(persona),
+    rules: formatRules(rules),
+    styleRules: formatRules(styleRules),
+    messageContext: MESSAGE_CONTEXT_PROMPT,
+    replyMarkup: REPLY_MARKUP_PROMPT,
+  };
+}
+
+export interface ToolExecutorConfig {
+  /** 当前人设，未提供时使用默认人设 */
+  persona?: PersonaResolver | undefined;
+  /** 提示词来源，未提供时使用内置模板 */
+  prompts?: PromptSource | undefined;
+  /** 访问控制，未提供时不检查工具权限 */
+  access?: AccessControl | undefined;
+}
+
+/**
+ * 工具调用的权限主体：本轮 @bot 的发送者（私聊为发送者本人），按用户去重
+ *
+ * 主动发言、以及群聊中没有 @bot 的消息时为空，不以其他群友的身份调用工具
+ */
+function resolveAccessSubjects(input: AggregatedMessages): AccessSubject[] {
+  if (input.proactive !== undefined) {
+    return [];
+  }
+  const requesters = input.isGroup
+    ? input.messages.filter((m) => m.isMentionBot)
+    : input.messages;
+  const subjects = new Map<number, AccessSubject>();
+  for (const message of requesters) {
+    subjects.set(message.userId, {
+      userId: message.userId,
+      role: message.role,
+      groupId: message.groupId,
+    });
+  }
+  return Array.from(subjects.values());
+}
 
-规则：
-1. 仔细分析用户请求，决定是否需要使用工具
-2. 如果需要使用工具，调用合适的工具并等待结果
-3. 根据工具返回的结果，生成对用户友好的回复
-4. 用中文回复
-5. 回复要简洁自然，像朋友聊天一样
-6. 不要使用 markdown 格式`;
+/**
+ * 检查工具权限：有多个请求者时每个人都需要通过（按权限最低者判断），
+ * 没有请求者时按普通成员判断
+ */
+function checkToolAccess(
+  access: AccessControl,
+  subjects: AccessSubject[],
+  tool: ToolDefinition
+): AccessDecision {
+  if (subjects.length === 0) {
+    return access.checkTool(undefined, tool);
+  }
+  for (const subject of subjects) {
+    const decision = access.checkTool(subject, tool);
+    if (!decision.allowed) {
+      return decision;
+    }
+  }
+  return { allowed: true };
+}
 
 /**
  * 带超时的 Promise 执行
@@ -62,7 +142,7 @@ async function withTimeout<T>(
  * 实现 ReAct 循环：
  * 1. 绑定工具到模型
  * 2. 调用模型，检查是否有 tool_calls
- * 3. 如有，执行工具（带缓存、超时和 metrics）并添加 ToolMessage
+ * 3. 如有，检查权限后执行工具（带缓存、超时和 metrics）并添加 ToolMessage
  * 4. 循环直到模型不再调用工具或达到最大次数
  * 5. 返回最终响应
  */
@@ -70,16 +150,22 @@ export function createToolExecutorNode(
   model: BaseChatModel,
   toolRegistry: ToolRegistry,
   memory?: ConversationMemory,
-  toolsConfig?: ToolsConfig
+  toolsConfig?: ToolsConfig,
+  config?: ToolExecutorConfig
 ) {
   // 初始化工具缓存
   const cacheEnabled = toolsConfig?.cache?.enabled ?? true;
   const cacheMaxSize = toolsConfig?.cache?.maxSize ?? 100;
   const defaultTimeoutMs = toolsConfig?.defaultTimeoutMs ?? DEFAULT_TIMEOUT_MS;
   const toolCache = cacheEnabled ? getToolCache(cacheMaxSize) : undefined;
+  const prompts = config?.prompts ?? BUILTIN_PROMPT_SOURCE;
+  const access = config?.access;
+
   return async (state: AgentStateType): Promise<Partial<AgentStateType>> => {
     const { input, summary, intent, plan } = state;
 
+    const subjects = resolveAccessSubjects(input);
+
     // 根据 toolHints 筛选工具，否则使用全部
     const toolHints = plan?.toolHints;
     const tools =
@@ -125,11 +211,16 @@ export function createToolExecutorNode(
       context += `[识别的意图] ${intent.description}\n\n`;
     }
 
+    context += formatProactiveContext(input);
     context += `[当前消息]\n${input.formattedText}`;
 
     // 初始化消息列表（使用 BaseMessage 类型支持 AI/Tool 消息）
+    const prompt = prompts.render(
+      'toolExecutor',
+      buildToolPromptVariables(config?.persona?.() ?? DEFAULT_PERSONA)
+    );
     const messages: BaseMessage[] = [
-      new SystemMessage(TOOL_SYSTEM_PROMPT),
+      new SystemMessage(prompt.text),
       new HumanMessage(context),
     ];
 
@@ -192,6 +283,29 @@ export function createToolExecutorNode(
           };
         }
 
+        // 检查权限
+        if (access && toolDef) {
+          const decision = checkToolAccess(access, subjects, toolDef);
+          if (!decision.allowed) {
+            metrics.recordToolExecution(toolName, false, 0, false);
+            return {
+              result: {
+                toolName,
+                toolCallId,
+                success: false,
+                output: '',
+                error: decision.reason,
+                durationMs: Date.now() - startTime,
+                cached: false,
+              } satisfies ToolExecutionResult,
+              message: new ToolMessage({
+                tool_call_id: toolCallId,
+                content: `错误：当前用户没有权限使用工具 "${toolName}"（需要 ${access.getToolRole(toolDef)} 身份）`,
+              }),
+            };
+          }
+        }
+
         // 检查缓存
         const cacheTTL = toolDef?.cacheTTL ?? 0;
         if (toolCache && cacheTTL > 0) {
@@ -289,15 +403,23 @@ export function createToolExecutorNode(
       finalResponse = '抱歉，任务处理超时，请尝试简化请求。';
     }
 
-    // 保存本轮对话到记忆
-    if (memory?.isEnabled() && finalResponse) {
-      await memory.addTurn(input, finalResponse);
+    // 工具结果中的链接（解析到公网地址的）可以作为回复的图片或文件
+    const toolUrls = await collectPublicUrls(
+      allToolResults.filter((result) => result.success).map((result) => result.output)
+    );
+    const reply = buildReply(input, finalResponse, toolUrls);
+
+    // 保存本轮对话到记忆（去掉回复标记后的文本）
+    if (memory?.isEnabled() && reply.text) {
+      await memory.addTurn(input, reply.text);
     }
 
     return {
-      response: finalResponse,
+      response: reply.text,
+      reply,
       toolResults: allToolResults.length > 0 ? allToolResults : undefined,
       toolIterations: iterations,
+      promptVersions: { [prompt.name]: prompt.version },
     };
   };
 }
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { buildReply, findTriggerMessage, isPublicHttpUrl } from './reply.js';
+import type { AggregatedMessages } from '../pipeline/index.js';
+import type { NormalizedMessage } from '../onebot/message-normalizer.js';
+
+function createMessage(
+  id: number,
+  userId: number,
+  nickname: string,
+  isMentionBot = false,
+  isGroup = true
+): NormalizedMessage {
+  return {
+    messageId: id,
+    messageType: isGroup ? 'group' : 'private',
+    userId,
+    groupId: isGroup ? 67890 : undefined,
+    nickname,
+    text: `message ${id}`,
+    timestamp: new Date(),
+    isGroup,
+    attachments: [],
+    isMentionBot,
+  };
+}
+
+function createInput(messages: NormalizedMessage[]): AggregatedMessages {
+  const isGroup = messages[0]!.isGroup;
+  const result: AggregatedMessages = {
+    messages,
+    count: messages.length,
+    startTime: new Date(),
+    endTime: new Date(),
+    participants: messages.map((m) => ({
+      userId: m.userId,
+      nickname: m.nickname,
+      messageCount: 1,
+    })),
+    formattedText: '',
+    plainText: '',
+    attachments: [],
+    isGroup,
+  };
+  if (isGroup) {
+    result.groupId = 67890;
+  }
+  return result;
+}
+
+describe('findTriggerMessage', () => {
+  it('should return the last mention message', () => {
+    const input = createInput([
+      createMessage(1, 100, '小明', true),
+      createMessage(2, 200, '小红', true),
+      createMessage(3, 300, '小刚'),
+    ]);
+
+    expect(findTriggerMessage(input)?.messageId).toBe(2);
+  });
+
+  it('should fall back to the last message without mentions', () => {
+    const input = createInput([createMessage(1, 100, '小明'), createMessage(2, 200, '小红')]);
+
+    expect(findTriggerMessage(input)?.messageId).toBe(2);
+  });
+});
+
+describe('buildReply', () => {
+  it('should quote the trigger message in group chat', () => {
+    const input = createInput([createMessage(1, 100, '小明'), createMessage(2, 200, '小红', true)]);
+
+    const reply = buildReply(input, '你好');
+
+    expect(reply).toEqual({ text: '你好', replyTo: 2 });
+  });
+
+  it('should not quote in private chat', () => {
+    const input = createInput([createMessage(1, 100, '小明', false, false)]);
+
+    expect(buildReply(input, '你好')).toEqual({ text: '你好' });
+  });
+
+  it('should convert [@昵称] of participants to mentions', () => {
+    const input = createInput([createMessage(1, 100, '小明'), createMessage(2, 200, '小红', true)]);
+
+    const reply = buildReply(input, '[@小明] 小红问你呢 [@小明]');
+
+    expect(reply.mentions).toEqual([100]);
+    expect(reply.text).toBe('小红问你呢');
+  });
+
+  it('should keep unknown mentions as plain text', () => {
+    const input = createInput([createMessage(1, 100, '小明', true)]);
+
+    const reply = buildReply(input, '[@路人] 你好');
+
+    expect(reply.mentions).toBeUndefined();
+    expect(reply.text).toBe('@路人 你好');
+  });
+
+  it('should extract images and files', () => {
+    const input = createInput([createMessage(1, 100, '小明', true)]);
+
+    const reply = buildReply(
+      input,
+      '给你：\n[图片:https://example.com/cat.png]\n[文件：https://example.com/docs/%E6%8A%A5%E5%91%8A.pdf]',
+      ['https://example.com/cat.png', 'https://example.com/docs/%E6%8A%A5%E5%91%8A.pdf']
+    );
+
+    expect(reply.text).toBe('给你：');
+    expect(reply.media).toEqual([
+      { type: 'image', file: 'https://example.com/cat.png' },
+      { type: 'file', file: 'https://example.com/docs/%E6%8A%A5%E5%91%8A.pdf', name: '报告.pdf' },
+    ]);
+  });
+
+  it('should not attach non-http sources', () => {
+    const input = createInput([createMessage(1, 100, '小明', true)]);
+
+    const reply = buildReply(input, '[文件:file:///etc/passwd]', ['file:///etc/passwd']);
+
+    expect(reply.media).toBeUndefined();
+    expect(reply.text).toBe('[文件:file:///etc/passwd]');
+  });
+
+  it('should only attach links from this round', () => {
+    const input = createInput([createMessage(1, 100, '小明', true)]);
+    input.attachments = [
+      { type: 'image', filename: 'a.jpg', url: 'https://multimedia.nt.qq.com.cn/a.jpg', mimeType: 'image/jpeg' },
+    ];
+
+    const reply = buildReply(
+      input,
+      '[图片:https://multimedia.nt.qq.com.cn/a.jpg] [图片:https://example.com/made-up.png]'
+    );
+
+    expect(reply.media).toEqual([{ type: 'image', file: 'https://multimedia.nt.qq.com.cn/a.jpg' }]);
+    expect(reply.text).toBe('[图片:https://example.com/made-up.png]');
+  });
+
+  it('should not attach internal addresses even when allowed', () => {
+    const input = createInput([createMessage(1, 100, '小明', true)]);
+    const urls = [
+      'http://169.254.169.254/latest/meta-data/',
+      'http://127.0.0.1:8080/admin',
+      'http://10.0.0.5/report.pdf',
+      'http://[::1]/x',
+      'http://2130706433/x',
+      'http://localhost:3000/x',
+      'http://metadata/computeMetadata',
+      'http://nas.local/x',
+    ];
+
+    const reply = buildReply(input, urls.map((url) => `[文件:${url}]`).join('\n'), urls);
+
+    expect(reply.media).toBeUndefined();
+  });
+});
+
+describe('isPublicHttpUrl', () => {
+  it('should reject private, loopback and link-local hosts', () => {
+    expect(isPublicHttpUrl('https://example.com/a.png')).toBe(true);
+    expect(isPublicHttpUrl('http://93.184.216.34/a.png')).toBe(true);
+    expect(isPublicHttpUrl('http://192.168.1.1/')).toBe(false);
+    expect(isPublicHttpUrl('http://172.20.0.1/')).toBe(false);
+    expect(isPublicHttpUrl('http://[fe80::1]/')).toBe(false);
+    expect(isPublicHttpUrl('http://[::ffff:127.0.0.1]/')).toBe(false);
+    expect(isPublicHttpUrl('http://0x7f.0.0.1/')).toBe(false);
+    expect(isPublicHttpUrl('ftp://example.com/a')).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import type { AggregatedMessages } from '../pipeline/index.js';
+import type { NormalizedMessage } from '../onebot/message-normalizer.js';
+import type { OutgoingMedia, OutgoingMessage } from '../onebot/types.js';
+
+/**
+ * 回复标记说明，追加到执行器系统提示词
+ */
+export const REPLY_MARKUP_PROMPT = `回复格式：
+- 需要 @ 某位群友时写 [@昵称]，昵称必须与消息中的发送者一致；正在和你说话的人不需要 @，回复会自动引用对方的消息
+- 需要发送图片时写 [图片:图片URL]
+- 需要发送文件时写 [文件:文件URL]
+- 图片和文件只能使用用户发来的或工具结果中的 http/https 链接，不要编造链接`;
+
+/** 匹配 [@昵称] / [图片:URL] / [文件:URL] */
+const MARKUP_PATTERN = /\[(@|图片[:：]|文件[:：])\s*([^\]\n]+?)\s*\]/g;
+
+/** 匹配文本中的 http(s) 链接（用于收集工具结果中的链接） */
+const URL_PATTERN = /https?:\/\/[^\s<>"'`\])）]+/gi;
+
+/** 内网、回环、链路本地等不允许作为媒体来源的地址段 */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** IPv4 映射的 IPv6 地址（::ffff:a.b.c.d）由 BlockList 按 IPv4 规则检查 */
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * 是否为可以作为媒体来源的公网 http(s) 链接
+ *
+ * 只看链接本身：拒绝 file:// 等本地资源、内网 / 回环 / 链路本地 IP，
+ * 以及 localhost、单段主机名、.local / .internal 等内网域名
+ */
+export function isPublicHttpUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return false;
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (isIP(host)) {
+    return !isPrivateAddress(host);
+  }
+  return (
+    host.includes('.') &&
+    host !== 'localhost' &&
+    !/\.(localhost|local|internal|lan|home\.arpa)\.?$/.test(host)
+  );
+}
+
+/**
+ * 解析链接的主机名，所有地址都是公网地址时返回 true（解析失败返回 false）
+ */
+export async function resolvesToPublicHost(value: string): Promise<boolean> {
+  if (!isPublicHttpUrl(value)) {
+    return false;
+  }
+  const host = new URL(value).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) {
+    return true;
+  }
+  try {
+    const addresses = await lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every((entry) => !isPrivateAddress(entry.address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 收集文本中可以作为媒体来源的链接（主机名解析到内网地址的链接被排除）
+ */
+export async function collectPublicUrls(texts: string[]): Promise<string[]> {
+  const candidates = new Set(texts.flatMap((text) => text.match(URL_PATTERN) ?? []));
+  const checked = await Promise.all(
+    Array.from(candidates, async (url) => ((await resolvesToPublicHost(url)) ? url : null))
+  );
+  return checked.filter((url): url is string => url !== null);
+}
+
+function filenameFromUrl(url: string): string | undefined {
+  try {
+    const name = new URL(url).pathname.split('/').pop();
+    return name ? decodeURIComponent(name) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 找到触发本轮处理的消息（最后一条 @bot 消息，没有则取最后一条）
+ */
+export function findTriggerMessage(
+  input: Pick<AggregatedMessages, 'messages'>
+): NormalizedMessage | undefined {
+  const mentions = input.messages.filter((m) => m.isMentionBot);
+  return mentions[mentions.length - 1] ?? input.messages[input.messages.length - 1];
+}
+
+/**
+ * 将模型输出转换为结构化回复
+ *
+ * - 群聊中引用触发消息
+ * - [@昵称] 匹配参与者后转为 @，匹配不到时保留为普通文本
+ * - [图片:URL] / [文件:URL] 转为媒体附件，其他链接保留为普通文本
+ *
+ * 媒体链接会被 OneBot 实现下载后发到聊天中，只接受本轮附件的链接和 allowedUrls
+ * （工具结果中已检查过的链接），并且必须是公网 http(s) 地址。
+ * 聊天内容或网页中的标记不能借此让 bot 抓取内网地址并把结果发出来
+ */
+export function buildReply(
+  input: AggregatedMessages,
+  content: string,
+  allowedUrls: Iterable<string> = []
+): OutgoingMessage {
+  const mentions: number[] = [];
+  const media: OutgoingMedia[] = [];
+  const allowed = new Set<string>(allowedUrls);
+  for (const attachment of input.attachments) {
+    allowed.add(attachment.url);
+  }
+
+  const text = content
+    .replace(MARKUP_PATTERN, (raw, kind: string, value: string) => {
+      if (kind === '@') {
+        const participant = input.participants.find((p) => p.nickname === value);
+        if (!participant || !input.isGroup) {
+          return `@${value}`;
+        }
+        if (!mentions.includes(participant.userId)) {
+          mentions.push(participant.userId);
+        }
+        return '';
+      }
+
+      if (!allowed.has(value) || !isPublicHttpUrl(value)) {
+        return raw;
+      }
+
+      if (kind.startsWith('图片')) {
+        media.push({ type: 'image', file: value });
+      } else {
+        const name = filenameFromUrl(value);
+        media.push(name ? { type: 'file', file: value, name } : { type: 'file', file: value });
+      }
+      return '';
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  const reply: OutgoingMessage = { text };
+
+  const trigger = findTriggerMessage(input);
+  if (input.isGroup && trigger) {
+    reply.replyTo = trigger.messageId;
+  }
+  if (mentions.length > 0) {
+    reply.mentions = mentions;
+  }
+  if (media.length > 0) {
+    reply.media = media;
+  }
+
+  return reply;
+}
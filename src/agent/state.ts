@@ -1,6 +1,7 @@
 import { Annotation } from '@langchain/langgraph';
 import type { AggregatedMessages } from '../pipeline/index.js';
 import type { ToolExecutionResult } from '../tools/index.js';
+import type { OutgoingMessage } from '../onebot/types.js';
 
 /**
  * 意图类型
@@ -26,7 +27,7 @@ export interface Intent {
  */
 export interface Plan {
   steps: PlanStep[];
-  executorType: 'chat' | 'tool';
+  executorType: 'chat' | 'tool' | 'image';
   /** 建议使用的工具名称（仅 tool 类型时有效） */
   toolHints?: string[];
 }
@@ -60,6 +61,9 @@ export const AgentState = Annotation.Root({
   // Executor 输出：最终回复
   response: Annotation<string | undefined>,
 
+  // Executor 输出：结构化回复（引用、@、图片、文件）
+  reply: Annotation<OutgoingMessage | undefined>,
+
   // 错误信息（如果有）
   error: Annotation<string | undefined>,
 
@@ -68,6 +72,18 @@ export const AgentState = Annotation.Root({
 
   // 工具执行迭代次数
   toolIterations: Annotation<number | undefined>,
+
+  // 本次运行各节点使用的提示词模板版本（模板名 -> 版本），各节点的结果合并
+  promptVersions: Annotation<Record<string, string>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+
+  // 本次运行各节点实际使用的模型（节点 -> 模型名称，发生回退时为回退后的模型），各节点的结果合并
+  models: Annotation<Record<string, string>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
 });
 
 export type AgentStateType = typeof AgentState.State;
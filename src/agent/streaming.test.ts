@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { StreamSegmenter, chunkText } from './streaming.js';
+
+function feed(segmenter: StreamSegmenter, deltas: string[]): string[] {
+  const segments = deltas.flatMap((delta) => segmenter.push(delta));
+  const rest = segmenter.flush();
+  return rest ? [...segments, rest] : segments;
+}
+
+describe('StreamSegmenter', () => {
+  it('should emit completed sentences as they arrive', () => {
+    const segmenter = new StreamSegmenter({ flushOn: 'sentence', minChars: 1 });
+
+    expect(segmenter.push('第一句')).toEqual([]);
+    // 句末标点后的内容到达后才确认句子结束
+    expect(segmenter.push('话。')).toEqual([]);
+    expect(segmenter.push('第二句话！第')).toEqual(['第一句话。', '第二句话！']);
+    expect(segmenter.flush()).toBe('第');
+  });
+
+  it('should merge short sentences until minChars is reached', () => {
+    const segmenter = new StreamSegmenter({ flushOn: 'sentence', minChars: 6 });
+
+    expect(feed(segmenter, ['好的。', '我', '看看。', '嗯。', '这个问题比较复杂。'])).toEqual([
+      '好的。我看看。',
+      '嗯。这个问题比较复杂。',
+    ]);
+  });
+
+  it('should keep closing quotes and decimals with the sentence', () => {
+    const segmenter = new StreamSegmenter({ flushOn: 'sentence', minChars: 1 });
+
+    expect(feed(segmenter, ['他说：“好的。', '”然后', '版本 1.', '5 发布了。'])).toEqual([
+      '他说：“好的。”',
+      '然后版本 1.5 发布了。',
+    ]);
+  });
+
+  it('should split on blank lines in paragraph mode', () => {
+    const segmenter = new StreamSegmenter({ flushOn: 'paragraph', minChars: 1 });
+
+    expect(feed(segmenter, ['第一段。第一段', '继续。\n', '\n第二段。'])).toEqual([
+      '第一段。第一段继续。',
+      '第二段。',
+    ]);
+  });
+
+  it('should return null when nothing is buffered', () => {
+    const segmenter = new StreamSegmenter({ flushOn: 'sentence', minChars: 1 });
+
+    expect(segmenter.flush()).toBeNull();
+  });
+});
+
+describe('chunkText', () => {
+  it('should join text blocks and skip other content', () => {
+    expect(chunkText('hi')).toBe('hi');
+    expect(
+      chunkText([
+        { type: 'text', text: 'a' },
+        { type: 'image_url', image_url: 'https://example.com/a.png' },
+        { type: 'text', text: 'b' },
+      ])
+    ).toBe('ab');
+  });
+});
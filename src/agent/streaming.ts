@@ -0,0 +1,102 @@
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
+import type { MessageContent } from '@langchain/core/messages';
+import { splitSentences } from '../onebot/message-splitter.js';
+import type { OutgoingMessage } from '../onebot/types.js';
+
+/**
+ * 流式回复的分段方式
+ */
+export interface ReplyStreamOptions {
+  /** 按句子或按段落（空行）切分 */
+  flushOn: 'sentence' | 'paragraph';
+  /** 每段最少字符数，不足时与后续内容合并发送 */
+  minChars: number;
+}
+
+/**
+ * 流式回复回调
+ *
+ * 每次 invoke 通过 configurable.replyStream 传入；未传入时执行器一次性生成回复
+ */
+export interface ReplyStream {
+  options: ReplyStreamOptions;
+  /** 模型每输出一段增量文本时调用 */
+  onToken?(delta: string): void;
+  /** 一段完整的句子/段落生成完毕，可以发送 */
+  onSegment(segment: OutgoingMessage): void;
+}
+
+/**
+ * 从节点的运行配置中取出流式回复回调
+ */
+export function getReplyStream(config?: LangGraphRunnableConfig): ReplyStream | undefined {
+  return config?.configurable?.['replyStream'] as ReplyStream | undefined;
+}
+
+/**
+ * 提取流式 chunk 中的文本
+ */
+export function chunkText(content: MessageContent): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .map((block) => (block.type === 'text' && typeof block['text'] === 'string' ? block['text'] : ''))
+    .join('');
+}
+
+function splitParagraphs(text: string): string[] {
+  return text.split(/(?<=\n\n)/);
+}
+
+/**
+ * 流式文本分段器
+ *
+ * 累积模型增量输出，在句子或段落结束且长度达到 minChars 时切出一段。
+ * 缓冲区的最后一个单元可能尚未结束（如紧随其后的右引号、英文小数点），总是留到下一次判断
+ */
+export class StreamSegmenter {
+  private readonly options: ReplyStreamOptions;
+  private buffer = '';
+
+  constructor(options: ReplyStreamOptions) {
+    this.options = options;
+  }
+
+  /**
+   * 追加增量文本，返回已完成的分段
+   */
+  push(delta: string): string[] {
+    this.buffer += delta;
+
+    const units =
+      this.options.flushOn === 'paragraph'
+        ? splitParagraphs(this.buffer)
+        : splitSentences(this.buffer);
+
+    const segments: string[] = [];
+    let consumed = 0;
+    let pending = '';
+
+    for (const unit of units.slice(0, -1)) {
+      pending += unit;
+      if (pending.trim().length >= this.options.minChars) {
+        segments.push(pending.trim());
+        consumed += pending.length;
+        pending = '';
+      }
+    }
+
+    this.buffer = this.buffer.slice(consumed);
+    return segments;
+  }
+
+  /**
+   * 取出剩余内容（生成结束时调用）
+   */
+  flush(): string | null {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest || null;
+  }
+}
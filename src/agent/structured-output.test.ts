@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { OutputParserException } from '@langchain/core/output_parsers';
+import { z } from 'zod';
+import { extractJson, invokeStructured, StructuredOutputError } from './structured-output.js';
+import { metrics } from '../metrics/index.js';
+
+const schema = z.object({
+  answer: z.enum(['yes', 'no']),
+  reason: z.string().default(''),
+});
+
+const messages = [new SystemMessage('回答 yes 或 no'), new HumanMessage('今天下雨吗？')];
+
+function createModel(responses: string[], structured?: ReturnType<typeof vi.fn>) {
+  const invoke = vi.fn();
+  for (const content of responses) {
+    invoke.mockResolvedValueOnce({ content });
+  }
+  return {
+    invoke,
+    withStructuredOutput: vi.fn(() => ({ invoke: structured ?? vi.fn() })),
+  };
+}
+
+describe('extractJson', () => {
+  it('should read JSON wrapped in a code block', () => {
+    expect(extractJson('```json\n{"answer": "yes"}\n```')).toEqual({ answer: 'yes' });
+  });
+
+  it('should throw when there is no object', () => {
+    expect(() => extractJson('no json here')).toThrow(SyntaxError);
+  });
+});
+
+describe('invokeStructured', () => {
+  beforeEach(() => {
+    metrics.reset();
+  });
+
+  it('should parse JSON text and apply schema defaults', async () => {
+    const model = createModel(['好的：{"answer": "yes"}']);
+
+    const result = await invokeStructured(model as never, messages, schema, {
+      node: 'test',
+      native: false,
+    });
+
+    expect(result).toEqual({ answer: 'yes', reason: '' });
+    expect(model.withStructuredOutput).not.toHaveBeenCalled();
+    expect(metrics.getStructuredOutputStats('test')).toEqual({
+      calls: 1,
+      nativeCalls: 0,
+      nativeFallbacks: 0,
+      repairs: 0,
+      failures: 0,
+    });
+  });
+
+  it('should feed validation errors back to the model and retry', async () => {
+    const model = createModel(['{"answer": "maybe"}', '{"answer": "no", "reason": "晴天"}']);
+
+    const result = await invokeStructured(model as never, messages, schema, {
+      node: 'test',
+      native: false,
+    });
+
+    expect(result).toEqual({ answer: 'no', reason: '晴天' });
+    const retry = model.invoke.mock.calls[1]![0];
+    expect(retry).toHaveLength(4);
+    expect(retry[2].content).toBe('{"answer": "maybe"}');
+    expect(retry[3].content).toContain('answer');
+    expect(metrics.getStructuredOutputStats('test')?.repairs).toBe(1);
+  });
+
+  it('should throw StructuredOutputError after the repair attempts are used up', async () => {
+    const model = createModel(['不知道', '不知道', '还是不知道']);
+
+    const error = await invokeStructured(model as never, messages, schema, {
+      node: 'test',
+      native: false,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect((error as StructuredOutputError).raw).toBe('还是不知道');
+    expect(model.invoke).toHaveBeenCalledTimes(3);
+    expect(metrics.getStructuredOutputStats('test')).toMatchObject({ calls: 1, failures: 1 });
+  });
+
+  it('should use native structured output when enabled', async () => {
+    const structured = vi.fn().mockResolvedValue({ answer: 'yes', reason: '' });
+    const model = createModel([], structured);
+
+    const result = await invokeStructured(model as never, messages, schema, {
+      node: 'test',
+      native: true,
+    });
+
+    expect(result).toEqual({ answer: 'yes', reason: '' });
+    expect(model.withStructuredOutput).toHaveBeenCalledWith(schema, { name: 'test' });
+    expect(model.invoke).not.toHaveBeenCalled();
+    expect(metrics.getStructuredOutputStats('test')?.nativeCalls).toBe(1);
+  });
+
+  it('should fall back to JSON text when native parsing fails', async () => {
+    const structured = vi.fn().mockRejectedValue(new OutputParserException('bad tool call'));
+    const model = createModel(['{"answer": "no"}'], structured);
+
+    const result = await invokeStructured(model as never, messages, schema, {
+      node: 'test',
+      native: true,
+    });
+
+    expect(result).toEqual({ answer: 'no', reason: '' });
+    expect(metrics.getStructuredOutputStats('test')?.nativeFallbacks).toBe(1);
+  });
+
+  it('should not retry request errors from native structured output', async () => {
+    const structured = vi.fn().mockRejectedValue(new Error('rate limited'));
+    const model = createModel([], structured);
+
+    await expect(
+      invokeStructured(model as never, messages, schema, { node: 'test', native: true })
+    ).rejects.toThrow('rate limited');
+    expect(model.invoke).not.toHaveBeenCalled();
+  });
+});
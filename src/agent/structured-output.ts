@@ -0,0 +1,157 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, HumanMessage, type BaseMessage } from '@langchain/core/messages';
+import { OutputParserException } from '@langchain/core/output_parsers';
+import type { z } from 'zod';
+import { metrics } from '../metrics/index.js';
+import { chunkText } from './streaming.js';
+
+/** JSON 模式下解析失败后最多要求模型修正的次数 */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * 模型输出在修正重试后仍不符合 Schema
+ */
+export class StructuredOutputError extends Error {
+  /** 产生输出的节点 */
+  readonly node: string;
+  /** 最后一次的模型原始输出 */
+  readonly raw: string;
+
+  constructor(node: string, message: string, raw: string) {
+    super(`${node}: ${message}`);
+    this.name = 'StructuredOutputError';
+    this.node = node;
+    this.raw = raw;
+  }
+}
+
+export interface StructuredOutputOptions {
+  /** 节点名称，用于 metrics 和错误信息 */
+  node: string;
+  /** 是否使用模型原生的结构化输出（tool calling），不支持的模型走 JSON 解析和修正重试 */
+  native: boolean;
+}
+
+/**
+ * 从模型输出中取出 JSON 对象（允许包裹在代码块或说明文字中）
+ */
+export function extractJson(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new SyntaxError('未找到 JSON 对象');
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+/**
+ * 按 Schema 解析文本，失败时返回给模型看的问题描述
+ */
+function parseText<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { success: true; data: T } | { success: false; problem: string } {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (error) {
+    return {
+      success: false,
+      problem: `不是合法的 JSON（${error instanceof Error ? error.message : String(error)}）`,
+    };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  const issues = result.error.issues.map(
+    (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+  );
+  return { success: false, problem: `字段不符合要求（${issues.join('；')}）` };
+}
+
+/**
+ * JSON 模式：解析失败时把错误反馈给模型并要求重新输出
+ */
+async function invokeWithRepair<T>(
+  model: BaseChatModel,
+  messages: BaseMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  node: string
+): Promise<{ data: T; repairs: number }> {
+  const conversation = [...messages];
+
+  for (let repairs = 0; ; repairs++) {
+    const response = await model.invoke(conversation);
+    const text = chunkText(response.content);
+    const parsed = parseText(text, schema);
+
+    if (parsed.success) {
+      return { data: parsed.data, repairs };
+    }
+    if (repairs >= MAX_REPAIR_ATTEMPTS) {
+      throw new StructuredOutputError(
+        node,
+        `invalid output after ${repairs + 1} attempts: ${parsed.problem}`,
+        text
+      );
+    }
+
+    conversation.push(
+      new AIMessage(text),
+      new HumanMessage(
+        `上面的回复无法解析：${parsed.problem}。请只输出一个符合要求的 JSON 对象，不要包含其他文字。`
+      )
+    );
+  }
+}
+
+/**
+ * 调用模型并得到符合 Schema 的结构化结果
+ *
+ * native 为 true 时使用 withStructuredOutput，原生解析失败时回退到 JSON 模式；
+ * JSON 模式最多修正 MAX_REPAIR_ATTEMPTS 次，仍失败时抛出 StructuredOutputError。
+ * 每次调用的结果记录到 metrics。
+ */
+export async function invokeStructured<T extends Record<string, unknown>>(
+  model: BaseChatModel,
+  messages: BaseMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: StructuredOutputOptions
+): Promise<T> {
+  const { node, native } = options;
+  let nativeFallback = false;
+
+  if (native) {
+    try {
+      const data = await model
+        .withStructuredOutput<T>(schema, { name: node })
+        .invoke(messages);
+      metrics.recordStructuredOutput(node, { native, nativeFallback, repairs: 0, success: true });
+      return data;
+    } catch (error) {
+      // 只有解析失败才回退，请求错误直接抛出
+      if (!(error instanceof OutputParserException)) {
+        throw error;
+      }
+      nativeFallback = true;
+    }
+  }
+
+  try {
+    const { data, repairs } = await invokeWithRepair(model, messages, schema, node);
+    metrics.recordStructuredOutput(node, { native, nativeFallback, repairs, success: true });
+    return data;
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      metrics.recordStructuredOutput(node, {
+        native,
+        nativeFallback,
+        repairs: MAX_REPAIR_ATTEMPTS,
+        success: false,
+      });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  BaseChatModel,
+  type BindToolsInput,
+} from '@langchain/core/language_models/chat_models';
+import type {
+  BaseLanguageModelInput,
+  StructuredOutputMethodOptions,
+} from '@langchain/core/language_models/base';
+import type { AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, type ChatResult } from '@langchain/core/outputs';
+import { RunnableLambda, type Runnable } from '@langchain/core/runnables';
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+
+/**
+ * 链中的一个模型
+ */
+export interface ModelChainEntry {
+  /** ModelRegistry 中的名称 */
+  name: string;
+  model: BaseChatModel;
+}
+
+function textOf(content: BaseMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .map((block) => (block.type === 'text' && typeof block['text'] === 'string' ? block['text'] : ''))
+    .join('');
+}
+
+/**
+ * 实际提供服务的模型名称：嵌套的链取内层最近一次使用的模型
+ */
+export function servedModelName(model: BaseChatModel, name: string): string {
+  return model instanceof ChainedChatModel ? (model.lastUsed ?? name) : name;
+}
+
+/**
+ * 由多个模型组成的聊天模型
+ *
+ * 子类实现 run 决定调用哪个模型（回退、重试、熔断等）；
+ * 生成、流式输出、bindTools、withStructuredOutput 都经由 run 调用链中的模型。
+ * 流式输出在拿到第一个分片后才算调用成功，之后出错直接抛出。
+ */
+export abstract class ChainedChatModel extends BaseChatModel {
+  readonly entries: ModelChainEntry[];
+  /** 最近一次调用实际使用的模型（尚未调用时为 undefined） */
+  lastUsed: string | undefined;
+
+  constructor(entries: ModelChainEntry[]) {
+    super({});
+    if (entries.length === 0) {
+      throw new Error(`${new.target.name} requires at least one model`);
+    }
+    this.entries = entries;
+  }
+
+  /** 链中模型的名称 */
+  get names(): string[] {
+    return this.entries.map((entry) => entry.name);
+  }
+
+  /**
+   * 在链中选择模型执行 fn，成功时应调用 markUsed
+   */
+  protected abstract run<T>(fn: (model: BaseChatModel) => Promise<T>): Promise<T>;
+
+  protected markUsed(entry: ModelChainEntry): void {
+    this.lastUsed = servedModelName(entry.model, entry.name);
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions']
+  ): Promise<ChatResult> {
+    const message = await this.run((model) => model.invoke(messages, options));
+    return { generations: [{ text: textOf(message.content), message }] };
+  }
+
+  override async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const { first, iterator } = await this.run(async (model) => {
+      const iterator = (await model.stream(messages, options))[Symbol.asyncIterator]();
+      return { first: await iterator.next(), iterator };
+    });
+
+    for (let result = first; !result.done; result = await iterator.next()) {
+      const text = textOf(result.value.content);
+      await runManager?.handleLLMNewToken(text);
+      yield new ChatGenerationChunk({ message: result.value, text });
+    }
+  }
+
+  override bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<this['ParsedCallOptions']>
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk> {
+    const bound = new Map(
+      this.entries.map((entry) => {
+        if (!entry.model.bindTools) {
+          throw new Error(`Model "${entry.name}" does not support tool calling`);
+        }
+        return [entry.model, entry.model.bindTools(tools, kwargs)] as const;
+      })
+    );
+
+    return RunnableLambda.from((input: BaseLanguageModelInput) =>
+      this.run((model) => bound.get(model)!.invoke(input))
+    );
+  }
+
+  override withStructuredOutput<RunOutput extends Record<string, any> = Record<string, any>>(
+    outputSchema: Record<string, any>,
+    config?: StructuredOutputMethodOptions<false>
+  ): Runnable<BaseLanguageModelInput, RunOutput>;
+  override withStructuredOutput<RunOutput extends Record<string, any> = Record<string, any>>(
+    outputSchema: Record<string, any>,
+    config?: StructuredOutputMethodOptions<true>
+  ): Runnable<BaseLanguageModelInput, { raw: BaseMessage; parsed: RunOutput }>;
+  override withStructuredOutput<RunOutput extends Record<string, any> = Record<string, any>>(
+    outputSchema: Record<string, any>,
+    config?: StructuredOutputMethodOptions<boolean>
+  ): Runnable<BaseLanguageModelInput, RunOutput | { raw: BaseMessage; parsed: RunOutput }> {
+    // 每个模型各自生成结构化 Runnable，保留原生实现（包括解析失败时的 OutputParserException）
+    const structured = new Map(
+      this.entries.map(
+        (entry) =>
+          [
+            entry.model,
+            entry.model.withStructuredOutput<RunOutput>(
+              outputSchema,
+              config as StructuredOutputMethodOptions<false>
+            ),
+          ] as const
+      )
+    );
+
+    return RunnableLambda.from((input: BaseLanguageModelInput) =>
+      this.run((model) => structured.get(model)!.invoke(input))
+    );
+  }
+}
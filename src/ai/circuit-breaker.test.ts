@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CircuitBreaker } from './circuit-breaker.js';
+
+function createBreaker(onStateChange = vi.fn()) {
+  let now = 1000;
+  const breaker = new CircuitBreaker({
+    failureThreshold: 3,
+    resetTimeoutMs: 60000,
+    onStateChange,
+    now: () => now,
+  });
+  return {
+    breaker,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive failures reach the threshold', () => {
+    const onStateChange = vi.fn();
+    const { breaker } = createBreaker(onStateChange);
+
+    breaker.recordFailure(new Error('503'));
+    breaker.recordFailure(new Error('503'));
+    expect(breaker.allowRequest()).toBe(true);
+
+    breaker.recordFailure(new Error('429'));
+
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.getHealth()).toEqual({
+      state: 'open',
+      consecutiveFailures: 3,
+      totalFailures: 3,
+      lastError: '429',
+      lastFailureAt: 1000,
+      openedAt: 1000,
+    });
+    expect(onStateChange).toHaveBeenCalledWith('open', 'closed');
+  });
+
+  it('should reset the failure count on success', () => {
+    const { breaker } = createBreaker();
+
+    breaker.recordFailure(new Error('503'));
+    breaker.recordFailure(new Error('503'));
+    breaker.recordSuccess();
+    breaker.recordFailure(new Error('503'));
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getHealth()).toMatchObject({ consecutiveFailures: 1, totalFailures: 3 });
+  });
+
+  it('should let a trial request through after the reset timeout', () => {
+    const { breaker, advance } = createBreaker();
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure(new Error('503'));
+    }
+
+    advance(60000);
+
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getHealth().openedAt).toBeUndefined();
+  });
+
+  it('should reopen when the trial request fails', () => {
+    const { breaker, advance } = createBreaker();
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure(new Error('503'));
+    }
+    advance(60000);
+    breaker.allowRequest();
+
+    breaker.recordFailure(new Error('still down'));
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * 熔断器状态
+ * - closed：正常放行
+ * - open：连续失败达到阈值，拒绝请求直到冷却结束
+ * - half-open：冷却结束，放行试探请求，成功后关闭，失败后重新打开
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** 连续失败多少次后打开 */
+  failureThreshold: number;
+  /** 打开后多久进入半开状态（毫秒） */
+  resetTimeoutMs: number;
+  /** 状态变化时调用（用于日志） */
+  onStateChange?: ((state: CircuitState, previous: CircuitState) => void) | undefined;
+  /** 当前时间（测试用） */
+  now?: (() => number) | undefined;
+}
+
+/**
+ * 熔断器的健康快照
+ */
+export interface CircuitHealth {
+  state: CircuitState;
+  /** 当前连续失败次数 */
+  consecutiveFailures: number;
+  /** 累计失败次数 */
+  totalFailures: number;
+  /** 最近一次失败的错误信息 */
+  lastError?: string;
+  /** 最近一次失败时间（毫秒时间戳） */
+  lastFailureAt?: number;
+  /** 打开时间（毫秒时间戳，仅 open 状态） */
+  openedAt?: number;
+}
+
+/**
+ * 单个 provider 的熔断器
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private lastError: string | undefined;
+  private lastFailureAt: number | undefined;
+  private openedAt: number | undefined;
+  private readonly options: CircuitBreakerOptions;
+  private readonly now: () => number;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * 是否放行请求，open 状态冷却结束时转为 half-open
+   */
+  allowRequest(): boolean {
+    if (this.state !== 'open') {
+      return true;
+    }
+    if (this.now() - (this.openedAt ?? 0) >= this.options.resetTimeoutMs) {
+      this.transition('half-open');
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.openedAt = undefined;
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.lastFailureAt = this.now();
+
+    if (
+      this.state === 'half-open' ||
+      (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)
+    ) {
+      this.openedAt = this.now();
+      this.transition('open');
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getHealth(): CircuitHealth {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      ...(this.lastError !== undefined ? { lastError: this.lastError } : {}),
+      ...(this.lastFailureAt !== undefined ? { lastFailureAt: this.lastFailureAt } : {}),
+      ...(this.openedAt !== undefined ? { openedAt: this.openedAt } : {}),
+    };
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    this.options.onStateChange?.(state, previous);
+  }
+}
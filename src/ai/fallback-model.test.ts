@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HumanMessage } from '@langchain/core/messages';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { FallbackChatModel } from './fallback-model.js';
+
+function createFailingModel(message: string) {
+  const model = new FakeListChatModel({ responses: ['unused'] });
+  vi.spyOn(model, 'invoke').mockRejectedValue(new Error(message));
+  vi.spyOn(model, 'stream').mockRejectedValue(new Error(message));
+  return model;
+}
+
+describe('FallbackChatModel', () => {
+  const messages = [new HumanMessage('你好')];
+
+  it('should use the first model when it succeeds', async () => {
+    const onFallback = vi.fn();
+    const model = new FallbackChatModel(
+      [
+        { name: 'primary', model: new FakeListChatModel({ responses: ['主模型'] }) },
+        { name: 'backup', model: new FakeListChatModel({ responses: ['备用'] }) },
+      ],
+      { onFallback }
+    );
+
+    const result = await model.invoke(messages);
+
+    expect(result.content).toBe('主模型');
+    expect(model.lastUsed).toBe('primary');
+    expect(onFallback).not.toHaveBeenCalled();
+  });
+
+  it('should move along the chain when a model throws', async () => {
+    const onFallback = vi.fn();
+    const model = new FallbackChatModel(
+      [
+        { name: 'primary', model: createFailingModel('rate limited') },
+        { name: 'second', model: createFailingModel('timeout') },
+        { name: 'backup', model: new FakeListChatModel({ responses: ['备用'] }) },
+      ],
+      { onFallback }
+    );
+
+    const result = await model.invoke(messages);
+
+    expect(result.content).toBe('备用');
+    expect(model.lastUsed).toBe('backup');
+    expect(onFallback.mock.calls.map(([event]) => event)).toEqual([
+      { failed: 'primary', next: 'second', error: 'rate limited' },
+      { failed: 'second', next: 'backup', error: 'timeout' },
+    ]);
+  });
+
+  it('should throw the last error when every model fails', async () => {
+    const model = new FallbackChatModel([
+      { name: 'primary', model: createFailingModel('rate limited') },
+      { name: 'backup', model: createFailingModel('unavailable') },
+    ]);
+
+    await expect(model.invoke(messages)).rejects.toThrow('unavailable');
+  });
+
+  it('should fall back when streaming fails before the first chunk', async () => {
+    const model = new FallbackChatModel([
+      { name: 'primary', model: createFailingModel('rate limited') },
+      { name: 'backup', model: new FakeListChatModel({ responses: ['备用'] }) },
+    ]);
+
+    let text = '';
+    for await (const chunk of await model.stream(messages)) {
+      text += chunk.content;
+    }
+
+    expect(text).toBe('备用');
+    expect(model.lastUsed).toBe('backup');
+  });
+
+  it('should apply the chain to structured output runnables', async () => {
+    const primary = createFailingModel('rate limited');
+    const backup = new FakeListChatModel({ responses: ['unused'] });
+    vi.spyOn(primary, 'withStructuredOutput').mockReturnValue({
+      invoke: vi.fn().mockRejectedValue(new Error('rate limited')),
+    } as never);
+    vi.spyOn(backup, 'withStructuredOutput').mockReturnValue({
+      invoke: vi.fn().mockResolvedValue({ answer: 'yes' }),
+    } as never);
+
+    const model = new FallbackChatModel([
+      { name: 'primary', model: primary },
+      { name: 'backup', model: backup },
+    ]);
+
+    const result = await model.withStructuredOutput({}, { name: 'test' }).invoke(messages);
+
+    expect(result).toEqual({ answer: 'yes' });
+    expect(backup.withStructuredOutput).toHaveBeenCalledWith({}, { name: 'test' });
+    expect(model.lastUsed).toBe('backup');
+  });
+});
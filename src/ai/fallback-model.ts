@@ -0,0 +1,74 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChainedChatModel, type ModelChainEntry } from './chained-model.js';
+
+/**
+ * 一次回退：failed 调用失败，改用 next
+ */
+export interface ModelFallbackEvent {
+  failed: string;
+  next: string;
+  error: string;
+}
+
+export interface FallbackChatModelOptions {
+  /** 发生回退时调用（用于日志） */
+  onFallback?: ((event: ModelFallbackEvent) => void) | undefined;
+}
+
+/**
+ * 带回退链的聊天模型
+ *
+ * 按顺序调用链中的模型，前一个抛出错误时改用下一个，全部失败时抛出最后一个错误。
+ * bindTools / withStructuredOutput 得到的 Runnable 同样按链回退；
+ * 流式输出只在第一个分片之前回退，已输出内容后出错直接抛出。
+ */
+export class FallbackChatModel extends ChainedChatModel {
+  private readonly onFallback: ((event: ModelFallbackEvent) => void) | undefined;
+
+  constructor(entries: ModelChainEntry[], options: FallbackChatModelOptions = {}) {
+    super(entries);
+    this.onFallback = options.onFallback;
+  }
+
+  _llmType(): string {
+    return 'fallback';
+  }
+
+  protected async run<T>(fn: (model: BaseChatModel) => Promise<T>): Promise<T> {
+    for (let i = 0; ; i++) {
+      const entry = this.entries[i]!;
+      try {
+        const result = await fn(entry.model);
+        this.markUsed(entry);
+        return result;
+      } catch (error) {
+        const next = this.entries[i + 1];
+        if (!next) {
+          throw error;
+        }
+        this.onFallback?.({
+          failed: entry.name,
+          next: next.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * 按名称组合模型回退链：单个名称直接返回该模型，多个名称时返回 FallbackChatModel
+ */
+export function createModelChain(
+  names: string[],
+  resolve: (name: string) => BaseChatModel,
+  options: FallbackChatModelOptions = {}
+): BaseChatModel {
+  if (names.length === 1) {
+    return resolve(names[0]!);
+  }
+  return new FallbackChatModel(
+    names.map((name) => ({ name, model: resolve(name) })),
+    options
+  );
+}
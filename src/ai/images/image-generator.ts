@@ -0,0 +1,36 @@
+/**
+ * 图片生成请求
+ */
+export interface ImageRequest {
+  /** 画面描述 */
+  prompt: string;
+  /** 尺寸，如 1024x1024，未指定时使用生成器默认值 */
+  size?: string | undefined;
+}
+
+/**
+ * 生成结果，url 和 base64 至少有一个
+ */
+export interface GeneratedImage {
+  /** 图片链接（通常有时效） */
+  url?: string;
+  /** base64 编码的图片内容 */
+  base64?: string;
+  /** 服务端改写后的提示词（部分模型会返回） */
+  revisedPrompt?: string;
+}
+
+/**
+ * 图片生成接口
+ */
+export interface ImageGenerator {
+  readonly name: string;
+  generate(request: ImageRequest): Promise<GeneratedImage>;
+}
+
+export class ImageGenerationError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'ImageGenerationError';
+  }
+}
@@ -0,0 +1,49 @@
+import type { AIConfig } from '../../config/schema.js';
+import type { Logger } from '../../logger/logger.js';
+import type { ImageGenerator } from './image-generator.js';
+import { OpenAIImageGenerator } from './openai-image-generator.js';
+
+/**
+ * 根据配置创建图片生成器
+ *
+ * 未启用或 provider 不存在时返回 null，图片执行器不接入工作流
+ */
+export function createImageGenerator(aiConfig: AIConfig, logger: Logger): ImageGenerator | null {
+  const config = aiConfig.imageGeneration;
+  if (!config.enabled) {
+    return null;
+  }
+
+  const providerConfig = aiConfig.providers[config.provider];
+  if (!providerConfig) {
+    logger.warn('Image generation provider not found in AI config', {
+      provider: config.provider,
+      availableProviders: Object.keys(aiConfig.providers),
+    });
+    return null;
+  }
+
+  logger.info('Image generation enabled', {
+    provider: config.provider,
+    model: config.model,
+    size: config.size,
+  });
+
+  return new OpenAIImageGenerator({
+    apiKey: providerConfig.apiKey,
+    baseUrl: config.baseUrl ?? providerConfig.baseUrl,
+    model: config.model,
+    size: config.size,
+    quality: config.quality,
+    timeoutMs: config.timeoutMs,
+  });
+}
+
+export {
+  ImageGenerationError,
+  type ImageGenerator,
+  type ImageRequest,
+  type GeneratedImage,
+} from './image-generator.js';
+export { OpenAIImageGenerator, type OpenAIImageGeneratorOptions } from './openai-image-generator.js';
+export { StubImageGenerator } from './stub-image-generator.js';
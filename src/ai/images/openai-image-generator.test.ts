@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OpenAIImageGenerator } from './openai-image-generator.js';
+import { ImageGenerationError } from './image-generator.js';
+
+const options = {
+  apiKey: 'sk-test',
+  baseUrl: 'http://localhost:8080/v1/',
+  model: 'dall-e-3',
+  size: '1024x1024',
+  timeoutMs: 1000,
+};
+
+describe('OpenAIImageGenerator', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post the prompt to the generations endpoint', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          data: [{ url: 'https://cdn.example.com/cat.png', revised_prompt: 'a cat in a hat' }],
+        }),
+        { status: 200 }
+      )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const generator = new OpenAIImageGenerator({ ...options, quality: 'hd' });
+
+    const image = await generator.generate({ prompt: 'a cat', size: '1792x1024' });
+
+    expect(image).toEqual({
+      url: 'https://cdn.example.com/cat.png',
+      revisedPrompt: 'a cat in a hat',
+    });
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('http://localhost:8080/v1/images/generations');
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'dall-e-3',
+      prompt: 'a cat',
+      n: 1,
+      size: '1792x1024',
+      quality: 'hd',
+    });
+  });
+
+  it('should accept base64 responses and use the default size', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ data: [{ b64_json: 'iVBORw0KGgo=' }] }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const generator = new OpenAIImageGenerator(options);
+
+    const image = await generator.generate({ prompt: 'a dog' });
+
+    expect(image).toEqual({ base64: 'iVBORw0KGgo=' });
+    const init = fetchMock.mock.calls[0]![1] as RequestInit;
+    expect(JSON.parse(init.body as string).size).toBe('1024x1024');
+  });
+
+  it('should throw ImageGenerationError on HTTP errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response('content policy violation', { status: 400 }))
+    );
+    const generator = new OpenAIImageGenerator(options);
+
+    await expect(generator.generate({ prompt: 'x' })).rejects.toBeInstanceOf(ImageGenerationError);
+  });
+
+  it('should throw ImageGenerationError when no image is returned', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response(JSON.stringify({ data: [] }), { status: 200 }))
+    );
+    const generator = new OpenAIImageGenerator(options);
+
+    await expect(generator.generate({ prompt: 'x' })).rejects.toThrow('has no image');
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  ImageGenerationError,
+  type GeneratedImage,
+  type ImageGenerator,
+  type ImageRequest,
+} from './image-generator.js';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+export interface OpenAIImageGeneratorOptions {
+  apiKey: string;
+  /** OpenAI 兼容接口地址，默认 OpenAI 官方；可指向本地 mock 服务 */
+  baseUrl?: string | undefined;
+  model: string;
+  /** 默认尺寸 */
+  size: string;
+  /** 画质参数（如 standard / hd），不同模型取值不同 */
+  quality?: string | undefined;
+  timeoutMs: number;
+}
+
+interface ImagesResponse {
+  data?: Array<{ url?: unknown; b64_json?: unknown; revised_prompt?: unknown }>;
+}
+
+/**
+ * OpenAI 兼容的 /images/generations 接口
+ *
+ * 不同服务返回 url 或 b64_json，两者都接受
+ */
+export class OpenAIImageGenerator implements ImageGenerator {
+  readonly name = 'openai';
+  private readonly options: OpenAIImageGeneratorOptions;
+
+  constructor(options: OpenAIImageGeneratorOptions) {
+    this.options = options;
+  }
+
+  async generate(request: ImageRequest): Promise<GeneratedImage> {
+    const { apiKey, baseUrl, model, size, quality, timeoutMs } = this.options;
+
+    const body: Record<string, unknown> = {
+      model,
+      prompt: request.prompt,
+      n: 1,
+      size: request.size ?? size,
+    };
+    if (quality) {
+      body['quality'] = quality;
+    }
+
+    const url = `${(baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '')}/images/generations`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      throw new ImageGenerationError(
+        `Image generation request failed: ${error instanceof Error ? error.message : String(error)}`,
+        error
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ImageGenerationError(
+        `Image generation failed with HTTP ${response.status}: ${detail.substring(0, 200)}`
+      );
+    }
+
+    const result = (await response.json()) as ImagesResponse;
+    const image = result.data?.[0];
+    const generated: GeneratedImage = {};
+    if (typeof image?.url === 'string') {
+      generated.url = image.url;
+    }
+    if (typeof image?.b64_json === 'string') {
+      generated.base64 = image.b64_json;
+    }
+    if (typeof image?.revised_prompt === 'string') {
+      generated.revisedPrompt = image.revised_prompt;
+    }
+
+    if (!generated.url && !generated.base64) {
+      throw new ImageGenerationError('Image generation response has no image');
+    }
+    return generated;
+  }
+}
@@ -0,0 +1,29 @@
+import type { GeneratedImage, ImageGenerator, ImageRequest } from './image-generator.js';
+
+/**
+ * 本地桩实现，不调用任何服务，用于测试和离线调试
+ */
+export class StubImageGenerator implements ImageGenerator {
+  readonly name = 'stub';
+  /** 收到的生成请求 */
+  readonly calls: ImageRequest[] = [];
+  private readonly respond: (request: ImageRequest) => GeneratedImage | Promise<GeneratedImage>;
+
+  /**
+   * @param response 固定返回的结果，或根据请求生成结果的函数
+   */
+  constructor(
+    response:
+      | GeneratedImage
+      | ((request: ImageRequest) => GeneratedImage | Promise<GeneratedImage>) = {
+      url: 'https://example.com/generated.png',
+    }
+  ) {
+    this.respond = typeof response === 'function' ? response : () => response;
+  }
+
+  async generate(request: ImageRequest): Promise<GeneratedImage> {
+    this.calls.push(request);
+    return this.respond(request);
+  }
+}
@@ -1,3 +1,44 @@
 export { createChatModel } from './provider.js';
-export { ModelRegistry } from './model-registry.js';
+export { ModelRegistry, type ProviderHealth } from './model-registry.js';
+export { ChainedChatModel, servedModelName, type ModelChainEntry } from './chained-model.js';
+export {
+  FallbackChatModel,
+  createModelChain,
+  type ModelFallbackEvent,
+  type FallbackChatModelOptions,
+} from './fallback-model.js';
+export {
+  ResilientChatModel,
+  ProviderUnavailableError,
+  isRetryableError,
+  type ResilientChatModelOptions,
+  type ResilientModelEntry,
+  type RetryOptions,
+} from './resilient-model.js';
+export {
+  UsageTracker,
+  withUsageContext,
+  getUsageContext,
+  createUsageMeter,
+  calculateCost,
+  extractTokenUsage,
+  type UsageContext,
+  type TokenUsage,
+  type UsageMeter,
+} from './usage.js';
+export {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitHealth,
+  type CircuitState,
+} from './circuit-breaker.js';
 export type { AIProvider, AIProviderConfig } from './types.js';
+export {
+  createImageGenerator,
+  ImageGenerationError,
+  OpenAIImageGenerator,
+  StubImageGenerator,
+  type ImageGenerator,
+  type ImageRequest,
+  type GeneratedImage,
+} from './images/index.js';
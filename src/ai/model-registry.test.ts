@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AISchema } from '../config/schema.js';
+import { ModelRegistry } from './model-registry.js';
+import { ResilientChatModel } from './resilient-model.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function createConfig(
+  resilience: Record<string, unknown> = {},
+  pricing: Record<string, unknown> = {}
+) {
+  return AISchema.parse({
+    default: 'claude',
+    providers: {
+      claude: { provider: 'anthropic', model: 'claude-sonnet-4-20250514', apiKey: 'test' },
+      openai: { provider: 'openai', model: 'gpt-4o', apiKey: 'test' },
+      glm: { provider: 'glm', model: 'glm-4-flash', apiKey: 'test' },
+    },
+    resilience,
+    pricing,
+  });
+}
+
+describe('ModelRegistry', () => {
+  it('should not fail over unless configured', () => {
+    const registry = new ModelRegistry(createConfig(), createMockLogger() as never);
+
+    const model = registry.get('openai');
+
+    expect(model).toBeInstanceOf(ResilientChatModel);
+    expect((model as ResilientChatModel).names).toEqual(['openai']);
+  });
+
+  it('should use the configured failover order', () => {
+    const registry = new ModelRegistry(
+      createConfig({ failover: ['glm', 'claude'] }),
+      createMockLogger() as never
+    );
+
+    expect((registry.get('claude') as ResilientChatModel).names).toEqual(['claude', 'glm']);
+  });
+
+  it('should not fail over when failover is empty', () => {
+    const registry = new ModelRegistry(
+      createConfig({ failover: [] }),
+      createMockLogger() as never
+    );
+
+    expect((registry.get('claude') as ResilientChatModel).names).toEqual(['claude']);
+  });
+
+  it('should require failover candidates to share the capabilities', () => {
+    const config = AISchema.parse({
+      default: 'claude',
+      providers: {
+        claude: { provider: 'anthropic', model: 'claude-sonnet-4-20250514', apiKey: 'test' },
+        openai: { provider: 'openai', model: 'gpt-4o', apiKey: 'test' },
+        glm: { provider: 'glm', model: 'glm-4-flash', apiKey: 'test', vision: false },
+      },
+      resilience: { failover: ['glm'] },
+    });
+    const registry = new ModelRegistry(config, createMockLogger() as never);
+
+    // claude 支持图片、PDF 和原生结构化输出，但会转移到只支持文本的 glm
+    expect(registry.getChain('claude')).toEqual(['claude', 'glm']);
+    expect(registry.supportsVision('claude')).toBe(false);
+    expect(registry.supportsPdf('claude')).toBe(false);
+    expect(registry.supportsStructuredOutput('claude')).toBe(false);
+
+    const direct = new ModelRegistry(createConfig(), createMockLogger() as never);
+    expect(direct.supportsVision('claude')).toBe(true);
+    expect(direct.supportsPdf('claude')).toBe(true);
+    expect(direct.supportsStructuredOutput('claude')).toBe(true);
+  });
+
+  it('should report provider health', () => {
+    const registry = new ModelRegistry(createConfig(), createMockLogger() as never);
+
+    expect(registry.getHealth()).toEqual([
+      {
+        name: 'claude',
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-20250514',
+        state: 'closed',
+        consecutiveFailures: 0,
+        totalFailures: 0,
+      },
+      expect.objectContaining({ name: 'openai', state: 'closed' }),
+      expect.objectContaining({ name: 'glm', state: 'closed' }),
+    ]);
+  });
+
+  it('should reject unknown failover providers in config', () => {
+    expect(() => createConfig({ failover: ['missing'] })).toThrow(/Failover provider/);
+  });
+
+  it('should reject pricing for unknown providers in config', () => {
+    expect(() => createConfig({}, { missing: { input: 1, output: 2 } })).toThrow(/Pricing for/);
+  });
+});
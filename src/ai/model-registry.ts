@@ -1,20 +1,46 @@
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import type { AIConfig } from '../config/schema.js';
+import type { AIConfig, ProviderConfig, ResilienceConfig } from '../config/schema.js';
 import type { Logger } from '../logger/logger.js';
 import { createChatModel } from './provider.js';
+import { CircuitBreaker, type CircuitHealth } from './circuit-breaker.js';
+import { ResilientChatModel } from './resilient-model.js';
+import { UsageTracker } from './usage.js';
+
+/** 默认使用原生结构化输出的提供商（OpenAI 兼容接口的其他提供商对 tool calling 支持不一） */
+const NATIVE_STRUCTURED_OUTPUT_PROVIDERS = new Set(['anthropic', 'openai']);
+
+/**
+ * provider 的健康状态（status API 使用）
+ */
+export interface ProviderHealth extends CircuitHealth {
+  name: string;
+  provider: ProviderConfig['provider'];
+  model: string;
+}
 
 /**
  * AI 模型注册表
  *
- * 持有所有已配置的 AI 模型实例，供不同 agent 节点按名称获取
+ * 持有所有已配置的 AI 模型实例，供不同 agent 节点按名称获取。
+ * 获取到的模型带重试、熔断和故障转移（见 ResilientChatModel），熔断器按 provider 共享。
+ * 能力检查（图片、PDF、结构化输出）要求故障转移链中的模型都支持，转移后不会收到无法处理的输入。
  */
 export class ModelRegistry {
   private readonly models = new Map<string, BaseChatModel>();
+  private readonly providerConfigs = new Map<string, ProviderConfig>();
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly visionModels = new Set<string>();
+  private readonly pdfModels = new Set<string>();
+  private readonly structuredOutputModels = new Set<string>();
   private readonly defaultName: string;
+  private readonly resilience: ResilienceConfig;
+  private readonly logger: Logger;
 
   constructor(config: AIConfig, logger: Logger) {
     const registryLogger = logger.child('ModelRegistry');
+    this.logger = registryLogger;
     this.defaultName = config.default;
+    this.resilience = config.resilience;
 
     for (const [name, providerConfig] of Object.entries(config.providers)) {
       registryLogger.info(`Initializing model: ${name}`, {
@@ -22,8 +48,38 @@ export class ModelRegistry {
         model: providerConfig.model,
       });
 
-      const model = createChatModel(providerConfig);
+      // 重试由 ResilientChatModel 负责，关闭 SDK 内置重试
+      const model = createChatModel({ ...providerConfig, maxRetries: 0 });
+      // 每次请求的 token 和费用计入实际调用的 provider
+      model.callbacks = [new UsageTracker(name, config.pricing[name])];
       this.models.set(name, model);
+      this.providerConfigs.set(name, providerConfig);
+      this.breakers.set(
+        name,
+        new CircuitBreaker({
+          ...config.resilience.circuitBreaker,
+          onStateChange: (state, previous) => {
+            const data = { model: name, from: previous, to: state };
+            if (state === 'open') {
+              registryLogger.warn('Circuit breaker opened', data);
+            } else {
+              registryLogger.info('Circuit breaker state changed', data);
+            }
+          },
+        })
+      );
+      if (providerConfig.vision) {
+        this.visionModels.add(name);
+      }
+      if (providerConfig.pdf ?? providerConfig.provider === 'anthropic') {
+        this.pdfModels.add(name);
+      }
+      if (
+        providerConfig.structuredOutput ??
+        NATIVE_STRUCTURED_OUTPUT_PROVIDERS.has(providerConfig.provider)
+      ) {
+        this.structuredOutputModels.add(name);
+      }
     }
 
     registryLogger.info('All models initialized', {
@@ -38,15 +94,33 @@ export class ModelRegistry {
     return this.get(this.defaultName);
   }
 
-  /** 按名称获取模型 */
+  /**
+   * 按名称获取模型
+   *
+   * 每次返回新的包装实例（记录各自实际使用的 provider），底层模型和熔断器共享
+   */
   get(name: string): BaseChatModel {
-    const model = this.models.get(name);
-    if (!model) {
+    if (!this.models.has(name)) {
       throw new Error(
         `Model "${name}" not found. Available: ${this.getNames().join(', ')}`
       );
     }
-    return model;
+
+    return new ResilientChatModel(
+      this.getChain(name).map((candidate) => ({
+        name: candidate,
+        model: this.models.get(candidate)!,
+        breaker: this.breakers.get(candidate)!,
+      })),
+      { retry: this.resilience.retry, logger: this.logger }
+    );
+  }
+
+  /**
+   * 模型及其故障转移候选（按转移顺序）
+   */
+  getChain(name: string): string[] {
+    return [name, ...this.resilience.failover.filter((candidate) => candidate !== name)];
   }
 
   /** 检查模型是否存在 */
@@ -54,11 +128,39 @@ export class ModelRegistry {
     return this.models.has(name);
   }
 
+  /** 模型（含故障转移候选）是否都支持图片输入 */
+  supportsVision(name: string): boolean {
+    return this.getChain(name).every((candidate) => this.visionModels.has(candidate));
+  }
+
+  /** 模型（含故障转移候选）是否都接受 PDF file block */
+  supportsPdf(name: string): boolean {
+    return this.getChain(name).every((candidate) => this.pdfModels.has(candidate));
+  }
+
+  /** 模型（含故障转移候选）是否都使用原生结构化输出 */
+  supportsStructuredOutput(name: string): boolean {
+    return this.getChain(name).every((candidate) => this.structuredOutputModels.has(candidate));
+  }
+
   /** 获取所有模型名称 */
   getNames(): string[] {
     return Array.from(this.models.keys());
   }
 
+  /** 各 provider 的熔断状态 */
+  getHealth(): ProviderHealth[] {
+    return this.getNames().map((name) => {
+      const providerConfig = this.providerConfigs.get(name)!;
+      return {
+        name,
+        provider: providerConfig.provider,
+        model: providerConfig.model,
+        ...this.breakers.get(name)!.getHealth(),
+      };
+    });
+  }
+
   /** 获取默认模型名称 */
   getDefaultName(): string {
     return this.defaultName;
@@ -27,6 +27,7 @@ export function createChatModel(config: AIProviderConfig): BaseChatModel {
       anthropicApiKey: config.apiKey,
       temperature,
       maxTokens,
+      ...(config.maxRetries !== undefined ? { maxRetries: config.maxRetries } : {}),
       ...(config.baseUrl ? { anthropicApiUrl: config.baseUrl } : {}),
     });
   }
@@ -40,6 +41,7 @@ export function createChatModel(config: AIProviderConfig): BaseChatModel {
     apiKey: config.apiKey,
     temperature,
     maxTokens,
+    ...(config.maxRetries !== undefined ? { maxRetries: config.maxRetries } : {}),
     ...(baseURL ? { configuration: { baseURL } } : {}),
   });
 }
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HumanMessage } from '@langchain/core/messages';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { CircuitBreaker } from './circuit-breaker.js';
+import {
+  ProviderUnavailableError,
+  ResilientChatModel,
+  isRetryableError,
+} from './resilient-model.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function httpError(status: number, message = `HTTP ${status}`) {
+  return Object.assign(new Error(message), { status });
+}
+
+function createModel(...outcomes: Array<string | Error>) {
+  const model = new FakeListChatModel({ responses: ['unused'] });
+  const invoke = vi.spyOn(model, 'invoke');
+  for (const outcome of outcomes) {
+    if (outcome instanceof Error) {
+      invoke.mockRejectedValueOnce(outcome);
+    } else {
+      invoke.mockResolvedValueOnce({ content: outcome } as never);
+    }
+  }
+  return model;
+}
+
+function createBreaker(failureThreshold = 5) {
+  return new CircuitBreaker({ failureThreshold, resetTimeoutMs: 60000 });
+}
+
+const retry = { maxAttempts: 3, initialDelayMs: 100, maxDelayMs: 250 };
+const messages = [new HumanMessage('你好')];
+
+describe('isRetryableError', () => {
+  it('should retry rate limits, server errors and connection errors', () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+    const connection = new Error('Connection error.');
+    connection.name = 'APIConnectionError';
+    expect(isRetryableError(connection)).toBe(true);
+  });
+
+  it('should not retry client errors', () => {
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(httpError(401))).toBe(false);
+    expect(isRetryableError(new Error('invalid input'))).toBe(false);
+  });
+});
+
+describe('ResilientChatModel', () => {
+  it('should retry with exponential backoff', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const primary = createModel(httpError(429), httpError(502), '终于好了');
+    const breaker = createBreaker();
+    const model = new ResilientChatModel([{ name: 'claude', model: primary, breaker }], {
+      retry: { ...retry, maxAttempts: 4 },
+      logger: createMockLogger() as never,
+      sleep,
+    });
+
+    const result = await model.invoke(messages);
+
+    expect(result.content).toBe('终于好了');
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200]);
+    expect(breaker.getHealth()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(model.lastUsed).toBe('claude');
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const primary = createModel(httpError(400, 'bad request'));
+    const backup = createModel('备用');
+    const breaker = createBreaker();
+    const model = new ResilientChatModel(
+      [
+        { name: 'claude', model: primary, breaker },
+        { name: 'glm', model: backup, breaker: createBreaker() },
+      ],
+      { retry, logger: createMockLogger() as never, sleep: vi.fn() }
+    );
+
+    await expect(model.invoke(messages)).rejects.toThrow('bad request');
+    expect(primary.invoke).toHaveBeenCalledTimes(1);
+    expect(backup.invoke).not.toHaveBeenCalled();
+    expect(breaker.getHealth().totalFailures).toBe(0);
+  });
+
+  it('should fail over when retries are used up', async () => {
+    const logger = createMockLogger();
+    const primary = createModel(httpError(503), httpError(503), httpError(503));
+    const backup = createModel('备用');
+    const model = new ResilientChatModel(
+      [
+        { name: 'claude', model: primary, breaker: createBreaker() },
+        { name: 'glm', model: backup, breaker: createBreaker() },
+      ],
+      { retry, logger: logger as never, sleep: vi.fn().mockResolvedValue(undefined) }
+    );
+
+    const result = await model.invoke(messages);
+
+    expect(result.content).toBe('备用');
+    expect(primary.invoke).toHaveBeenCalledTimes(3);
+    expect(model.lastUsed).toBe('glm');
+    expect(logger.warn).toHaveBeenCalledWith('Provider failover', { primary: 'claude', to: 'glm' });
+  });
+
+  it('should skip providers whose circuit is open', async () => {
+    const primary = createModel(httpError(503), httpError(503));
+    const backup = createModel('备用 1', '备用 2');
+    const breaker = createBreaker(2);
+    const model = new ResilientChatModel(
+      [
+        { name: 'claude', model: primary, breaker },
+        { name: 'glm', model: backup, breaker: createBreaker() },
+      ],
+      { retry, logger: createMockLogger() as never, sleep: vi.fn().mockResolvedValue(undefined) }
+    );
+
+    // 第二次失败时熔断，不再等待第三次重试
+    expect((await model.invoke(messages)).content).toBe('备用 1');
+    expect(breaker.getState()).toBe('open');
+
+    expect((await model.invoke(messages)).content).toBe('备用 2');
+    expect(primary.invoke).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw ProviderUnavailableError when every circuit is open', async () => {
+    const breaker = createBreaker(1);
+    breaker.recordFailure(httpError(503));
+    const model = new ResilientChatModel(
+      [{ name: 'claude', model: createModel('不会调用'), breaker }],
+      { retry, logger: createMockLogger() as never }
+    );
+
+    await expect(model.invoke(messages)).rejects.toBeInstanceOf(ProviderUnavailableError);
+  });
+});
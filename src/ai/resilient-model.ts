@@ -0,0 +1,169 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChainedChatModel, type ModelChainEntry } from './chained-model.js';
+import type { CircuitBreaker } from './circuit-breaker.js';
+import type { Logger } from '../logger/logger.js';
+
+/** 视为 provider 故障、可以重试的连接错误 */
+const RETRYABLE_ERROR_NAMES = new Set(['APIConnectionError', 'APIConnectionTimeoutError']);
+const RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN']);
+
+export interface RetryOptions {
+  /** 每个 provider 的最多尝试次数（含首次） */
+  maxAttempts: number;
+  /** 首次重试前的等待时间（毫秒），之后每次翻倍 */
+  initialDelayMs: number;
+  /** 单次等待的上限（毫秒） */
+  maxDelayMs: number;
+}
+
+/**
+ * 带熔断器的模型
+ */
+export interface ResilientModelEntry extends ModelChainEntry {
+  breaker: CircuitBreaker;
+}
+
+export interface ResilientChatModelOptions {
+  retry: RetryOptions;
+  logger: Logger;
+  /** 等待函数（测试用） */
+  sleep?: ((ms: number) => Promise<void>) | undefined;
+}
+
+/**
+ * 所有 provider 都不可用（熔断中）
+ */
+export class ProviderUnavailableError extends Error {
+  readonly providers: string[];
+
+  constructor(providers: string[]) {
+    super(`All providers are unavailable: ${providers.join(', ')}`);
+    this.name = 'ProviderUnavailableError';
+    this.providers = providers;
+  }
+}
+
+/**
+ * 读取错误的 HTTP 状态码（OpenAI / Anthropic SDK 的 APIError 为 status）
+ */
+function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+  const record = error as Record<string, unknown>;
+  const response = record['response'] as Record<string, unknown> | undefined;
+  const status = record['status'] ?? record['statusCode'] ?? response?.['status'];
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * 是否为 provider 故障：429、5xx 或连接错误。其他错误（如 400 请求不合法）换 provider 也无济于事
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as Error & { code?: unknown }).code;
+  return (
+    RETRYABLE_ERROR_NAMES.has(error.name) ||
+    (typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code))
+  );
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 带重试、熔断和故障转移的聊天模型
+ *
+ * entries 第一个为主 provider，其余为故障转移候选。每个 provider：
+ * - 429 / 5xx / 连接错误按指数退避重试，最多 retry.maxAttempts 次
+ * - 每次失败计入该 provider 的熔断器，熔断期间直接跳过
+ * 重试用尽或熔断时依次改用后面的 provider；其他错误直接抛出，不重试也不计入熔断。
+ */
+export class ResilientChatModel extends ChainedChatModel {
+  private readonly breakers: Map<BaseChatModel, CircuitBreaker>;
+  private readonly retry: RetryOptions;
+  private readonly logger: Logger;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(entries: ResilientModelEntry[], options: ResilientChatModelOptions) {
+    super(entries.map(({ name, model }) => ({ name, model })));
+    this.breakers = new Map(entries.map((entry) => [entry.model, entry.breaker]));
+    this.retry = options.retry;
+    this.logger = options.logger;
+    this.sleep = options.sleep ?? defaultSleep;
+  }
+
+  _llmType(): string {
+    return 'resilient';
+  }
+
+  protected async run<T>(fn: (model: BaseChatModel) => Promise<T>): Promise<T> {
+    const primary = this.entries[0]!.name;
+    let lastError: unknown;
+
+    for (const entry of this.entries) {
+      const breaker = this.breakers.get(entry.model)!;
+      if (!breaker.allowRequest()) {
+        continue;
+      }
+      if (entry.name !== primary) {
+        this.logger.warn('Provider failover', { primary, to: entry.name });
+      }
+
+      try {
+        const result = await this.attempt(entry, breaker, fn);
+        this.markUsed(entry);
+        return result;
+      } catch (error) {
+        if (!isRetryableError(error)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    throw lastError ?? new ProviderUnavailableError(this.names);
+  }
+
+  /**
+   * 在单个 provider 上按指数退避重试
+   */
+  private async attempt<T>(
+    entry: ModelChainEntry,
+    breaker: CircuitBreaker,
+    fn: (model: BaseChatModel) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await fn(entry.model);
+        breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        if (!isRetryableError(error)) {
+          throw error;
+        }
+        breaker.recordFailure(error);
+        if (attempt >= this.retry.maxAttempts || !breaker.allowRequest()) {
+          throw error;
+        }
+
+        const delayMs = Math.min(
+          this.retry.initialDelayMs * 2 ** (attempt - 1),
+          this.retry.maxDelayMs
+        );
+        this.logger.warn('Model request failed, retrying', {
+          model: entry.name,
+          attempt,
+          delayMs,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await this.sleep(delayMs);
+      }
+    }
+  }
+}
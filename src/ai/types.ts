@@ -11,4 +11,6 @@ export interface AIProviderConfig {
   baseUrl?: string | undefined;
   temperature?: number;
   maxTokens?: number;
+  /** SDK 内置的重试次数（ModelRegistry 自行重试时设为 0） */
+  maxRetries?: number;
 }
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import type { LLMResult } from '@langchain/core/outputs';
+import { metrics } from '../metrics/index.js';
+import {
+  UsageTracker,
+  calculateCost,
+  createUsageMeter,
+  extractTokenUsage,
+  getUsageContext,
+  withUsageContext,
+} from './usage.js';
+
+function resultWithUsage(usage: Record<string, unknown>): LLMResult {
+  const message = new AIMessage({ content: '好', usage_metadata: usage as never });
+  return { generations: [[{ text: '好', message } as never]] };
+}
+
+describe('calculateCost', () => {
+  it('should price cached input separately', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 500_000, cachedTokens: 400_000 };
+
+    expect(calculateCost(usage, { input: 3, output: 15, cachedInput: 0.3 })).toBeCloseTo(
+      0.6 * 3 + 0.4 * 0.3 + 0.5 * 15
+    );
+  });
+
+  it('should fall back to the input price and to zero without pricing', () => {
+    const usage = { inputTokens: 2_000_000, outputTokens: 0, cachedTokens: 1_000_000 };
+
+    expect(calculateCost(usage, { input: 1, output: 2 })).toBeCloseTo(2);
+    expect(calculateCost(usage, undefined)).toBe(0);
+  });
+});
+
+describe('extractTokenUsage', () => {
+  it('should read usage_metadata with cache details', () => {
+    const output = resultWithUsage({
+      input_tokens: 120,
+      output_tokens: 30,
+      total_tokens: 150,
+      input_token_details: { cache_read: 100 },
+    });
+
+    expect(extractTokenUsage(output)).toEqual({
+      inputTokens: 120,
+      outputTokens: 30,
+      cachedTokens: 100,
+    });
+  });
+
+  it('should fall back to llmOutput.tokenUsage', () => {
+    const output: LLMResult = {
+      generations: [[{ text: '好' }]],
+      llmOutput: { tokenUsage: { promptTokens: 12, completionTokens: 5 } },
+    };
+
+    expect(extractTokenUsage(output)).toEqual({ inputTokens: 12, outputTokens: 5, cachedTokens: 0 });
+  });
+});
+
+describe('withUsageContext', () => {
+  it('should merge nested contexts', async () => {
+    const context = await withUsageContext({ session: 'group_1' }, () =>
+      withUsageContext({ node: 'chat' }, async () => getUsageContext())
+    );
+
+    expect(context).toEqual({ session: 'group_1', node: 'chat' });
+    expect(getUsageContext()).toEqual({});
+  });
+});
+
+describe('UsageTracker', () => {
+  beforeEach(() => {
+    metrics.reset();
+  });
+
+  it('should record usage with the calling context', () => {
+    let now = 1000;
+    const tracker = new UsageTracker('claude', { input: 3, output: 15 }, () => now);
+
+    withUsageContext({ session: 'private_1', node: 'intent' }, () => {
+      tracker.handleChatModelStart({} as never, [], 'run-1');
+    });
+    now += 250;
+    tracker.handleLLMEnd(
+      resultWithUsage({ input_tokens: 1000, output_tokens: 100, total_tokens: 1100 }),
+      'run-1'
+    );
+
+    const stats = metrics.getLLMStats();
+    expect(stats.models['claude']).toMatchObject({
+      calls: 1,
+      inputTokens: 1000,
+      outputTokens: 100,
+      avgLatencyMs: 250,
+    });
+    expect(stats.models['claude']!.costUsd).toBeCloseTo(0.0045);
+    expect(stats.nodes['intent']).toMatchObject({ calls: 1 });
+    expect(stats.sessions['private_1']).toMatchObject({ calls: 1 });
+  });
+
+  it('should accumulate usage into the context meter', () => {
+    const tracker = new UsageTracker('claude', { input: 3, output: 15 });
+    const meter = createUsageMeter();
+
+    withUsageContext({ meter }, () => {
+      tracker.handleChatModelStart({} as never, [], 'run-1');
+      tracker.handleChatModelStart({} as never, [], 'run-2');
+    });
+    tracker.handleLLMEnd(
+      resultWithUsage({ input_tokens: 1000, output_tokens: 100, total_tokens: 1100 }),
+      'run-1'
+    );
+    tracker.handleLLMEnd(
+      resultWithUsage({ input_tokens: 500, output_tokens: 50, total_tokens: 550 }),
+      'run-2'
+    );
+
+    expect(meter).toMatchObject({ inputTokens: 1500, outputTokens: 150, cachedTokens: 0 });
+    expect(meter.costUsd).toBeCloseTo(0.00675);
+  });
+
+  it('should record failed calls', () => {
+    const tracker = new UsageTracker('glm');
+
+    tracker.handleChatModelStart({} as never, [], 'run-1');
+    tracker.handleLLMError(new Error('503'), 'run-1');
+
+    expect(metrics.getLLMStats().models['glm']).toMatchObject({ calls: 1, failures: 1 });
+  });
+
+  it('should track calls made through a model', async () => {
+    const model = new FakeListChatModel({ responses: ['你好'] });
+    model.callbacks = [new UsageTracker('fake')];
+
+    await withUsageContext({ session: 'group_2', node: 'chat' }, () =>
+      model.invoke([new HumanMessage('hi')])
+    );
+
+    const stats = metrics.getLLMStats();
+    expect(stats.models['fake']).toMatchObject({ calls: 1, failures: 0 });
+    expect(stats.nodes['chat']).toMatchObject({ calls: 1 });
+    expect(stats.sessions['group_2']).toMatchObject({ calls: 1 });
+  });
+});
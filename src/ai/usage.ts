@@ -0,0 +1,170 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import type { UsageMetadata } from '@langchain/core/messages';
+import type { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import type { ModelPrice } from '../config/schema.js';
+import { metrics } from '../metrics/index.js';
+
+/**
+ * LLM 调用的归属（会话、图节点）
+ */
+export interface UsageContext {
+  session?: string | undefined;
+  node?: string | undefined;
+  /** 累计本次执行的用量（如额度统计） */
+  meter?: UsageMeter | undefined;
+}
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * 在给定归属下执行 fn，fn 内发起的 LLM 调用计入该会话 / 节点
+ *
+ * 嵌套调用时与外层合并（如会话内的图节点）
+ */
+export function withUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return usageContext.run({ ...usageContext.getStore(), ...context }, fn);
+}
+
+/**
+ * 当前的调用归属
+ */
+export function getUsageContext(): UsageContext {
+  return usageContext.getStore() ?? {};
+}
+
+/**
+ * 一次调用的 token 用量
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** 命中缓存的输入 token（包含在 inputTokens 中） */
+  cachedTokens: number;
+}
+
+/**
+ * 累计多次调用的用量
+ */
+export interface UsageMeter extends TokenUsage {
+  costUsd: number;
+}
+
+export function createUsageMeter(): UsageMeter {
+  return { inputTokens: 0, outputTokens: 0, cachedTokens: 0, costUsd: 0 };
+}
+
+/**
+ * 按价格表计算费用（价格单位：美元 / 百万 token，未配置缓存价格时按输入价格计）
+ */
+export function calculateCost(usage: TokenUsage, price: ModelPrice | undefined): number {
+  if (!price) {
+    return 0;
+  }
+  const uncachedInput = Math.max(usage.inputTokens - usage.cachedTokens, 0);
+  return (
+    (uncachedInput * price.input +
+      usage.cachedTokens * (price.cachedInput ?? price.input) +
+      usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * 从模型输出中读取 token 用量（优先 usage_metadata，其次 llmOutput.tokenUsage）
+ */
+export function extractTokenUsage(output: LLMResult): TokenUsage {
+  const generation = output.generations[0]?.[0] as ChatGeneration | undefined;
+  const usage = (generation?.message as { usage_metadata?: UsageMetadata } | undefined)
+    ?.usage_metadata;
+  if (usage) {
+    return {
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      cachedTokens: usage.input_token_details?.cache_read ?? 0,
+    };
+  }
+
+  const tokenUsage = output.llmOutput?.['tokenUsage'] as
+    | { promptTokens?: number; completionTokens?: number }
+    | undefined;
+  return {
+    inputTokens: tokenUsage?.promptTokens ?? 0,
+    outputTokens: tokenUsage?.completionTokens ?? 0,
+    cachedTokens: 0,
+  };
+}
+
+interface PendingCall {
+  startedAt: number;
+  context: UsageContext;
+}
+
+/**
+ * 记录单个模型调用的 token、耗时和费用
+ *
+ * 挂在 ModelRegistry 创建的底层模型上（重试和故障转移的每次请求分别计入实际的 provider），
+ * 调用归属取发起调用时的 UsageContext。
+ */
+export class UsageTracker extends BaseCallbackHandler {
+  name = 'UsageTracker';
+  // 同步执行回调，保证读取到发起调用时的 UsageContext
+  override awaitHandlers = true;
+
+  private readonly model: string;
+  private readonly price: ModelPrice | undefined;
+  private readonly now: () => number;
+  /** 进行中的调用（同一 runId 可能被多次调用复用，按先后顺序排队） */
+  private readonly pending = new Map<string, PendingCall[]>();
+
+  constructor(model: string, price?: ModelPrice, now: () => number = Date.now) {
+    super();
+    this.model = model;
+    this.price = price;
+    this.now = now;
+  }
+
+  override handleChatModelStart(_llm: unknown, _messages: unknown, runId: string): void {
+    const queue = this.pending.get(runId) ?? [];
+    queue.push({ startedAt: this.now(), context: getUsageContext() });
+    this.pending.set(runId, queue);
+  }
+
+  override handleLLMEnd(output: LLMResult, runId: string): void {
+    this.finish(runId, extractTokenUsage(output), true);
+  }
+
+  override handleLLMError(_error: unknown, runId: string): void {
+    this.finish(runId, { inputTokens: 0, outputTokens: 0, cachedTokens: 0 }, false);
+  }
+
+  private finish(runId: string, usage: TokenUsage, success: boolean): void {
+    const queue = this.pending.get(runId);
+    const call = queue?.shift();
+    if (!call) {
+      return;
+    }
+    if (queue!.length === 0) {
+      this.pending.delete(runId);
+    }
+
+    const costUsd = calculateCost(usage, this.price);
+    metrics.recordLLMCall({
+      model: this.model,
+      node: call.context.node,
+      session: call.context.session,
+      ...usage,
+      costUsd,
+      latencyMs: this.now() - call.startedAt,
+      success,
+    });
+
+    const meter = call.context.meter;
+    if (meter) {
+      meter.inputTokens += usage.inputTokens;
+      meter.outputTokens += usage.outputTokens;
+      meter.cachedTokens += usage.cachedTokens;
+      meter.costUsd += costUsd;
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AmbientSchema } from '../config/schema.js';
+import type { NormalizedMessage } from '../onebot/message-normalizer.js';
+import { AmbientMonitor, resolveAmbientSettings, type AmbientSettings } from './ambient-monitor.js';
+import type { RelevanceDecision } from './relevance-classifier.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function createMessage(
+  id: number,
+  text: string,
+  overrides: Partial<NormalizedMessage> = {}
+): NormalizedMessage {
+  return {
+    messageId: id,
+    messageType: 'group',
+    userId: 12345,
+    groupId: 67890,
+    nickname: 'Alice',
+    text,
+    timestamp: new Date(),
+    isGroup: true,
+    attachments: [],
+    isMentionBot: false,
+    ...overrides,
+  };
+}
+
+const SESSION_ID = 'group_67890';
+
+describe('AmbientMonitor', () => {
+  let now: number;
+  let buffered: NormalizedMessage[];
+  let channel: { getBuffered: () => NormalizedMessage[]; triggerProactive: ReturnType<typeof vi.fn> };
+  let classifier: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    now = Date.parse('2026-10-19T02:00:00Z');
+    buffered = [];
+    channel = {
+      getBuffered: () => buffered,
+      triggerProactive: vi.fn(async () => {
+        buffered = [];
+      }),
+    };
+    classifier = vi.fn(
+      async (): Promise<RelevanceDecision> => ({ respond: true, confidence: 0.9, reason: '能回答' })
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createMonitor(config: Record<string, unknown> = {}, settings?: Partial<AmbientSettings>) {
+    const ambient = AmbientSchema.parse({ enabled: true, ...config });
+    const monitor = new AmbientMonitor(ambient, classifier, createMockLogger() as never, () => now);
+    monitor.watch(
+      SESSION_ID,
+      channel,
+      { ...resolveAmbientSettings(ambient)!, ...settings },
+      () => '小葫芦'
+    );
+    return monitor;
+  }
+
+  async function receive(monitor: AmbientMonitor, message: NormalizedMessage) {
+    buffered.push(message);
+    await monitor.observe(SESSION_ID, message);
+  }
+
+  it('should chime in when the bot name is typed without a mention', async () => {
+    const monitor = createMonitor();
+
+    await receive(monitor, createMessage(1, '今天天气不错'));
+    expect(classifier).not.toHaveBeenCalled();
+
+    await receive(monitor, createMessage(2, '小葫芦你觉得呢'));
+
+    expect(classifier).toHaveBeenCalledWith(
+      expect.objectContaining({ signal: 'name', name: '小葫芦' })
+    );
+    expect(classifier.mock.calls[0]![0].messages).toHaveLength(2);
+    expect(channel.triggerProactive).toHaveBeenCalledWith('能回答');
+  });
+
+  it('should match keywords and extra names case-insensitively', async () => {
+    const monitor = createMonitor({ names: ['Gourd'] }, { keywords: ['TypeScript'] });
+
+    await receive(monitor, createMessage(1, '有人用 typescript 写过插件'));
+    expect(classifier).toHaveBeenLastCalledWith(expect.objectContaining({ signal: 'keyword' }));
+
+    now += 3600 * 1000;
+    await receive(monitor, createMessage(2, 'gourd 在吗'));
+    expect(classifier).toHaveBeenLastCalledWith(expect.objectContaining({ signal: 'name' }));
+  });
+
+  it('should respect the sensitivity threshold', async () => {
+    classifier.mockResolvedValue({ respond: true, confidence: 0.6, reason: '也许' });
+    const low = createMonitor({}, { sensitivity: 'low' });
+
+    await receive(low, createMessage(1, '小葫芦'));
+    expect(channel.triggerProactive).not.toHaveBeenCalled();
+
+    const high = createMonitor({}, { sensitivity: 'high' });
+    await receive(high, createMessage(2, '小葫芦'));
+    expect(channel.triggerProactive).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not chime in when the classifier says no', async () => {
+    classifier.mockResolvedValue({ respond: false, confidence: 0.95, reason: '闲聊' });
+    const monitor = createMonitor();
+
+    await receive(monitor, createMessage(1, '小葫芦好可爱'));
+
+    expect(channel.triggerProactive).not.toHaveBeenCalled();
+  });
+
+  it('should evaluate questions nobody answers', async () => {
+    const monitor = createMonitor({ unansweredSeconds: 60 });
+
+    await receive(monitor, createMessage(1, '有人知道 pnpm 怎么清缓存吗'));
+    expect(classifier).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(classifier).toHaveBeenCalledWith(expect.objectContaining({ signal: 'question' }));
+    expect(channel.triggerProactive).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop the question once someone else speaks', async () => {
+    const monitor = createMonitor({ unansweredSeconds: 60 });
+
+    await receive(monitor, createMessage(1, '这个报错怎么解决？'));
+    await receive(monitor, createMessage(2, '重启试试', { userId: 54321, nickname: 'Bob' }));
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(classifier).not.toHaveBeenCalled();
+  });
+
+  it('should stay quiet during the cooldown after a reply', async () => {
+    const monitor = createMonitor({}, { cooldownSeconds: 300 });
+
+    monitor.noteReply(SESSION_ID);
+    await receive(monitor, createMessage(1, '小葫芦'));
+    expect(classifier).not.toHaveBeenCalled();
+
+    now += 301 * 1000;
+    await receive(monitor, createMessage(2, '小葫芦'));
+    expect(channel.triggerProactive).toHaveBeenCalledTimes(1);
+
+    // 主动发言本身也会开始冷却
+    now += 10 * 1000;
+    await receive(monitor, createMessage(3, '小葫芦'));
+    expect(classifier).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cap proactive replies per hour', async () => {
+    const monitor = createMonitor({ maxPerHour: 2 }, { cooldownSeconds: 0 });
+
+    for (let id = 1; id <= 3; id++) {
+      now += 60 * 1000;
+      await receive(monitor, createMessage(id, '小葫芦'));
+    }
+    expect(channel.triggerProactive).toHaveBeenCalledTimes(2);
+
+    now += 3600 * 1000;
+    await receive(monitor, createMessage(4, '小葫芦'));
+    expect(channel.triggerProactive).toHaveBeenCalledTimes(3);
+  });
+
+  it('should skip messages that were already handled', async () => {
+    const monitor = createMonitor();
+    const message = createMessage(1, '小葫芦');
+
+    // 未进入缓冲（如已随 @bot 一起处理）
+    await monitor.observe(SESSION_ID, message);
+
+    expect(classifier).not.toHaveBeenCalled();
+  });
+
+  it('should ignore mentions, private chats and unwatched sessions', async () => {
+    const monitor = createMonitor();
+
+    await receive(monitor, createMessage(1, '小葫芦', { isMentionBot: true }));
+    await receive(monitor, createMessage(2, '小葫芦', { isGroup: false, messageType: 'private' }));
+    await monitor.observe('group_11111', createMessage(3, '小葫芦'));
+
+    expect(classifier).not.toHaveBeenCalled();
+  });
+
+  it('should log and stay quiet when the classifier fails', async () => {
+    classifier.mockRejectedValueOnce(new Error('timeout'));
+    const monitor = createMonitor();
+
+    await expect(receive(monitor, createMessage(1, '小葫芦'))).resolves.toBeUndefined();
+    expect(channel.triggerProactive).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolveAmbientSettings', () => {
+  it('should merge target overrides into the global config', () => {
+    const config = AmbientSchema.parse({ keywords: ['部署'] });
+
+    expect(resolveAmbientSettings(config)).toBeNull();
+    expect(
+      resolveAmbientSettings(config, { enabled: true, sensitivity: 'high', keywords: ['发布'] })
+    ).toEqual({ sensitivity: 'high', cooldownSeconds: 300, keywords: ['部署', '发布'] });
+    expect(
+      resolveAmbientSettings(AmbientSchema.parse({ enabled: true }), { enabled: false })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,309 @@
+import type { Logger } from '../logger/logger.js';
+import type {
+  AmbientConfig,
+  AmbientSensitivity,
+  TargetAmbientConfig,
+} from '../config/schema.js';
+import type { NormalizedMessage } from '../onebot/index.js';
+import type { SessionPipeline } from '../pipeline/index.js';
+import { withUsageContext } from '../ai/usage.js';
+import type {
+  AmbientSignal,
+  RelevanceClassifier,
+  RelevanceDecision,
+} from './relevance-classifier.js';
+
+/** 各灵敏度下分类器置信度的最低要求 */
+const SENSITIVITY_THRESHOLDS: Record<AmbientSensitivity, number> = {
+  low: 0.85,
+  medium: 0.7,
+  high: 0.5,
+};
+
+/** 看起来像提问的消息 */
+const QUESTION_PATTERN = /[?？]\s*$|(吗|呢)\s*$|^(请问|有没有人|有人知道|谁知道|怎么|为什么|如何)/;
+
+/** 分类器未给出理由时使用的默认理由 */
+const SIGNAL_REASONS: Record<AmbientSignal, string> = {
+  name: '有人提到了你',
+  keyword: '话题与你关注的内容相关',
+  question: '有人提问后没有人回答',
+};
+
+/** 主动发言次数的统计窗口 */
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * 主动发言的会话（由会话管道提供）
+ */
+export type AmbientChannel = Pick<SessionPipeline, 'getBuffered' | 'triggerProactive'>;
+
+/**
+ * 会话的主动发言设置（目标配置合并全局配置后）
+ */
+export interface AmbientSettings {
+  sensitivity: AmbientSensitivity;
+  cooldownSeconds: number;
+  keywords: string[];
+}
+
+/**
+ * 等待回应的提问
+ */
+interface PendingQuestion {
+  messageId: number;
+  userId: number;
+  timer: NodeJS.Timeout;
+}
+
+interface AmbientSession {
+  sessionId: string;
+  channel: AmbientChannel;
+  settings: AmbientSettings;
+  /** bot 当前的名字（随人设切换） */
+  botName: () => string;
+  /** bot 最近一次回复的时间 */
+  lastReplyAt: number | null;
+  /** 最近一小时内主动发言的时间 */
+  proactiveTimes: number[];
+  question: PendingQuestion | null;
+  evaluating: boolean;
+}
+
+/**
+ * 合并全局和目标的主动发言配置，未启用时返回 null
+ */
+export function resolveAmbientSettings(
+  config: AmbientConfig,
+  target?: TargetAmbientConfig
+): AmbientSettings | null {
+  if (!(target?.enabled ?? config.enabled)) {
+    return null;
+  }
+  return {
+    sensitivity: target?.sensitivity ?? config.sensitivity,
+    cooldownSeconds: target?.cooldownSeconds ?? config.cooldownSeconds,
+    keywords: [...config.keywords, ...(target?.keywords ?? [])],
+  };
+}
+
+/**
+ * 主动发言监视器（ambient 模式）
+ *
+ * 观察群聊中未 @bot 的消息，出现以下信号时用相关性分类器判断是否插话：
+ * - 消息中直接提到 bot 的名字（当前人设名称或 ambient.names）
+ * - 消息命中关键词
+ * - 有人提问后 unansweredSeconds 内没有其他人发言
+ *
+ * 分类器的置信度达到灵敏度对应的阈值时 flush 会话的历史缓冲交给 Agent。
+ * bot 回复后 cooldownSeconds 内、以及每小时主动发言达到 maxPerHour 后不再判断
+ */
+export class AmbientMonitor {
+  private readonly config: AmbientConfig;
+  private readonly classifier: RelevanceClassifier;
+  private readonly logger: Logger;
+  private readonly now: () => number;
+  private readonly sessions = new Map<string, AmbientSession>();
+
+  constructor(
+    config: AmbientConfig,
+    classifier: RelevanceClassifier,
+    logger: Logger,
+    now: () => number = Date.now
+  ) {
+    this.config = config;
+    this.classifier = classifier;
+    this.logger = logger.child('AmbientMonitor');
+    this.now = now;
+  }
+
+  /**
+   * 对会话启用主动发言
+   */
+  watch(
+    sessionId: string,
+    channel: AmbientChannel,
+    settings: AmbientSettings,
+    botName: () => string
+  ): void {
+    this.sessions.set(sessionId, {
+      sessionId,
+      channel,
+      settings,
+      botName,
+      lastReplyAt: null,
+      proactiveTimes: [],
+      question: null,
+      evaluating: false,
+    });
+  }
+
+  /**
+   * 是否对会话启用了主动发言
+   */
+  isWatching(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * 观察一条已进入会话缓冲的消息
+   *
+   * 返回的 Promise 在本条消息触发的判断（如有）完成后 resolve，不会 reject
+   */
+  async observe(sessionId: string, message: NormalizedMessage): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session || !message.isGroup) {
+      return;
+    }
+
+    // 其他人发言后不再视为无人回应；@bot 时由正常流程回复
+    if (session.question && session.question.userId !== message.userId) {
+      this.clearQuestion(session);
+    }
+    if (message.isMentionBot) {
+      this.clearQuestion(session);
+      return;
+    }
+
+    const signal = this.detectSignal(session, message);
+    if (signal) {
+      await this.evaluate(session, signal, message);
+      return;
+    }
+
+    if (QUESTION_PATTERN.test(message.text.trim())) {
+      this.clearQuestion(session);
+      const timer = setTimeout(() => {
+        session.question = null;
+        void this.evaluate(session, 'question', message);
+      }, this.config.unansweredSeconds * 1000);
+      timer.unref();
+      session.question = { messageId: message.messageId, userId: message.userId, timer };
+    }
+  }
+
+  /**
+   * 记录 bot 在会话中的回复（开始冷却）
+   */
+  noteReply(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    session.lastReplyAt = this.now();
+    this.clearQuestion(session);
+  }
+
+  /**
+   * 停止所有等待中的定时器
+   */
+  stop(): void {
+    for (const session of this.sessions.values()) {
+      this.clearQuestion(session);
+    }
+  }
+
+  private detectSignal(session: AmbientSession, message: NormalizedMessage): AmbientSignal | null {
+    const text = message.text.toLowerCase();
+    const names = [session.botName(), ...this.config.names];
+    if (names.some((name) => name && text.includes(name.toLowerCase()))) {
+      return 'name';
+    }
+    if (session.settings.keywords.some((keyword) => text.includes(keyword.toLowerCase()))) {
+      return 'keyword';
+    }
+    return null;
+  }
+
+  private clearQuestion(session: AmbientSession): void {
+    if (session.question) {
+      clearTimeout(session.question.timer);
+      session.question = null;
+    }
+  }
+
+  /**
+   * 冷却中或达到每小时上限时返回原因
+   */
+  private getBlockReason(session: AmbientSession): string | null {
+    const now = this.now();
+    const { cooldownSeconds } = session.settings;
+    if (session.lastReplyAt !== null && now - session.lastReplyAt < cooldownSeconds * 1000) {
+      return 'cooldown';
+    }
+
+    session.proactiveTimes = session.proactiveTimes.filter((time) => now - time < HOUR_MS);
+    if (session.proactiveTimes.length >= this.config.maxPerHour) {
+      return 'hourly limit';
+    }
+    return null;
+  }
+
+  private async evaluate(
+    session: AmbientSession,
+    signal: AmbientSignal,
+    message: NormalizedMessage
+  ): Promise<void> {
+    const { sessionId } = session;
+    const blocked = session.evaluating ? 'evaluating' : this.getBlockReason(session);
+    if (blocked) {
+      this.logger.debug('Ambient evaluation skipped', { sessionId, signal, reason: blocked });
+      return;
+    }
+
+    // 消息已被处理（如随后有人 @bot）时不再判断
+    const buffered = session.channel.getBuffered();
+    if (!buffered.some((m) => m.messageId === message.messageId)) {
+      return;
+    }
+
+    session.evaluating = true;
+    let decision: RelevanceDecision;
+    try {
+      decision = await withUsageContext({ session: sessionId, node: 'ambient' }, () =>
+        this.classifier({
+          messages: buffered.slice(-this.config.contextMessages),
+          signal,
+          name: session.botName(),
+        })
+      );
+    } catch (error) {
+      this.logger.warn('Relevance classification failed', {
+        sessionId,
+        signal,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    } finally {
+      session.evaluating = false;
+    }
+
+    const threshold = SENSITIVITY_THRESHOLDS[session.settings.sensitivity];
+    this.logger.debug('Relevance classified', {
+      sessionId,
+      signal,
+      respond: decision.respond,
+      confidence: decision.confidence,
+      threshold,
+      reason: decision.reason,
+    });
+
+    // 判断期间 bot 可能已经回复
+    if (!decision.respond || decision.confidence < threshold || this.getBlockReason(session)) {
+      return;
+    }
+
+    const now = this.now();
+    session.lastReplyAt = now;
+    session.proactiveTimes.push(now);
+    this.clearQuestion(session);
+
+    this.logger.info('Proactive reply triggered', {
+      sessionId,
+      signal,
+      confidence: decision.confidence,
+      reason: decision.reason,
+    });
+    await session.channel.triggerProactive(decision.reason || SIGNAL_REASONS[signal]);
+  }
+}
@@ -0,0 +1,45 @@
+import type { Logger } from '../logger/logger.js';
+import type { AmbientConfig, Target } from '../config/schema.js';
+import type { ModelRegistry } from '../ai/model-registry.js';
+import type { PromptSource } from '../prompts/index.js';
+import { AmbientMonitor, resolveAmbientSettings } from './ambient-monitor.js';
+import { createRelevanceClassifier } from './relevance-classifier.js';
+
+export {
+  AmbientMonitor,
+  resolveAmbientSettings,
+  type AmbientChannel,
+  type AmbientSettings,
+} from './ambient-monitor.js';
+export {
+  createRelevanceClassifier,
+  RelevanceOutputSchema,
+  type AmbientSignal,
+  type RelevanceClassifier,
+  type RelevanceClassifierConfig,
+  type RelevanceDecision,
+  type RelevanceRequest,
+} from './relevance-classifier.js';
+
+/**
+ * 根据配置创建主动发言监视器，没有群聊目标启用时返回 null
+ *
+ * 分类器使用 ambient.model，未配置时使用默认模型
+ */
+export function createAmbientMonitor(
+  config: AmbientConfig,
+  targets: Target[],
+  models: ModelRegistry,
+  prompts: PromptSource,
+  logger: Logger
+): AmbientMonitor | null {
+  const enabled = targets.some(
+    (target) => target.type === 'group' && resolveAmbientSettings(config, target.ambient)
+  );
+  if (!enabled) {
+    return null;
+  }
+
+  const model = models.get(config.model ?? models.getDefaultName());
+  return new AmbientMonitor(config, createRelevanceClassifier(model, { prompts }), logger);
+}
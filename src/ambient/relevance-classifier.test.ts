@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { NormalizedMessage } from '../onebot/message-normalizer.js';
+import { StructuredOutputError } from '../agent/structured-output.js';
+import { createRelevanceClassifier } from './relevance-classifier.js';
+
+function createMessage(id: number, nickname: string, text: string): NormalizedMessage {
+  return {
+    messageId: id,
+    messageType: 'group',
+    userId: 10000 + id,
+    groupId: 67890,
+    nickname,
+    text,
+    timestamp: new Date(),
+    isGroup: true,
+    attachments: [],
+    isMentionBot: false,
+  };
+}
+
+function createMockModel(...responses: string[]) {
+  const invoke = vi.fn();
+  for (const content of responses) {
+    invoke.mockResolvedValueOnce({ content });
+  }
+  return { invoke };
+}
+
+describe('createRelevanceClassifier', () => {
+  const messages = [
+    createMessage(1, 'Alice', '有人知道 pnpm 怎么清缓存吗'),
+    createMessage(2, 'Alice', '急'),
+  ];
+
+  it('should send the recent chat and the signal to the model', async () => {
+    const model = createMockModel('{"respond": true, "confidence": 0.8, "reason": "没人回答"}');
+    const classify = createRelevanceClassifier(model as never);
+
+    const decision = await classify({ messages, signal: 'question', name: '小葫芦' });
+
+    expect(decision).toEqual({ respond: true, confidence: 0.8, reason: '没人回答' });
+    const [system, human] = model.invoke.mock.calls[0]![0] as { content: string }[];
+    expect(system!.content).toContain('小葫芦');
+    expect(human!.content).toContain('有人提问后一段时间没有人接话');
+    expect(human!.content).toContain('[Alice] 有人知道 pnpm 怎么清缓存吗\n[Alice] 急');
+  });
+
+  it('should clamp confidence and default missing fields', async () => {
+    const model = createMockModel('{"respond": false, "confidence": 3}', '{"respond": true}');
+    const classify = createRelevanceClassifier(model as never);
+
+    expect(await classify({ messages, signal: 'name', name: '小葫芦' })).toEqual({
+      respond: false,
+      confidence: 1,
+      reason: '',
+    });
+    expect(await classify({ messages, signal: 'keyword', name: '小葫芦' })).toMatchObject({
+      confidence: 0.5,
+    });
+  });
+
+  it('should throw when the output cannot be parsed', async () => {
+    const model = createMockModel('不知道', '还是不知道', '真的不知道');
+    const classify = createRelevanceClassifier(model as never);
+
+    await expect(classify({ messages, signal: 'name', name: '小葫芦' })).rejects.toBeInstanceOf(
+      StructuredOutputError
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { z } from 'zod';
+import type { NormalizedMessage } from '../onebot/index.js';
+import { formatMessageLine } from '../pipeline/index.js';
+import { BUILTIN_PROMPT_SOURCE, type PromptSource } from '../prompts/index.js';
+import { invokeStructured } from '../agent/structured-output.js';
+
+/**
+ * 考虑主动发言的原因
+ *
+ * - name: 消息中直接提到了 bot 的名字（未 @）
+ * - keyword: 消息命中关键词
+ * - question: 有人提问后一段时间没人接话
+ */
+export type AmbientSignal = 'name' | 'keyword' | 'question';
+
+/** 各信号在分类请求中的说明 */
+const SIGNAL_DESCRIPTIONS: Record<AmbientSignal, string> = {
+  name: '有人在消息中提到了你的名字（没有 @）',
+  keyword: '消息命中了关注的关键词',
+  question: '有人提问后一段时间没有人接话',
+};
+
+/**
+ * 分类器的输出格式
+ */
+export const RelevanceOutputSchema = z.object({
+  respond: z.boolean().describe('是否应该插话'),
+  confidence: z.number().default(0.5).describe('置信度，0-1 之间'),
+  reason: z.string().default('').describe('判断理由'),
+});
+
+/**
+ * 相关性判断请求
+ */
+export interface RelevanceRequest {
+  /** 最近的群聊消息（按时间顺序，最后一条为触发判断的消息） */
+  messages: NormalizedMessage[];
+  /** 考虑发言的原因 */
+  signal: AmbientSignal;
+  /** bot 当前的名字 */
+  name: string;
+}
+
+/**
+ * 相关性判断结果
+ */
+export interface RelevanceDecision {
+  respond: boolean;
+  confidence: number;
+  reason: string;
+}
+
+export type RelevanceClassifier = (request: RelevanceRequest) => Promise<RelevanceDecision>;
+
+export interface RelevanceClassifierConfig {
+  /** 提示词来源，未提供时使用内置模板 */
+  prompts?: PromptSource | undefined;
+}
+
+/**
+ * 创建相关性分类器
+ *
+ * 用一次轻量的结构化调用判断 bot 是否应该主动插话，输出无法解析时抛出 StructuredOutputError
+ */
+export function createRelevanceClassifier(
+  model: BaseChatModel,
+  config?: RelevanceClassifierConfig
+): RelevanceClassifier {
+  const prompts = config?.prompts ?? BUILTIN_PROMPT_SOURCE;
+
+  return async ({ messages, signal, name }) => {
+    const prompt = prompts.render('ambientRelevance', { name });
+    const lines = messages.map((message) => formatMessageLine(message)).join('\n');
+
+    const parsed = await invokeStructured(
+      model,
+      [
+        new SystemMessage(prompt.text),
+        new HumanMessage(`[触发原因] ${SIGNAL_DESCRIPTIONS[signal]}\n\n[最近的群聊消息]\n${lines}`),
+      ],
+      RelevanceOutputSchema,
+      { node: 'ambient', native: false }
+    );
+
+    return {
+      respond: parsed.respond,
+      confidence: Math.min(1, Math.max(0, parsed.confidence)),
+      reason: parsed.reason,
+    };
+  };
+}
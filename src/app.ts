@@ -1,31 +1,142 @@
-import type { Config } from './config/schema.js';
+import type { Config, Target } from './config/schema.js';
 import { Logger } from './logger/logger.js';
-import { OneBotClient } from './onebot/client.js';
-import { WebhookHandler, type NormalizedMessage } from './onebot/index.js';
 import {
-  MessageQueue,
+  OneBotClient,
+  MessageSender,
+  GroupMemberCache,
+  WebhookHandler,
+  createTransport,
+  type NormalizedMessage,
+  type OneBotTransport,
+  type OutgoingMessage,
+} from './onebot/index.js';
+import {
+  SessionPipeline,
   MessageAggregator,
   type AggregatedMessages,
+  type TriggerContext,
 } from './pipeline/index.js';
 import { HttpServer } from './server/server.js';
-import type { OneBotEvent } from './onebot/types.js';
-import { ModelRegistry } from './ai/index.js';
-import { createAgentGraph, type CompiledAgentGraph } from './agent/index.js';
-import { ConversationMemory, createEmbeddingFunction } from './memory/index.js';
+import {
+  ModelRegistry,
+  createImageGenerator,
+  createModelChain,
+  createUsageMeter,
+  withUsageContext,
+  type UsageMeter,
+} from './ai/index.js';
+import {
+  createAgentGraph,
+  findTriggerMessage,
+  type CompiledAgentGraph,
+  type ReplyStream,
+} from './agent/index.js';
+import {
+  ConversationMemory,
+  createEmbeddingFunction,
+  getSessionId,
+} from './memory/index.js';
 import { ToolRegistry } from './tools/index.js';
 import { registerBuiltinTools } from './tools/builtin/index.js';
+import {
+  EventHandlerRegistry,
+  SentReplyIndex,
+  registerBuiltinEventHandlers,
+} from './events/index.js';
+import {
+  createAttachmentDownloader,
+  createAttachmentStore,
+  createDocumentExtraction,
+  createVideoUnderstanding,
+  createVoiceTranscription,
+  type AttachmentDownloader,
+  type AttachmentStore,
+  type DocumentExtractionService,
+  type VideoUnderstandingService,
+  type VoiceTranscriptionService,
+} from './media/index.js';
+import { PersonaManager } from './persona/index.js';
+import {
+  CommandRegistry,
+  registerBuiltinCommands,
+  type CommandDefinition,
+  type SessionModelSwitcher,
+} from './commands/index.js';
+import { PromptRegistry } from './prompts/index.js';
+import { AccessControl } from './acl/index.js';
+import {
+  createAmbientMonitor,
+  resolveAmbientSettings,
+  type AmbientMonitor,
+} from './ambient/index.js';
+import {
+  createQuotaManager,
+  formatQuotaExceeded,
+  type QuotaManager,
+  type QuotaReservation,
+  type QuotaSubject,
+  type QuotaUsage,
+} from './quota/index.js';
 import { initWebUI, type WebUIModule } from './web/index.js';
 
+/**
+ * 单个目标会话的运行上下文
+ */
+interface SessionContext {
+  target: Target;
+  pipeline: SessionPipeline;
+  agentGraph: CompiledAgentGraph;
+}
+
+/**
+ * 一次流式回复：回调及已发出分段的发送结果
+ */
+interface StreamedReply {
+  stream: ReplyStream;
+  sends: Promise<number[]>[];
+}
+
+/** 未启用额度时的预占（不计数） */
+const UNLIMITED_QUOTA: QuotaReservation = {
+  commit: () => {},
+  release: () => {},
+};
+
+/** 本次运行计入额度的 token 和费用 */
+function meterUsage(meter: UsageMeter): Omit<QuotaUsage, 'invocations'> {
+  return { tokens: meter.inputTokens + meter.outputTokens, costUsd: meter.costUsd };
+}
+
+/** 日志中使用的目标描述 */
+function describeTarget(target: Target): string {
+  const sessionId = getSessionId(target.type === 'group', target.id);
+  return target.name ? `${target.name} (${sessionId})` : sessionId;
+}
+
 export class App {
   private readonly config: Config;
   private readonly logger: Logger;
+  private readonly transport: OneBotTransport;
   private readonly oneBotClient: OneBotClient;
+  private readonly messageSender: MessageSender;
+  private readonly memberCache: GroupMemberCache;
+  private readonly attachmentStore: AttachmentStore | null;
+  private readonly attachmentDownloader: AttachmentDownloader;
+  private readonly voiceTranscription: VoiceTranscriptionService | null;
+  private readonly videoUnderstanding: VideoUnderstandingService | null;
+  private readonly documentExtraction: DocumentExtractionService | null;
   private readonly webhookHandler: WebhookHandler;
-  private readonly messageQueue: MessageQueue;
   private readonly messageAggregator: MessageAggregator;
   private readonly httpServer: HttpServer;
   private readonly conversationMemory: ConversationMemory;
-  private readonly agentGraph: CompiledAgentGraph;
+  private readonly personas: PersonaManager;
+  private readonly prompts: PromptRegistry;
+  private readonly quota: QuotaManager | null;
+  private readonly ambient: AmbientMonitor | null;
+  private readonly eventHandlers: EventHandlerRegistry;
+  private readonly commands: CommandRegistry;
+  private readonly sentReplies = new SentReplyIndex();
+  private readonly sessions = new Map<string, SessionContext>();
   private webUI: WebUIModule | null = null;
   private isShuttingDown = false;
 
@@ -33,37 +144,82 @@ export class App {
     this.config = config;
     this.logger = logger.child('App');
 
-    this.oneBotClient = new OneBotClient(
-      {
-        httpUrl: config.onebot.httpUrl,
-        accessToken: config.onebot.accessToken,
-      },
+    this.httpServer = new HttpServer(config.server, logger);
+
+    // 传输层需要在 server 启动前注册 webhook 路由 / WS 升级路径
+    this.transport = createTransport(config.onebot, this.httpServer, logger);
+    this.oneBotClient = new OneBotClient(this.transport, logger);
+    this.messageSender = new MessageSender(this.oneBotClient, config.sender, logger);
+    this.memberCache = new GroupMemberCache(
+      this.oneBotClient,
+      config.onebot.memberCacheTtlMs,
       logger
     );
 
+    this.attachmentStore = createAttachmentStore(config.media, logger);
+    this.attachmentDownloader = createAttachmentDownloader(
+      config.media,
+      this.attachmentStore,
+      logger
+    );
+    this.voiceTranscription = createVoiceTranscription(
+      config.media,
+      config.ai,
+      this.attachmentDownloader,
+      logger
+    );
+
+    // 访问控制：用户名单在 webhook 处过滤，工具权限在工具执行器中检查
+    const access = new AccessControl(config.acl, logger);
+
     this.webhookHandler = new WebhookHandler(
       {
-        targetType: config.target.type,
-        targetId: config.target.id,
+        targets: config.targets.map((t) => ({ type: t.type, id: t.id })),
+        memberCache: this.memberCache,
+        access,
       },
       logger
     );
 
-    this.messageQueue = new MessageQueue();
-
     this.messageAggregator = new MessageAggregator();
 
-    this.httpServer = new HttpServer(config.server, logger);
+    this.documentExtraction = createDocumentExtraction(config.media, logger);
 
     // 创建模型注册表
     const models = new ModelRegistry(config.ai, logger);
 
+    this.videoUnderstanding = createVideoUnderstanding(
+      config.media,
+      config.ai,
+      models,
+      this.attachmentDownloader,
+      logger
+    );
+
+    // 创建图片生成器（未启用时为 null，各会话不接入图片执行器）
+    const imageGenerator = createImageGenerator(config.ai, logger);
+
+    // 加载提示词模板（prompts.dir 中的文件覆盖内置模板）
+    this.prompts = new PromptRegistry(config.prompts, logger);
+    this.prompts.load();
+
     // 创建对话记忆
     this.conversationMemory = new ConversationMemory(config.memory, logger);
-
-    // 配置摘要生成模型（使用快速模型，如 glm，否则用默认模型）
-    const summaryModel = models.has('glm') ? models.get('glm') : models.getDefault();
-    this.conversationMemory.setModel(summaryModel);
+    this.conversationMemory.setPrompts(this.prompts);
+
+    // 配置摘要生成模型（与 Agent Graph 的 summary 节点相同：ai.nodes.summary，未配置时用默认模型）
+    const summaryAssignment = config.ai.nodes.summary ?? models.getDefaultName();
+    this.conversationMemory.setModel(
+      createModelChain(
+        typeof summaryAssignment === 'string' ? [summaryAssignment] : summaryAssignment,
+        (name) => models.get(name),
+        {
+          onFallback: (event) => {
+            this.logger.warn('Model fallback', { node: 'memorySummary', ...event });
+          },
+        }
+      )
+    );
 
     // 创建工具注册表并注册内置工具
     const toolRegistry = new ToolRegistry();
@@ -72,18 +228,153 @@ export class App {
       count: toolRegistry.size,
       names: toolRegistry.getNames(),
     });
+    for (const name of Object.keys(config.acl.tools)) {
+      if (!toolRegistry.has(name)) {
+        this.logger.warn('ACL rule references unknown tool', { tool: name });
+      }
+    }
+
+    // 创建额度管理器（未启用时不限制用量）
+    this.quota = createQuotaManager(config.quota, logger);
+
+    // 创建人设管理器，目标会话配置的人设作为该会话的默认人设
+    this.personas = new PersonaManager(config.personas, logger);
 
-    // 创建 Agent Graph
-    this.agentGraph = createAgentGraph({
+    // 创建主动发言监视器（没有群聊目标启用 ambient 时为 null）
+    this.ambient = createAmbientMonitor(
+      config.ambient,
+      config.targets,
       models,
+      this.prompts,
+      logger
+    );
+
+    // 运行时切换的默认模型（/model 命令），切换后重建该会话的 Agent Graph
+    const modelOverrides = new Map<string, string>();
+    const buildAgentGraph = (target: Target, sessionId: string): CompiledAgentGraph =>
+      createAgentGraph({
+        models,
+        logger,
+        memory:
+          target.memory?.enabled === false ? undefined : this.conversationMemory,
+        tools: this.resolveTargetTools(target, toolRegistry),
+        toolsConfig: config.tools,
+        modelOverride: modelOverrides.get(sessionId) ?? target.model,
+        nodeModels: config.ai.nodes,
+        persona: () => this.personas.get(sessionId).profile,
+        prompts: this.prompts,
+        imageGenerator,
+        access,
+      });
+    const sessionModels: SessionModelSwitcher = {
+      getNames: () => models.getNames(),
+      get: (sessionId) => {
+        const override = modelOverrides.get(sessionId);
+        const configured = this.sessions.get(sessionId)?.target.model ?? models.getDefaultName();
+        return { name: override ?? configured, overridden: override !== undefined };
+      },
+      switch: (sessionId, name) => {
+        modelOverrides.set(sessionId, name);
+        rebuildAgentGraph(sessionId);
+        this.logger.info('Session model switched', { sessionId, model: name });
+        return sessionModels.get(sessionId);
+      },
+      reset: (sessionId) => {
+        if (modelOverrides.delete(sessionId)) {
+          rebuildAgentGraph(sessionId);
+          this.logger.info('Session model reset', { sessionId });
+        }
+        return sessionModels.get(sessionId);
+      },
+    };
+    const rebuildAgentGraph = (sessionId: string): void => {
+      const session = this.sessions.get(sessionId);
+      if (session) {
+        session.agentGraph = buildAgentGraph(session.target, sessionId);
+      }
+    };
+
+    // 为每个目标会话创建独立的管道和 Agent Graph
+    for (const target of config.targets) {
+      const sessionId = getSessionId(target.type === 'group', target.id);
+      if (target.persona) {
+        this.personas.assign(sessionId, target.persona);
+      }
+      const pipeline = new SessionPipeline(sessionId, logger, {
+        mode: config.pipeline.mode,
+        debounceMs: config.pipeline.debounceMs,
+        maxWaitMs: config.pipeline.maxWaitMs,
+      });
+
+      const agentGraph = buildAgentGraph(target, sessionId);
+
+      const session: SessionContext = { target, pipeline, agentGraph };
+      // 会话内的 LLM 调用（含视频理解、记忆摘要）按会话统计 token 和费用
+      pipeline.onTrigger((messages, context) =>
+        withUsageContext({ session: sessionId }, () =>
+          this.handleMessages(session, messages, context)
+        )
+      );
+      this.sessions.set(sessionId, session);
+
+      const ambientSettings =
+        target.type === 'group' ? resolveAmbientSettings(config.ambient, target.ambient) : null;
+      if (this.ambient && ambientSettings) {
+        this.ambient.watch(
+          sessionId,
+          pipeline,
+          ambientSettings,
+          () => this.personas.get(sessionId).profile.name
+        );
+      }
+
+      this.logger.info('Session pipeline created', {
+        target: describeTarget(target),
+        model: target.model ?? models.getDefaultName(),
+        persona: this.personas.get(sessionId).key,
+        ambient: ambientSettings?.sensitivity ?? 'off',
+      });
+    }
+
+    // 创建事件处理器注册表（入群欢迎、撤回、戳一戳、好友/入群请求）
+    this.eventHandlers = new EventHandlerRegistry(logger);
+    registerBuiltinEventHandlers(this.eventHandlers, config.events, {
+      client: this.oneBotClient,
+      sender: this.messageSender,
+      memory: this.conversationMemory,
+      findPipeline: (sessionId) => this.sessions.get(sessionId)?.pipeline,
+      replies: this.sentReplies,
       logger,
+    });
+    this.logger.info('Event handlers registered', {
+      count: this.eventHandlers.size,
+      names: this.eventHandlers.getNames(),
+    });
+
+    // 创建命令注册表（/help、/reset、/model 等，在进入 Agent 之前处理）
+    this.commands = new CommandRegistry(config.commands, logger);
+    registerBuiltinCommands(this.commands, {
+      client: this.oneBotClient,
       memory: this.conversationMemory,
-      tools: toolRegistry,
-      toolsConfig: config.tools,
+      personas: this.personas,
+      models: sessionModels,
+      getProviderHealth: () => models.getHealth(),
+      quota: this.quota,
+      startedAt: Date.now(),
+    });
+    this.logger.info('Commands registered', {
+      count: this.commands.size,
+      names: this.commands.getNames(),
     });
 
-    this.setupWebhookRoute();
+    this.transport.onEvent((event) => this.webhookHandler.handleEvent(event));
     this.setupMessageHandler();
+    this.webhookHandler.onNotice(async (event) => {
+      await this.eventHandlers.dispatch(event);
+    });
+    this.webhookHandler.onRequest(async (event) => {
+      await this.eventHandlers.dispatch(event);
+    });
 
     // Initialize Web UI module
     if (config.webui.enabled) {
@@ -91,129 +382,299 @@ export class App {
         server: this.httpServer,
         config,
         logger,
+        isOneBotConnected: () => this.oneBotClient.isConnected(),
+        getProviderHealth: () => models.getHealth(),
+        personas: this.personas,
       });
     }
   }
 
-  private setupWebhookRoute(): void {
-    this.httpServer.addRoute(
-      this.config.onebot.webhookPath,
-      async (req, res, body) => {
-        if (req.method !== 'POST') {
-          res.writeHead(405, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'Method not allowed' }));
-          return;
-        }
+  /**
+   * 注册自定义命令（名称或别名重复时抛出错误）
+   */
+  registerCommand(definition: CommandDefinition): void {
+    this.commands.register(definition);
+  }
 
-        try {
-          const event = JSON.parse(body) as OneBotEvent;
-          await this.webhookHandler.handleEvent(event);
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ status: 'ok' }));
-        } catch (error) {
-          this.logger.error('Failed to process webhook', {
-            error: error instanceof Error ? error.message : String(error),
-          });
-          res.writeHead(400, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'Invalid payload' }));
-        }
-      }
-    );
+  /**
+   * 按目标会话的工具配置筛选工具
+   */
+  private resolveTargetTools(
+    target: Target,
+    toolRegistry: ToolRegistry
+  ): ToolRegistry | undefined {
+    if (target.tools?.enabled === false) {
+      return undefined;
+    }
+    if (target.tools?.allow) {
+      return toolRegistry.pick(target.tools.allow);
+    }
+    return toolRegistry;
   }
 
   private setupMessageHandler(): void {
     this.webhookHandler.onMessage(async (message: NormalizedMessage) => {
-      // 所有消息入队作为历史缓冲
-      this.messageQueue.enqueue(message);
-      this.logger.debug('Message buffered', {
-        messageId: message.messageId,
-        queueSize: this.messageQueue.size(),
-        isMentionBot: message.isMentionBot,
-      });
+      const sessionId = getSessionId(
+        message.isGroup,
+        message.isGroup ? message.groupId! : message.userId
+      );
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.logger.debug('No session pipeline for message', { sessionId });
+        return;
+      }
 
-      // 仅当 @bot 时 flush 全部历史消息并触发处理
-      if (message.isMentionBot) {
-        const messages = this.messageQueue.flush();
-        this.logger.info('Mention detected, flushing queue', {
-          messageCount: messages.length,
-        });
-        await this.handleMessages(messages);
+      if (await this.handleCommand(session, sessionId, message)) {
+        return;
       }
+
+      await session.pipeline.onMessage(message);
+      void this.ambient?.observe(sessionId, message);
     });
   }
 
-  private async handleMessages(messages: NormalizedMessage[]): Promise<void> {
+  /**
+   * 处理命令消息，不是命令时返回 false（交给消息管道）
+   */
+  private async handleCommand(
+    session: SessionContext,
+    sessionId: string,
+    message: NormalizedMessage
+  ): Promise<boolean> {
+    const result = await this.commands.execute(message, sessionId);
+    if (!result) {
+      return false;
+    }
+
+    if (result.reply) {
+      const { target } = session;
+      try {
+        await this.messageSender.send(target.type, target.id, {
+          text: result.reply,
+          ...(target.type === 'group' && { replyTo: message.messageId }),
+        });
+      } catch (error) {
+        this.logger.error('Failed to send command reply', {
+          target: describeTarget(target),
+          command: result.command,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return true;
+  }
+
+  private async handleMessages(
+    session: SessionContext,
+    messages: NormalizedMessage[],
+    context?: TriggerContext
+  ): Promise<void> {
     if (messages.length === 0) {
       return;
     }
 
-    const aggregated = this.messageAggregator.aggregate(messages);
+    const { target } = session;
+    // 主动发言（ambient 模式）没有触发者，额度和工具权限都不按缓冲中某个群友计算
+    const proactive = context?.proactive !== undefined;
 
-    this.logger.info('Processing aggregated messages', {
-      count: aggregated.count,
-      participants: aggregated.participants.map((p) => p.nickname),
-      textPreview: aggregated.plainText.substring(0, 100),
-      attachmentCount: aggregated.attachments.length,
-    });
-
-    // 下载附件（聚合后、AI 处理前）
-    if (aggregated.attachments.length > 0) {
-      await this.oneBotClient.downloadAttachments(aggregated.attachments);
+    // 额度用尽时不再处理（包括语音转写、视频理解等预处理）；检查通过时预占一次调用，运行失败时撤销
+    // 主动发言只计入群和全局额度，也不发送提示
+    const trigger = findTriggerMessage({ messages });
+    if (!trigger) {
+      return;
     }
-
-    // 发送进度反馈
-    if (this.config.pipeline.progressFeedback && aggregated.count > 1) {
-      await this.sendProgressFeedback(aggregated);
+    const subject: QuotaSubject = {
+      userId: proactive ? undefined : trigger.userId,
+      groupId: trigger.groupId,
+    };
+    const reservation = await this.reserveQuota(target, subject, trigger.messageId, !proactive);
+    if (!reservation) {
+      return;
     }
 
-    // 处理消息并生成回复
-    const replyText = await this.processMessages(aggregated);
+    const meter = createUsageMeter();
+    let aggregated: AggregatedMessages;
+    let streamed: StreamedReply | undefined;
+    let reply: OutgoingMessage | null;
+    try {
+      // 获取引用消息、展开合并转发、转写语音并抽取视频画面（聚合前，格式化文本需要包含这些内容）
+      await this.oneBotClient.resolveMessageContext(messages);
+      await this.voiceTranscription?.transcribeMessages(messages);
+      await this.videoUnderstanding?.processMessages(messages);
+
+      aggregated = this.messageAggregator.aggregate(messages, context);
+
+      this.logger.info('Processing aggregated messages', {
+        target: describeTarget(target),
+        count: aggregated.count,
+        proactive,
+        participants: aggregated.participants.map((p) => p.nickname),
+        textPreview: aggregated.plainText.substring(0, 100),
+        attachmentCount: aggregated.attachments.length,
+      });
+
+      // 下载附件并提取文档文本（聚合后、AI 处理前）
+      if (aggregated.attachments.length > 0) {
+        await this.attachmentDownloader.downloadAll(aggregated.attachments);
+        await this.documentExtraction?.extractAttachments(aggregated.attachments);
+      }
+
+      // 发送进度反馈
+      if (this.config.pipeline.progressFeedback && aggregated.count > 1) {
+        await this.sendProgressFeedback(target);
+      }
+
+      // 处理消息并生成回复（启用流式发送时，对话回复在生成过程中逐段发出）
+      streamed = this.createStreamedReply(target);
+      reply = await withUsageContext({ meter }, () =>
+        this.processMessages(session, aggregated, streamed, () =>
+          reservation.release(meterUsage(meter))
+        )
+      );
+    } catch (error) {
+      reservation.release(meterUsage(meter));
+      throw error;
+    }
+    reservation.commit(meterUsage(meter));
+    const messageIds: number[] = [];
 
-    // 空响应表示不需要回复（ignore 意图）
-    if (!replyText) {
+    if (streamed && streamed.sends.length > 0) {
+      messageIds.push(...(await this.settleStreamedReply(target, streamed)));
+    } else if (!reply) {
+      // 空响应表示不需要回复（ignore 意图）
       this.logger.info('No reply needed (ignore intent)', {
+        target: describeTarget(target),
         messageCount: aggregated.count,
       });
       return;
     }
 
-    // 发送回复
-    try {
-      // 由于 handleMessages 开头已经检查了 messages.length === 0，这里 firstMessage 必定存在
-      const firstMessage = messages[0]!;
-      const targetId = firstMessage.isGroup
-        ? firstMessage.groupId!
-        : firstMessage.userId;
-      await this.oneBotClient.sendMsg(
-        firstMessage.messageType,
-        targetId,
-        replyText
-      );
-      this.logger.info('Reply sent', { messageCount: aggregated.count });
-    } catch (error) {
-      this.logger.error('Failed to send reply', {
-        error: error instanceof Error ? error.message : String(error),
-      });
+    // 发送回复（流式发送中途出错时为道歉文本）
+    if (reply) {
+      try {
+        messageIds.push(...(await this.messageSender.send(target.type, target.id, reply)));
+        this.logger.info('Reply sent', {
+          target: describeTarget(target),
+          messageCount: aggregated.count,
+          replyTo: reply.replyTo,
+          mentions: reply.mentions?.length ?? 0,
+          media: reply.media?.length ?? 0,
+        });
+      } catch (error) {
+        this.logger.error('Failed to send reply', {
+          target: describeTarget(target),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
     }
+
+    // bot 回复后主动发言进入冷却
+    if (messageIds.length > 0) {
+      this.ambient?.noteReply(getSessionId(target.type === 'group', target.id));
+    }
+
+    // 记录触发消息对应的回复，触发消息被撤回时可一并撤回
+    this.sentReplies.record(trigger.messageId, messageIds);
   }
 
-  private async sendProgressFeedback(
-    aggregated: AggregatedMessages
-  ): Promise<void> {
-    // aggregated 来自 MessageAggregator.aggregate，该方法保证 messages 非空
-    const firstMessage = aggregated.messages[0]!;
-    const targetId = firstMessage.isGroup
-      ? firstMessage.groupId!
-      : firstMessage.userId;
+  /**
+   * 检查额度并预占一次调用，用尽时（notify 为 true 时每个用户每个周期提示一次）回复提示并返回 null
+   */
+  private async reserveQuota(
+    target: Target,
+    subject: QuotaSubject,
+    triggerMessageId: number,
+    notify = true
+  ): Promise<QuotaReservation | null> {
+    const result = this.quota?.reserve(subject);
+    if (!result) {
+      return UNLIMITED_QUOTA;
+    }
+    if (result.allowed) {
+      return result.reservation;
+    }
+
+    this.logger.info('Quota exceeded', {
+      target: describeTarget(target),
+      userId: subject.userId,
+      scope: result.scope,
+      period: result.period,
+      metric: result.metric,
+      limit: result.limit,
+      used: result.used,
+    });
 
+    if (notify && result.notify) {
+      try {
+        await this.messageSender.send(target.type, target.id, {
+          text: formatQuotaExceeded(result),
+          ...(target.type === 'group' && { replyTo: triggerMessageId }),
+        });
+      } catch (error) {
+        this.logger.warn('Failed to send quota notice', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 创建流式回复回调，未启用流式发送时返回 undefined
+   *
+   * 分段立即进入发送队列，增量文本推送到 Web UI 的 agent 频道
+   */
+  private createStreamedReply(target: Target): StreamedReply | undefined {
+    const { enabled, flushOn, minChars } = this.config.sender.streaming;
+    if (!enabled) {
+      return undefined;
+    }
+
+    const sessionId = getSessionId(target.type === 'group', target.id);
+    const sends: Promise<number[]>[] = [];
+    const stream: ReplyStream = {
+      options: { flushOn, minChars },
+      onToken: (delta) => {
+        this.webUI?.wsServer.broadcast('agent', {
+          type: 'agent:token',
+          data: { sessionId, delta, timestamp: Date.now() },
+        });
+      },
+      onSegment: (segment) => {
+        // 立即处理失败，避免等待生成结束期间出现未处理的 rejection
+        sends.push(
+          this.messageSender.send(target.type, target.id, segment).catch((error: unknown) => {
+            this.logger.error('Failed to send streamed segment', {
+              target: describeTarget(target),
+              error: error instanceof Error ? error.message : String(error),
+            });
+            return [];
+          })
+        );
+      },
+    };
+
+    return { stream, sends };
+  }
+
+  /**
+   * 等待流式分段发送完成，返回已发送的消息 ID
+   */
+  private async settleStreamedReply(target: Target, streamed: StreamedReply): Promise<number[]> {
+    const messageIds = (await Promise.all(streamed.sends)).flat();
+    this.logger.info('Streamed reply sent', {
+      target: describeTarget(target),
+      segments: streamed.sends.length,
+      messages: messageIds.length,
+    });
+    return messageIds;
+  }
+
+  private async sendProgressFeedback(target: Target): Promise<void> {
     const feedbackText = '收到，让我看下...';
 
     try {
-      await this.oneBotClient.sendMsg(
-        firstMessage.messageType,
-        targetId,
-        feedbackText
-      );
+      await this.messageSender.send(target.type, target.id, feedbackText);
     } catch (error) {
       this.logger.warn('Failed to send progress feedback', {
         error: error instanceof Error ? error.message : String(error),
@@ -221,49 +682,92 @@ export class App {
     }
   }
 
+  /**
+   * 运行 Agent Graph 生成回复，运行失败时调用 onFailure 并返回道歉文本
+   */
   private async processMessages(
-    aggregated: AggregatedMessages
-  ): Promise<string> {
+    session: SessionContext,
+    aggregated: AggregatedMessages,
+    streamed: StreamedReply | undefined,
+    onFailure: () => void
+  ): Promise<OutgoingMessage | null> {
     try {
       this.logger.debug('Running agent graph', {
         messageCount: aggregated.count,
+        streaming: !!streamed,
       });
 
-      const result = await this.agentGraph.invoke({
-        input: aggregated,
+      const result = await session.agentGraph.invoke(
+        { input: aggregated },
+        streamed ? { configurable: { replyStream: streamed.stream } } : undefined
+      );
+
+      this.logger.info('Agent graph finished', {
+        target: describeTarget(session.target),
+        executor: result.executorType,
+        promptVersions: result.promptVersions,
+        models: result.models,
       });
 
       if (result.error) {
         this.logger.warn('Agent graph returned error', { error: result.error });
       }
 
+      // 回复已全部流式发出（流式生成中途出错时执行器不返回 reply，改发道歉文本）
+      if (streamed && streamed.sends.length > 0 && result.reply) {
+        return null;
+      }
+
+      if (result.reply && (result.reply.text || result.reply.media?.length)) {
+        return result.reply;
+      }
+
       // 空字符串表示 ignore 意图，不使用 fallback
       if (result.response === '') {
-        return '';
+        return null;
       }
 
-      return result.response ?? '抱歉，我没有生成回复。';
+      return { text: result.response ?? '抱歉，我没有生成回复。' };
     } catch (error) {
       this.logger.error('Agent graph execution failed', {
         error: error instanceof Error ? error.message : String(error),
       });
-      return '抱歉，处理消息时出错了。';
+      onFailure();
+      return { text: '抱歉，处理消息时出错了。' };
     }
   }
 
   async start(): Promise<void> {
     this.logger.info('Starting application');
 
-    try {
-      const loginInfo = await this.oneBotClient.getLoginInfo();
-      this.webhookHandler.setSelfId(loginInfo.user_id);
-    } catch (error) {
-      this.logger.error('Failed to connect to OneBot', {
-        error: error instanceof Error ? error.message : String(error),
+    // 反向 WS 需要 server 先启动才能接受 OneBot 端连接
+    await this.httpServer.start();
+    await this.transport.start();
+
+    if (this.transport.isConnected()) {
+      try {
+        await this.syncLoginInfo();
+      } catch (error) {
+        this.logger.error('Failed to connect to OneBot', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    } else {
+      this.logger.warn('OneBot not connected yet, waiting for connection', {
+        transport: this.transport.kind,
       });
-      throw error;
     }
 
+    // 重连后刷新登录信息
+    this.transport.onConnect(() => {
+      this.syncLoginInfo().catch((error) => {
+        this.logger.warn('Failed to refresh login info', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    });
+
     // 初始化知识库（如果启用）
     if (this.config.memory.knowledgeBase.enabled) {
       const embeddingFn = createEmbeddingFunction(
@@ -277,15 +781,34 @@ export class App {
       }
     }
 
-    await this.httpServer.start();
+    // 定时清理过期附件，失败不影响启动
+    this.attachmentStore?.startPruneTask(this.config.media.attachments.store.pruneIntervalHours);
+
+    // 监听提示词目录，模板修改后无需重启
+    if (this.config.prompts.watch) {
+      this.prompts.watch();
+    }
 
     this.logger.info('Application started', {
-      targetType: this.config.target.type,
-      targetId: this.config.target.id,
-      webhookPath: this.config.onebot.webhookPath,
+      targets: this.config.targets.map(describeTarget),
+      transport: this.transport.kind,
     });
   }
 
+  private async syncLoginInfo(): Promise<void> {
+    const loginInfo = await this.oneBotClient.getLoginInfo();
+    this.webhookHandler.setSelfId(loginInfo.user_id);
+
+    // 预加载目标群成员（后台进行，失败时按需查询）
+    if (this.config.onebot.preloadMembers) {
+      for (const target of this.config.targets) {
+        if (target.type === 'group') {
+          void this.memberCache.preload(target.id);
+        }
+      }
+    }
+  }
+
   async stop(): Promise<void> {
     if (this.isShuttingDown) {
       return;
@@ -299,12 +822,21 @@ export class App {
       this.webUI.shutdown();
     }
 
-    // 清空消息队列
-    this.messageQueue.clear();
+    this.prompts.close();
+
+    // 清空各会话的消息缓冲
+    this.ambient?.stop();
+    for (const session of this.sessions.values()) {
+      session.pipeline.stop();
+    }
+
+    this.attachmentStore?.stopPruneTask();
 
-    // 保存对话记忆
+    // 保存对话记忆和额度计数
     await this.conversationMemory.shutdown();
+    this.quota?.shutdown();
 
+    await this.transport.stop();
     await this.httpServer.stop();
 
     this.logger.info('Application stopped');
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CommandsSchema } from '../../config/schema.js';
+import { CommandRegistry } from '../registry.js';
+import { createHelpCommand } from './help.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function createRegistry() {
+  const registry = new CommandRegistry(CommandsSchema.parse({}), createMockLogger() as never);
+  const help = createHelpCommand(registry);
+  registry.register(help);
+  registry.register({
+    name: 'reset',
+    aliases: ['重置'],
+    description: '清空记忆',
+    permission: 'admin',
+    execute: async () => null,
+  });
+  return { registry, help };
+}
+
+const context = { message: {} as never, sessionId: 'group_1' };
+
+describe('createHelpCommand', () => {
+  it('should list only the commands available to the sender', async () => {
+    const { help } = createRegistry();
+
+    const reply = await help.execute({ ...context, args: [], isAdmin: false });
+
+    expect(reply).toContain('/help [命令] - 查看可用命令');
+    expect(reply).not.toContain('/reset');
+    expect(await help.execute({ ...context, args: [], isAdmin: true })).toContain(
+      '/reset - 清空记忆'
+    );
+  });
+
+  it('should show a single command with its aliases', async () => {
+    const { help } = createRegistry();
+
+    expect(await help.execute({ ...context, args: ['/重置'], isAdmin: true })).toBe(
+      '/reset - 清空记忆\n别名：/重置'
+    );
+    expect(await help.execute({ ...context, args: ['reset'], isAdmin: false })).toBe(
+      '没有找到命令 reset'
+    );
+  });
+});
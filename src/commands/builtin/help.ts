@@ -0,0 +1,39 @@
+import type { CommandRegistry } from '../registry.js';
+import type { CommandDefinition } from '../types.js';
+
+/**
+ * /help：列出发送者可用的命令，/help <命令> 显示单个命令的用法
+ */
+export function createHelpCommand(registry: CommandRegistry): CommandDefinition {
+  const format = (definition: CommandDefinition): string => {
+    const usage = definition.usage ? ` ${definition.usage}` : '';
+    return `${registry.prefix}${definition.name}${usage} - ${definition.description}`;
+  };
+
+  return {
+    name: 'help',
+    aliases: ['帮助'],
+    description: '查看可用命令',
+    usage: '[命令]',
+    permission: 'everyone',
+    async execute({ args, isAdmin }) {
+      const available = registry
+        .list()
+        .filter((definition) => definition.permission === 'everyone' || isAdmin);
+
+      const [name] = args;
+      if (name) {
+        const definition = registry.get(name.replace(registry.prefix, ''));
+        if (!definition || !available.includes(definition)) {
+          return `没有找到命令 ${name}`;
+        }
+        const aliases = definition.aliases?.length
+          ? `\n别名：${definition.aliases.map((alias) => registry.prefix + alias).join('、')}`
+          : '';
+        return format(definition) + aliases;
+      }
+
+      return ['可用命令：', ...available.map(format)].join('\n');
+    },
+  };
+}
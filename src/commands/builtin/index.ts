@@ -0,0 +1,48 @@
+import type { ProviderHealth } from '../../ai/index.js';
+import type { OneBotClient } from '../../onebot/client.js';
+import type { ConversationMemory } from '../../memory/index.js';
+import type { PersonaManager } from '../../persona/index.js';
+import type { QuotaManager } from '../../quota/index.js';
+import type { CommandRegistry } from '../registry.js';
+import { createHelpCommand } from './help.js';
+import { createResetCommand, createForgetCommand } from './memory.js';
+import { createModelCommand, type SessionModelSwitcher } from './model.js';
+import { createPersonaCommand } from './persona.js';
+import { createStatusCommand } from './status.js';
+
+export interface BuiltinCommandDeps {
+  client: OneBotClient;
+  memory: ConversationMemory;
+  personas: PersonaManager;
+  models: SessionModelSwitcher;
+  getProviderHealth: () => ProviderHealth[];
+  /** 额度管理器（未启用时为 null） */
+  quota?: QuotaManager | null | undefined;
+  /** 启动时间 */
+  startedAt: number;
+}
+
+/**
+ * 注册所有内置命令
+ *
+ * @param registry 命令注册表
+ * @param deps 命令依赖
+ */
+export function registerBuiltinCommands(registry: CommandRegistry, deps: BuiltinCommandDeps): void {
+  registry.register(createHelpCommand(registry));
+  registry.register(createStatusCommand(deps));
+  registry.register(createResetCommand(deps.memory));
+  registry.register(createForgetCommand(deps.client, deps.memory));
+  registry.register(createModelCommand(deps.models));
+  registry.register(createPersonaCommand(deps.personas));
+}
+
+export { createHelpCommand } from './help.js';
+export { createResetCommand, createForgetCommand } from './memory.js';
+export {
+  createModelCommand,
+  type ActiveModel,
+  type SessionModelSwitcher,
+} from './model.js';
+export { createPersonaCommand } from './persona.js';
+export { createStatusCommand, type StatusCommandDeps } from './status.js';
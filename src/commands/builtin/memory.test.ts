@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { NormalizedMessage } from '../../onebot/message-normalizer.js';
+import { createForgetCommand, createResetCommand } from './memory.js';
+
+function createMessage(overrides: Partial<NormalizedMessage> = {}): NormalizedMessage {
+  return {
+    messageId: 2,
+    messageType: 'group',
+    userId: 12345,
+    groupId: 67890,
+    nickname: 'Alice',
+    text: '/forget',
+    timestamp: new Date(),
+    isGroup: true,
+    attachments: [],
+    isMentionBot: false,
+    replyToId: 1,
+    ...overrides,
+  };
+}
+
+function createClient(quotedUserId: number | null) {
+  return {
+    resolveMessageContext: vi.fn(async (messages: NormalizedMessage[]) => {
+      if (quotedUserId !== null) {
+        messages[0]!.quoted = {
+          messageId: 1,
+          userId: quotedUserId,
+          nickname: 'Bob',
+          text: '秘密',
+          attachments: [],
+        };
+      }
+    }),
+  };
+}
+
+describe('createResetCommand', () => {
+  it('should clear the current conversation', async () => {
+    const memory = { clearConversation: vi.fn().mockResolvedValue(undefined) };
+    const command = createResetCommand(memory as never);
+
+    const reply = await command.execute({
+      message: createMessage({ text: '/reset' }),
+      sessionId: 'group_67890',
+      args: [],
+      isAdmin: true,
+    });
+
+    expect(memory.clearConversation).toHaveBeenCalledWith(true, 67890);
+    expect(reply).toBe('已清空本会话的对话记忆');
+  });
+
+  it('should clear private conversations by user id', async () => {
+    const memory = { clearConversation: vi.fn().mockResolvedValue(undefined) };
+    const command = createResetCommand(memory as never);
+
+    await command.execute({
+      message: createMessage({ isGroup: false, messageType: 'private', groupId: undefined }),
+      sessionId: 'private_12345',
+      args: [],
+      isAdmin: true,
+    });
+
+    expect(memory.clearConversation).toHaveBeenCalledWith(false, 12345);
+  });
+});
+
+describe('createForgetCommand', () => {
+  it('should forget the quoted message of the sender', async () => {
+    const memory = { redactMessage: vi.fn().mockResolvedValue(true) };
+    const command = createForgetCommand(createClient(12345) as never, memory as never);
+
+    const reply = await command.execute({
+      message: createMessage(),
+      sessionId: 'group_67890',
+      args: [],
+      isAdmin: false,
+    });
+
+    expect(memory.redactMessage).toHaveBeenCalledWith(true, 67890, 1);
+    expect(reply).toBe('好的，这条消息我已经忘掉了');
+  });
+
+  it("should only let admins forget other people's messages", async () => {
+    const memory = { redactMessage: vi.fn().mockResolvedValue(false) };
+    const command = createForgetCommand(createClient(99999) as never, memory as never);
+    const base = { sessionId: 'group_67890', args: [] };
+
+    expect(await command.execute({ ...base, message: createMessage(), isAdmin: false })).toBe(
+      '只能让我忘掉你自己的消息'
+    );
+    expect(memory.redactMessage).not.toHaveBeenCalled();
+
+    expect(await command.execute({ ...base, message: createMessage(), isAdmin: true })).toBe(
+      '我的记忆里没有这条消息'
+    );
+  });
+
+  it('should ask for a quoted message', async () => {
+    const client = createClient(null);
+    const command = createForgetCommand(client as never, {} as never);
+    const base = { sessionId: 'group_67890', args: [], isAdmin: false };
+
+    const { replyToId: _replyToId, ...withoutReply } = createMessage();
+    expect(await command.execute({ ...base, message: withoutReply })).toBe(
+      '请引用要忘掉的消息再发送这个命令'
+    );
+    expect(await command.execute({ ...base, message: createMessage() })).toBe(
+      '没有找到引用的消息'
+    );
+  });
+});
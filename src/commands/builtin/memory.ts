@@ -0,0 +1,63 @@
+import type { OneBotClient } from '../../onebot/client.js';
+import type { ConversationMemory } from '../../memory/index.js';
+import type { CommandDefinition } from '../types.js';
+
+/**
+ * 会话的目标（群号或私聊用户 QQ 号）
+ */
+function targetOf(message: { isGroup: boolean; groupId: number | undefined; userId: number }) {
+  return message.isGroup ? message.groupId! : message.userId;
+}
+
+/**
+ * /reset：清空本会话的对话记忆（包括摘要和知识库归档）
+ */
+export function createResetCommand(memory: ConversationMemory): CommandDefinition {
+  return {
+    name: 'reset',
+    aliases: ['重置'],
+    description: '清空本会话的对话记忆',
+    permission: 'admin',
+    async execute({ message }) {
+      await memory.clearConversation(message.isGroup, targetOf(message));
+      return '已清空本会话的对话记忆';
+    },
+  };
+}
+
+/**
+ * /forget：引用一条消息发送，从记忆中删除该消息
+ *
+ * 普通用户只能删除自己的消息，管理员可以删除任何人的消息
+ */
+export function createForgetCommand(
+  client: OneBotClient,
+  memory: ConversationMemory
+): CommandDefinition {
+  return {
+    name: 'forget',
+    aliases: ['忘记'],
+    description: '引用一条消息，让我忘掉它',
+    permission: 'everyone',
+    async execute({ message, isAdmin }) {
+      if (message.replyToId === undefined) {
+        return '请引用要忘掉的消息再发送这个命令';
+      }
+
+      await client.resolveMessageContext([message]);
+      if (!message.quoted) {
+        return '没有找到引用的消息';
+      }
+      if (message.quoted.userId !== message.userId && !isAdmin) {
+        return '只能让我忘掉你自己的消息';
+      }
+
+      const forgotten = await memory.redactMessage(
+        message.isGroup,
+        targetOf(message),
+        message.quoted.messageId
+      );
+      return forgotten ? '好的，这条消息我已经忘掉了' : '我的记忆里没有这条消息';
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { createModelCommand, type SessionModelSwitcher } from './model.js';
+
+function createSwitcher(): SessionModelSwitcher {
+  const overrides = new Map<string, string>();
+  const switcher: SessionModelSwitcher = {
+    getNames: () => ['claude', 'glm'],
+    get: (sessionId) => ({
+      name: overrides.get(sessionId) ?? 'claude',
+      overridden: overrides.has(sessionId),
+    }),
+    switch: (sessionId, name) => {
+      overrides.set(sessionId, name);
+      return switcher.get(sessionId);
+    },
+    reset: (sessionId) => {
+      overrides.delete(sessionId);
+      return switcher.get(sessionId);
+    },
+  };
+  return switcher;
+}
+
+const context = { message: {} as never, sessionId: 'group_1', isAdmin: true };
+
+describe('createModelCommand', () => {
+  it('should show the current model', async () => {
+    const command = createModelCommand(createSwitcher());
+
+    expect(await command.execute({ ...context, args: [] })).toBe(
+      '当前模型：claude\n可用模型：claude、glm'
+    );
+  });
+
+  it('should switch and reset the session model', async () => {
+    const models = createSwitcher();
+    const command = createModelCommand(models);
+
+    expect(await command.execute({ ...context, args: ['glm'] })).toBe('已切换到模型：glm');
+    expect(models.get('group_1')).toEqual({ name: 'glm', overridden: true });
+    expect(await command.execute({ ...context, args: [] })).toContain('glm（已切换）');
+
+    expect(await command.execute({ ...context, args: ['reset'] })).toBe(
+      '已恢复为配置的模型：claude'
+    );
+  });
+
+  it('should reject unknown models', async () => {
+    const models = createSwitcher();
+    const command = createModelCommand(models);
+
+    expect(await command.execute({ ...context, args: ['gpt-9'] })).toBe(
+      '没有模型 gpt-9，可用模型：claude、glm'
+    );
+    expect(models.get('group_1').overridden).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import type { CommandDefinition } from '../types.js';
+
+/**
+ * 会话当前使用的模型
+ */
+export interface ActiveModel {
+  /** providers 中的名称 */
+  name: string;
+  /** 是否为运行时切换的结果（而非配置） */
+  overridden: boolean;
+}
+
+/**
+ * 按会话切换模型（切换后该会话的所有节点都使用该模型，优先于 ai.nodes）
+ */
+export interface SessionModelSwitcher {
+  /** 可用的模型名称 */
+  getNames(): string[];
+  get(sessionId: string): ActiveModel;
+  switch(sessionId: string, name: string): ActiveModel;
+  /** 撤销运行时切换，恢复为配置的模型 */
+  reset(sessionId: string): ActiveModel;
+}
+
+/**
+ * /model：查看或切换本会话使用的模型
+ */
+export function createModelCommand(models: SessionModelSwitcher): CommandDefinition {
+  return {
+    name: 'model',
+    aliases: ['模型'],
+    description: '查看或切换本会话使用的模型',
+    usage: '[名称 | reset]',
+    permission: 'admin',
+    async execute({ sessionId, args }) {
+      const [name] = args;
+
+      if (!name) {
+        const active = models.get(sessionId);
+        const current = `当前模型：${active.name}${active.overridden ? '（已切换）' : ''}`;
+        return `${current}\n可用模型：${models.getNames().join('、')}`;
+      }
+
+      if (name === 'reset') {
+        return `已恢复为配置的模型：${models.reset(sessionId).name}`;
+      }
+
+      if (!models.getNames().includes(name)) {
+        return `没有模型 ${name}，可用模型：${models.getNames().join('、')}`;
+      }
+      models.switch(sessionId, name);
+      return `已切换到模型：${name}`;
+    },
+  };
+}
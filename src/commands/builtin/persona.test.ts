@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PersonasSchema } from '../../config/schema.js';
+import { PersonaManager } from '../../persona/index.js';
+import { createPersonaCommand } from './persona.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function createManager() {
+  const config = PersonasSchema.parse({
+    default: 'huluwa',
+    profiles: { huluwa: {}, cat: { name: 'Mimi' } },
+  });
+  return new PersonaManager(config, createMockLogger() as never);
+}
+
+const context = { message: {} as never, sessionId: 'group_1', isAdmin: true };
+
+describe('createPersonaCommand', () => {
+  it('should switch, show and reset the session persona', async () => {
+    const personas = createManager();
+    const command = createPersonaCommand(personas);
+
+    expect(await command.execute({ ...context, args: ['cat'] })).toBe('已切换到人设：cat');
+    expect(await command.execute({ ...context, args: [] })).toBe(
+      '当前人设：cat（已切换）\n可用人设：huluwa、cat'
+    );
+    expect(await command.execute({ ...context, args: ['reset'] })).toBe(
+      '已恢复为配置的人设：huluwa'
+    );
+  });
+
+  it('should reject unknown personas', async () => {
+    const personas = createManager();
+    const command = createPersonaCommand(personas);
+
+    expect(await command.execute({ ...context, args: ['pirate'] })).toBe(
+      '没有人设 pirate，可用人设：huluwa、cat'
+    );
+    expect(personas.get('group_1').key).toBe('huluwa');
+  });
+});
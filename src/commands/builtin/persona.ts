@@ -0,0 +1,38 @@
+import { UnknownPersonaError, type PersonaManager } from '../../persona/index.js';
+import type { CommandDefinition } from '../types.js';
+
+/**
+ * /persona：查看或切换本会话的人设
+ */
+export function createPersonaCommand(personas: PersonaManager): CommandDefinition {
+  return {
+    name: 'persona',
+    aliases: ['人设'],
+    description: '查看或切换本会话的人设',
+    usage: '[名称 | reset]',
+    permission: 'admin',
+    async execute({ sessionId, args }) {
+      const [name] = args;
+
+      if (!name) {
+        const active = personas.get(sessionId);
+        const current = `当前人设：${active.key}${active.overridden ? '（已切换）' : ''}`;
+        return `${current}\n可用人设：${personas.getNames().join('、')}`;
+      }
+
+      if (name === 'reset') {
+        return `已恢复为配置的人设：${personas.reset(sessionId).key}`;
+      }
+
+      try {
+        personas.switch(sessionId, name);
+      } catch (error) {
+        if (error instanceof UnknownPersonaError) {
+          return `没有人设 ${name}，可用人设：${personas.getNames().join('、')}`;
+        }
+        throw error;
+      }
+      return `已切换到人设：${name}`;
+    },
+  };
+}
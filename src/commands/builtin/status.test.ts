@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { NormalizedMessage } from '../../onebot/message-normalizer.js';
+import { createStatusCommand } from './status.js';
+
+const message: NormalizedMessage = {
+  messageId: 1,
+  messageType: 'group',
+  userId: 12345,
+  groupId: 67890,
+  nickname: 'Alice',
+  text: '/status',
+  timestamp: new Date(),
+  isGroup: true,
+  attachments: [],
+  isMentionBot: false,
+};
+
+const context = { message, sessionId: 'group_67890', args: [], isAdmin: false };
+
+function createDeps(quota?: unknown) {
+  return {
+    models: { get: () => ({ name: 'claude', overridden: false }) } as never,
+    personas: { get: () => ({ key: 'huluwa' }) } as never,
+    getProviderHealth: () => [
+      { name: 'claude', state: 'closed' },
+      { name: 'glm', state: 'open' },
+    ] as never,
+    quota: quota as never,
+    startedAt: 0,
+    now: () => (2 * 60 + 5) * 60000,
+  };
+}
+
+describe('createStatusCommand', () => {
+  it('should report uptime, model, persona and provider health', async () => {
+    const command = createStatusCommand(createDeps());
+
+    const reply = await command.execute(context);
+
+    expect(reply).toBe(
+      [
+        '运行时间：2 小时 5 分钟',
+        '模型：claude',
+        '人设：huluwa',
+        '模型服务：claude 正常，glm 熔断中',
+      ].join('\n')
+    );
+  });
+
+  it('should include daily usage when quotas are enabled', async () => {
+    const getUsage = vi.fn((scope: string) => ({
+      daily: { invocations: scope === 'user' ? 3 : 20, tokens: 0, costUsd: 0 },
+    }));
+    const command = createStatusCommand(createDeps({ getUsage }));
+
+    const reply = await command.execute(context);
+
+    expect(reply).toContain('今日用量：你 3 次，本群 20 次');
+    expect(getUsage).toHaveBeenCalledWith('group', 67890);
+  });
+});
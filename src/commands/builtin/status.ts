@@ -0,0 +1,69 @@
+import type { ProviderHealth } from '../../ai/index.js';
+import type { PersonaManager } from '../../persona/index.js';
+import type { QuotaManager } from '../../quota/index.js';
+import type { CommandDefinition } from '../types.js';
+import type { SessionModelSwitcher } from './model.js';
+
+export interface StatusCommandDeps {
+  models: SessionModelSwitcher;
+  personas: PersonaManager;
+  getProviderHealth: () => ProviderHealth[];
+  /** 额度管理器（未启用时不显示用量） */
+  quota?: QuotaManager | null | undefined;
+  /** 启动时间 */
+  startedAt: number;
+  now?: () => number;
+}
+
+const circuitLabels = {
+  closed: '正常',
+  'half-open': '恢复中',
+  open: '熔断中',
+};
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  if (days > 0) return `${days} 天 ${hours % 24} 小时`;
+  if (hours > 0) return `${hours} 小时 ${minutes % 60} 分钟`;
+  return `${minutes} 分钟`;
+}
+
+/**
+ * /status：查看运行时间、本会话的模型和人设、模型服务状态及今日用量
+ */
+export function createStatusCommand(deps: StatusCommandDeps): CommandDefinition {
+  const now = deps.now ?? Date.now;
+
+  return {
+    name: 'status',
+    aliases: ['状态'],
+    description: '查看运行状态',
+    permission: 'everyone',
+    async execute({ message, sessionId }) {
+      const lines = [
+        `运行时间：${formatDuration(now() - deps.startedAt)}`,
+        `模型：${deps.models.get(sessionId).name}`,
+        `人设：${deps.personas.get(sessionId).key}`,
+      ];
+
+      const providers = deps.getProviderHealth();
+      if (providers.length > 0) {
+        const health = providers.map((p) => `${p.name} ${circuitLabels[p.state]}`);
+        lines.push(`模型服务：${health.join('，')}`);
+      }
+
+      if (deps.quota) {
+        const usage = [`你 ${deps.quota.getUsage('user', message.userId).daily.invocations} 次`];
+        if (message.isGroup) {
+          const group = deps.quota.getUsage('group', message.groupId).daily;
+          usage.push(`本群 ${group.invocations} 次`);
+        }
+        lines.push(`今日用量：${usage.join('，')}`);
+      }
+
+      return lines.join('\n');
+    },
+  };
+}
@@ -0,0 +1,15 @@
+export { CommandRegistry, type CommandResult, type ParsedCommand } from './registry.js';
+export type { CommandContext, CommandDefinition, CommandPermission } from './types.js';
+export {
+  registerBuiltinCommands,
+  createHelpCommand,
+  createResetCommand,
+  createForgetCommand,
+  createModelCommand,
+  createPersonaCommand,
+  createStatusCommand,
+  type ActiveModel,
+  type BuiltinCommandDeps,
+  type SessionModelSwitcher,
+  type StatusCommandDeps,
+} from './builtin/index.js';
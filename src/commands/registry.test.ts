@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CommandsSchema } from '../config/schema.js';
+import type { NormalizedMessage } from '../onebot/message-normalizer.js';
+import { CommandRegistry } from './registry.js';
+import type { CommandDefinition } from './types.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function createMessage(text: string, overrides: Partial<NormalizedMessage> = {}): NormalizedMessage {
+  return {
+    messageId: 1,
+    messageType: 'group',
+    userId: 12345,
+    groupId: 67890,
+    nickname: 'Alice',
+    text,
+    timestamp: new Date(),
+    isGroup: true,
+    attachments: [],
+    isMentionBot: false,
+    ...overrides,
+  };
+}
+
+function createCommand(overrides: Partial<CommandDefinition> = {}): CommandDefinition {
+  return {
+    name: 'echo',
+    description: '复读',
+    permission: 'everyone',
+    execute: vi.fn(async ({ args }) => args.join(' ')),
+    ...overrides,
+  };
+}
+
+function createRegistry(config: Record<string, unknown> = {}) {
+  return new CommandRegistry(CommandsSchema.parse(config), createMockLogger() as never);
+}
+
+describe('CommandRegistry', () => {
+  let registry: CommandRegistry;
+
+  beforeEach(() => {
+    registry = createRegistry({ admins: [10001] });
+  });
+
+  it('should execute prefixed commands with arguments', async () => {
+    const command = createCommand({ aliases: ['复读'] });
+    registry.register(command);
+
+    const result = await registry.execute(createMessage(' /ECHO hello   world'), 'group_67890');
+
+    expect(result).toEqual({ command: 'echo', reply: 'hello world' });
+    expect(command.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: 'group_67890', args: ['hello', 'world'], isAdmin: false })
+    );
+    expect(await registry.execute(createMessage('/复读 hi'), 'group_67890')).toMatchObject({
+      reply: 'hi',
+    });
+  });
+
+  it('should not intercept plain messages or unknown commands', async () => {
+    registry.register(createCommand());
+
+    expect(await registry.execute(createMessage('echo hello'), 'group_67890')).toBeNull();
+    expect(await registry.execute(createMessage('/unknown'), 'group_67890')).toBeNull();
+    expect(await registry.execute(createMessage('/'), 'group_67890')).toBeNull();
+  });
+
+  it('should reject duplicate names and aliases', () => {
+    registry.register(createCommand({ aliases: ['say'] }));
+
+    expect(() => registry.register(createCommand())).toThrow('already registered');
+    expect(() => registry.register(createCommand({ name: 'SAY' }))).toThrow('already registered');
+  });
+
+  it('should check admin permission by admin list and group role', async () => {
+    const command = createCommand({ name: 'reset', permission: 'admin' });
+    registry.register(command);
+
+    const denied = await registry.execute(createMessage('/reset'), 'group_67890');
+    expect(denied).toEqual({ command: 'reset', reply: '只有管理员可以使用 /reset' });
+    expect(command.execute).not.toHaveBeenCalled();
+
+    await registry.execute(createMessage('/reset', { userId: 10001 }), 'group_67890');
+    await registry.execute(createMessage('/reset', { role: 'admin' }), 'group_67890');
+    expect(command.execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore group roles when groupAdmins is disabled', () => {
+    const strict = createRegistry({ groupAdmins: false });
+
+    expect(strict.isAdmin(createMessage('/reset', { role: 'owner' }))).toBe(false);
+  });
+
+  it('should require a mention in groups when configured', async () => {
+    const mentioned = createRegistry({ requireMention: true, prefix: '#' });
+    mentioned.register(createCommand());
+
+    expect(await mentioned.execute(createMessage('#echo a'), 'group_67890')).toBeNull();
+    expect(
+      await mentioned.execute(createMessage('#echo a', { isMentionBot: true }), 'group_67890')
+    ).toMatchObject({ reply: 'a' });
+    expect(
+      await mentioned.execute(
+        createMessage('#echo b', { isGroup: false, messageType: 'private', groupId: undefined }),
+        'private_12345'
+      )
+    ).toMatchObject({ reply: 'b' });
+  });
+
+  it('should reply with a generic error when a command throws', async () => {
+    registry.register(
+      createCommand({
+        execute: async () => {
+          throw new Error('boom');
+        },
+      })
+    );
+
+    expect(await registry.execute(createMessage('/echo'), 'group_67890')).toEqual({
+      command: 'echo',
+      reply: '命令执行失败，请稍后再试',
+    });
+  });
+
+  it('should not handle commands when disabled', async () => {
+    const disabled = createRegistry({ enabled: false });
+    disabled.register(createCommand());
+
+    expect(await disabled.execute(createMessage('/echo a'), 'group_67890')).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import type { Logger } from '../logger/logger.js';
+import type { CommandsConfig } from '../config/schema.js';
+import type { NormalizedMessage } from '../onebot/index.js';
+import type { CommandDefinition } from './types.js';
+
+/**
+ * 解析出的命令
+ */
+export interface ParsedCommand {
+  definition: CommandDefinition;
+  args: string[];
+}
+
+/**
+ * 命令执行结果
+ */
+export interface CommandResult {
+  /** 命令名称 */
+  command: string;
+  /** 回复文本，null 表示不回复 */
+  reply: string | null;
+}
+
+/**
+ * 命令注册表
+ *
+ * 识别以前缀开头的已注册命令，检查权限后执行。
+ * 未注册的命令不拦截（按普通消息交给 Agent），执行出错时回复通用的失败提示
+ */
+export class CommandRegistry {
+  private readonly config: CommandsConfig;
+  private readonly logger: Logger;
+  private readonly commands = new Map<string, CommandDefinition>();
+  /** 名称和别名 -> 命令 */
+  private readonly lookup = new Map<string, CommandDefinition>();
+
+  constructor(config: CommandsConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger.child('CommandRegistry');
+  }
+
+  /**
+   * 命令前缀
+   */
+  get prefix(): string {
+    return this.config.prefix;
+  }
+
+  /**
+   * 注册一个命令
+   */
+  register(definition: CommandDefinition): void {
+    const keys = [definition.name, ...(definition.aliases ?? [])].map((key) => key.toLowerCase());
+    for (const key of keys) {
+      if (this.lookup.has(key)) {
+        throw new Error(`Command "${key}" already registered`);
+      }
+    }
+
+    this.commands.set(definition.name.toLowerCase(), definition);
+    for (const key of keys) {
+      this.lookup.set(key, definition);
+    }
+  }
+
+  /**
+   * 按名称或别名获取命令
+   */
+  get(name: string): CommandDefinition | undefined {
+    return this.lookup.get(name.toLowerCase());
+  }
+
+  /**
+   * 获取所有命令（按注册顺序）
+   */
+  list(): CommandDefinition[] {
+    return Array.from(this.commands.values());
+  }
+
+  /**
+   * 发送者是否为管理员：在 admins 中，或启用 groupAdmins 时为群主 / 群管理员
+   */
+  isAdmin(message: NormalizedMessage): boolean {
+    if (this.config.admins.includes(message.userId)) {
+      return true;
+    }
+    return this.config.groupAdmins && (message.role === 'owner' || message.role === 'admin');
+  }
+
+  /**
+   * 解析消息中的命令，不是已注册的命令时返回 null
+   */
+  parse(message: NormalizedMessage): ParsedCommand | null {
+    if (!this.config.enabled) {
+      return null;
+    }
+    if (message.isGroup && this.config.requireMention && !message.isMentionBot) {
+      return null;
+    }
+
+    const text = message.text.trim();
+    if (!text.startsWith(this.config.prefix)) {
+      return null;
+    }
+
+    const [name, ...args] = text.slice(this.config.prefix.length).split(/\s+/);
+    const definition = name ? this.get(name) : undefined;
+    return definition ? { definition, args } : null;
+  }
+
+  /**
+   * 执行消息中的命令，不是命令时返回 null
+   */
+  async execute(message: NormalizedMessage, sessionId: string): Promise<CommandResult | null> {
+    const parsed = this.parse(message);
+    if (!parsed) {
+      return null;
+    }
+
+    const { definition, args } = parsed;
+    const isAdmin = this.isAdmin(message);
+
+    if (definition.permission === 'admin' && !isAdmin) {
+      this.logger.info('Command denied', {
+        command: definition.name,
+        userId: message.userId,
+        sessionId,
+      });
+      return {
+        command: definition.name,
+        reply: `只有管理员可以使用 ${this.config.prefix}${definition.name}`,
+      };
+    }
+
+    try {
+      const reply = await definition.execute({ message, sessionId, args, isAdmin });
+      this.logger.info('Command executed', {
+        command: definition.name,
+        args,
+        userId: message.userId,
+        sessionId,
+      });
+      return { command: definition.name, reply };
+    } catch (error) {
+      this.logger.error('Command failed', {
+        command: definition.name,
+        userId: message.userId,
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { command: definition.name, reply: '命令执行失败，请稍后再试' };
+    }
+  }
+
+  /**
+   * 获取所有命令名称
+   */
+  getNames(): string[] {
+    return Array.from(this.commands.values(), (definition) => definition.name);
+  }
+
+  /**
+   * 获取命令数量
+   */
+  get size(): number {
+    return this.commands.size;
+  }
+}
@@ -0,0 +1,45 @@
+import type { NormalizedMessage } from '../onebot/index.js';
+
+/**
+ * 命令权限：所有人可用，或仅管理员可用
+ */
+export type CommandPermission = 'everyone' | 'admin';
+
+/**
+ * 命令执行上下文
+ */
+export interface CommandContext {
+  /** 命令消息 */
+  message: NormalizedMessage;
+  /** 所在会话 ID */
+  sessionId: string;
+  /** 命令参数（按空白切分） */
+  args: string[];
+  /** 发送者是否为管理员 */
+  isAdmin: boolean;
+}
+
+/**
+ * 命令定义
+ *
+ * 以前缀开头的消息在进入 Agent 之前按命令处理，不经过 LLM
+ */
+export interface CommandDefinition {
+  /** 命令名称（唯一标识，不含前缀，大小写不敏感） */
+  name: string;
+
+  /** 别名 */
+  aliases?: string[];
+
+  /** 命令描述（/help 中显示） */
+  description: string;
+
+  /** 参数说明，如 '<名称> | reset' */
+  usage?: string;
+
+  /** 使用权限 */
+  permission: CommandPermission;
+
+  /** 执行命令，返回回复文本，null 表示不回复 */
+  execute: (context: CommandContext) => Promise<string | null>;
+}
@@ -1,15 +1,68 @@
 import { z } from 'zod';
 
+export const TargetMemorySchema = z.object({
+  enabled: z.boolean().optional(), // 可选：覆盖全局 memory.enabled
+});
+
+export const TargetToolsSchema = z.object({
+  enabled: z.boolean().default(true),
+  allow: z.array(z.string()).optional(), // 可选：仅启用列出的工具
+});
+
+/** 主动发言的灵敏度：越高越容易插话 */
+export const AmbientSensitivitySchema = z.enum(['low', 'medium', 'high']);
+
+export const TargetAmbientSchema = z.object({
+  enabled: z.boolean().optional(), // 可选：覆盖全局 ambient.enabled
+  sensitivity: AmbientSensitivitySchema.optional(),
+  cooldownSeconds: z.number().int().min(0).optional(),
+  keywords: z.array(z.string().min(1)).optional(), // 与全局 ambient.keywords 合并
+});
+
 export const TargetSchema = z.object({
   type: z.enum(['private', 'group']),
   id: z.number().int().positive(),
+  name: z.string().optional(), // 可选：便于日志识别的名称
+  model: z.string().optional(), // 可选：覆盖 ai.default
+  persona: z.string().optional(), // 可选：personas.profiles 中的 key，覆盖 personas.default
+  memory: TargetMemorySchema.optional(),
+  tools: TargetToolsSchema.optional(),
+  ambient: TargetAmbientSchema.optional(), // 仅对群聊生效
 });
 
-export const OneBotSchema = z.object({
-  httpUrl: z.string().url(),
-  accessToken: z.string().optional(),
-  webhookPath: z.string().startsWith('/').default('/onebot'),
-});
+export const OneBotSchema = z
+  .object({
+    // http: HTTP API + HTTP POST 上报；ws: 正向 WebSocket；reverse-ws: 反向 WebSocket
+    transport: z.enum(['http', 'ws', 'reverse-ws']).default('http'),
+    httpUrl: z.string().url().optional(),
+    wsUrl: z.string().url().optional(),
+    accessToken: z.string().optional(),
+    webhookPath: z.string().startsWith('/').default('/onebot'),
+    reverseWsPath: z.string().startsWith('/').default('/onebot/ws'),
+    requestTimeoutMs: z.number().int().min(1000).max(120000).default(30000),
+    reconnectIntervalMs: z.number().int().min(500).max(60000).default(3000),
+    maxReconnectIntervalMs: z.number().int().min(1000).max(600000).default(60000),
+    // 群成员缓存（群名片、身份）有效期
+    memberCacheTtlMs: z.number().int().min(0).default(30 * 60 * 1000),
+    // 连接后通过 get_group_member_list 预加载目标群成员
+    preloadMembers: z.boolean().default(true),
+  })
+  .superRefine((data, ctx) => {
+    if (data.transport === 'http' && !data.httpUrl) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'httpUrl is required for http transport',
+        path: ['httpUrl'],
+      });
+    }
+    if (data.transport === 'ws' && !data.wsUrl) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'wsUrl is required for ws transport',
+        path: ['wsUrl'],
+      });
+    }
+  });
 
 export const ServerSchema = z.object({
   port: z.number().int().min(1).max(65535).default(3000),
@@ -85,11 +138,128 @@ export const LoggingSchema = z.object({
 });
 
 export const PipelineSchema = z.object({
+  // immediate: @bot 时立即处理；debounce: @bot 后继续收集后续消息，停顿后统一处理
+  mode: z.enum(['immediate', 'debounce']).default('immediate'),
   debounceMs: z.number().int().min(100).max(30000).default(3000),
   maxWaitMs: z.number().int().min(1000).max(60000).default(10000),
   progressFeedback: z.boolean().default(true),
 });
 
+export const SenderRetrySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).default(3),
+  initialDelayMs: z.number().int().min(100).max(60000).default(1000),
+  maxDelayMs: z.number().int().min(100).max(300000).default(10000),
+});
+
+export const SenderStreamingSchema = z.object({
+  enabled: z.boolean().default(false), // 对话回复边生成边发送
+  flushOn: z.enum(['sentence', 'paragraph']).default('sentence'), // 按句子或段落（空行）切分发送
+  minChars: z.number().int().min(1).max(2000).default(20), // 每条最少字符数，不足时与后续内容合并
+});
+
+export const SenderSchema = z.object({
+  maxMessageLength: z.number().int().min(50).max(10000).default(1000), // 单条消息最大字符数，超出按句子切分
+  perTargetIntervalMs: z.number().int().min(0).max(60000).default(1000), // 同一目标相邻两条消息的最小间隔
+  globalPerMinute: z.number().int().min(1).max(1000).default(30), // 全局每分钟最多发送消息数
+  retry: SenderRetrySchema.default({}),
+  streaming: SenderStreamingSchema.default({}),
+});
+
+export const WelcomeEventSchema = z.object({
+  enabled: z.boolean().default(false),
+  message: z.string().min(1).default('欢迎新朋友！'), // 欢迎语，发送时会 @ 新成员
+});
+
+export const PokeEventSchema = z.object({
+  enabled: z.boolean().default(true),
+  replies: z.array(z.string().min(1)).min(1).default(['戳我干嘛～', '在呢在呢', '别戳啦，有事 @ 我就好']),
+  cooldownSeconds: z.number().int().min(0).default(30), // 同一用户两次回应的最小间隔
+});
+
+export const RecallEventSchema = z.object({
+  enabled: z.boolean().default(true), // 从待处理缓冲移除被撤回的消息，并在记忆中脱敏
+  recallReply: z.boolean().default(false), // 同时撤回 bot 对该消息的回复
+});
+
+/**
+ * 请求处理策略：
+ * - ignore: 不处理，留给人工
+ * - accept / reject: 全部同意 / 拒绝
+ * - allowlist: 仅同意 allowList 中的 QQ 号（好友）或群号（入群邀请），其余拒绝
+ */
+export const RequestPolicySchema = z.object({
+  policy: z.enum(['ignore', 'accept', 'reject', 'allowlist']).default('ignore'),
+  allowList: z.array(z.number().int().positive()).default([]),
+  rejectReason: z.string().optional(), // 可选：拒绝理由（仅入群邀请）
+});
+
+export const EventsSchema = z.object({
+  welcome: WelcomeEventSchema.default({}),
+  poke: PokeEventSchema.default({}),
+  recall: RecallEventSchema.default({}),
+  friendRequest: RequestPolicySchema.default({}),
+  groupInvite: RequestPolicySchema.default({}),
+});
+
+export const TranscriptionSchema = z.object({
+  enabled: z.boolean().default(false),
+  provider: z.string().default('openai'), // ai.providers 中的 key，使用其 apiKey / baseUrl（OpenAI 兼容接口）
+  model: z.string().default('whisper-1'),
+  language: z.string().optional(), // 可选：ISO-639-1 语言代码，如 zh
+  timeoutMs: z.number().int().min(1000).max(300000).default(60000),
+  silkDecoderPath: z.string().optional(), // 可选：silk_v3_decoder 路径，未配置时无法转写 silk 语音
+});
+
+export const VideoSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxFrames: z.number().int().min(1).max(16).default(4), // 每个视频抽取的画面帧数上限
+  frameWidth: z.number().int().min(128).max(1920).default(512), // 抽帧缩放宽度（像素）
+  maxDurationSeconds: z.number().int().min(1).max(3600).default(300), // 超过时长的视频不处理
+  transcribeAudio: z.boolean().default(true), // 提取音轨转写（需启用 transcription）
+  captionModel: z.string().optional(), // 可选：支持图片的模型（ai.providers 中的 key），为不支持图片的模型生成画面描述
+  timeoutMs: z.number().int().min(1000).max(600000).default(120000),
+});
+
+export const DocumentsSchema = z.object({
+  enabled: z.boolean().default(true),
+  pdftotextPath: z.string().default('pdftotext'), // poppler-utils，未安装时 PDF 仅以 file block 发送
+  chunkChars: z.number().int().min(500).max(100000).default(4000), // 每段最大字符数
+  maxChars: z.number().int().min(1000).max(1000000).default(60000), // 每轮对话的文档文本预算，按模型上下文窗口调整
+  maxArchiveEntries: z.number().int().min(1).max(1000).default(100), // 压缩包最多列出/读取的条目数
+  timeoutMs: z.number().int().min(1000).max(300000).default(30000),
+});
+
+const MB = 1024 * 1024;
+
+export const AttachmentLimitsSchema = z.object({
+  image: z.number().int().min(1).default(10 * MB),
+  audio: z.number().int().min(1).default(10 * MB),
+  video: z.number().int().min(1).default(100 * MB),
+  file: z.number().int().min(1).default(50 * MB),
+});
+
+export const AttachmentStoreSchema = z.object({
+  enabled: z.boolean().default(true),
+  directory: z.string().default('./data/attachments'),
+  retentionDays: z.number().int().min(1).max(3650).default(30), // 超过天数未被访问的文件会被清理
+  pruneIntervalHours: z.number().int().min(1).max(720).default(24), // 清理检查间隔（启动时也会检查一次）
+});
+
+export const AttachmentsSchema = z.object({
+  timeoutMs: z.number().int().min(1000).max(600000).default(60000), // 单个附件下载超时
+  maxBytes: AttachmentLimitsSchema.default({}), // 各类型附件大小上限（字节），超出的附件不下载
+  store: AttachmentStoreSchema.default({}),
+});
+
+export const MediaSchema = z.object({
+  ffmpegPath: z.string().default('ffmpeg'), // 音视频转码、抽帧
+  ffprobePath: z.string().default('ffprobe'), // 读取视频时长
+  transcription: TranscriptionSchema.default({}),
+  video: VideoSchema.default({}),
+  documents: DocumentsSchema.default({}),
+  attachments: AttachmentsSchema.default({}),
+});
+
 export const ProviderConfigSchema = z.object({
   provider: z.enum(['anthropic', 'openai', 'glm', 'minimax', 'gemini']),
   model: z.string(),
@@ -97,41 +267,327 @@ export const ProviderConfigSchema = z.object({
   baseUrl: z.string().url().optional(),
   temperature: z.number().min(0).max(2).default(0.7),
   maxTokens: z.number().int().min(1).max(100000).default(4096),
+  vision: z.boolean().default(true), // 模型是否支持图片输入，不支持时图片和视频画面改为文字
+  pdf: z.boolean().optional(), // 模型是否接受 PDF file block，默认仅 anthropic 支持，其他模型改为提取文本
+  structuredOutput: z.boolean().optional(), // 是否使用原生结构化输出（tool calling），默认 anthropic / openai 启用，其他模型解析 JSON 文本
+});
+
+export const ImageGenerationSchema = z.object({
+  enabled: z.boolean().default(false),
+  provider: z.string().default('openai'), // providers 中的 key，使用其 apiKey / baseUrl（OpenAI 兼容接口）
+  baseUrl: z.string().url().optional(), // 可选：覆盖 provider 的 baseUrl，如本地 mock 服务
+  model: z.string().default('dall-e-3'),
+  size: z.string().regex(/^\d+x\d+$/).default('1024x1024'),
+  quality: z.string().optional(), // 可选：画质参数，取值依模型而定
+  timeoutMs: z.number().int().min(1000).max(600000).default(120000),
+});
+
+export const ResilienceSchema = z.object({
+  retry: z
+    .object({
+      maxAttempts: z.number().int().min(1).max(10).default(3), // 每个 provider 的最多尝试次数（含首次）
+      initialDelayMs: z.number().int().min(0).max(60000).default(500), // 首次重试前等待，之后每次翻倍
+      maxDelayMs: z.number().int().min(0).max(300000).default(8000),
+    })
+    .default({}),
+  circuitBreaker: z
+    .object({
+      failureThreshold: z.number().int().min(1).max(100).default(5), // 连续失败多少次后熔断
+      resetTimeoutMs: z.number().int().min(1000).max(3600000).default(60000), // 熔断后多久放行试探请求
+    })
+    .default({}),
+  failover: z.array(z.string()).default([]), // 故障转移顺序（providers 中的 key），默认不转移
+});
+
+/** 模型价格（美元 / 百万 token） */
+export const ModelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cachedInput: z.number().min(0).optional(), // 命中缓存的输入价格，默认同 input
+});
+
+/** 节点使用的模型：providers 中的 key，数组表示回退链（前一个调用失败时改用下一个） */
+const NodeModelSchema = z.union([z.string(), z.array(z.string()).min(1)]);
+
+export const AINodesSchema = z.object({
+  summary: NodeModelSchema.optional(),
+  intent: NodeModelSchema.optional(),
+  plan: NodeModelSchema.optional(),
+  chat: NodeModelSchema.optional(),
+  tool: NodeModelSchema.optional(),
+  image: NodeModelSchema.optional(),
 });
 
 export const AISchema = z
   .object({
     default: z.string(),
     providers: z.record(z.string(), ProviderConfigSchema),
+    nodes: AINodesSchema.default({}), // 各节点的模型分配，未配置的节点使用会话的默认模型
+    resilience: ResilienceSchema.default({}), // 请求重试、熔断和故障转移
+    pricing: z.record(z.string(), ModelPriceSchema).default({}), // 价格表（key 为 providers 中的名称），用于统计费用
+    imageGeneration: ImageGenerationSchema.default({}),
+  })
+  .superRefine((data, ctx) => {
+    if (!(data.default in data.providers)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Default provider "${data.default}" not found in providers`,
+        path: ['default'],
+      });
+    }
+
+    for (const [node, assignment] of Object.entries(data.nodes)) {
+      const names = typeof assignment === 'string' ? [assignment] : (assignment ?? []);
+      for (const name of names) {
+        if (!(name in data.providers)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Model "${name}" for node "${node}" not found in providers`,
+            path: ['nodes', node],
+          });
+        }
+      }
+    }
+
+    for (const name of Object.keys(data.pricing)) {
+      if (!(name in data.providers)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Pricing for "${name}" does not match any provider`,
+          path: ['pricing', name],
+        });
+      }
+    }
+
+    for (const name of data.resilience.failover) {
+      if (!(name in data.providers)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Failover provider "${name}" not found in providers`,
+          path: ['resilience', 'failover'],
+        });
+      }
+    }
+  });
+
+export const PersonaProfileSchema = z.object({
+  name: z.string().min(1).default('Huluwa'), // bot 的名字（用户 @ 的名字）
+  alias: z.string().optional(), // 可选：别名，如中文名
+  systemPrompt: z
+    .string()
+    .default('你是一个友好的 AI 助手，说话自然，像朋友聊天一样，保持轻松的语气。'), // 身份和性格描述
+  language: z.string().default('中文'), // 回复语言
+  replyLength: z.enum(['short', 'medium', 'long']).default('short'), // 回复长度风格
+  markdown: z.boolean().default(false), // 是否允许 markdown 格式
+});
+
+export const PersonasSchema = z
+  .object({
+    default: z.string().default('huluwa'), // 默认人设（profiles 中的 key）
+    profiles: z.record(z.string(), PersonaProfileSchema).default({ huluwa: { alias: '葫芦娃' } }),
   })
   .refine(
-    (data) => data.default in data.providers,
+    (data) => data.default in data.profiles,
     (data) => ({
-      message: `Default provider "${data.default}" not found in providers`,
+      message: `Default persona "${data.default}" not found in profiles`,
       path: ['default'],
     })
   );
 
-export const ConfigSchema = z.object({
-  target: TargetSchema,
-  onebot: OneBotSchema,
-  server: ServerSchema.default({}),
-  logging: LoggingSchema.default({}),
-  pipeline: PipelineSchema.default({}),
-  ai: AISchema,
-  memory: MemorySchema.default({}),
-  tools: ToolsSchema.default({}),
-  webui: WebUISchema.default({}),
+export const PromptsSchema = z.object({
+  dir: z.string().optional(), // 可选：提示词模板目录，<模板名>.txt 覆盖内置模板
+  watch: z.boolean().default(true), // 目录中的文件变化时自动重新加载
+});
+
+/** 访问控制中的身份等级，取自发送者的群身份（私聊为 member） */
+export const AccessRoleSchema = z.enum(['member', 'admin', 'owner']);
+
+export const AclSchema = z.object({
+  allowUsers: z.array(z.number().int()).optional(), // 白名单：配置后只响应名单中的用户
+  denyUsers: z.array(z.number().int()).default([]), // 黑名单，优先于白名单
+  superusers: z.array(z.number().int()).default([]), // 不受名单和工具权限限制的 QQ 号
+  tools: z.record(AccessRoleSchema).default({}), // 覆盖工具声明的最低身份，如 { urlFetch: 'admin' }
+});
+
+export const AmbientSchema = z.object({
+  enabled: z.boolean().default(false), // 未被 @ 时也由相关性分类器判断是否主动发言（可按目标开启 / 关闭）
+  model: z.string().optional(), // 分类器使用的模型（providers 中的名称），建议使用便宜的快速模型，默认 ai.default
+  sensitivity: AmbientSensitivitySchema.default('medium'),
+  names: z.array(z.string().min(1)).default([]), // bot 的别称，消息中直接提到时考虑发言（总是包含当前人设的名称）
+  keywords: z.array(z.string().min(1)).default([]), // 消息包含这些关键词时考虑发言
+  unansweredSeconds: z.number().int().min(5).max(3600).default(90), // 提问后多久没人接话时考虑发言
+  contextMessages: z.number().int().min(1).max(50).default(15), // 交给分类器的最近消息数
+  cooldownSeconds: z.number().int().min(0).default(300), // bot 回复后多久内不主动发言
+  maxPerHour: z.number().int().min(1).max(60).default(4), // 每个群每小时最多主动发言次数
+});
+
+export const CommandsSchema = z.object({
+  enabled: z.boolean().default(true),
+  prefix: z.string().min(1).default('/'), // 以该前缀开头的消息按命令处理，不进入 Agent
+  admins: z.array(z.number().int()).default([]), // 管理员 QQ 号
+  groupAdmins: z.boolean().default(true), // 群主和群管理员在本群视为管理员
+  requireMention: z.boolean().default(false), // 群聊中是否需要 @bot 才响应命令
 });
 
+/** 单个周期的额度，未配置的项不限制 */
+export const QuotaLimitSchema = z.object({
+  invocations: z.number().int().min(0).optional(), // Agent 调用次数
+  tokens: z.number().int().min(0).optional(), // 输入 + 输出 token
+  costUsd: z.number().min(0).optional(), // 费用（按 ai.pricing 计算）
+});
+
+export const QuotaLimitsSchema = z.object({
+  daily: QuotaLimitSchema.default({}),
+  monthly: QuotaLimitSchema.default({}),
+});
+
+export const QuotaSchema = z.object({
+  enabled: z.boolean().default(false),
+  global: QuotaLimitsSchema.default({}), // 所有会话合计
+  user: QuotaLimitsSchema.default({}), // 每个用户的默认额度
+  group: QuotaLimitsSchema.default({}), // 每个群的默认额度
+  users: z.record(QuotaLimitsSchema).default({}), // 按 QQ 号覆盖用户额度
+  groups: z.record(QuotaLimitsSchema).default({}), // 按群号覆盖群额度
+  timezone: z
+    .string()
+    .default('Asia/Shanghai') // 按该时区划分日 / 月
+    .refine(
+      (timezone) => {
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: 'Invalid timezone' }
+    ),
+  directory: z.string().default('./data/quota'), // 用量计数的持久化目录
+  saveIntervalSeconds: z.number().int().min(0).max(3600).default(60),
+});
+
+export const ConfigSchema = z
+  .object({
+    /** 单目标写法（兼容旧配置），会被合并到 targets */
+    target: TargetSchema.optional(),
+    targets: z.array(TargetSchema).default([]),
+    onebot: OneBotSchema,
+    server: ServerSchema.default({}),
+    logging: LoggingSchema.default({}),
+    pipeline: PipelineSchema.default({}),
+    sender: SenderSchema.default({}),
+    events: EventsSchema.default({}),
+    media: MediaSchema.default({}),
+    ai: AISchema,
+    personas: PersonasSchema.default({}),
+    prompts: PromptsSchema.default({}),
+    memory: MemorySchema.default({}),
+    tools: ToolsSchema.default({}),
+    acl: AclSchema.default({}),
+    ambient: AmbientSchema.default({}),
+    commands: CommandsSchema.default({}),
+    quota: QuotaSchema.default({}),
+    webui: WebUISchema.default({}),
+  })
+  .superRefine((data, ctx) => {
+    const targets = data.target ? [data.target, ...data.targets] : data.targets;
+
+    if (targets.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'At least one target must be configured',
+        path: ['targets'],
+      });
+    }
+
+    const seen = new Set<string>();
+    targets.forEach((target, index) => {
+      // 兼容写法的 target 排在最前，报错路径需要还原
+      const targetPath = data.target
+        ? index === 0
+          ? ['target']
+          : ['targets', index - 1]
+        : ['targets', index];
+      const key = `${target.type}_${target.id}`;
+      if (seen.has(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate target "${key}"`,
+          path: targetPath,
+        });
+      }
+      seen.add(key);
+
+      if (target.model && !(target.model in data.ai.providers)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Model "${target.model}" not found in providers`,
+          path: [...targetPath, 'model'],
+        });
+      }
+
+      if (target.ambient && target.type !== 'group') {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Ambient mode is only available for group targets',
+          path: [...targetPath, 'ambient'],
+        });
+      }
+
+      if (target.persona && !(target.persona in data.personas.profiles)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Persona "${target.persona}" not found in personas.profiles`,
+          path: [...targetPath, 'persona'],
+        });
+      }
+    });
+
+    if (data.ambient.model && !(data.ambient.model in data.ai.providers)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Model "${data.ambient.model}" not found in providers`,
+        path: ['ambient', 'model'],
+      });
+    }
+  })
+  .transform(({ target, targets, ...rest }) => ({
+    ...rest,
+    targets: target ? [target, ...targets] : targets,
+  }));
+
 export type Target = z.infer<typeof TargetSchema>;
+export type TargetMemoryConfig = z.infer<typeof TargetMemorySchema>;
+export type TargetToolsConfig = z.infer<typeof TargetToolsSchema>;
+export type AmbientSensitivity = z.infer<typeof AmbientSensitivitySchema>;
+export type TargetAmbientConfig = z.infer<typeof TargetAmbientSchema>;
 export type OneBotConfig = z.infer<typeof OneBotSchema>;
 export type ServerConfig = z.infer<typeof ServerSchema>;
 export type LogFileConfig = z.infer<typeof LogFileSchema>;
 export type LoggingConfig = z.infer<typeof LoggingSchema>;
 export type PipelineConfig = z.infer<typeof PipelineSchema>;
+export type SenderRetryConfig = z.infer<typeof SenderRetrySchema>;
+export type SenderConfig = z.infer<typeof SenderSchema>;
+export type SenderStreamingConfig = z.infer<typeof SenderStreamingSchema>;
+export type WelcomeEventConfig = z.infer<typeof WelcomeEventSchema>;
+export type PokeEventConfig = z.infer<typeof PokeEventSchema>;
+export type RecallEventConfig = z.infer<typeof RecallEventSchema>;
+export type RequestPolicyConfig = z.infer<typeof RequestPolicySchema>;
+export type EventsConfig = z.infer<typeof EventsSchema>;
+export type TranscriptionConfig = z.infer<typeof TranscriptionSchema>;
+export type VideoConfig = z.infer<typeof VideoSchema>;
+export type DocumentsConfig = z.infer<typeof DocumentsSchema>;
+export type AttachmentsConfig = z.infer<typeof AttachmentsSchema>;
+export type MediaConfig = z.infer<typeof MediaSchema>;
 export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
 export type AIConfig = z.infer<typeof AISchema>;
+export type AINodesConfig = z.infer<typeof AINodesSchema>;
+export type ResilienceConfig = z.infer<typeof ResilienceSchema>;
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+export type PersonaProfile = z.infer<typeof PersonaProfileSchema>;
+export type PersonasConfig = z.infer<typeof PersonasSchema>;
+export type PromptsConfig = z.infer<typeof PromptsSchema>;
+export type ImageGenerationConfig = z.infer<typeof ImageGenerationSchema>;
 export type MemoryPersistenceConfig = z.infer<typeof MemoryPersistenceSchema>;
 export type SummarizationConfig = z.infer<typeof SummarizationSchema>;
 export type KnowledgeBaseConfig = z.infer<typeof KnowledgeBaseSchema>;
@@ -139,5 +595,12 @@ export type MemoryConfig = z.infer<typeof MemorySchema>;
 export type ToolsCacheConfig = z.infer<typeof ToolsCacheSchema>;
 export type WebSearchConfig = z.infer<typeof WebSearchSchema>;
 export type ToolsConfig = z.infer<typeof ToolsSchema>;
+export type AccessRole = z.infer<typeof AccessRoleSchema>;
+export type AclConfig = z.infer<typeof AclSchema>;
+export type AmbientConfig = z.infer<typeof AmbientSchema>;
+export type CommandsConfig = z.infer<typeof CommandsSchema>;
+export type QuotaLimitConfig = z.infer<typeof QuotaLimitSchema>;
+export type QuotaLimitsConfig = z.infer<typeof QuotaLimitsSchema>;
+export type QuotaConfig = z.infer<typeof QuotaSchema>;
 export type WebUIConfig = z.infer<typeof WebUISchema>;
 export type Config = z.infer<typeof ConfigSchema>;
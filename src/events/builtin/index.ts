@@ -0,0 +1,70 @@
+import type { Logger } from '../../logger/logger.js';
+import type { EventsConfig } from '../../config/schema.js';
+import type { OneBotClient } from '../../onebot/client.js';
+import type { MessageSender } from '../../onebot/sender.js';
+import type { ConversationMemory } from '../../memory/index.js';
+import type { SessionPipeline } from '../../pipeline/index.js';
+import type { EventHandlerRegistry } from '../registry.js';
+import type { SentReplyIndex } from '../reply-index.js';
+import { createWelcomeHandler } from './welcome.js';
+import { createPokeHandler } from './poke.js';
+import { createGroupRecallHandler, createFriendRecallHandler } from './recall.js';
+import { createFriendRequestHandler, createGroupInviteHandler } from './request.js';
+
+export interface BuiltinEventHandlerDeps {
+  client: OneBotClient;
+  sender: MessageSender;
+  /** 记忆（未启用时撤回只清理待处理缓冲） */
+  memory?: ConversationMemory | undefined;
+  /** 按会话 ID 查找消息管道 */
+  findPipeline: (sessionId: string) => SessionPipeline | undefined;
+  /** 已发送回复索引（用于撤回 bot 的回复） */
+  replies: SentReplyIndex;
+  logger: Logger;
+}
+
+/**
+ * 注册所有内置事件处理器
+ *
+ * @param registry 事件处理器注册表
+ * @param config 事件配置
+ * @param deps 处理器依赖
+ */
+export function registerBuiltinEventHandlers(
+  registry: EventHandlerRegistry,
+  config: EventsConfig,
+  deps: BuiltinEventHandlerDeps
+): void {
+  const logger = deps.logger.child('EventHandlers');
+
+  if (config.welcome.enabled) {
+    registry.register(createWelcomeHandler(deps.sender, config.welcome));
+  }
+
+  if (config.poke.enabled) {
+    registry.register(createPokeHandler(deps.sender, config.poke));
+  }
+
+  if (config.recall.enabled) {
+    const recallDeps = { ...deps, logger };
+    registry.register(createGroupRecallHandler(recallDeps, config.recall));
+    registry.register(createFriendRecallHandler(recallDeps, config.recall));
+  }
+
+  // 请求处理器始终注册，ignore 策略下只记录日志
+  registry.register(createFriendRequestHandler(deps.client, config.friendRequest, logger));
+  registry.register(createGroupInviteHandler(deps.client, config.groupInvite, logger));
+}
+
+export { createWelcomeHandler } from './welcome.js';
+export { createPokeHandler } from './poke.js';
+export {
+  createGroupRecallHandler,
+  createFriendRecallHandler,
+  type RecallHandlerDeps,
+} from './recall.js';
+export {
+  createFriendRequestHandler,
+  createGroupInviteHandler,
+  decideRequest,
+} from './request.js';
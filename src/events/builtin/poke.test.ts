@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createPokeHandler } from './poke.js';
+import type { PokeNoticeEvent } from '../../onebot/types.js';
+
+const pokeEvent: PokeNoticeEvent = {
+  time: 1,
+  self_id: 10000,
+  post_type: 'notice',
+  notice_type: 'notify',
+  sub_type: 'poke',
+  group_id: 100,
+  user_id: 12345,
+  target_id: 10000,
+};
+
+const config = { enabled: true, replies: ['在呢'], cooldownSeconds: 30 };
+
+describe('createPokeHandler', () => {
+  it('should reply in group with a mention', async () => {
+    const sender = { send: vi.fn().mockResolvedValue(1) };
+    const handler = createPokeHandler(sender as never, config);
+
+    await handler.handle(pokeEvent);
+
+    expect(sender.send).toHaveBeenCalledWith('group', 100, { text: '在呢', mentions: [12345] });
+  });
+
+  it('should reply privately when poked in private chat', async () => {
+    const sender = { send: vi.fn().mockResolvedValue(1) };
+    const handler = createPokeHandler(sender as never, config);
+
+    const { group_id: _groupId, ...privatePoke } = pokeEvent;
+    await handler.handle(privatePoke);
+
+    expect(sender.send).toHaveBeenCalledWith('private', 12345, '在呢');
+  });
+
+  it('should ignore pokes aimed at others', async () => {
+    const sender = { send: vi.fn() };
+    const handler = createPokeHandler(sender as never, config);
+
+    await handler.handle({ ...pokeEvent, target_id: 55555 });
+
+    expect(sender.send).not.toHaveBeenCalled();
+  });
+
+  it('should only reply once per user within the cooldown', async () => {
+    const sender = { send: vi.fn().mockResolvedValue(1) };
+    let now = 0;
+    const handler = createPokeHandler(sender as never, config, () => now);
+
+    await handler.handle(pokeEvent);
+    now = 10_000;
+    await handler.handle(pokeEvent);
+    await handler.handle({ ...pokeEvent, user_id: 23456 });
+    expect(sender.send).toHaveBeenCalledTimes(2);
+
+    now = 30_000;
+    await handler.handle(pokeEvent);
+    expect(sender.send).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,42 @@
+import type { PokeEventConfig } from '../../config/schema.js';
+import type { MessageSender } from '../../onebot/sender.js';
+import type { EventHandlerDefinition } from '../types.js';
+
+/**
+ * 戳一戳回应
+ *
+ * 只回应戳 bot 的事件，从 replies 中随机选一句；群聊中 @ 戳的人。
+ * 同一用户在 cooldownSeconds 内重复戳不再回应，避免刷屏
+ */
+export function createPokeHandler(
+  sender: MessageSender,
+  config: PokeEventConfig,
+  now: () => number = Date.now
+): EventHandlerDefinition<'notice.poke'> {
+  const lastReplyAt = new Map<number, number>();
+
+  return {
+    name: 'poke',
+    event: 'notice.poke',
+    async handle(event) {
+      if (event.target_id !== event.self_id || event.user_id === event.self_id) {
+        return;
+      }
+
+      const time = now();
+      const last = lastReplyAt.get(event.user_id);
+      if (last !== undefined && time - last < config.cooldownSeconds * 1000) {
+        return;
+      }
+      lastReplyAt.set(event.user_id, time);
+
+      const text = config.replies[Math.floor(Math.random() * config.replies.length)]!;
+
+      if (event.group_id !== undefined) {
+        await sender.send('group', event.group_id, { text, mentions: [event.user_id] });
+      } else {
+        await sender.send('private', event.user_id, text);
+      }
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createGroupRecallHandler, createFriendRecallHandler } from './recall.js';
+import { SentReplyIndex } from '../reply-index.js';
+import type { GroupRecallNoticeEvent } from '../../onebot/types.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+const recallEvent: GroupRecallNoticeEvent = {
+  time: 1,
+  self_id: 10000,
+  post_type: 'notice',
+  notice_type: 'group_recall',
+  group_id: 100,
+  user_id: 12345,
+  operator_id: 12345,
+  message_id: 42,
+};
+
+function createDeps() {
+  const pipeline = { removeMessage: vi.fn().mockReturnValue(true) };
+  const memory = {
+    isEnabled: vi.fn().mockReturnValue(true),
+    redactMessage: vi.fn().mockResolvedValue(true),
+  };
+  const client = { deleteMsg: vi.fn().mockResolvedValue(undefined) };
+  const findPipeline = vi.fn((sessionId: string) =>
+    sessionId === 'group_100' ? pipeline : undefined
+  );
+  const replies = new SentReplyIndex();
+  const logger = createMockLogger();
+
+  return {
+    pipeline,
+    memory,
+    client,
+    replies,
+    logger,
+    deps: { client, findPipeline, memory, replies, logger } as never,
+  };
+}
+
+describe('createGroupRecallHandler', () => {
+  it('should purge the message from the pipeline and redact memory', async () => {
+    const { pipeline, memory, client, deps } = createDeps();
+    const handler = createGroupRecallHandler(deps, { enabled: true, recallReply: false });
+
+    await handler.handle(recallEvent);
+
+    expect(pipeline.removeMessage).toHaveBeenCalledWith(42);
+    expect(memory.redactMessage).toHaveBeenCalledWith(true, 100, 42);
+    expect(client.deleteMsg).not.toHaveBeenCalled();
+  });
+
+  it('should recall bot replies when recallReply is enabled', async () => {
+    const { client, replies, deps } = createDeps();
+    replies.record(42, [501, 502]);
+    const handler = createGroupRecallHandler(deps, { enabled: true, recallReply: true });
+
+    await handler.handle(recallEvent);
+
+    expect(client.deleteMsg.mock.calls).toEqual([[501], [502]]);
+    expect(replies.size).toBe(0);
+  });
+
+  it('should log and continue when recalling a reply fails', async () => {
+    const { client, replies, logger, deps } = createDeps();
+    client.deleteMsg.mockRejectedValueOnce(new Error('too old'));
+    replies.record(42, [501, 502]);
+    const handler = createGroupRecallHandler(deps, { enabled: true, recallReply: true });
+
+    await handler.handle(recallEvent);
+
+    expect(client.deleteMsg).toHaveBeenCalledTimes(2);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Failed to recall reply',
+      expect.objectContaining({ messageId: 501, error: 'too old' })
+    );
+  });
+
+  it('should ignore recalls of the bot own messages', async () => {
+    const { pipeline, memory, deps } = createDeps();
+    const handler = createGroupRecallHandler(deps, { enabled: true, recallReply: true });
+
+    await handler.handle({ ...recallEvent, user_id: 10000 });
+
+    expect(pipeline.removeMessage).not.toHaveBeenCalled();
+    expect(memory.redactMessage).not.toHaveBeenCalled();
+  });
+
+  it('should skip redaction when memory is disabled', async () => {
+    const { pipeline, memory, deps } = createDeps();
+    memory.isEnabled.mockReturnValue(false);
+    const handler = createGroupRecallHandler(deps, { enabled: true, recallReply: false });
+
+    await handler.handle(recallEvent);
+
+    expect(pipeline.removeMessage).toHaveBeenCalledWith(42);
+    expect(memory.redactMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('createFriendRecallHandler', () => {
+  it('should redact the private session of the sender', async () => {
+    const { memory, deps } = createDeps();
+    const handler = createFriendRecallHandler(deps, { enabled: true, recallReply: false });
+
+    await handler.handle({
+      time: 1,
+      self_id: 10000,
+      post_type: 'notice',
+      notice_type: 'friend_recall',
+      user_id: 12345,
+      message_id: 7,
+    });
+
+    expect(memory.redactMessage).toHaveBeenCalledWith(false, 12345, 7);
+  });
+});
@@ -0,0 +1,98 @@
+import type { Logger } from '../../logger/logger.js';
+import type { RecallEventConfig } from '../../config/schema.js';
+import type { OneBotClient } from '../../onebot/client.js';
+import type { ConversationMemory } from '../../memory/index.js';
+import { getSessionId } from '../../memory/types.js';
+import type { SessionPipeline } from '../../pipeline/index.js';
+import type { SentReplyIndex } from '../reply-index.js';
+import type { EventHandlerDefinition } from '../types.js';
+
+export interface RecallHandlerDeps {
+  client: OneBotClient;
+  /** 按会话 ID 查找消息管道 */
+  findPipeline: (sessionId: string) => SessionPipeline | undefined;
+  /** 记忆（未启用时跳过脱敏） */
+  memory?: ConversationMemory | undefined;
+  replies: SentReplyIndex;
+  logger: Logger;
+}
+
+/**
+ * 处理一次撤回：
+ * 1. 从待处理缓冲中移除该消息
+ * 2. 在对话记忆和知识库归档中脱敏
+ * 3. recallReply 开启时撤回 bot 对该消息的回复
+ */
+async function handleRecall(
+  deps: RecallHandlerDeps,
+  config: RecallEventConfig,
+  isGroup: boolean,
+  targetId: number,
+  messageId: number
+): Promise<void> {
+  const sessionId = getSessionId(isGroup, targetId);
+
+  const removed = deps.findPipeline(sessionId)?.removeMessage(messageId) ?? false;
+  const redacted = deps.memory?.isEnabled()
+    ? await deps.memory.redactMessage(isGroup, targetId, messageId)
+    : false;
+
+  const replyIds = config.recallReply ? (deps.replies.take(messageId) ?? []) : [];
+  const results = await Promise.allSettled(replyIds.map((id) => deps.client.deleteMsg(id)));
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      deps.logger.warn('Failed to recall reply', {
+        sessionId,
+        messageId: replyIds[index],
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+    }
+  });
+
+  deps.logger.info('Message recall handled', {
+    sessionId,
+    messageId,
+    removedFromQueue: removed,
+    redacted,
+    recalledReplies: results.filter((r) => r.status === 'fulfilled').length,
+  });
+}
+
+/**
+ * 群消息撤回
+ */
+export function createGroupRecallHandler(
+  deps: RecallHandlerDeps,
+  config: RecallEventConfig
+): EventHandlerDefinition<'notice.group_recall'> {
+  return {
+    name: 'group-recall',
+    event: 'notice.group_recall',
+    async handle(event) {
+      // bot 自己的消息被撤回（包括 recallReply 触发的撤回）不需要处理
+      if (event.user_id === event.self_id) {
+        return;
+      }
+      await handleRecall(deps, config, true, event.group_id, event.message_id);
+    },
+  };
+}
+
+/**
+ * 好友消息撤回
+ */
+export function createFriendRecallHandler(
+  deps: RecallHandlerDeps,
+  config: RecallEventConfig
+): EventHandlerDefinition<'notice.friend_recall'> {
+  return {
+    name: 'friend-recall',
+    event: 'notice.friend_recall',
+    async handle(event) {
+      if (event.user_id === event.self_id) {
+        return;
+      }
+      await handleRecall(deps, config, false, event.user_id, event.message_id);
+    },
+  };
+}
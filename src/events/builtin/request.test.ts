@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createFriendRequestHandler,
+  createGroupInviteHandler,
+  decideRequest,
+} from './request.js';
+import type { RequestPolicyConfig } from '../../config/schema.js';
+import type { FriendRequestEvent, GroupRequestEvent } from '../../onebot/types.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function policy(overrides: Partial<RequestPolicyConfig> = {}): RequestPolicyConfig {
+  return { policy: 'ignore', allowList: [], ...overrides };
+}
+
+const friendRequest: FriendRequestEvent = {
+  time: 1,
+  self_id: 10000,
+  post_type: 'request',
+  request_type: 'friend',
+  user_id: 12345,
+  comment: '你好',
+  flag: 'friend-flag',
+};
+
+const groupInvite: GroupRequestEvent = {
+  time: 1,
+  self_id: 10000,
+  post_type: 'request',
+  request_type: 'group',
+  sub_type: 'invite',
+  group_id: 100,
+  user_id: 12345,
+  comment: '',
+  flag: 'group-flag',
+};
+
+describe('decideRequest', () => {
+  it('should apply each policy', () => {
+    expect(decideRequest(policy(), 1)).toBeNull();
+    expect(decideRequest(policy({ policy: 'accept' }), 1)).toBe(true);
+    expect(decideRequest(policy({ policy: 'reject' }), 1)).toBe(false);
+    expect(decideRequest(policy({ policy: 'allowlist', allowList: [1] }), 1)).toBe(true);
+    expect(decideRequest(policy({ policy: 'allowlist', allowList: [1] }), 2)).toBe(false);
+  });
+});
+
+describe('request handlers', () => {
+  let client: {
+    setFriendAddRequest: ReturnType<typeof vi.fn>;
+    setGroupAddRequest: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    client = {
+      setFriendAddRequest: vi.fn().mockResolvedValue(undefined),
+      setGroupAddRequest: vi.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('should accept friend requests from the allow list', async () => {
+    const handler = createFriendRequestHandler(
+      client as never,
+      policy({ policy: 'allowlist', allowList: [12345] }),
+      createMockLogger() as never
+    );
+
+    await handler.handle(friendRequest);
+
+    expect(client.setFriendAddRequest).toHaveBeenCalledWith('friend-flag', true);
+  });
+
+  it('should leave friend requests pending with ignore policy', async () => {
+    const handler = createFriendRequestHandler(
+      client as never,
+      policy(),
+      createMockLogger() as never
+    );
+
+    await handler.handle(friendRequest);
+
+    expect(client.setFriendAddRequest).not.toHaveBeenCalled();
+  });
+
+  it('should reject group invites with reason', async () => {
+    const handler = createGroupInviteHandler(
+      client as never,
+      policy({ policy: 'reject', rejectReason: '暂不加群' }),
+      createMockLogger() as never
+    );
+
+    await handler.handle(groupInvite);
+
+    expect(client.setGroupAddRequest).toHaveBeenCalledWith(
+      'group-flag',
+      'invite',
+      false,
+      '暂不加群'
+    );
+  });
+
+  it('should not handle join requests from other users', async () => {
+    const handler = createGroupInviteHandler(
+      client as never,
+      policy({ policy: 'accept' }),
+      createMockLogger() as never
+    );
+
+    await handler.handle({ ...groupInvite, sub_type: 'add' });
+
+    expect(client.setGroupAddRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import type { Logger } from '../../logger/logger.js';
+import type { RequestPolicyConfig } from '../../config/schema.js';
+import type { OneBotClient } from '../../onebot/client.js';
+import type { EventHandlerDefinition } from '../types.js';
+
+/**
+ * 根据策略决定是否同意请求
+ *
+ * @returns true 同意，false 拒绝，null 不处理
+ */
+export function decideRequest(config: RequestPolicyConfig, id: number): boolean | null {
+  switch (config.policy) {
+    case 'ignore':
+      return null;
+    case 'accept':
+      return true;
+    case 'reject':
+      return false;
+    case 'allowlist':
+      return config.allowList.includes(id);
+  }
+}
+
+/**
+ * 加好友请求：按 QQ 号应用策略
+ */
+export function createFriendRequestHandler(
+  client: OneBotClient,
+  config: RequestPolicyConfig,
+  logger: Logger
+): EventHandlerDefinition<'request.friend'> {
+  return {
+    name: 'friend-request',
+    event: 'request.friend',
+    async handle(event) {
+      const approve = decideRequest(config, event.user_id);
+      if (approve === null) {
+        logger.info('Friend request left pending', { userId: event.user_id });
+        return;
+      }
+
+      await client.setFriendAddRequest(event.flag, approve);
+      logger.info(approve ? 'Friend request accepted' : 'Friend request rejected', {
+        userId: event.user_id,
+        comment: event.comment,
+      });
+    },
+  };
+}
+
+/**
+ * 邀请 bot 入群：按群号应用策略（他人申请加群不在此处理）
+ */
+export function createGroupInviteHandler(
+  client: OneBotClient,
+  config: RequestPolicyConfig,
+  logger: Logger
+): EventHandlerDefinition<'request.group'> {
+  return {
+    name: 'group-invite',
+    event: 'request.group',
+    async handle(event) {
+      if (event.sub_type !== 'invite') {
+        return;
+      }
+
+      const approve = decideRequest(config, event.group_id);
+      if (approve === null) {
+        logger.info('Group invite left pending', {
+          groupId: event.group_id,
+          inviter: event.user_id,
+        });
+        return;
+      }
+
+      await client.setGroupAddRequest(
+        event.flag,
+        'invite',
+        approve,
+        approve ? undefined : config.rejectReason
+      );
+      logger.info(approve ? 'Group invite accepted' : 'Group invite rejected', {
+        groupId: event.group_id,
+        inviter: event.user_id,
+      });
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createWelcomeHandler } from './welcome.js';
+import type { GroupIncreaseNoticeEvent } from '../../onebot/types.js';
+
+const joinEvent: GroupIncreaseNoticeEvent = {
+  time: 1,
+  self_id: 10000,
+  post_type: 'notice',
+  notice_type: 'group_increase',
+  sub_type: 'approve',
+  group_id: 100,
+  operator_id: 0,
+  user_id: 12345,
+};
+
+describe('createWelcomeHandler', () => {
+  it('should mention the new member with the welcome message', async () => {
+    const sender = { send: vi.fn().mockResolvedValue(1) };
+    const handler = createWelcomeHandler(sender as never, { enabled: true, message: '欢迎！' });
+
+    await handler.handle(joinEvent);
+
+    expect(sender.send).toHaveBeenCalledWith('group', 100, {
+      text: '欢迎！',
+      mentions: [12345],
+    });
+  });
+
+  it('should not welcome the bot itself', async () => {
+    const sender = { send: vi.fn() };
+    const handler = createWelcomeHandler(sender as never, { enabled: true, message: '欢迎！' });
+
+    await handler.handle({ ...joinEvent, user_id: 10000 });
+
+    expect(sender.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,28 @@
+import type { WelcomeEventConfig } from '../../config/schema.js';
+import type { MessageSender } from '../../onebot/sender.js';
+import type { EventHandlerDefinition } from '../types.js';
+
+/**
+ * 新成员入群欢迎
+ *
+ * 在群内 @ 新成员并发送欢迎语，bot 自己入群时不触发
+ */
+export function createWelcomeHandler(
+  sender: MessageSender,
+  config: WelcomeEventConfig
+): EventHandlerDefinition<'notice.group_increase'> {
+  return {
+    name: 'welcome',
+    event: 'notice.group_increase',
+    async handle(event) {
+      if (event.user_id === event.self_id) {
+        return;
+      }
+
+      await sender.send('group', event.group_id, {
+        text: config.message,
+        mentions: [event.user_id],
+      });
+    },
+  };
+}
@@ -0,0 +1,15 @@
+export { EventHandlerRegistry } from './registry.js';
+export { SentReplyIndex } from './reply-index.js';
+export type { EventHandlerDefinition } from './types.js';
+export {
+  registerBuiltinEventHandlers,
+  createWelcomeHandler,
+  createPokeHandler,
+  createGroupRecallHandler,
+  createFriendRecallHandler,
+  type RecallHandlerDeps,
+  createFriendRequestHandler,
+  createGroupInviteHandler,
+  decideRequest,
+  type BuiltinEventHandlerDeps,
+} from './builtin/index.js';
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventHandlerRegistry } from './registry.js';
+import type { GroupIncreaseNoticeEvent, FriendRequestEvent } from '../onebot/types.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+const joinEvent: GroupIncreaseNoticeEvent = {
+  time: 1,
+  self_id: 10000,
+  post_type: 'notice',
+  notice_type: 'group_increase',
+  sub_type: 'approve',
+  group_id: 100,
+  operator_id: 0,
+  user_id: 12345,
+};
+
+const friendRequest: FriendRequestEvent = {
+  time: 1,
+  self_id: 10000,
+  post_type: 'request',
+  request_type: 'friend',
+  user_id: 12345,
+  comment: 'hi',
+  flag: 'flag-1',
+};
+
+describe('EventHandlerRegistry', () => {
+  let registry: EventHandlerRegistry;
+
+  beforeEach(() => {
+    registry = new EventHandlerRegistry(createMockLogger() as never);
+  });
+
+  it('should dispatch events to handlers registered for the event key', async () => {
+    const onJoin = vi.fn().mockResolvedValue(undefined);
+    const onFriend = vi.fn().mockResolvedValue(undefined);
+    registry.register({ name: 'join', event: 'notice.group_increase', handle: onJoin });
+    registry.register({ name: 'friend', event: 'request.friend', handle: onFriend });
+
+    const count = await registry.dispatch(joinEvent);
+
+    expect(count).toBe(1);
+    expect(onJoin).toHaveBeenCalledWith(joinEvent);
+    expect(onFriend).not.toHaveBeenCalled();
+  });
+
+  it('should run all handlers even if one fails', async () => {
+    const failing = vi.fn().mockRejectedValue(new Error('boom'));
+    const second = vi.fn().mockResolvedValue(undefined);
+    registry.register({ name: 'a', event: 'request.friend', handle: failing });
+    registry.register({ name: 'b', event: 'request.friend', handle: second });
+
+    await expect(registry.dispatch(friendRequest)).resolves.toBe(2);
+    expect(second).toHaveBeenCalled();
+  });
+
+  it('should return 0 when no handler matches', async () => {
+    await expect(registry.dispatch(joinEvent)).resolves.toBe(0);
+  });
+
+  it('should reject duplicate handler names', () => {
+    const handle = vi.fn();
+    registry.register({ name: 'dup', event: 'notice.poke', handle });
+
+    expect(() => registry.register({ name: 'dup', event: 'notice.poke', handle })).toThrow(
+      'already registered'
+    );
+    expect(registry.size).toBe(1);
+    expect(registry.getNames()).toEqual(['dup']);
+  });
+});
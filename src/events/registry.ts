@@ -0,0 +1,78 @@
+import type { Logger } from '../logger/logger.js';
+import { getEventKey, type OneBotEventKey } from '../onebot/events.js';
+import type { OneBotNoticeEvent, OneBotRequestEvent } from '../onebot/types.js';
+import type { EventHandlerDefinition } from './types.js';
+
+/**
+ * 事件处理器注册表
+ *
+ * 按事件键分发通知和请求事件，同一事件的多个处理器按注册顺序依次执行，
+ * 单个处理器出错不影响其他处理器
+ */
+export class EventHandlerRegistry {
+  private readonly logger: Logger;
+  private readonly handlers = new Map<OneBotEventKey, EventHandlerDefinition[]>();
+  private readonly names = new Set<string>();
+
+  constructor(logger: Logger) {
+    this.logger = logger.child('EventHandlerRegistry');
+  }
+
+  /**
+   * 注册一个事件处理器
+   */
+  register<K extends OneBotEventKey>(definition: EventHandlerDefinition<K>): void {
+    if (this.names.has(definition.name)) {
+      throw new Error(`Event handler "${definition.name}" already registered`);
+    }
+
+    const list = this.handlers.get(definition.event) ?? [];
+    // Cast to base type since we store heterogeneous handler definitions
+    list.push(definition as unknown as EventHandlerDefinition);
+    this.handlers.set(definition.event, list);
+    this.names.add(definition.name);
+  }
+
+  /**
+   * 分发事件
+   *
+   * @returns 执行的处理器数量
+   */
+  async dispatch(event: OneBotNoticeEvent | OneBotRequestEvent): Promise<number> {
+    const key = getEventKey(event);
+    const list = this.handlers.get(key) ?? [];
+
+    if (list.length === 0) {
+      this.logger.debug('No handler for event', { event: key });
+      return 0;
+    }
+
+    for (const handler of list) {
+      try {
+        await handler.handle(event as never);
+      } catch (error) {
+        this.logger.error('Event handler failed', {
+          handler: handler.name,
+          event: key,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return list.length;
+  }
+
+  /**
+   * 获取所有处理器名称
+   */
+  getNames(): string[] {
+    return Array.from(this.names);
+  }
+
+  /**
+   * 获取处理器数量
+   */
+  get size(): number {
+    return this.names.size;
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { SentReplyIndex } from './reply-index.js';
+
+describe('SentReplyIndex', () => {
+  it('should take recorded replies once', () => {
+    const index = new SentReplyIndex();
+    index.record(1, [101, 102]);
+
+    expect(index.take(1)).toEqual([101, 102]);
+    expect(index.take(1)).toBeUndefined();
+  });
+
+  it('should skip empty replies', () => {
+    const index = new SentReplyIndex();
+    index.record(1, []);
+
+    expect(index.size).toBe(0);
+  });
+
+  it('should evict the oldest entries beyond maxSize', () => {
+    const index = new SentReplyIndex(2);
+    index.record(1, [101]);
+    index.record(2, [102]);
+    index.record(3, [103]);
+
+    expect(index.size).toBe(2);
+    expect(index.take(1)).toBeUndefined();
+    expect(index.take(3)).toEqual([103]);
+  });
+});
@@ -0,0 +1,51 @@
+/** 默认保留的记录数 */
+const DEFAULT_MAX_SIZE = 500;
+
+/**
+ * 已发送回复索引
+ *
+ * 记录触发消息 ID → bot 回复的消息 ID，用于触发消息被撤回时撤回 bot 的回复。
+ * 只保留最近 maxSize 条记录
+ */
+export class SentReplyIndex {
+  private readonly maxSize: number;
+  private readonly entries = new Map<number, number[]>();
+
+  constructor(maxSize = DEFAULT_MAX_SIZE) {
+    this.maxSize = maxSize;
+  }
+
+  /**
+   * 记录一次回复
+   */
+  record(promptMessageId: number, replyMessageIds: number[]): void {
+    if (replyMessageIds.length === 0) {
+      return;
+    }
+
+    this.entries.delete(promptMessageId);
+    this.entries.set(promptMessageId, replyMessageIds);
+
+    // Map 按插入顺序迭代，超出上限时淘汰最早的记录
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value!;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * 取出并移除触发消息对应的回复
+   */
+  take(promptMessageId: number): number[] | undefined {
+    const replyMessageIds = this.entries.get(promptMessageId);
+    this.entries.delete(promptMessageId);
+    return replyMessageIds;
+  }
+
+  /**
+   * 当前记录数
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
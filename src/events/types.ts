@@ -0,0 +1,17 @@
+import type { OneBotEventKey, OneBotEventMap } from '../onebot/events.js';
+
+/**
+ * 事件处理器定义
+ *
+ * 用于响应通知（入群、撤回、戳一戳等）和请求（加好友、邀请入群）事件
+ */
+export interface EventHandlerDefinition<K extends OneBotEventKey = OneBotEventKey> {
+  /** 处理器名称（唯一标识） */
+  name: string;
+
+  /** 处理的事件，如 'notice.group_increase'、'request.friend' */
+  event: K;
+
+  /** 处理函数 */
+  handle: (event: OneBotEventMap[K]) => Promise<void>;
+}
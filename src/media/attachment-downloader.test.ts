@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  AttachmentDownloader,
+  AttachmentDownloadError,
+  getSourceKeys,
+} from './attachment-downloader.js';
+import { AttachmentStore, hashContent } from './attachment-store.js';
+import type { Attachment } from '../onebot/types.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+const PNG = Buffer.concat([Buffer.from('\x89PNG\r\n\x1a\n', 'latin1'), Buffer.from('pixels')]);
+
+const MAX_BYTES = { image: 100, audio: 100, video: 100, file: 100 };
+
+function createImage(url = 'http://example.com/a.jpg', filename = 'a.jpg'): Attachment {
+  return { type: 'image', filename, url, mimeType: 'image/jpeg' };
+}
+
+/** 不带 Content-Length 的流式响应 */
+function streamResponse(...chunks: Buffer[]): Response {
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(new Uint8Array(chunk));
+        }
+        controller.close();
+      },
+    })
+  );
+}
+
+describe('getSourceKeys', () => {
+  it('should drop the expiring rkey parameter', () => {
+    const keys = getSourceKeys(
+      createImage('https://multimedia.example.com/download?fileid=abc&rkey=xyz')
+    );
+
+    expect(keys).toEqual(['url:https://multimedia.example.com/download?fileid=abc']);
+  });
+
+  it('should add a file key for content-id filenames', () => {
+    const keys = getSourceKeys(
+      createImage('http://example.com/x', '{3F2504E0-4F89-11D3-9A0C-0305E82C3301}.jpg')
+    );
+
+    expect(keys[1]).toBe('file:image:{3f2504e0-4f89-11d3-9a0c-0305e82c3301}.jpg');
+  });
+});
+
+describe('AttachmentDownloader', () => {
+  let directory: string;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'attachment-downloader-test-'));
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function createDownloader(withStore = true) {
+    const logger = createMockLogger() as never;
+    const store = withStore ? new AttachmentStore(directory, 30, logger) : null;
+    return new AttachmentDownloader({ maxBytes: MAX_BYTES, timeoutMs: 1000 }, store, logger);
+  }
+
+  it('should download, sniff the MIME type and record the content hash', async () => {
+    fetchMock.mockResolvedValue(streamResponse(PNG.subarray(0, 4), PNG.subarray(4)));
+    const image = createImage();
+
+    await createDownloader().ensureDownloaded(image);
+
+    expect(image.base64Data).toBe(PNG.toString('base64'));
+    expect(image.mimeType).toBe('image/png');
+    expect(image.size).toBe(PNG.length);
+    expect(image.contentHash).toBe(hashContent(PNG));
+  });
+
+  it('should reuse stored content for the same source', async () => {
+    fetchMock.mockImplementation(async () => streamResponse(PNG));
+    const downloader = createDownloader();
+
+    await downloader.ensureDownloaded(createImage());
+    const again = createImage();
+    await downloader.ensureDownloaded(again);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(again.base64Data).toBe(PNG.toString('base64'));
+    expect(again.mimeType).toBe('image/png');
+  });
+
+  it('should reject responses declaring a size above the limit', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('x', { headers: { 'Content-Length': '1000' } })
+    );
+
+    const error = await createDownloader()
+      .ensureDownloaded(createImage())
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AttachmentDownloadError);
+    expect((error as AttachmentDownloadError).reason).toBe('too_large');
+  });
+
+  it('should abort streams that exceed the limit', async () => {
+    fetchMock.mockResolvedValue(streamResponse(Buffer.alloc(60), Buffer.alloc(60)));
+    const image = createImage();
+
+    await expect(createDownloader().ensureDownloaded(image)).rejects.toMatchObject({
+      reason: 'too_large',
+    });
+    expect(image.base64Data).toBeUndefined();
+  });
+
+  it('should report timeouts', async () => {
+    fetchMock.mockRejectedValue(Object.assign(new Error('aborted'), { name: 'TimeoutError' }));
+
+    await expect(createDownloader(false).ensureDownloaded(createImage())).rejects.toMatchObject({
+      reason: 'timeout',
+    });
+  });
+
+  it('should continue other downloads when one fails', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('missing', { status: 404 }))
+      .mockResolvedValueOnce(streamResponse(PNG));
+    const failed = createImage('http://example.com/missing.jpg');
+    const ok = createImage('http://example.com/ok.jpg');
+    const existing: Attachment = { ...createImage('http://example.com/c.jpg'), base64Data: 'abc' };
+
+    await createDownloader(false).downloadAll([failed, ok, existing]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(failed.base64Data).toBeUndefined();
+    expect(ok.base64Data).toBe(PNG.toString('base64'));
+    expect(existing.base64Data).toBe('abc');
+  });
+});
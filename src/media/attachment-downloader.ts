@@ -0,0 +1,242 @@
+import type { Logger } from '../logger/logger.js';
+import type { Attachment, AttachmentType } from '../onebot/types.js';
+import { hashContent, type AttachmentStore } from './attachment-store.js';
+import { resolveMimeType } from './mime-sniffer.js';
+
+/** MIME 嗅探读取的文件头长度 */
+const SNIFF_LENGTH = 64;
+
+/** QQ 附件的文件名通常是内容的 MD5 / GUID，可作为跨消息的稳定标识 */
+const CONTENT_ID_FILENAME = /^\{?[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}\}?\.\w+$/i;
+
+export type DownloadFailureReason = 'too_large' | 'timeout' | 'http' | 'network';
+
+export class AttachmentDownloadError extends Error {
+  readonly reason: DownloadFailureReason;
+
+  constructor(message: string, reason: DownloadFailureReason, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AttachmentDownloadError';
+    this.reason = reason;
+  }
+}
+
+export interface AttachmentDownloaderOptions {
+  /** 各类型附件的大小上限（字节） */
+  maxBytes: Record<AttachmentType, number>;
+  /** 单个附件的下载超时（含读取响应体） */
+  timeoutMs: number;
+}
+
+/**
+ * 附件来源键：URL（去掉会过期的 rkey 参数）和可识别的文件标识
+ */
+export function getSourceKeys(attachment: Attachment): string[] {
+  const keys: string[] = [];
+
+  try {
+    const url = new URL(attachment.url);
+    url.searchParams.delete('rkey');
+    keys.push(`url:${url.toString()}`);
+  } catch {
+    keys.push(`url:${attachment.url}`);
+  }
+
+  if (CONTENT_ID_FILENAME.test(attachment.filename)) {
+    keys.push(`file:${attachment.type}:${attachment.filename.toLowerCase()}`);
+  }
+  return keys;
+}
+
+/**
+ * 附件下载器
+ *
+ * 1. 先按来源键查询附件存储，命中时直接读取磁盘，不再请求网络
+ * 2. 流式读取响应体，超过该类型的大小上限立即中止，整个下载受 timeoutMs 限制
+ * 3. 根据文件头修正 MIME 类型（扩展名和 OneBot 给出的文件名不可靠）
+ * 4. 下载结果写入存储，附件填充 contentHash 供记忆再次引用
+ */
+export class AttachmentDownloader {
+  private readonly options: AttachmentDownloaderOptions;
+  private readonly store: AttachmentStore | null;
+  private readonly logger: Logger;
+
+  constructor(options: AttachmentDownloaderOptions, store: AttachmentStore | null, logger: Logger) {
+    this.options = options;
+    this.store = store;
+    this.logger = logger.child('AttachmentDownloader');
+  }
+
+  /**
+   * 确保附件已下载，已有数据时直接返回
+   *
+   * 就地填充 base64Data / contentHash / size，并修正 mimeType；失败时抛出 AttachmentDownloadError
+   */
+  async ensureDownloaded(attachment: Attachment): Promise<void> {
+    if (attachment.base64Data !== undefined) {
+      return;
+    }
+
+    const keys = getSourceKeys(attachment);
+    const data = (await this.loadFromStore(attachment, keys)) ?? (await this.download(attachment, keys));
+
+    attachment.base64Data = data.toString('base64');
+    attachment.size = data.length;
+    attachment.contentHash ??= hashContent(data);
+  }
+
+  /**
+   * 并发下载多个附件，失败不阻塞其他下载
+   */
+  async downloadAll(attachments: Attachment[]): Promise<void> {
+    // 聚合前已下载的附件（如转写过的语音）不重复下载
+    const pending = attachments.filter((attachment) => attachment.base64Data === undefined);
+    if (pending.length === 0) {
+      return;
+    }
+
+    this.logger.info('Downloading attachments', { count: pending.length });
+
+    const results = await Promise.allSettled(
+      pending.map((attachment) => this.ensureDownloaded(attachment))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        const attachment = pending[index]!;
+        this.logger.warn('Failed to download attachment', {
+          filename: attachment.filename,
+          type: attachment.type,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+      }
+    });
+
+    const succeeded = results.filter((r) => r.status === 'fulfilled').length;
+    this.logger.info('Attachments download complete', {
+      total: pending.length,
+      succeeded,
+      failed: pending.length - succeeded,
+    });
+  }
+
+  private async loadFromStore(attachment: Attachment, keys: string[]): Promise<Buffer | undefined> {
+    if (!this.store) {
+      return undefined;
+    }
+
+    for (const key of keys) {
+      const stored = await this.store.lookup(key);
+      if (!stored) {
+        continue;
+      }
+      try {
+        const data = await this.store.read(stored.hash);
+        attachment.mimeType = stored.mimeType;
+        attachment.contentHash = stored.hash;
+        this.logger.debug('Attachment loaded from store', {
+          filename: attachment.filename,
+          hash: stored.hash,
+        });
+        return data;
+      } catch (error) {
+        this.logger.warn('Failed to read stored attachment', {
+          hash: stored.hash,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return undefined;
+  }
+
+  private async download(attachment: Attachment, keys: string[]): Promise<Buffer> {
+    const maxBytes = this.options.maxBytes[attachment.type];
+    const data = await this.fetchWithLimit(attachment.url, maxBytes);
+
+    const mimeType = resolveMimeType(data.subarray(0, SNIFF_LENGTH), attachment.mimeType);
+    if (mimeType !== attachment.mimeType) {
+      this.logger.debug('MIME type corrected by content', {
+        filename: attachment.filename,
+        guessed: attachment.mimeType,
+        sniffed: mimeType,
+      });
+      attachment.mimeType = mimeType;
+    }
+
+    if (this.store) {
+      try {
+        const stored = await this.store.put(data, mimeType, keys);
+        attachment.contentHash = stored.hash;
+      } catch (error) {
+        this.logger.warn('Failed to store attachment', {
+          filename: attachment.filename,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.logger.debug('File downloaded', {
+      url: attachment.url.substring(0, 100),
+      size: data.length,
+      mimeType,
+    });
+    return data;
+  }
+
+  /**
+   * 流式下载，超过 maxBytes 时中止
+   */
+  private async fetchWithLimit(url: string, maxBytes: number): Promise<Buffer> {
+    const shortUrl = url.substring(0, 100);
+
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(this.options.timeoutMs) });
+      if (!response.ok) {
+        throw new AttachmentDownloadError(
+          `HTTP ${response.status} ${response.statusText}: ${shortUrl}`,
+          'http'
+        );
+      }
+
+      const declared = Number(response.headers.get('content-length'));
+      if (declared > maxBytes) {
+        await response.body?.cancel();
+        throw new AttachmentDownloadError(
+          `Attachment too large: ${declared} bytes > ${maxBytes} bytes`,
+          'too_large'
+        );
+      }
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      for await (const chunk of response.body ?? []) {
+        received += chunk.length;
+        if (received > maxBytes) {
+          // 跳出循环会取消响应流
+          throw new AttachmentDownloadError(
+            `Attachment too large: exceeded ${maxBytes} bytes`,
+            'too_large'
+          );
+        }
+        chunks.push(Buffer.from(chunk));
+      }
+      return Buffer.concat(chunks);
+    } catch (error) {
+      if (error instanceof AttachmentDownloadError) {
+        throw error;
+      }
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new AttachmentDownloadError(
+          `Download timed out after ${this.options.timeoutMs}ms: ${shortUrl}`,
+          'timeout',
+          error
+        );
+      }
+      throw new AttachmentDownloadError(
+        `Failed to download file from ${shortUrl}: ${error instanceof Error ? error.message : String(error)}`,
+        'network',
+        error
+      );
+    }
+  }
+}
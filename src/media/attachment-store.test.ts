@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { AttachmentStore, hashContent } from './attachment-store.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+describe('AttachmentStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'attachment-store-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function createStore(retentionDays = 30) {
+    return new AttachmentStore(directory, retentionDays, createMockLogger() as never);
+  }
+
+  it('should store content by hash and look it up by source key', async () => {
+    const store = createStore();
+    const data = Buffer.from('image-bytes');
+
+    const stored = await store.put(data, 'image/png', ['url:http://example.com/a.png']);
+
+    expect(stored).toEqual({ hash: hashContent(data), size: data.length, mimeType: 'image/png' });
+    await expect(store.lookup('url:http://example.com/a.png')).resolves.toEqual(stored);
+    await expect(store.lookup('url:http://example.com/b.png')).resolves.toBeUndefined();
+    await expect(store.read(stored.hash)).resolves.toEqual(data);
+  });
+
+  it('should keep a single copy of identical content', async () => {
+    const store = createStore();
+    const data = Buffer.from('same');
+
+    const first = await store.put(data, 'image/png', ['url:a']);
+    const second = await store.put(data, 'image/png', ['url:b']);
+
+    expect(second.hash).toBe(first.hash);
+    const shard = await readdir(path.join(directory, first.hash.slice(0, 2)));
+    expect(shard).toEqual([first.hash]);
+  });
+
+  it('should persist the source index across instances', async () => {
+    const stored = await createStore().put(Buffer.from('x'), 'text/plain', ['url:a']);
+
+    await expect(createStore().lookup('url:a')).resolves.toEqual(stored);
+  });
+
+  it('should prune files not accessed within the retention period', async () => {
+    const store = createStore(1);
+    const old = await store.put(Buffer.from('old'), 'text/plain', ['url:old']);
+    const fresh = await store.put(Buffer.from('fresh'), 'text/plain', ['url:fresh']);
+    const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    await utimes(path.join(directory, old.hash.slice(0, 2), old.hash), twoDaysAgo, twoDaysAgo);
+
+    await expect(store.prune()).resolves.toBe(1);
+
+    await expect(store.lookup('url:old')).resolves.toBeUndefined();
+    await expect(store.lookup('url:fresh')).resolves.toEqual(fresh);
+  });
+
+  it('should prune expired files that are no longer in the index', async () => {
+    const store = createStore(1);
+    const orphan = Buffer.from('evicted');
+    const orphanPath = path.join(directory, hashContent(orphan).slice(0, 2), hashContent(orphan));
+    await mkdir(path.dirname(orphanPath), { recursive: true });
+    await writeFile(orphanPath, orphan);
+    await writeFile(`${orphanPath}.123.tmp`, orphan);
+    const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    await utimes(orphanPath, twoDaysAgo, twoDaysAgo);
+    await utimes(`${orphanPath}.123.tmp`, twoDaysAgo, twoDaysAgo);
+    const kept = await store.put(Buffer.from('kept'), 'text/plain', ['url:kept']);
+
+    await expect(store.prune()).resolves.toBe(2);
+
+    await expect(readdir(path.dirname(orphanPath))).resolves.toEqual([]);
+    await expect(store.lookup('url:kept')).resolves.toEqual(kept);
+  });
+
+  it('should prune periodically', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    try {
+      const store = createStore();
+      const prune = vi.spyOn(store, 'prune').mockResolvedValue(0);
+
+      store.startPruneTask(24);
+      expect(prune).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+      expect(prune).toHaveBeenCalledTimes(2);
+
+      store.stopPruneTask();
+      vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+      expect(prune).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should reject malformed hashes', async () => {
+    await expect(createStore().read('../secret')).rejects.toThrow('Invalid attachment hash');
+  });
+});
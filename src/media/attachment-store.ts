@@ -0,0 +1,264 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Logger } from '../logger/logger.js';
+
+/** 索引文件版本 */
+const INDEX_VERSION = 1;
+
+/** 来源键索引最多保留的条目数，超出时淘汰最早的记录 */
+const MAX_INDEX_ENTRIES = 10000;
+
+/** 分片目录名：哈希的前两位 */
+const SHARD_PATTERN = /^[0-9a-f]{2}$/;
+
+/**
+ * 已存储的附件
+ */
+export interface StoredAttachment {
+  /** 内容的 sha256（十六进制），即存储键 */
+  hash: string;
+  size: number;
+  mimeType: string;
+}
+
+interface SerializedIndex {
+  version: number;
+  /** 来源键（URL 或文件标识）到附件的映射 */
+  entries: Array<[string, StoredAttachment]>;
+}
+
+function fileExists(filePath: string): Promise<boolean> {
+  return stat(filePath).then(
+    () => true,
+    () => false
+  );
+}
+
+/** 计算内容哈希 */
+export function hashContent(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * 内容寻址的附件磁盘存储
+ *
+ * 文件按 sha256 存放在 `<directory>/<前两位>/<hash>`，相同内容只存一份；
+ * 另维护来源键索引（index.json），同一 URL 或文件标识再次出现时无需重新下载。
+ * 超过 retentionDays 未被访问的文件在 prune 时删除（按目录扫描，包括已被淘汰出索引的文件）
+ */
+export class AttachmentStore {
+  private readonly directory: string;
+  private readonly retentionDays: number;
+  private readonly logger: Logger;
+  private readonly index = new Map<string, StoredAttachment>();
+  /** 串行化索引写入，避免并发写同一文件 */
+  private saving: Promise<void> = Promise.resolve();
+  private pruneTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(directory: string, retentionDays: number, logger: Logger) {
+    this.directory = directory;
+    this.retentionDays = retentionDays;
+    this.logger = logger.child('AttachmentStore');
+    this.loadIndex();
+  }
+
+  /**
+   * 按来源键查找已存储的附件，文件已被清理时返回 undefined
+   */
+  async lookup(key: string): Promise<StoredAttachment | undefined> {
+    const stored = this.index.get(key);
+    if (!stored) {
+      return undefined;
+    }
+    if (!(await fileExists(this.getFilePath(stored.hash)))) {
+      this.index.delete(key);
+      return undefined;
+    }
+    return stored;
+  }
+
+  /**
+   * 存入附件内容并关联来源键
+   */
+  async put(data: Buffer, mimeType: string, keys: string[]): Promise<StoredAttachment> {
+    const stored: StoredAttachment = { hash: hashContent(data), size: data.length, mimeType };
+    const filePath = this.getFilePath(stored.hash);
+
+    if (await fileExists(filePath)) {
+      await this.touch(filePath);
+    } else {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      // 先写临时文件再重命名，避免读到写了一半的文件
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, data);
+      await rename(tempPath, filePath);
+    }
+
+    for (const key of keys) {
+      this.index.delete(key);
+      this.index.set(key, stored);
+    }
+    while (this.index.size > MAX_INDEX_ENTRIES) {
+      this.index.delete(this.index.keys().next().value!);
+    }
+    await this.saveIndex();
+
+    return stored;
+  }
+
+  /**
+   * 按哈希读取附件内容（供记忆中引用的附件再次使用）
+   */
+  async read(hash: string): Promise<Buffer> {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new Error(`Invalid attachment hash: ${hash}`);
+    }
+    const filePath = this.getFilePath(hash);
+    const data = await readFile(filePath);
+    await this.touch(filePath);
+    return data;
+  }
+
+  /**
+   * 删除超过保留期未被访问的文件，并清理对应索引
+   *
+   * 扫描整个存储目录而不是只看索引：被 MAX_INDEX_ENTRIES 淘汰出索引的文件
+   * 以及中断写入留下的临时文件也会按 mtime 清理
+   *
+   * @returns 删除的文件数
+   */
+  async prune(): Promise<number> {
+    const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
+    const remaining = new Set<string>();
+    let removed = 0;
+
+    const shards = await readdir(this.directory, { withFileTypes: true }).catch(() => []);
+    for (const shard of shards) {
+      if (!shard.isDirectory() || !SHARD_PATTERN.test(shard.name)) {
+        continue;
+      }
+      const shardPath = path.join(this.directory, shard.name);
+      for (const name of await readdir(shardPath).catch(() => [])) {
+        const filePath = path.join(shardPath, name);
+        const stats = await stat(filePath).catch(() => null);
+        if (stats && stats.mtimeMs >= cutoff) {
+          remaining.add(name);
+          continue;
+        }
+        await rm(filePath, { force: true });
+        removed++;
+      }
+    }
+
+    let staleKeys = 0;
+    for (const [key, stored] of this.index) {
+      if (!remaining.has(stored.hash)) {
+        this.index.delete(key);
+        staleKeys++;
+      }
+    }
+
+    if (staleKeys > 0) {
+      await this.saveIndex();
+    }
+    if (removed > 0) {
+      this.logger.info('Pruned expired attachments', { removed });
+    }
+    return removed;
+  }
+
+  /**
+   * 立即清理一次，之后每隔 intervalHours 定时清理
+   */
+  startPruneTask(intervalHours: number): void {
+    this.stopPruneTask();
+
+    const run = (label: string) => {
+      this.prune().catch((error) => {
+        this.logger.warn(label, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    };
+
+    run('Initial attachment prune failed');
+    this.pruneTimer = setInterval(
+      () => run('Periodic attachment prune failed'),
+      intervalHours * 60 * 60 * 1000
+    );
+    // 防止定时器阻止进程退出
+    this.pruneTimer.unref();
+  }
+
+  /**
+   * 停止定时清理
+   */
+  stopPruneTask(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  private getFilePath(hash: string): string {
+    return path.join(this.directory, hash.slice(0, 2), hash);
+  }
+
+  private getIndexPath(): string {
+    return path.join(this.directory, 'index.json');
+  }
+
+  /** 更新访问时间，prune 以 mtime 判断是否过期 */
+  private async touch(filePath: string): Promise<void> {
+    const now = new Date();
+    await utimes(filePath, now, now).catch(() => undefined);
+  }
+
+  private loadIndex(): void {
+    const indexPath = this.getIndexPath();
+    try {
+      if (!fs.existsSync(indexPath)) {
+        return;
+      }
+      const parsed = JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as SerializedIndex;
+      if (parsed.version !== INDEX_VERSION) {
+        this.logger.warn('Attachment index version mismatch, starting fresh', {
+          expected: INDEX_VERSION,
+          got: parsed.version,
+        });
+        return;
+      }
+      for (const [key, stored] of parsed.entries) {
+        this.index.set(key, stored);
+      }
+      this.logger.info('Loaded attachment index', { entries: this.index.size });
+    } catch (error) {
+      this.logger.warn('Failed to load attachment index, starting fresh', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private saveIndex(): Promise<void> {
+    const snapshot: SerializedIndex = {
+      version: INDEX_VERSION,
+      entries: Array.from(this.index.entries()),
+    };
+
+    this.saving = this.saving.then(async () => {
+      try {
+        await mkdir(this.directory, { recursive: true });
+        const indexPath = this.getIndexPath();
+        await writeFile(`${indexPath}.tmp`, JSON.stringify(snapshot), 'utf-8');
+        await rename(`${indexPath}.tmp`, indexPath);
+      } catch (error) {
+        this.logger.error('Failed to save attachment index', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+    return this.saving;
+  }
+}
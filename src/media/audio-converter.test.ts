@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { AudioConverter, detectAudioFormat } from './audio-converter.js';
+
+function bytes(header: string, prefix: number[] = []): Buffer {
+  return Buffer.concat([Buffer.from(prefix), Buffer.from(header, 'latin1'), Buffer.alloc(16)]);
+}
+
+describe('detectAudioFormat', () => {
+  it('should detect QQ voice formats', () => {
+    expect(detectAudioFormat(bytes('#!SILK_V3'))).toBe('silk');
+    expect(detectAudioFormat(bytes('#!SILK_V3', [0x02]))).toBe('silk');
+    expect(detectAudioFormat(bytes('#!AMR\n'))).toBe('amr');
+  });
+
+  it('should detect common formats', () => {
+    expect(detectAudioFormat(bytes('RIFF\0\0\0\0WAVE'))).toBe('wav');
+    expect(detectAudioFormat(bytes('OggS'))).toBe('ogg');
+    expect(detectAudioFormat(bytes('fLaC'))).toBe('flac');
+    expect(detectAudioFormat(bytes('\0\0\0\x20ftypM4A '))).toBe('m4a');
+    expect(detectAudioFormat(bytes('ID3'))).toBe('mp3');
+    expect(detectAudioFormat(bytes('\xff\xfb'))).toBe('mp3');
+    expect(detectAudioFormat(bytes('hello'))).toBe('unknown');
+  });
+});
+
+describe('AudioConverter', () => {
+  const converter = new AudioConverter({ ffmpegPath: 'ffmpeg', timeoutMs: 5000 });
+
+  it('should pass through formats the transcriber accepts', async () => {
+    const audio = { data: bytes('OggS'), filename: 'a.ogg', mimeType: 'audio/ogg' };
+
+    await expect(converter.toTranscribable(audio)).resolves.toBe(audio);
+  });
+
+  it('should reject silk audio without a decoder', async () => {
+    const audio = { data: bytes('#!SILK_V3', [0x02]), filename: 'a.silk', mimeType: 'audio/silk' };
+
+    await expect(converter.toTranscribable(audio)).rejects.toThrow('silkDecoderPath');
+  });
+
+  it('should fail when the converter binary is missing', async () => {
+    const missing = new AudioConverter({ ffmpegPath: '/nonexistent/ffmpeg', timeoutMs: 5000 });
+    const audio = { data: bytes('#!AMR\n'), filename: 'a.amr', mimeType: 'audio/amr' };
+
+    await expect(missing.toTranscribable(audio)).rejects.toThrow();
+  });
+});
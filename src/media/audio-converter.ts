@@ -0,0 +1,111 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import type { AudioInput } from './transcriber.js';
+
+const execFileAsync = promisify(execFile);
+
+/** silk 解码输出的 PCM 采样率 */
+const SILK_SAMPLE_RATE = 24000;
+
+export type AudioFormat = 'silk' | 'amr' | 'wav' | 'ogg' | 'mp3' | 'flac' | 'm4a' | 'unknown';
+
+/** 转写接口可直接接受的格式 */
+const SUPPORTED_FORMATS: ReadonlySet<AudioFormat> = new Set(['wav', 'ogg', 'mp3', 'flac', 'm4a']);
+
+function startsWith(data: Buffer, signature: string, offset = 0): boolean {
+  return data.subarray(offset, offset + signature.length).toString('latin1') === signature;
+}
+
+/**
+ * 根据文件头识别音频格式
+ *
+ * QQ 语音通常为 silk（可能带 0x02 前缀）或 amr，扩展名不可靠
+ */
+export function detectAudioFormat(data: Buffer): AudioFormat {
+  if (startsWith(data, '#!SILK') || (data[0] === 0x02 && startsWith(data, '#!SILK', 1))) {
+    return 'silk';
+  }
+  if (startsWith(data, '#!AMR')) return 'amr';
+  if (startsWith(data, 'RIFF') && startsWith(data, 'WAVE', 8)) return 'wav';
+  if (startsWith(data, 'OggS')) return 'ogg';
+  if (startsWith(data, 'fLaC')) return 'flac';
+  if (startsWith(data, 'ftyp', 4)) return 'm4a';
+  if (startsWith(data, 'ID3') || (data[0] === 0xff && ((data[1] ?? 0) & 0xe0) === 0xe0)) {
+    return 'mp3';
+  }
+  return 'unknown';
+}
+
+export interface AudioConverterOptions {
+  ffmpegPath: string;
+  /** silk_v3_decoder 路径，未配置时 silk 无法转换 */
+  silkDecoderPath?: string | undefined;
+  timeoutMs: number;
+}
+
+/**
+ * 音频转码
+ *
+ * 转写接口可直接接受的格式原样返回；amr 等格式通过 ffmpeg 转为 mp3；
+ * silk 先用 silk_v3_decoder 解码为 PCM，再由 ffmpeg 编码为 mp3
+ */
+export class AudioConverter {
+  private readonly options: AudioConverterOptions;
+
+  constructor(options: AudioConverterOptions) {
+    this.options = options;
+  }
+
+  async toTranscribable(audio: AudioInput): Promise<AudioInput> {
+    const format = detectAudioFormat(audio.data);
+    if (SUPPORTED_FORMATS.has(format)) {
+      return audio;
+    }
+
+    if (format === 'silk' && !this.options.silkDecoderPath) {
+      throw new Error('silkDecoderPath is not configured, cannot convert silk audio');
+    }
+
+    const workDir = await mkdtemp(join(tmpdir(), 'huluwa-audio-'));
+    try {
+      const inputPath = join(workDir, `input.${format === 'unknown' ? 'bin' : format}`);
+      const outputPath = join(workDir, 'output.mp3');
+      await writeFile(inputPath, audio.data);
+
+      if (format === 'silk') {
+        const pcmPath = join(workDir, 'decoded.pcm');
+        await this.run(this.options.silkDecoderPath!, [
+          inputPath,
+          pcmPath,
+          '-Fs_API',
+          String(SILK_SAMPLE_RATE),
+        ]);
+        await this.run(this.options.ffmpegPath, [
+          '-y',
+          '-f', 's16le',
+          '-ar', String(SILK_SAMPLE_RATE),
+          '-ac', '1',
+          '-i', pcmPath,
+          outputPath,
+        ]);
+      } else {
+        await this.run(this.options.ffmpegPath, ['-y', '-i', inputPath, '-ac', '1', outputPath]);
+      }
+
+      return {
+        data: await readFile(outputPath),
+        filename: audio.filename.replace(/\.[^.]*$/, '') + '.mp3',
+        mimeType: 'audio/mpeg',
+      };
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async run(command: string, args: string[]): Promise<void> {
+    await execFileAsync(command, args, { timeout: this.options.timeoutMs });
+  }
+}
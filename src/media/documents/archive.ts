@@ -0,0 +1,72 @@
+import { guessMimeType } from '../../onebot/message-normalizer.js';
+import type { DocumentExtractor } from './types.js';
+import { isTextMimeType } from './text.js';
+import { DocumentExtractionError } from './types.js';
+import { readZip, type ZipEntry } from './zip-reader.js';
+
+/** 单个内部文本文件读取的大小上限 */
+const MAX_INNER_FILE_SIZE = 256 * 1024;
+
+export interface ArchiveExtractorOptions {
+  /** 最多列出并读取的条目数 */
+  maxEntries: number;
+}
+
+function formatSize(size: number): string {
+  if (size < 1024) {
+    return `${size} B`;
+  }
+  if (size < 1024 * 1024) {
+    return `${(size / 1024).toFixed(1)} KB`;
+  }
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * 读取条目内容，加密、不支持或损坏的条目返回 undefined（只跳过该条目）
+ */
+function tryRead(entry: ZipEntry): Buffer | undefined {
+  try {
+    return entry.read();
+  } catch (error) {
+    if (error instanceof DocumentExtractionError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * ZIP 压缩包：列出文件清单，并读取其中的文本文件
+ */
+export function createArchiveExtractor(options: ArchiveExtractorOptions): DocumentExtractor {
+  return {
+    name: 'zip',
+    mimeTypes: ['application/zip', 'application/x-zip-compressed'],
+    extract: async (data) => {
+      const files = readZip(data).filter((entry) => !entry.isDirectory);
+      const listed = files.slice(0, options.maxEntries);
+
+      const lines = [`[压缩包内容，共 ${files.length} 个文件]`];
+      lines.push(...listed.map((entry) => `- ${entry.name} (${formatSize(entry.size)})`));
+      if (files.length > listed.length) {
+        lines.push(`- ……其余 ${files.length - listed.length} 个文件未列出`);
+      }
+
+      const contents: string[] = [];
+      for (const entry of listed) {
+        if (entry.size > MAX_INNER_FILE_SIZE || !isTextMimeType(guessMimeType(entry.name, 'file'))) {
+          continue;
+        }
+        const content = tryRead(entry);
+        // 扩展名为文本但内容含 NUL 的视为二进制
+        if (!content || content.includes(0)) {
+          continue;
+        }
+        contents.push(`[${entry.name}]\n${content.toString('utf-8').trim()}`);
+      }
+
+      return [lines.join('\n'), ...contents].join('\n\n');
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DocumentExtractionService } from './document-extraction.js';
+import { DocumentExtractorRegistry } from './registry.js';
+import { DocumentExtractionError } from './types.js';
+import type { Attachment } from '../../onebot/types.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function createFile(filename: string, mimeType: string, content: string): Attachment {
+  return {
+    type: 'file',
+    filename,
+    url: `http://example.com/${filename}`,
+    mimeType,
+    base64Data: Buffer.from(content).toString('base64'),
+  };
+}
+
+describe('DocumentExtractionService', () => {
+  function createService(options = { chunkChars: 10, maxChars: 25 }) {
+    const registry = new DocumentExtractorRegistry();
+    registry.register({
+      name: 'text',
+      mimeTypes: ['text/*'],
+      extract: async (data) => data.toString('utf-8'),
+    });
+    registry.register({
+      name: 'broken',
+      mimeTypes: ['application/x-broken'],
+      extract: async () => {
+        throw new DocumentExtractionError('corrupted');
+      },
+    });
+    return new DocumentExtractionService(registry, options, createMockLogger() as never);
+  }
+
+  it('should chunk extracted text at sentence boundaries', async () => {
+    const file = createFile('a.txt', 'text/plain', '第一句话。第二句话！第三句话？');
+
+    await createService().extractAttachments([file]);
+
+    expect(file.textChunks).toEqual(['第一句话。第二句话！', '第三句话？']);
+    expect(file.totalChunks).toBe(2);
+  });
+
+  it('should share the character budget across documents', async () => {
+    const first = createFile('a.txt', 'text/plain', '一二三四五六七八九。一二三四五六七八九。');
+    const second = createFile('b.txt', 'text/plain', '第一句话。第二句话！');
+
+    await createService().extractAttachments([first, second]);
+
+    expect(first.textChunks).toHaveLength(2);
+    expect(second.textChunks).toEqual([]);
+    expect(second.totalChunks).toBe(1);
+  });
+
+  it('should skip unsupported, undownloaded and failed attachments', async () => {
+    const binary = createFile('a.bin', 'application/octet-stream', 'xx');
+    const broken = createFile('a.broken', 'application/x-broken', 'xx');
+    const pending: Attachment = {
+      type: 'file',
+      filename: 'b.txt',
+      url: 'http://example.com/b.txt',
+      mimeType: 'text/plain',
+    };
+    const image = createFile('a.jpg', 'text/plain', 'not really');
+    image.type = 'image';
+
+    await createService().extractAttachments([binary, broken, pending, image]);
+
+    for (const attachment of [binary, broken, pending, image]) {
+      expect(attachment.textChunks).toBeUndefined();
+    }
+  });
+});
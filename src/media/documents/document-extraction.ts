@@ -0,0 +1,101 @@
+import type { Logger } from '../../logger/logger.js';
+import { splitMessage } from '../../onebot/message-splitter.js';
+import type { Attachment } from '../../onebot/types.js';
+import type { DocumentExtractorRegistry } from './registry.js';
+
+export interface DocumentExtractionOptions {
+  /** 每段最大字符数 */
+  chunkChars: number;
+  /** 一轮对话中所有文档文本的字符预算 */
+  maxChars: number;
+}
+
+/**
+ * 文档文本提取
+ *
+ * 下载附件后、调用模型前执行：
+ * 1. 按 MIME 类型选择提取器，将文件转为纯文本
+ * 2. 在句子和换行边界处分段
+ * 3. 多个文档按顺序共享 maxChars 预算，超出的段落被丢弃并记录总段数
+ * 失败或没有对应提取器时不填充 textChunks，由执行器显示占位符
+ */
+export class DocumentExtractionService {
+  private readonly registry: DocumentExtractorRegistry;
+  private readonly options: DocumentExtractionOptions;
+  private readonly logger: Logger;
+
+  constructor(
+    registry: DocumentExtractorRegistry,
+    options: DocumentExtractionOptions,
+    logger: Logger
+  ) {
+    this.registry = registry;
+    this.options = options;
+    this.logger = logger.child('DocumentExtraction');
+  }
+
+  /**
+   * 提取所有已下载文件附件的文本，就地填充 textChunks / totalChunks
+   */
+  async extractAttachments(attachments: Attachment[]): Promise<void> {
+    let remaining = this.options.maxChars;
+
+    for (const attachment of attachments) {
+      if (attachment.type !== 'file' || !attachment.base64Data) {
+        continue;
+      }
+      if (attachment.textChunks) {
+        remaining -= attachment.textChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+        continue;
+      }
+
+      const extractor = this.registry.get(attachment.mimeType);
+      if (!extractor) {
+        continue;
+      }
+
+      try {
+        const text = await extractor.extract(
+          Buffer.from(attachment.base64Data, 'base64'),
+          attachment.filename
+        );
+        const chunks = splitMessage(text, this.options.chunkChars);
+
+        const kept: string[] = [];
+        for (const chunk of chunks) {
+          if (chunk.length > remaining) {
+            break;
+          }
+          kept.push(chunk);
+          remaining -= chunk.length;
+        }
+
+        attachment.textChunks = kept;
+        attachment.totalChunks = chunks.length;
+
+        this.logger.debug('Document extracted', {
+          filename: attachment.filename,
+          extractor: extractor.name,
+          chars: text.length,
+          chunks: chunks.length,
+          kept: kept.length,
+        });
+        if (kept.length < chunks.length) {
+          this.logger.info('Document truncated to fit text budget', {
+            filename: attachment.filename,
+            chunks: chunks.length,
+            kept: kept.length,
+            maxChars: this.options.maxChars,
+          });
+        }
+      } catch (error) {
+        this.logger.warn('Failed to extract document', {
+          filename: attachment.filename,
+          mimeType: attachment.mimeType,
+          extractor: extractor.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { posix } from 'node:path';
+import { getAttribute, getTagText, htmlToText } from './markup.js';
+import type { DocumentExtractor } from './types.js';
+import { DocumentExtractionError } from './types.js';
+import { readZip, readZipText } from './zip-reader.js';
+
+/**
+ * 电子书（epub）：按 spine 阅读顺序输出各章节文本
+ */
+export function createEpubExtractor(): DocumentExtractor {
+  return {
+    name: 'epub',
+    mimeTypes: ['application/epub+zip'],
+    extract: async (data) => {
+      const entries = readZip(data);
+      const container = readZipText(entries, 'META-INF/container.xml');
+      const rootfile = container ? /<rootfile\b[^>]*>/.exec(container)?.[0] : undefined;
+      const opfPath = rootfile ? getAttribute(rootfile, 'full-path') : undefined;
+      const opf = opfPath ? readZipText(entries, opfPath) : undefined;
+      if (!opfPath || !opf) {
+        throw new DocumentExtractionError('Invalid epub file: missing package document');
+      }
+
+      const baseDir = posix.dirname(opfPath);
+      const manifest = new Map<string, string>();
+      for (const [tag] of opf.matchAll(/<item\b[^>]*>/g)) {
+        const id = getAttribute(tag, 'id');
+        const href = getAttribute(tag, 'href');
+        if (id && href) {
+          manifest.set(id, posix.normalize(posix.join(baseDir, decodeURIComponent(href))));
+        }
+      }
+
+      const chapters: string[] = [];
+      const title = getTagText(opf, 'dc:title');
+      if (title) {
+        chapters.push(`《${title}》`);
+      }
+
+      for (const [tag] of opf.matchAll(/<itemref\b[^>]*>/g)) {
+        const path = manifest.get(getAttribute(tag, 'idref') ?? '');
+        const html = path ? readZipText(entries, path) : undefined;
+        const text = html ? htmlToText(html) : '';
+        if (text) {
+          chapters.push(text);
+        }
+      }
+
+      return chapters.join('\n\n');
+    },
+  };
+}
@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { createArchiveExtractor } from './archive.js';
+import { createEpubExtractor } from './epub.js';
+import { htmlToText } from './markup.js';
+import { createDocxExtractor, createPptxExtractor, createXlsxExtractor } from './office.js';
+import { createPdfExtractor } from './pdf.js';
+import { DocumentExtractionError } from './types.js';
+import { readZip } from './zip-reader.js';
+
+/**
+ * 生成最小 ZIP（deflate 压缩，CRC 置零，readZip 不校验）
+ *
+ * overrides 可以改写条目的标志位和中央目录中声明的大小
+ */
+function createZip(
+  files: Record<string, string | Buffer>,
+  overrides: Record<string, { flags?: number; size?: number }> = {}
+): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name, 'utf-8');
+    const raw = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf-8');
+    const compressed = deflateRawSync(raw);
+    const flags = 0x800 | (overrides[name]?.flags ?? 0);
+    const size = overrides[name]?.size ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    locals.push(local, nameBuffer, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuffer);
+
+    offset += 30 + nameBuffer.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, eocd]);
+}
+
+describe('readZip', () => {
+  it('should list and inflate entries', () => {
+    const entries = readZip(createZip({ 'docs/': '', 'docs/a.txt': '你好' }));
+
+    expect(entries.map((entry) => entry.name)).toEqual(['docs/', 'docs/a.txt']);
+    expect(entries[0]!.isDirectory).toBe(true);
+    expect(entries[1]!.size).toBe(6);
+    expect(entries[1]!.read().toString('utf-8')).toBe('你好');
+  });
+
+  it('should not inflate entries beyond their declared size', () => {
+    const bomb = Buffer.alloc(1024 * 1024);
+    const zip = createZip(
+      { 'bomb.txt': bomb, 'small.txt': 'abc' },
+      { 'bomb.txt': { size: 1024 }, 'small.txt': { size: 10 } }
+    );
+    const entries = readZip(zip);
+
+    expect(() => entries[0]!.read()).toThrow(DocumentExtractionError);
+    expect(() => entries[1]!.read()).toThrow(/size mismatch/);
+  });
+
+  it('should enforce a total decompressed size per archive', () => {
+    const entries = readZip(createZip({ 'a.txt': 'aaaaaa', 'b.txt': 'bbbbbb' }), 10);
+
+    expect(entries[0]!.read().toString('utf-8')).toBe('aaaaaa');
+    expect(() => entries[1]!.read()).toThrow(/too large when decompressed/);
+    // 重复读取同一条目同样计入
+    expect(() => entries[0]!.read()).toThrow(DocumentExtractionError);
+  });
+
+  it('should reject data that is not a zip archive', () => {
+    expect(() => readZip(Buffer.from('definitely not a zip file at all'))).toThrow(
+      DocumentExtractionError
+    );
+  });
+});
+
+describe('htmlToText', () => {
+  it('should drop scripts and keep block structure', () => {
+    const html = `<html><head><title>t</title><style>p{}</style></head><body>
+      <h1>标题</h1><p>第一段 &amp; 内容</p><script>alert(1)</script>
+      <ul><li>甲</li><li>乙</li></ul>
+      <table><tr><td>a</td><td>b</td></tr></table>
+    </body></html>`;
+
+    expect(htmlToText(html)).toBe('标题\n\n第一段 & 内容\n\n- 甲\n- 乙\n\na\tb');
+  });
+});
+
+describe('office extractors', () => {
+  it('should extract docx paragraphs and skip field codes', async () => {
+    const docx = createZip({
+      'word/document.xml':
+        '<w:document><w:body>' +
+        '<w:p><w:r><w:t>第一段</w:t></w:r><w:r><w:tab/><w:t xml:space="preserve">续 </w:t></w:r></w:p>' +
+        '<w:p><w:r><w:instrText>PAGE</w:instrText><w:t>第二段 &lt;重点&gt;</w:t></w:r></w:p>' +
+        '</w:body></w:document>',
+      'word/footnotes.xml': '<w:footnotes><w:footnote><w:p><w:r><w:t>脚注</w:t></w:r></w:p></w:footnote></w:footnotes>',
+    });
+
+    const text = await createDocxExtractor().extract(docx, 'a.docx');
+
+    expect(text).toBe('第一段\t续\n第二段 <重点>\n\n脚注');
+  });
+
+  it('should reject docx without a document part', async () => {
+    await expect(
+      createDocxExtractor().extract(createZip({ 'other.xml': '<x/>' }), 'a.docx')
+    ).rejects.toThrow('missing word/document.xml');
+  });
+
+  it('should extract xlsx sheets with shared and inline strings', async () => {
+    const xlsx = createZip({
+      'xl/workbook.xml':
+        '<workbook><sheets><sheet name="成绩" sheetId="1" r:id="rId1"/><sheet name="空表" sheetId="2" r:id="rId2"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels':
+        '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="worksheets/sheet2.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>姓名</t></si><si><r><t>分</t></r><r><t>数</t></r></si><si><t>Alice</t></si></sst>',
+      'xl/worksheets/sheet1.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>95.5</v></c><c r="C2" t="inlineStr"><is><t>优</t></is></c></row>' +
+        '</sheetData></worksheet>',
+      'xl/worksheets/sheet2.xml': '<worksheet><sheetData/></worksheet>',
+    });
+
+    const text = await createXlsxExtractor().extract(xlsx, 'a.xlsx');
+
+    expect(text).toBe('[工作表: 成绩]\n姓名\t分数\nAlice\t95.5\t优\n\n[工作表: 空表]（空）');
+  });
+
+  it('should extract pptx slides in numeric order', async () => {
+    const slide = (text: string) => `<p:sld><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:sld>`;
+    const pptx = createZip({
+      'ppt/slides/slide10.xml': slide('第十页'),
+      'ppt/slides/slide2.xml': slide('第二页'),
+      'ppt/slides/slide1.xml': slide('封面'),
+    });
+
+    const text = await createPptxExtractor().extract(pptx, 'a.pptx');
+
+    expect(text).toBe('[幻灯片 1]\n封面\n\n[幻灯片 2]\n第二页\n\n[幻灯片 3]\n第十页');
+  });
+});
+
+describe('createEpubExtractor', () => {
+  it('should extract chapters in spine order', async () => {
+    const epub = createZip({
+      'META-INF/container.xml':
+        '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+      'OEBPS/content.opf':
+        '<package><metadata><dc:title>测试之书</dc:title></metadata><manifest>' +
+        '<item id="c1" href="text/ch1.xhtml"/><item id="c2" href="text/ch2.xhtml"/>' +
+        '</manifest><spine><itemref idref="c2"/><itemref idref="c1"/></spine></package>',
+      'OEBPS/text/ch1.xhtml': '<html><body><p>第一章</p></body></html>',
+      'OEBPS/text/ch2.xhtml': '<html><body><p>序言</p></body></html>',
+    });
+
+    const text = await createEpubExtractor().extract(epub, 'a.epub');
+
+    expect(text).toBe('《测试之书》\n\n序言\n\n第一章');
+  });
+});
+
+describe('createArchiveExtractor', () => {
+  it('should list entries and include text files', async () => {
+    const zip = createZip({
+      'src/': '',
+      'src/main.py': 'print("hi")\n',
+      'logo.png': Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+      'notes.txt': Buffer.from([0x61, 0x00, 0x62]),
+    });
+
+    const text = await createArchiveExtractor({ maxEntries: 10 }).extract(zip, 'a.zip');
+
+    expect(text).toBe(
+      '[压缩包内容，共 3 个文件]\n- src/main.py (12 B)\n- logo.png (4 B)\n- notes.txt (3 B)' +
+        '\n\n[src/main.py]\nprint("hi")'
+    );
+  });
+
+  it('should skip entries that cannot be read', async () => {
+    const zip = createZip(
+      { 'secret.txt': 'password', 'readme.txt': 'hello' },
+      { 'secret.txt': { flags: 0x1 } }
+    );
+
+    const text = await createArchiveExtractor({ maxEntries: 10 }).extract(zip, 'a.zip');
+
+    expect(text).toBe(
+      '[压缩包内容，共 2 个文件]\n- secret.txt (8 B)\n- readme.txt (5 B)\n\n[readme.txt]\nhello'
+    );
+  });
+
+  it('should limit listed entries', async () => {
+    const zip = createZip({ 'a.txt': 'a', 'b.txt': 'b', 'c.txt': 'c' });
+
+    const text = await createArchiveExtractor({ maxEntries: 1 }).extract(zip, 'a.zip');
+
+    expect(text).toBe('[压缩包内容，共 3 个文件]\n- a.txt (1 B)\n- ……其余 2 个文件未列出\n\n[a.txt]\na');
+  });
+});
+
+describe('createPdfExtractor', () => {
+  it('should fail when pdftotext is missing', async () => {
+    const extractor = createPdfExtractor({
+      pdftotextPath: '/nonexistent/pdftotext',
+      timeoutMs: 5000,
+    });
+
+    await expect(extractor.extract(Buffer.from('%PDF-1.4'), 'a.pdf')).rejects.toThrow(
+      DocumentExtractionError
+    );
+  });
+});
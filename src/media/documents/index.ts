@@ -0,0 +1,33 @@
+import type { DocumentsConfig } from '../../config/schema.js';
+import { createArchiveExtractor } from './archive.js';
+import { createEpubExtractor } from './epub.js';
+import { createDocxExtractor, createPptxExtractor, createXlsxExtractor } from './office.js';
+import { createPdfExtractor } from './pdf.js';
+import { DocumentExtractorRegistry } from './registry.js';
+import { createHtmlExtractor, createTextExtractor } from './text.js';
+
+/**
+ * 注册内置文档提取器
+ */
+export function registerBuiltinExtractors(
+  registry: DocumentExtractorRegistry,
+  config: DocumentsConfig
+): void {
+  registry.register(createTextExtractor());
+  registry.register(createHtmlExtractor());
+  registry.register(createDocxExtractor());
+  registry.register(createXlsxExtractor());
+  registry.register(createPptxExtractor());
+  registry.register(createEpubExtractor());
+  registry.register(createArchiveExtractor({ maxEntries: config.maxArchiveEntries }));
+  registry.register(
+    createPdfExtractor({ pdftotextPath: config.pdftotextPath, timeoutMs: config.timeoutMs })
+  );
+}
+
+export { DocumentExtractorRegistry } from './registry.js';
+export { DocumentExtractionService, type DocumentExtractionOptions } from './document-extraction.js';
+export { DocumentExtractionError, type DocumentExtractor } from './types.js';
+export { readZip, type ZipEntry } from './zip-reader.js';
+export { htmlToText } from './markup.js';
+export { isTextMimeType } from './text.js';
@@ -0,0 +1,73 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/** 解码 XML / HTML 实体 */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** 合并多余空白：行内空格折叠，最多保留一个空行 */
+export function normalizeWhitespace(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, (space) => (space.includes('\t') ? '\t' : ' ')).trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** 去除所有标签并解码实体 */
+export function stripTags(markup: string): string {
+  return decodeEntities(markup.replace(/<[^>]*>/g, ''));
+}
+
+const HTML_BLOCK_TAGS =
+  'p|div|section|article|header|footer|aside|nav|main|blockquote|pre|table|tr|ul|ol|dl|dt|dd|h[1-6]|figure|figcaption|hr';
+
+/**
+ * HTML 转纯文本
+ *
+ * 去除脚本、样式和注释，块级元素换行，表格单元格以制表符分隔，列表项前加 "- "
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|noscript|svg)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/(td|th)>/gi, '\t')
+    .replace(new RegExp(`</?(${HTML_BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n');
+
+  return normalizeWhitespace(stripTags(text));
+}
+
+/**
+ * 获取 XML 中第一个匹配标签的文本内容
+ */
+export function getTagText(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match ? stripTags(match[1]!).trim() : undefined;
+}
+
+/**
+ * 读取标签属性值
+ */
+export function getAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(tag);
+  return match ? decodeEntities(match[2] ?? match[3] ?? '') : undefined;
+}
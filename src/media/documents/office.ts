@@ -0,0 +1,186 @@
+import { posix } from 'node:path';
+import { getAttribute, normalizeWhitespace, stripTags } from './markup.js';
+import type { DocumentExtractor } from './types.js';
+import { DocumentExtractionError } from './types.js';
+import { readZip, readZipText, type ZipEntry } from './zip-reader.js';
+
+function requireText(entries: ZipEntry[], name: string, format: string): string {
+  const text = readZipText(entries, name);
+  if (text === undefined) {
+    throw new DocumentExtractionError(`Invalid ${format} file: missing ${name}`);
+  }
+  return text;
+}
+
+/** 按文件名中的序号排序（slide2 在 slide10 之前） */
+function compareNumbered(a: string, b: string): number {
+  const numberOf = (name: string) => Number(/(\d+)\.xml$/.exec(name)?.[1] ?? 0);
+  return numberOf(a) - numberOf(b);
+}
+
+/**
+ * 解析 OOXML 关系文件，返回 Id 到目标路径（相对 baseDir 解析后）的映射
+ */
+function readRelationships(entries: ZipEntry[], relsPath: string, baseDir: string): Map<string, string> {
+  const relationships = new Map<string, string>();
+  const xml = readZipText(entries, relsPath);
+  if (!xml) {
+    return relationships;
+  }
+
+  for (const [tag] of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = getAttribute(tag, 'Id');
+    const target = getAttribute(tag, 'Target');
+    if (id && target) {
+      relationships.set(
+        id,
+        target.startsWith('/') ? target.slice(1) : posix.normalize(posix.join(baseDir, target))
+      );
+    }
+  }
+  return relationships;
+}
+
+/**
+ * WordprocessingML 段落转文本，跳过域代码和修订删除的内容
+ */
+function wordXmlToText(xml: string): string {
+  const text = xml
+    .replace(/<w:(instrText|delText)\b[^>]*>[\s\S]*?<\/w:\1>/g, '')
+    .replace(/<w:tab\b[^>]*\/>/g, '\t')
+    .replace(/<w:(br|cr)\b[^>]*\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<\/w:tc>/g, '\t');
+  return normalizeWhitespace(stripTags(text));
+}
+
+/**
+ * Word 文档（docx）：正文、脚注和尾注
+ */
+export function createDocxExtractor(): DocumentExtractor {
+  return {
+    name: 'docx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extract: async (data) => {
+      const entries = readZip(data);
+      const parts = [wordXmlToText(requireText(entries, 'word/document.xml', 'docx'))];
+
+      for (const name of ['word/footnotes.xml', 'word/endnotes.xml']) {
+        const xml = readZipText(entries, name);
+        const text = xml ? wordXmlToText(xml) : '';
+        if (text) {
+          parts.push(text);
+        }
+      }
+
+      return parts.join('\n\n');
+    },
+  };
+}
+
+/**
+ * 读取共享字符串表，每个 <si> 可能由多个富文本片段组成
+ */
+function readSharedStrings(entries: ZipEntry[]): string[] {
+  const xml = readZipText(entries, 'xl/sharedStrings.xml');
+  if (!xml) {
+    return [];
+  }
+  return Array.from(xml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g), ([, item]) =>
+    stripTags(item!.replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''))
+  );
+}
+
+function readCellValue(cell: string, attributes: string, sharedStrings: string[]): string {
+  const type = getAttribute(attributes, 't');
+  if (type === 'inlineStr') {
+    return stripTags(/<is\b[^>]*>([\s\S]*?)<\/is>/.exec(cell)?.[1] ?? '');
+  }
+
+  const value = /<v\b[^>]*>([\s\S]*?)<\/v>/.exec(cell)?.[1];
+  if (value === undefined) {
+    return '';
+  }
+  if (type === 's') {
+    return sharedStrings[Number(value)] ?? '';
+  }
+  if (type === 'b') {
+    return value === '1' ? 'TRUE' : 'FALSE';
+  }
+  return stripTags(value);
+}
+
+function sheetXmlToText(xml: string, sharedStrings: string[]): string {
+  const rows: string[] = [];
+  for (const [, row] of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const cells = Array.from(
+      row!.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g),
+      ([, attributes, cell]) => readCellValue(cell ?? '', attributes!, sharedStrings).replace(/\s+/g, ' ')
+    );
+    if (cells.some((cell) => cell !== '')) {
+      rows.push(cells.join('\t').trimEnd());
+    }
+  }
+  return rows.join('\n');
+}
+
+/**
+ * Excel 工作簿（xlsx）：按工作表输出，单元格以制表符分隔
+ */
+export function createXlsxExtractor(): DocumentExtractor {
+  return {
+    name: 'xlsx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    extract: async (data) => {
+      const entries = readZip(data);
+      const workbook = requireText(entries, 'xl/workbook.xml', 'xlsx');
+      const relationships = readRelationships(entries, 'xl/_rels/workbook.xml.rels', 'xl');
+      const sharedStrings = readSharedStrings(entries);
+
+      const sheets: string[] = [];
+      for (const [tag] of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+        const name = getAttribute(tag, 'name') ?? `Sheet${sheets.length + 1}`;
+        const path = relationships.get(getAttribute(tag, 'r:id') ?? '');
+        const xml = path ? readZipText(entries, path) : undefined;
+        if (xml === undefined) {
+          continue;
+        }
+        const text = sheetXmlToText(xml, sharedStrings);
+        sheets.push(text ? `[工作表: ${name}]\n${text}` : `[工作表: ${name}]（空）`);
+      }
+
+      return sheets.join('\n\n');
+    },
+  };
+}
+
+/**
+ * PowerPoint 演示文稿（pptx）：按幻灯片顺序输出文本框内容
+ */
+export function createPptxExtractor(): DocumentExtractor {
+  return {
+    name: 'pptx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    extract: async (data) => {
+      const entries = readZip(data);
+      const slides = entries
+        .map((entry) => entry.name)
+        .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+        .sort(compareNumbered);
+
+      if (slides.length === 0) {
+        throw new DocumentExtractionError('Invalid pptx file: no slides');
+      }
+
+      return slides
+        .map((name, index) => {
+          const xml = readZipText(entries, name)!
+            .replace(/<a:br\b[^>]*\/>/g, '\n')
+            .replace(/<\/a:p>/g, '\n');
+          const text = normalizeWhitespace(stripTags(xml));
+          return text ? `[幻灯片 ${index + 1}]\n${text}` : `[幻灯片 ${index + 1}]（无文字）`;
+        })
+        .join('\n\n');
+    },
+  };
+}
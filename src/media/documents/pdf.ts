@@ -0,0 +1,46 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { normalizeWhitespace } from './markup.js';
+import type { DocumentExtractor } from './types.js';
+import { DocumentExtractionError } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface PdfExtractorOptions {
+  /** poppler-utils 的 pdftotext 路径 */
+  pdftotextPath: string;
+  timeoutMs: number;
+}
+
+/**
+ * PDF：调用 pdftotext 提取文字层（扫描件没有文字层时结果为空）
+ */
+export function createPdfExtractor(options: PdfExtractorOptions): DocumentExtractor {
+  return {
+    name: 'pdf',
+    mimeTypes: ['application/pdf'],
+    extract: async (data) => {
+      const workDir = await mkdtemp(join(tmpdir(), 'huluwa-pdf-'));
+      try {
+        const inputPath = join(workDir, 'input.pdf');
+        await writeFile(inputPath, data);
+        const { stdout } = await execFileAsync(
+          options.pdftotextPath,
+          ['-q', '-enc', 'UTF-8', inputPath, '-'],
+          { timeout: options.timeoutMs, maxBuffer: 64 * 1024 * 1024 }
+        );
+        // pdftotext 用换页符分隔页面
+        return normalizeWhitespace(stdout.replace(/\f/g, '\n\n'));
+      } catch (error) {
+        throw new DocumentExtractionError(
+          `pdftotext failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { DocumentExtractorRegistry } from './registry.js';
+import type { DocumentExtractor } from './types.js';
+
+function createExtractor(name: string, mimeTypes: string[]): DocumentExtractor {
+  return { name, mimeTypes, extract: async () => name };
+}
+
+describe('DocumentExtractorRegistry', () => {
+  it('should prefer exact MIME types over wildcards', () => {
+    const registry = new DocumentExtractorRegistry();
+    registry.register(createExtractor('text', ['text/*']));
+    registry.register(createExtractor('html', ['text/html']));
+
+    expect(registry.get('text/html')?.name).toBe('html');
+    expect(registry.get('text/csv')?.name).toBe('text');
+    expect(registry.get('Text/HTML; charset=utf-8')?.name).toBe('html');
+    expect(registry.get('application/octet-stream')).toBeUndefined();
+  });
+
+  it('should reject duplicate MIME types', () => {
+    const registry = new DocumentExtractorRegistry();
+    registry.register(createExtractor('a', ['application/zip']));
+
+    expect(() => registry.register(createExtractor('b', ['application/zip']))).toThrow(
+      'already handled by extractor "a"'
+    );
+    expect(registry.getNames()).toEqual(['a']);
+  });
+});
@@ -0,0 +1,48 @@
+import type { DocumentExtractor } from './types.js';
+
+/**
+ * 文档提取器注册表
+ *
+ * 按 MIME 类型查找提取器，精确匹配优先于 `text/*` 这类通配
+ */
+export class DocumentExtractorRegistry {
+  private readonly extractors = new Map<string, DocumentExtractor>();
+  private readonly names = new Set<string>();
+
+  /**
+   * 注册提取器，MIME 类型已被注册时抛出错误
+   */
+  register(extractor: DocumentExtractor): void {
+    for (const mimeType of extractor.mimeTypes) {
+      const existing = this.extractors.get(mimeType);
+      if (existing) {
+        throw new Error(
+          `MIME type "${mimeType}" already handled by extractor "${existing.name}"`
+        );
+      }
+    }
+
+    for (const mimeType of extractor.mimeTypes) {
+      this.extractors.set(mimeType, extractor);
+    }
+    this.names.add(extractor.name);
+  }
+
+  /**
+   * 获取 MIME 类型对应的提取器
+   */
+  get(mimeType: string): DocumentExtractor | undefined {
+    const normalized = mimeType.split(';')[0]!.trim().toLowerCase();
+    return (
+      this.extractors.get(normalized) ??
+      this.extractors.get(`${normalized.split('/')[0]}/*`)
+    );
+  }
+
+  /**
+   * 获取所有提取器名称
+   */
+  getNames(): string[] {
+    return Array.from(this.names);
+  }
+}
@@ -0,0 +1,33 @@
+import { htmlToText } from './markup.js';
+import type { DocumentExtractor } from './types.js';
+
+/** 判断 MIME 类型是否为文本类 */
+export function isTextMimeType(mimeType: string): boolean {
+  return (
+    mimeType.startsWith('text/') ||
+    mimeType === 'application/json' ||
+    mimeType === 'application/xml'
+  );
+}
+
+/**
+ * 纯文本文件（代码、Markdown、CSV、JSON 等）：按 UTF-8 解码
+ */
+export function createTextExtractor(): DocumentExtractor {
+  return {
+    name: 'text',
+    mimeTypes: ['text/*', 'application/json', 'application/xml'],
+    extract: async (data) => data.toString('utf-8'),
+  };
+}
+
+/**
+ * 网页（html）：去除标签、脚本和样式
+ */
+export function createHtmlExtractor(): DocumentExtractor {
+  return {
+    name: 'html',
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extract: async (data) => htmlToText(data.toString('utf-8')),
+  };
+}
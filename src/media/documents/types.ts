@@ -0,0 +1,23 @@
+/**
+ * 文档文本提取器
+ *
+ * 按 MIME 类型注册到 DocumentExtractorRegistry，将文件内容转为纯文本
+ */
+export interface DocumentExtractor {
+  /** 提取器名称（用于日志） */
+  readonly name: string;
+  /** 支持的 MIME 类型，可用 `text/*` 匹配整个主类型 */
+  readonly mimeTypes: readonly string[];
+  /** 提取纯文本，文件损坏或格式不支持时抛出 DocumentExtractionError */
+  extract(data: Buffer, filename: string): Promise<string>;
+}
+
+/**
+ * 文档解析失败
+ */
+export class DocumentExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentExtractionError';
+  }
+}
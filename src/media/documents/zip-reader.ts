@@ -0,0 +1,153 @@
+import { inflateRawSync } from 'node:zlib';
+import { DocumentExtractionError } from './types.js';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+/** EOCD 固定长度 + 最大注释长度 */
+const EOCD_SEARCH_LENGTH = 22 + 0xffff;
+
+/** 单个条目解压后的大小上限，防止压缩炸弹 */
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+/** 一个压缩包内所有条目合计解压的大小上限 */
+const MAX_TOTAL_SIZE = 100 * 1024 * 1024;
+
+export interface ZipEntry {
+  /** 条目路径（使用 / 分隔） */
+  name: string;
+  /** 解压后大小（中央目录中声明的大小，读取时校验） */
+  size: number;
+  isDirectory: boolean;
+  /** 解压条目内容，加密、不支持的压缩方式、大小与声明不符或超出解压预算时抛出 DocumentExtractionError */
+  read(): Buffer;
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  const stop = Math.max(0, data.length - EOCD_SEARCH_LENGTH);
+  for (let offset = data.length - 22; offset >= stop; offset--) {
+    if (data.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new DocumentExtractionError('Not a zip archive');
+}
+
+/**
+ * 读取 ZIP 中央目录（docx / xlsx / pptx / epub 均为 ZIP 容器）
+ *
+ * 仅支持 stored 和 deflate 压缩，不支持 ZIP64 和加密条目。
+ * 条目按声明的大小解压，所有条目合计解压的大小不超过 maxTotalSize（重复读取同一条目也计入）
+ */
+export function readZip(data: Buffer, maxTotalSize = MAX_TOTAL_SIZE): ZipEntry[] {
+  if (data.length < 22) {
+    throw new DocumentExtractionError('Not a zip archive');
+  }
+
+  const eocd = findEndOfCentralDirectory(data);
+  const entryCount = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new DocumentExtractionError('ZIP64 archives are not supported');
+  }
+
+  let budget = maxTotalSize;
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new DocumentExtractionError('Corrupted zip central directory');
+    }
+
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString(
+      flags & 0x800 ? 'utf8' : 'latin1',
+      offset + 46,
+      offset + 46 + nameLength
+    );
+
+    entries.push({
+      name,
+      size,
+      isDirectory: name.endsWith('/'),
+      read: () => {
+        if (size > budget) {
+          throw new DocumentExtractionError(`Zip archive too large when decompressed: ${name}`);
+        }
+        budget -= size;
+        return readEntry(data, { name, flags, method, compressedSize, size, localOffset });
+      },
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function readEntry(
+  data: Buffer,
+  entry: {
+    name: string;
+    flags: number;
+    method: number;
+    compressedSize: number;
+    size: number;
+    localOffset: number;
+  }
+): Buffer {
+  if (entry.flags & 0x1) {
+    throw new DocumentExtractionError(`Encrypted zip entry: ${entry.name}`);
+  }
+  if (entry.size > MAX_ENTRY_SIZE) {
+    throw new DocumentExtractionError(`Zip entry too large: ${entry.name}`);
+  }
+
+  const header = entry.localOffset;
+  if (header + 30 > data.length || data.readUInt32LE(header) !== LOCAL_HEADER_SIGNATURE) {
+    throw new DocumentExtractionError(`Corrupted zip entry: ${entry.name}`);
+  }
+  const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  let content: Buffer;
+  switch (entry.method) {
+    case 0:
+      content = compressed;
+      break;
+    case 8:
+      // 最多解压到声明的大小，实际更大时 zlib 直接报错
+      try {
+        content =
+          entry.size === 0
+            ? Buffer.alloc(0)
+            : inflateRawSync(compressed, { maxOutputLength: entry.size });
+      } catch (error) {
+        throw new DocumentExtractionError(
+          `Failed to inflate ${entry.name}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      break;
+    default:
+      throw new DocumentExtractionError(
+        `Unsupported compression method ${entry.method}: ${entry.name}`
+      );
+  }
+
+  if (content.length !== entry.size) {
+    throw new DocumentExtractionError(`Zip entry size mismatch: ${entry.name}`);
+  }
+  return content;
+}
+
+/**
+ * 按路径读取条目文本，不存在时返回 undefined
+ */
+export function readZipText(entries: ZipEntry[], name: string): string | undefined {
+  return entries.find((entry) => entry.name === name)?.read().toString('utf-8');
+}
@@ -0,0 +1,226 @@
+import type { Logger } from '../logger/logger.js';
+import type { AIConfig, MediaConfig, TranscriptionConfig } from '../config/schema.js';
+import type { ModelRegistry } from '../ai/model-registry.js';
+import { AttachmentDownloader } from './attachment-downloader.js';
+import { AttachmentStore } from './attachment-store.js';
+import { AudioConverter } from './audio-converter.js';
+import {
+  DocumentExtractionService,
+  DocumentExtractorRegistry,
+  registerBuiltinExtractors,
+} from './documents/index.js';
+import type { Transcriber } from './transcriber.js';
+import { VideoProcessor } from './video-processor.js';
+import {
+  VideoUnderstandingService,
+  createFrameCaptioner,
+  type FrameCaptioner,
+} from './video-understanding.js';
+import { VoiceTranscriptionService } from './voice-transcription.js';
+import { WhisperTranscriber } from './whisper-transcriber.js';
+
+/**
+ * 根据配置创建附件存储，未启用时返回 null（每次都重新下载）
+ */
+export function createAttachmentStore(config: MediaConfig, logger: Logger): AttachmentStore | null {
+  const store = config.attachments.store;
+  return store.enabled ? new AttachmentStore(store.directory, store.retentionDays, logger) : null;
+}
+
+/**
+ * 根据配置创建附件下载器
+ */
+export function createAttachmentDownloader(
+  config: MediaConfig,
+  store: AttachmentStore | null,
+  logger: Logger
+): AttachmentDownloader {
+  return new AttachmentDownloader(
+    { maxBytes: config.attachments.maxBytes, timeoutMs: config.attachments.timeoutMs },
+    store,
+    logger
+  );
+}
+
+/**
+ * 根据转写配置创建 Transcriber，provider 不存在时返回 null
+ */
+function createTranscriber(
+  config: TranscriptionConfig,
+  aiConfig: AIConfig,
+  logger: Logger
+): Transcriber | null {
+  const providerConfig = aiConfig.providers[config.provider];
+  if (!providerConfig) {
+    logger.warn('Transcription provider not found in AI config', {
+      provider: config.provider,
+      availableProviders: Object.keys(aiConfig.providers),
+    });
+    return null;
+  }
+
+  return new WhisperTranscriber({
+    apiKey: providerConfig.apiKey,
+    baseUrl: providerConfig.baseUrl,
+    model: config.model,
+    language: config.language,
+    timeoutMs: config.timeoutMs,
+  });
+}
+
+/**
+ * 根据配置创建语音转写服务
+ *
+ * 未启用或 provider 不存在时返回 null，语音消息保持占位符
+ */
+export function createVoiceTranscription(
+  config: MediaConfig,
+  aiConfig: AIConfig,
+  downloader: AttachmentDownloader,
+  logger: Logger
+): VoiceTranscriptionService | null {
+  const transcription = config.transcription;
+  if (!transcription.enabled) {
+    return null;
+  }
+
+  const transcriber = createTranscriber(transcription, aiConfig, logger);
+  if (!transcriber) {
+    return null;
+  }
+
+  const converter = new AudioConverter({
+    ffmpegPath: config.ffmpegPath,
+    silkDecoderPath: transcription.silkDecoderPath,
+    timeoutMs: transcription.timeoutMs,
+  });
+
+  logger.info('Voice transcription enabled', {
+    provider: transcription.provider,
+    model: transcription.model,
+    silk: !!transcription.silkDecoderPath,
+  });
+
+  return new VoiceTranscriptionService(downloader, transcriber, converter, logger);
+}
+
+/**
+ * 根据配置创建视频理解服务
+ *
+ * 未启用时返回 null，视频消息保持占位符。
+ * 音轨转写复用语音转写的 provider，需同时启用 transcription；
+ * 配置了 captionModel 且该模型支持图片时生成画面描述，供不支持图片的模型使用
+ */
+export function createVideoUnderstanding(
+  config: MediaConfig,
+  aiConfig: AIConfig,
+  models: ModelRegistry,
+  downloader: AttachmentDownloader,
+  logger: Logger
+): VideoUnderstandingService | null {
+  const video = config.video;
+  if (!video.enabled) {
+    return null;
+  }
+
+  const transcriber =
+    video.transcribeAudio && config.transcription.enabled
+      ? createTranscriber(config.transcription, aiConfig, logger)
+      : null;
+
+  let captioner: FrameCaptioner | null = null;
+  if (video.captionModel) {
+    if (!models.has(video.captionModel)) {
+      logger.warn('Video caption model not found', { model: video.captionModel });
+    } else if (!models.supportsVision(video.captionModel)) {
+      logger.warn('Video caption model does not support images', { model: video.captionModel });
+    } else {
+      captioner = createFrameCaptioner(models.get(video.captionModel));
+    }
+  }
+
+  const processor = new VideoProcessor({
+    ffmpegPath: config.ffmpegPath,
+    ffprobePath: config.ffprobePath,
+    maxFrames: video.maxFrames,
+    frameWidth: video.frameWidth,
+    maxDurationSeconds: video.maxDurationSeconds,
+    timeoutMs: video.timeoutMs,
+  });
+
+  logger.info('Video understanding enabled', {
+    maxFrames: video.maxFrames,
+    transcribeAudio: transcriber !== null,
+    captionModel: captioner ? video.captionModel : undefined,
+  });
+
+  return new VideoUnderstandingService(downloader, processor, transcriber, captioner, logger);
+}
+
+/**
+ * 根据配置创建文档文本提取服务
+ *
+ * 未启用时返回 null，文件附件按原方式处理（文本文件直接解码，PDF 以 file block 发送）
+ */
+export function createDocumentExtraction(
+  config: MediaConfig,
+  logger: Logger
+): DocumentExtractionService | null {
+  const documents = config.documents;
+  if (!documents.enabled) {
+    return null;
+  }
+
+  const registry = new DocumentExtractorRegistry();
+  registerBuiltinExtractors(registry, documents);
+
+  logger.info('Document extraction enabled', {
+    extractors: registry.getNames(),
+    chunkChars: documents.chunkChars,
+    maxChars: documents.maxChars,
+  });
+
+  return new DocumentExtractionService(
+    registry,
+    { chunkChars: documents.chunkChars, maxChars: documents.maxChars },
+    logger
+  );
+}
+
+export {
+  AttachmentDownloader,
+  AttachmentDownloadError,
+  getSourceKeys,
+  type AttachmentDownloaderOptions,
+  type DownloadFailureReason,
+} from './attachment-downloader.js';
+export { AttachmentStore, hashContent, type StoredAttachment } from './attachment-store.js';
+export { sniffMimeType, resolveMimeType } from './mime-sniffer.js';
+export { TranscriptionError, type Transcriber, type AudioInput } from './transcriber.js';
+export { WhisperTranscriber, type WhisperTranscriberOptions } from './whisper-transcriber.js';
+export { StubTranscriber } from './stub-transcriber.js';
+export {
+  AudioConverter,
+  detectAudioFormat,
+  type AudioFormat,
+  type AudioConverterOptions,
+} from './audio-converter.js';
+export { VoiceTranscriptionService } from './voice-transcription.js';
+export {
+  VideoProcessor,
+  frameTimestamps,
+  type VideoProcessorOptions,
+  type ExtractedVideo,
+} from './video-processor.js';
+export {
+  VideoUnderstandingService,
+  createFrameCaptioner,
+  type FrameCaptioner,
+} from './video-understanding.js';
+export {
+  DocumentExtractionService,
+  DocumentExtractorRegistry,
+  DocumentExtractionError,
+  registerBuiltinExtractors,
+  type DocumentExtractor,
+} from './documents/index.js';
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { resolveMimeType, sniffMimeType } from './mime-sniffer.js';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+function bytes(...values: Array<number | string>): Buffer {
+  return Buffer.concat(
+    values.map((value) =>
+      typeof value === 'string' ? Buffer.from(value, 'latin1') : Buffer.from([value])
+    )
+  );
+}
+
+describe('sniffMimeType', () => {
+  it.each([
+    [bytes(0xff, 0xd8, 0xff, 0xe0), 'image/jpeg'],
+    [bytes('\x89PNG\r\n\x1a\n'), 'image/png'],
+    [bytes('GIF89a'), 'image/gif'],
+    [bytes('RIFF', '\0\0\0\0', 'WEBP'), 'image/webp'],
+    [bytes('%PDF-1.7'), 'application/pdf'],
+    [bytes('PK\x03\x04'), 'application/zip'],
+    [bytes(0x02, '#!SILK_V3'), 'audio/silk'],
+    [bytes('#!AMR\n'), 'audio/amr'],
+    [bytes('ID3'), 'audio/mpeg'],
+    [bytes('\0\0\0\x20', 'ftyp', 'M4A '), 'audio/mp4'],
+    [bytes('\0\0\0\x20', 'ftyp', 'isom'), 'video/mp4'],
+  ])('should detect %#', (head, expected) => {
+    expect(sniffMimeType(head)).toBe(expected);
+  });
+
+  it('should return undefined for unknown content', () => {
+    expect(sniffMimeType(Buffer.from('hello world'))).toBeUndefined();
+  });
+});
+
+describe('resolveMimeType', () => {
+  it('should prefer the sniffed type over the guessed one', () => {
+    expect(resolveMimeType(bytes('\x89PNG\r\n\x1a\n'), 'image/jpeg')).toBe('image/png');
+  });
+
+  it('should keep zip based document types', () => {
+    expect(resolveMimeType(bytes('PK\x03\x04'), DOCX_MIME)).toBe(DOCX_MIME);
+    expect(resolveMimeType(bytes('PK\x03\x04'), 'application/octet-stream')).toBe(
+      'application/zip'
+    );
+  });
+
+  it('should fall back to the guessed type for text files', () => {
+    expect(resolveMimeType(Buffer.from('# title'), 'text/markdown')).toBe('text/markdown');
+  });
+});
@@ -0,0 +1,65 @@
+/** 以 ZIP 为容器的文档格式，嗅探结果为 application/zip 时保留扩展名推断的类型 */
+const ZIP_CONTAINER_TYPES: ReadonlySet<string> = new Set([
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/epub+zip',
+]);
+
+/** ISO BMFF（mp4 / m4a / mov）品牌到 MIME 类型 */
+const FTYP_BRANDS: Record<string, string> = {
+  'M4A ': 'audio/mp4',
+  'M4B ': 'audio/mp4',
+  'qt  ': 'video/quicktime',
+};
+
+function startsWith(data: Buffer, signature: string, offset = 0): boolean {
+  return data.subarray(offset, offset + signature.length).toString('latin1') === signature;
+}
+
+/**
+ * 根据文件头（magic bytes）识别 MIME 类型，无法识别时返回 undefined
+ *
+ * 只需要文件开头的几十个字节
+ */
+export function sniffMimeType(head: Buffer): string | undefined {
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return 'image/jpeg';
+  if (startsWith(head, '\x89PNG\r\n\x1a\n')) return 'image/png';
+  if (startsWith(head, 'GIF87a') || startsWith(head, 'GIF89a')) return 'image/gif';
+  if (startsWith(head, 'RIFF') && startsWith(head, 'WEBP', 8)) return 'image/webp';
+  if (startsWith(head, 'BM')) return 'image/bmp';
+  if (startsWith(head, '%PDF-')) return 'application/pdf';
+  if (startsWith(head, 'PK\x03\x04') || startsWith(head, 'PK\x05\x06')) return 'application/zip';
+  if (startsWith(head, '#!SILK') || (head[0] === 0x02 && startsWith(head, '#!SILK', 1))) {
+    return 'audio/silk';
+  }
+  if (startsWith(head, '#!AMR')) return 'audio/amr';
+  if (startsWith(head, 'RIFF') && startsWith(head, 'WAVE', 8)) return 'audio/wav';
+  if (startsWith(head, 'RIFF') && startsWith(head, 'AVI ', 8)) return 'video/x-msvideo';
+  if (startsWith(head, 'OggS')) return 'audio/ogg';
+  if (startsWith(head, 'fLaC')) return 'audio/flac';
+  if (startsWith(head, 'ID3') || (head[0] === 0xff && ((head[1] ?? 0) & 0xe0) === 0xe0)) {
+    return 'audio/mpeg';
+  }
+  if (startsWith(head, 'ftyp', 4)) {
+    return FTYP_BRANDS[head.subarray(8, 12).toString('latin1')] ?? 'video/mp4';
+  }
+  if (startsWith(head, '\x1a\x45\xdf\xa3')) return 'video/x-matroska';
+  return undefined;
+}
+
+/**
+ * 结合文件头和扩展名确定 MIME 类型
+ *
+ * 优先信任文件头；文本类文件没有固定文件头，沿用扩展名推断的结果
+ */
+export function resolveMimeType(head: Buffer, guessed: string): string {
+  const sniffed = sniffMimeType(head);
+  if (!sniffed) {
+    return guessed;
+  }
+  if (sniffed === 'application/zip' && ZIP_CONTAINER_TYPES.has(guessed)) {
+    return guessed;
+  }
+  return sniffed;
+}
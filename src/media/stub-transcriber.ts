@@ -0,0 +1,23 @@
+import type { AudioInput, Transcriber } from './transcriber.js';
+
+/**
+ * 本地桩实现，不调用任何服务，用于测试和离线调试
+ */
+export class StubTranscriber implements Transcriber {
+  readonly name = 'stub';
+  /** 收到的转写请求 */
+  readonly calls: AudioInput[] = [];
+  private readonly respond: (audio: AudioInput) => string | Promise<string>;
+
+  /**
+   * @param response 固定返回的文本，或根据音频生成文本的函数
+   */
+  constructor(response: string | ((audio: AudioInput) => string | Promise<string>) = '') {
+    this.respond = typeof response === 'string' ? () => response : response;
+  }
+
+  async transcribe(audio: AudioInput): Promise<string> {
+    this.calls.push(audio);
+    return this.respond(audio);
+  }
+}
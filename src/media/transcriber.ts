@@ -0,0 +1,29 @@
+/**
+ * 待转写的音频
+ */
+export interface AudioInput {
+  data: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
+/**
+ * 语音转写接口
+ */
+export interface Transcriber {
+  /** 实现名称（用于日志） */
+  readonly name: string;
+  /**
+   * 将音频转写为文本
+   *
+   * @throws {TranscriptionError} 转写失败时
+   */
+  transcribe(audio: AudioInput): Promise<string>;
+}
+
+export class TranscriptionError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'TranscriptionError';
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { VideoProcessor, frameTimestamps } from './video-processor.js';
+
+describe('frameTimestamps', () => {
+  it('should sample the midpoint of evenly divided segments', () => {
+    expect(frameTimestamps(40, 4)).toEqual([5, 15, 25, 35]);
+  });
+
+  it('should use at most one frame per second for short videos', () => {
+    expect(frameTimestamps(1.5, 4)).toEqual([0.375, 1.125]);
+  });
+
+  it('should always sample at least one frame', () => {
+    expect(frameTimestamps(0.4, 4)).toEqual([0.2]);
+  });
+});
+
+describe('VideoProcessor', () => {
+  it('should fail when ffprobe is missing', async () => {
+    const processor = new VideoProcessor({
+      ffmpegPath: '/nonexistent/ffmpeg',
+      ffprobePath: '/nonexistent/ffprobe',
+      maxFrames: 4,
+      frameWidth: 512,
+      maxDurationSeconds: 300,
+      timeoutMs: 5000,
+    });
+
+    await expect(
+      processor.process(Buffer.from('not-a-video'), { withAudio: true })
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,122 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+export interface VideoProcessorOptions {
+  ffmpegPath: string;
+  ffprobePath: string;
+  /** 每个视频抽取的画面帧数上限 */
+  maxFrames: number;
+  /** 抽帧缩放宽度（像素），高度按比例 */
+  frameWidth: number;
+  /** 超过该时长的视频不处理 */
+  maxDurationSeconds: number;
+  timeoutMs: number;
+}
+
+export interface ExtractedVideo {
+  durationSeconds: number;
+  /** 按时间顺序排列的 JPEG 画面 */
+  frames: Buffer[];
+  /** 音轨（mp3），视频无声音或提取失败时为 null */
+  audio: Buffer | null;
+}
+
+/**
+ * 计算抽帧时间点：将视频等分为 n 段，取每段中点
+ *
+ * 短视频按每秒最多一帧减少帧数
+ */
+export function frameTimestamps(durationSeconds: number, maxFrames: number): number[] {
+  const count = Math.max(1, Math.min(maxFrames, Math.ceil(durationSeconds)));
+  return Array.from({ length: count }, (_, i) => (durationSeconds * (i + 0.5)) / count);
+}
+
+/**
+ * 视频处理：通过 ffprobe 读取时长，ffmpeg 按帧数预算均匀抽帧并提取音轨
+ */
+export class VideoProcessor {
+  private readonly options: VideoProcessorOptions;
+
+  constructor(options: VideoProcessorOptions) {
+    this.options = options;
+  }
+
+  async process(data: Buffer, options: { withAudio: boolean }): Promise<ExtractedVideo> {
+    const workDir = await mkdtemp(join(tmpdir(), 'huluwa-video-'));
+    try {
+      const inputPath = join(workDir, 'input');
+      await writeFile(inputPath, data);
+
+      const durationSeconds = await this.probeDuration(inputPath);
+      if (durationSeconds > this.options.maxDurationSeconds) {
+        throw new Error(
+          `Video too long: ${Math.round(durationSeconds)}s > ${this.options.maxDurationSeconds}s`
+        );
+      }
+
+      const frames: Buffer[] = [];
+      const timestamps = frameTimestamps(durationSeconds, this.options.maxFrames);
+      for (const [index, timestamp] of timestamps.entries()) {
+        const framePath = join(workDir, `frame_${index}.jpg`);
+        await this.run(this.options.ffmpegPath, [
+          '-y',
+          '-ss', timestamp.toFixed(2),
+          '-i', inputPath,
+          '-frames:v', '1',
+          '-vf', `scale=${this.options.frameWidth}:-2`,
+          '-q:v', '4',
+          framePath,
+        ]);
+        frames.push(await readFile(framePath));
+      }
+
+      const audio = options.withAudio ? await this.extractAudio(workDir, inputPath) : null;
+
+      return { durationSeconds, frames, audio };
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async probeDuration(inputPath: string): Promise<number> {
+    const { stdout } = await execFileAsync(
+      this.options.ffprobePath,
+      ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', inputPath],
+      { timeout: this.options.timeoutMs }
+    );
+    const duration = Number.parseFloat(stdout.trim());
+    if (!Number.isFinite(duration) || duration <= 0) {
+      throw new Error(`Cannot read video duration: ${stdout.trim() || 'empty output'}`);
+    }
+    return duration;
+  }
+
+  /**
+   * 提取单声道音轨，视频没有音轨时 ffmpeg 报错，返回 null
+   */
+  private async extractAudio(workDir: string, inputPath: string): Promise<Buffer | null> {
+    const audioPath = join(workDir, 'audio.mp3');
+    try {
+      await this.run(this.options.ffmpegPath, [
+        '-y',
+        '-i', inputPath,
+        '-vn',
+        '-ac', '1',
+        '-ar', '16000',
+        audioPath,
+      ]);
+      return await readFile(audioPath);
+    } catch {
+      return null;
+    }
+  }
+
+  private async run(command: string, args: string[]): Promise<void> {
+    await execFileAsync(command, args, { timeout: this.options.timeoutMs });
+  }
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import { VideoUnderstandingService, type FrameCaptioner } from './video-understanding.js';
+import { StubTranscriber } from './stub-transcriber.js';
+import type { ExtractedVideo } from './video-processor.js';
+import type { NormalizedMessage } from '../onebot/message-normalizer.js';
+import type { Attachment } from '../onebot/types.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+const VIDEO_BASE64 = Buffer.from('mp4-video-data').toString('base64');
+
+function createMessage(attachments: Attachment[]): NormalizedMessage {
+  return {
+    messageId: 1,
+    messageType: 'group',
+    userId: 12345,
+    groupId: 100,
+    isGroup: true,
+    text: '',
+    nickname: 'Alice',
+    timestamp: new Date(),
+    attachments,
+    isMentionBot: true,
+  };
+}
+
+function createVideo(filename = 'clip.mp4'): Attachment {
+  return { type: 'video', filename, url: `http://example.com/${filename}`, mimeType: 'video/mp4' };
+}
+
+function createExtracted(overrides: Partial<ExtractedVideo> = {}): ExtractedVideo {
+  return {
+    durationSeconds: 12.4,
+    frames: [Buffer.from('frame-1'), Buffer.from('frame-2')],
+    audio: Buffer.from('audio'),
+    ...overrides,
+  };
+}
+
+describe('VideoUnderstandingService', () => {
+  function createService(options: {
+    extracted?: ExtractedVideo | Error;
+    transcriber?: StubTranscriber | null;
+    captioner?: FrameCaptioner | null;
+  } = {}) {
+    const downloader = {
+      ensureDownloaded: vi.fn(async (attachment: Attachment) => {
+        attachment.base64Data ??= VIDEO_BASE64;
+      }),
+    };
+    const extracted = options.extracted ?? createExtracted();
+    const processor = {
+      process: vi.fn(async () => {
+        if (extracted instanceof Error) {
+          throw extracted;
+        }
+        return extracted;
+      }),
+    };
+    const service = new VideoUnderstandingService(
+      downloader as never,
+      processor as never,
+      options.transcriber ?? null,
+      options.captioner ?? null,
+      createMockLogger() as never
+    );
+    return { service, downloader, processor };
+  }
+
+  it('should extract frames and transcribe the audio track', async () => {
+    const transcriber = new StubTranscriber('大家好');
+    const { service, downloader, processor } = createService({ transcriber });
+    const video = createVideo();
+
+    await service.processMessages([createMessage([video])]);
+
+    expect(downloader.ensureDownloaded).toHaveBeenCalledWith(video);
+    expect(processor.process).toHaveBeenCalledWith(Buffer.from('mp4-video-data'), {
+      withAudio: true,
+    });
+    expect(video.base64Data).toBe(VIDEO_BASE64);
+    expect(video.durationSeconds).toBe(12);
+    expect(video.frames).toEqual([
+      Buffer.from('frame-1').toString('base64'),
+      Buffer.from('frame-2').toString('base64'),
+    ]);
+    expect(video.transcript).toBe('大家好');
+    expect(transcriber.calls[0]).toMatchObject({ filename: 'clip.mp3', mimeType: 'audio/mpeg' });
+  });
+
+  it('should skip audio extraction without a transcriber', async () => {
+    const { service, processor } = createService();
+    const video = createVideo();
+
+    await service.processMessages([createMessage([video])]);
+
+    expect(processor.process).toHaveBeenCalledWith(expect.any(Buffer), { withAudio: false });
+    expect(video.frames).toHaveLength(2);
+    expect(video.transcript).toBeUndefined();
+  });
+
+  it('should caption frames when a captioner is configured', async () => {
+    const captioner = vi.fn<FrameCaptioner>().mockResolvedValue('一只猫在跳');
+    const { service } = createService({ captioner });
+    const video = createVideo();
+
+    await service.processMessages([createMessage([video])]);
+
+    expect(captioner).toHaveBeenCalledWith(video.frames);
+    expect(video.description).toBe('一只猫在跳');
+  });
+
+  it('should keep frames when transcription or captioning fails', async () => {
+    const transcriber = new StubTranscriber(() => {
+      throw new Error('api down');
+    });
+    const captioner = vi.fn<FrameCaptioner>().mockRejectedValue(new Error('model down'));
+    const { service } = createService({ transcriber, captioner });
+    const video = createVideo();
+
+    await service.processMessages([createMessage([video])]);
+
+    expect(video.frames).toHaveLength(2);
+    expect(video.transcript).toBeUndefined();
+    expect(video.description).toBeUndefined();
+  });
+
+  it('should leave the attachment unprocessed when extraction fails', async () => {
+    const { service } = createService({ extracted: new Error('Video too long') });
+    const video = createVideo();
+
+    await expect(service.processMessages([createMessage([video])])).resolves.toBeUndefined();
+
+    expect(video.frames).toBeUndefined();
+    expect(video.base64Data).toBe(VIDEO_BASE64);
+  });
+
+  it('should ignore non-video and already processed attachments', async () => {
+    const { service, downloader } = createService();
+    const processed: Attachment = { ...createVideo(), frames: ['abc'] };
+    const image: Attachment = {
+      type: 'image',
+      filename: 'a.jpg',
+      url: 'http://example.com/a.jpg',
+      mimeType: 'image/jpeg',
+    };
+
+    await service.processMessages([createMessage([processed, image])]);
+
+    expect(downloader.ensureDownloaded).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage } from '@langchain/core/messages';
+import type { ContentBlock } from '@langchain/core/messages';
+import type { Logger } from '../logger/logger.js';
+import type { NormalizedMessage } from '../onebot/message-normalizer.js';
+import type { Attachment } from '../onebot/types.js';
+import type { AttachmentDownloader } from './attachment-downloader.js';
+import type { Transcriber } from './transcriber.js';
+import type { VideoProcessor } from './video-processor.js';
+
+/**
+ * 根据按时间顺序排列的画面帧（base64 JPEG）生成文字描述
+ */
+export type FrameCaptioner = (frames: string[]) => Promise<string>;
+
+const CAPTION_PROMPT =
+  '以下是一段视频按时间顺序截取的画面。请用中文简要描述视频内容（场景、人物、动作、画面中的文字），不超过 100 字。';
+
+/**
+ * 使用支持图片的模型生成画面描述
+ */
+export function createFrameCaptioner(model: BaseChatModel): FrameCaptioner {
+  return async (frames) => {
+    const content: ContentBlock[] = [
+      { type: 'text' as const, text: CAPTION_PROMPT },
+      ...frames.map(
+        (data) => ({ type: 'image' as const, data, mimeType: 'image/jpeg' }) as ContentBlock
+      ),
+    ];
+    const response = await model.invoke([new HumanMessage({ content })]);
+    return typeof response.content === 'string'
+      ? response.content.trim()
+      : JSON.stringify(response.content);
+  };
+}
+
+/**
+ * 视频理解
+ *
+ * 在聚合前下载视频附件，抽取画面帧并转写音轨：
+ * - 画面帧交给支持图片的模型
+ * - 配置了 captioner 时生成文字描述，供不支持图片的模型使用
+ * 失败时保留原附件，由执行器显示占位符
+ */
+export class VideoUnderstandingService {
+  private readonly downloader: AttachmentDownloader;
+  private readonly processor: VideoProcessor;
+  private readonly transcriber: Transcriber | null;
+  private readonly captioner: FrameCaptioner | null;
+  private readonly logger: Logger;
+
+  constructor(
+    downloader: AttachmentDownloader,
+    processor: VideoProcessor,
+    transcriber: Transcriber | null,
+    captioner: FrameCaptioner | null,
+    logger: Logger
+  ) {
+    this.downloader = downloader;
+    this.processor = processor;
+    this.transcriber = transcriber;
+    this.captioner = captioner;
+    this.logger = logger.child('VideoUnderstanding');
+  }
+
+  /**
+   * 处理消息中所有尚未处理的视频附件
+   *
+   * 就地修改附件对象的 base64Data / frames / durationSeconds / transcript / description 字段
+   */
+  async processMessages(messages: NormalizedMessage[]): Promise<void> {
+    const pending = messages
+      .flatMap((message) => message.attachments)
+      .filter((att) => att.type === 'video' && att.frames === undefined);
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    // 抽帧和转码开销较大，逐个处理
+    let succeeded = 0;
+    for (const attachment of pending) {
+      if (await this.processAttachment(attachment)) {
+        succeeded++;
+      }
+    }
+
+    this.logger.info('Videos processed', {
+      total: pending.length,
+      succeeded,
+      failed: pending.length - succeeded,
+    });
+  }
+
+  private async processAttachment(attachment: Attachment): Promise<boolean> {
+    try {
+      await this.downloader.ensureDownloaded(attachment);
+
+      const video = await this.processor.process(Buffer.from(attachment.base64Data!, 'base64'), {
+        withAudio: this.transcriber !== null,
+      });
+      attachment.durationSeconds = Math.round(video.durationSeconds);
+      attachment.frames = video.frames.map((frame) => frame.toString('base64'));
+
+      if (video.audio && this.transcriber) {
+        await this.transcribeAudio(attachment, video.audio);
+      }
+      if (this.captioner && attachment.frames.length > 0) {
+        await this.caption(attachment, attachment.frames);
+      }
+
+      this.logger.debug('Video processed', {
+        filename: attachment.filename,
+        durationSeconds: attachment.durationSeconds,
+        frames: attachment.frames.length,
+        hasTranscript: !!attachment.transcript,
+        hasDescription: !!attachment.description,
+      });
+      return true;
+    } catch (error) {
+      this.logger.warn('Failed to process video', {
+        filename: attachment.filename,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  private async transcribeAudio(attachment: Attachment, audio: Buffer): Promise<void> {
+    try {
+      const transcript = await this.transcriber!.transcribe({
+        data: audio,
+        filename: attachment.filename.replace(/\.[^.]*$/, '') + '.mp3',
+        mimeType: 'audio/mpeg',
+      });
+      if (transcript) {
+        attachment.transcript = transcript;
+      }
+    } catch (error) {
+      this.logger.warn('Failed to transcribe video audio', {
+        filename: attachment.filename,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async caption(attachment: Attachment, frames: string[]): Promise<void> {
+    try {
+      attachment.description = await this.captioner!(frames);
+    } catch (error) {
+      this.logger.warn('Failed to caption video frames', {
+        filename: attachment.filename,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
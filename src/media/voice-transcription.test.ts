@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import { VoiceTranscriptionService } from './voice-transcription.js';
+import { AudioConverter } from './audio-converter.js';
+import { StubTranscriber } from './stub-transcriber.js';
+import type { NormalizedMessage } from '../onebot/message-normalizer.js';
+import type { Attachment } from '../onebot/types.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+const OGG_BASE64 = Buffer.from('OggS-voice-data').toString('base64');
+
+function createMessage(attachments: Attachment[]): NormalizedMessage {
+  return {
+    messageId: 1,
+    messageType: 'group',
+    userId: 12345,
+    groupId: 100,
+    isGroup: true,
+    text: '',
+    nickname: 'Alice',
+    timestamp: new Date(),
+    attachments,
+    isMentionBot: true,
+  };
+}
+
+function createAudio(filename: string): Attachment {
+  return { type: 'audio', filename, url: `http://example.com/${filename}`, mimeType: 'audio/ogg' };
+}
+
+describe('VoiceTranscriptionService', () => {
+  function createService(transcriber: StubTranscriber) {
+    const downloader = {
+      ensureDownloaded: vi.fn(async (attachment: Attachment) => {
+        attachment.base64Data ??= OGG_BASE64;
+      }),
+    };
+    const converter = new AudioConverter({ ffmpegPath: 'ffmpeg', timeoutMs: 1000 });
+    const service = new VoiceTranscriptionService(
+      downloader as never,
+      transcriber,
+      converter,
+      createMockLogger() as never
+    );
+    return { service, downloader };
+  }
+
+  it('should download and transcribe audio attachments', async () => {
+    const transcriber = new StubTranscriber('今天吃什么');
+    const { service, downloader } = createService(transcriber);
+    const audio = createAudio('voice.ogg');
+    const image: Attachment = {
+      type: 'image',
+      filename: 'a.jpg',
+      url: 'http://example.com/a.jpg',
+      mimeType: 'image/jpeg',
+    };
+
+    await service.transcribeMessages([createMessage([audio, image])]);
+
+    expect(downloader.ensureDownloaded).toHaveBeenCalledTimes(1);
+    expect(audio.transcript).toBe('今天吃什么');
+    expect(audio.base64Data).toBe(OGG_BASE64);
+    expect(image.transcript).toBeUndefined();
+    expect(transcriber.calls[0]!.filename).toBe('voice.ogg');
+  });
+
+  it('should skip attachments that are already transcribed', async () => {
+    const transcriber = new StubTranscriber('new');
+    const { service, downloader } = createService(transcriber);
+    const audio: Attachment = { ...createAudio('voice.ogg'), transcript: 'old' };
+
+    await service.transcribeMessages([createMessage([audio])]);
+
+    expect(downloader.ensureDownloaded).not.toHaveBeenCalled();
+    expect(audio.transcript).toBe('old');
+  });
+
+  it('should leave the attachment untouched when transcription fails', async () => {
+    const transcriber = new StubTranscriber(() => {
+      throw new Error('service unavailable');
+    });
+    const { service } = createService(transcriber);
+    const audio = createAudio('voice.ogg');
+
+    await service.transcribeMessages([createMessage([audio])]);
+
+    expect(audio.transcript).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+import type { Logger } from '../logger/logger.js';
+import type { NormalizedMessage } from '../onebot/message-normalizer.js';
+import type { Attachment } from '../onebot/types.js';
+import type { AttachmentDownloader } from './attachment-downloader.js';
+import type { AudioConverter } from './audio-converter.js';
+import type { Transcriber } from './transcriber.js';
+
+/**
+ * 语音消息转写
+ *
+ * 在聚合前下载语音附件、转码并转写，结果写入附件的 transcript 字段，
+ * 随 formattedText 进入提示词和记忆。失败时保留原附件，由执行器显示占位符
+ */
+export class VoiceTranscriptionService {
+  private readonly downloader: AttachmentDownloader;
+  private readonly transcriber: Transcriber;
+  private readonly converter: AudioConverter;
+  private readonly logger: Logger;
+
+  constructor(
+    downloader: AttachmentDownloader,
+    transcriber: Transcriber,
+    converter: AudioConverter,
+    logger: Logger
+  ) {
+    this.downloader = downloader;
+    this.transcriber = transcriber;
+    this.converter = converter;
+    this.logger = logger.child('VoiceTranscription');
+  }
+
+  /**
+   * 转写消息中所有尚未转写的语音附件
+   *
+   * 就地修改附件对象的 base64Data / transcript 字段
+   */
+  async transcribeMessages(messages: NormalizedMessage[]): Promise<void> {
+    const pending = messages
+      .flatMap((message) => message.attachments)
+      .filter((att) => att.type === 'audio' && att.transcript === undefined);
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    const results = await Promise.all(pending.map((att) => this.transcribeAttachment(att)));
+    const succeeded = results.filter(Boolean).length;
+    this.logger.info('Voice messages transcribed', {
+      total: pending.length,
+      succeeded,
+      failed: pending.length - succeeded,
+      transcriber: this.transcriber.name,
+    });
+  }
+
+  private async transcribeAttachment(attachment: Attachment): Promise<boolean> {
+    try {
+      await this.downloader.ensureDownloaded(attachment);
+
+      const audio = await this.converter.toTranscribable({
+        data: Buffer.from(attachment.base64Data!, 'base64'),
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+      });
+      attachment.transcript = await this.transcriber.transcribe(audio);
+
+      this.logger.debug('Voice message transcribed', {
+        filename: attachment.filename,
+        length: attachment.transcript.length,
+      });
+      return true;
+    } catch (error) {
+      this.logger.warn('Failed to transcribe voice message', {
+        filename: attachment.filename,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+}
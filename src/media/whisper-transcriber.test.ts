@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WhisperTranscriber } from './whisper-transcriber.js';
+import { TranscriptionError } from './transcriber.js';
+
+const audio = { data: Buffer.from('OggS'), filename: 'voice.ogg', mimeType: 'audio/ogg' };
+
+describe('WhisperTranscriber', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post audio to the transcriptions endpoint', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ text: ' 今天吃什么 ' }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const transcriber = new WhisperTranscriber({
+      apiKey: 'sk-test',
+      baseUrl: 'https://example.com/v1/',
+      model: 'whisper-1',
+      language: 'zh',
+      timeoutMs: 1000,
+    });
+
+    const text = await transcriber.transcribe(audio);
+
+    expect(text).toBe('今天吃什么');
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://example.com/v1/audio/transcriptions');
+    expect(init.headers).toEqual({ Authorization: 'Bearer sk-test' });
+    const form = init.body as FormData;
+    expect(form.get('model')).toBe('whisper-1');
+    expect(form.get('language')).toBe('zh');
+    expect((form.get('file') as File).name).toBe('voice.ogg');
+  });
+
+  it('should throw TranscriptionError on HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('bad key', { status: 401 })));
+    const transcriber = new WhisperTranscriber({
+      apiKey: 'sk-test',
+      model: 'whisper-1',
+      timeoutMs: 1000,
+    });
+
+    await expect(transcriber.transcribe(audio)).rejects.toBeInstanceOf(TranscriptionError);
+  });
+});
@@ -0,0 +1,67 @@
+import { TranscriptionError, type AudioInput, type Transcriber } from './transcriber.js';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+export interface WhisperTranscriberOptions {
+  apiKey: string;
+  /** OpenAI 兼容接口地址，默认 OpenAI 官方 */
+  baseUrl?: string | undefined;
+  model: string;
+  /** ISO-639-1 语言代码，指定后可提升准确率 */
+  language?: string | undefined;
+  timeoutMs: number;
+}
+
+/**
+ * Whisper 转写（OpenAI 兼容的 /audio/transcriptions 接口）
+ */
+export class WhisperTranscriber implements Transcriber {
+  readonly name = 'whisper';
+  private readonly options: WhisperTranscriberOptions;
+
+  constructor(options: WhisperTranscriberOptions) {
+    this.options = options;
+  }
+
+  async transcribe(audio: AudioInput): Promise<string> {
+    const { apiKey, baseUrl, model, language, timeoutMs } = this.options;
+
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(audio.data)], { type: audio.mimeType }), audio.filename);
+    form.append('model', model);
+    form.append('response_format', 'json');
+    if (language) {
+      form.append('language', language);
+    }
+
+    const url = `${(baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '')}/audio/transcriptions`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: form,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      throw new TranscriptionError(
+        `Transcription request failed: ${error instanceof Error ? error.message : String(error)}`,
+        error
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new TranscriptionError(
+        `Transcription failed with HTTP ${response.status}: ${detail.substring(0, 200)}`
+      );
+    }
+
+    const result = (await response.json()) as { text?: unknown };
+    if (typeof result.text !== 'string') {
+      throw new TranscriptionError('Transcription response has no text');
+    }
+    return result.text.trim();
+  }
+}
@@ -502,6 +502,82 @@ describe('ConversationMemory', () => {
     });
   });
 
+  describe('attachment references', () => {
+    it('should keep stored attachments referenceable until recalled', async () => {
+      memory = new ConversationMemory(baseConfig, mockLogger as never);
+
+      const aggregated = createAggregatedMessages(true, 100, 'Look');
+      const image = {
+        type: 'image' as const,
+        url: 'http://example.com/a.png',
+        filename: 'a.png',
+        mimeType: 'image/png',
+        base64Data: 'cGl4ZWxz',
+        contentHash: 'a'.repeat(64),
+      };
+      aggregated.messages[0]!.attachments = [
+        image,
+        { type: 'file', url: 'http://example.com/b.txt', filename: 'b.txt', mimeType: 'text/plain' },
+      ];
+      await memory.addTurn(aggregated, 'Nice');
+
+      expect(memory.getAttachmentRefs(true, 100)).toEqual([
+        { type: 'image', filename: 'a.png', mimeType: 'image/png', contentHash: 'a'.repeat(64) },
+      ]);
+      expect(memory.getAttachmentRefs(true, 200)).toEqual([]);
+
+      await memory.redactMessage(true, 100, aggregated.messages[0]!.messageId);
+
+      expect(memory.getAttachmentRefs(true, 100)).toEqual([]);
+    });
+  });
+
+  describe('recalled messages', () => {
+    it('should redact recalled messages in history', async () => {
+      memory = new ConversationMemory(baseConfig, mockLogger as never);
+
+      const aggregated = createAggregatedMessages(true, 100, 'Secret password');
+      await memory.addTurn(aggregated, 'Hi');
+
+      const found = await memory.redactMessage(true, 100, aggregated.messages[0]!.messageId);
+      const history = await memory.getHistory(true, 100);
+
+      expect(found).toBe(true);
+      expect(history).toContain('[TestUser] [该消息已撤回]');
+      expect(history).not.toContain('Secret password');
+    });
+
+    it('should keep other messages of the same turn', async () => {
+      memory = new ConversationMemory(baseConfig, mockLogger as never);
+
+      const aggregated = createAggregatedMessages(true, 100, 'First');
+      const second: NormalizedMessage = {
+        ...aggregated.messages[0]!,
+        messageId: aggregated.messages[0]!.messageId + 1,
+        text: 'Second',
+      };
+      aggregated.messages.push(second);
+      aggregated.count = 2;
+      aggregated.formattedText = '[TestUser] [→@我] First\n[TestUser] [→@我] Second';
+      await memory.addTurn(aggregated, 'Hi');
+
+      await memory.redactMessage(true, 100, second.messageId);
+      const history = await memory.getHistory(true, 100);
+
+      expect(history).toContain('First');
+      expect(history).not.toContain('Second');
+    });
+
+    it('should return false for unknown message IDs', async () => {
+      memory = new ConversationMemory(baseConfig, mockLogger as never);
+
+      await memory.addTurn(createAggregatedMessages(true, 100), 'Hi');
+
+      expect(await memory.redactMessage(true, 100, -1)).toBe(false);
+      expect(await memory.redactMessage(true, 200, -1)).toBe(false);
+    });
+  });
+
   describe('model and embedding configuration', () => {
     it('should configure summary model', () => {
       memory = new ConversationMemory(baseConfig, mockLogger as never);
@@ -8,15 +8,19 @@ import type {
   Conversation,
   ConversationTurn,
   SerializedMemoryStore,
+  AttachmentRef,
 } from './types.js';
 import {
   extractUserMessageSummary,
   extractAttachmentMarkers,
   extractTargetId,
+  extractTurnMessages,
+  redactTurnMessages,
   getSessionId,
 } from './types.js';
 import { SummaryService } from './summary-service.js';
 import { KnowledgeBase, type EmbeddingFunction } from './knowledge-base.js';
+import type { PromptSource } from '../prompts/index.js';
 
 /** 持久化格式版本 */
 const STORE_VERSION = 2;
@@ -101,6 +105,13 @@ export class ConversationMemory {
     this.logger.debug('Summary model configured');
   }
 
+  /**
+   * 配置提示词来源（用于摘要生成）
+   */
+  setPrompts(prompts: PromptSource): void {
+    this.summaryService.setPrompts(prompts);
+  }
+
   /**
    * 配置 Embedding 函数（用于知识库）
    */
@@ -230,6 +241,7 @@ export class ConversationMemory {
       timestamp: Date.now(),
       estimatedTokens: estimateTokens(userMessage) + estimateTokens(botResponse),
       attachmentMarkers,
+      messages: extractTurnMessages(aggregated),
     };
 
     let conversation = this.store.get(sessionId);
@@ -360,6 +372,62 @@ export class ConversationMemory {
     return parts.join('\n\n---\n\n');
   }
 
+  /**
+   * 撤回消息脱敏：将对话记忆和知识库归档中的该消息替换为撤回占位
+   *
+   * @returns 是否找到并脱敏
+   */
+  async redactMessage(isGroup: boolean, targetId: number, messageId: number): Promise<boolean> {
+    if (!this.config.enabled) return false;
+
+    const sessionId = getSessionId(isGroup, targetId);
+    let redacted = false;
+
+    const conversation = this.store.get(sessionId);
+    for (const turn of conversation?.turns ?? []) {
+      const result = turn.messages && redactTurnMessages(turn.messages, messageId);
+      if (!result) continue;
+
+      turn.messages = result.messages;
+      turn.userMessage = result.userMessage;
+      // 撤回消息自身的附件标注一并移除
+      turn.attachmentMarkers = turn.attachmentMarkers.filter(
+        (marker) => !result.removedLine.includes(marker)
+      );
+      const previousTokens = turn.estimatedTokens;
+      turn.estimatedTokens =
+        estimateTokens(turn.userMessage) + estimateTokens(turn.botResponse);
+      conversation!.totalTokens += turn.estimatedTokens - previousTokens;
+      this.dirty = true;
+      redacted = true;
+    }
+
+    if (this.knowledgeBase.isReady()) {
+      const archived = await this.knowledgeBase.redactMessage(sessionId, messageId);
+      redacted ||= archived > 0;
+    }
+
+    if (redacted) {
+      this.logger.info('Recalled message redacted', { sessionId, messageId });
+    }
+    return redacted;
+  }
+
+  /**
+   * 获取当前对话窗口中引用的附件（最新的在前），可通过 AttachmentStore 按 contentHash 读取
+   */
+  getAttachmentRefs(isGroup: boolean, targetId: number): AttachmentRef[] {
+    const conversation = this.store.get(getSessionId(isGroup, targetId));
+    if (!conversation) {
+      return [];
+    }
+
+    return conversation.turns
+      .flatMap((turn) => turn.messages ?? [])
+      .flatMap((message) => message.attachments ?? [])
+      .reverse();
+  }
+
   /**
    * 搜索历史（供 AI 主动调用）
    */
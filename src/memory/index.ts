@@ -10,6 +10,7 @@ export type {
   ArchivedMessage,
   SearchResult,
   ContextLayer,
+  AttachmentRef,
 } from './types.js';
 export {
   extractUserMessageSummary,
@@ -456,6 +456,60 @@ describe('KnowledgeBase', () => {
     });
   });
 
+  describe('message redaction', () => {
+    beforeEach(async () => {
+      const config: KnowledgeBaseConfig = {
+        ...enabledConfig,
+        directory: testDir,
+      };
+      kb = new KnowledgeBase(config, mockLogger as never);
+      kb.setEmbeddingFunction(createMockEmbedding());
+      await kb.initialize();
+    });
+
+    it('should redact recalled messages in archived turns', async () => {
+      const turns: ConversationTurn[] = [
+        {
+          userMessage: '[Alice] 我的密码是 123456\n[Bob] 别发密码',
+          botResponse: '请注意保护隐私。',
+          timestamp: Date.now(),
+          estimatedTokens: 20,
+          attachmentMarkers: [],
+          messages: [
+            { messageId: 11, nickname: 'Alice', line: '[Alice] 我的密码是 123456' },
+            { messageId: 12, nickname: 'Bob', line: '[Bob] 别发密码' },
+          ],
+        },
+      ];
+      await kb.archive('group_123', true, 123, turns);
+
+      const updated = await kb.redactMessage('group_123', 11);
+      const results = await kb.search('密码', 'group_123');
+
+      expect(updated).toBe(1);
+      expect(results).toHaveLength(1);
+      expect(results[0]!.message.userMessage).toBe('[Alice] [该消息已撤回]\n[Bob] 别发密码');
+    });
+
+    it('should return 0 for unknown message IDs', async () => {
+      const turns: ConversationTurn[] = [
+        {
+          userMessage: '[Alice] hello',
+          botResponse: 'hi',
+          timestamp: Date.now(),
+          estimatedTokens: 5,
+          attachmentMarkers: [],
+          messages: [{ messageId: 111, nickname: 'Alice', line: '[Alice] hello' }],
+        },
+      ];
+      await kb.archive('group_123', true, 123, turns);
+
+      // 11 是 111 的子串，不应误匹配
+      expect(await kb.redactMessage('group_123', 11)).toBe(0);
+      expect(await kb.redactMessage('group_456', 111)).toBe(0);
+    });
+  });
+
   describe('archive threshold', () => {
     it('should calculate correct archive threshold', () => {
       const config: KnowledgeBaseConfig = {
@@ -2,7 +2,8 @@ import * as lancedb from '@lancedb/lancedb';
 import type { Table } from '@lancedb/lancedb';
 import type { Logger } from '../logger/logger.js';
 import type { KnowledgeBaseConfig } from '../config/schema.js';
-import type { ArchivedMessage, SearchResult, ConversationTurn } from './types.js';
+import type { ArchivedMessage, SearchResult, ConversationTurn, TurnMessage } from './types.js';
+import { redactTurnMessages } from './types.js';
 
 /** 生成唯一 ID */
 function generateId(): string {
@@ -24,6 +25,37 @@ const DEFAULT_VECTOR_DIMENSION = 1536;
 /** 表名 */
 const TABLE_NAME = 'messages';
 
+/**
+ * 后续版本新增的列（旧表打开时补齐）
+ * - messageIds: ",id1,id2," 形式，便于按消息 ID 过滤
+ * - turnMessages: 逐条消息的 JSON，用于撤回脱敏
+ */
+const MIGRATED_COLUMNS = [
+  { name: 'messageIds', valueSql: "''" },
+  { name: 'turnMessages', valueSql: "'[]'" },
+];
+
+/** 编码消息 ID 列表 */
+function encodeMessageIds(messages: TurnMessage[] | undefined): string {
+  return messages && messages.length > 0
+    ? `,${messages.map((m) => m.messageId).join(',')},`
+    : '';
+}
+
+/**
+ * 按会话过滤的条件
+ *
+ * 驼峰列名需要用反引号包裹，否则会被转为小写导致找不到列
+ */
+function sessionFilter(sessionId: string): string {
+  return `\`sessionId\` = '${sessionId}'`;
+}
+
+/** 生成用于 embedding 的文本 */
+function buildEmbeddingText(userMessage: string, botResponse: string): string {
+  return `用户: ${userMessage}\nBot: ${botResponse}`;
+}
+
 /**
  * Embedding 函数接口
  */
@@ -87,6 +119,7 @@ export class KnowledgeBase {
       const tables = await this.db.tableNames();
       if (tables.includes(TABLE_NAME)) {
         this.table = await this.db.openTable(TABLE_NAME);
+        await this.migrateTable(this.table);
         this.logger.info('Opened existing table', { table: TABLE_NAME });
       } else {
         // 根据 embedding provider 获取向量维度
@@ -103,6 +136,8 @@ export class KnowledgeBase {
             userMessage: '',
             botResponse: '',
             timestamp: 0,
+            messageIds: '',
+            turnMessages: '[]',
             text: '',
             vector: new Array(vectorDimension).fill(0),
           },
@@ -121,6 +156,23 @@ export class KnowledgeBase {
     }
   }
 
+  /**
+   * 为旧版本创建的表补齐新增列
+   */
+  private async migrateTable(table: Table): Promise<void> {
+    const schema = await table.schema();
+    const existing = new Set(schema.fields.map((field) => field.name));
+    const missing = MIGRATED_COLUMNS.filter((column) => !existing.has(column.name));
+
+    if (missing.length > 0) {
+      await table.addColumns(missing);
+      this.logger.info('Migrated table columns', {
+        table: TABLE_NAME,
+        columns: missing.map((column) => column.name),
+      });
+    }
+  }
+
   /**
    * 是否启用且已初始化
    */
@@ -150,9 +202,7 @@ export class KnowledgeBase {
 
     try {
       // 准备文本用于 embedding
-      const texts = turns.map(
-        (t) => `用户: ${t.userMessage}\nBot: ${t.botResponse}`
-      );
+      const texts = turns.map((t) => buildEmbeddingText(t.userMessage, t.botResponse));
 
       // 批量生成 embedding
       const vectors = await this.embedFn.embedBatch(texts);
@@ -166,6 +216,8 @@ export class KnowledgeBase {
         userMessage: t.userMessage,
         botResponse: t.botResponse,
         timestamp: t.timestamp,
+        messageIds: encodeMessageIds(t.messages),
+        turnMessages: JSON.stringify(t.messages ?? []),
         text: texts[i],
         vector: vectors[i],
       }));
@@ -211,7 +263,7 @@ export class KnowledgeBase {
 
       // 如果指定了 sessionId，添加过滤
       if (sessionId) {
-        searchBuilder = searchBuilder.where(`sessionId = "${sessionId}"`);
+        searchBuilder = searchBuilder.where(sessionFilter(sessionId));
       }
 
       const results = await searchBuilder.toArray();
@@ -273,6 +325,65 @@ export class KnowledgeBase {
     return lines.join('\n\n');
   }
 
+  /**
+   * 撤回消息脱敏：替换归档记录中的该消息并重新生成向量
+   *
+   * @returns 更新的记录数
+   */
+  async redactMessage(sessionId: string, messageId: number): Promise<number> {
+    if (!this.isReady() || !this.table || !this.embedFn) {
+      return 0;
+    }
+
+    try {
+      const rows = await this.table
+        .query()
+        .where(`${sessionFilter(sessionId)} AND \`messageIds\` LIKE '%,${messageId},%'`)
+        .toArray();
+
+      let updated = 0;
+      for (const row of rows) {
+        const messages = JSON.parse(row.turnMessages as string) as TurnMessage[];
+        const result = redactTurnMessages(messages, messageId);
+        if (!result) continue;
+
+        const text = buildEmbeddingText(result.userMessage, row.botResponse as string);
+        const vector = await this.embedFn.embed(text);
+
+        // 向量需要重新生成，直接替换整条记录
+        await this.table.delete(`id = "${row.id as string}"`);
+        await this.table.add([
+          {
+            id: row.id as string,
+            sessionId: row.sessionId as string,
+            isGroup: row.isGroup as boolean,
+            targetId: row.targetId as number,
+            userMessage: result.userMessage,
+            botResponse: row.botResponse as string,
+            timestamp: row.timestamp as number,
+            messageIds: row.messageIds as string,
+            turnMessages: JSON.stringify(result.messages),
+            text,
+            vector,
+          },
+        ]);
+        updated++;
+      }
+
+      if (updated > 0) {
+        this.logger.debug('Redacted archived messages', { sessionId, messageId, updated });
+      }
+      return updated;
+    } catch (error) {
+      this.logger.error('Failed to redact archived message', {
+        sessionId,
+        messageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return 0;
+    }
+  }
+
   /**
    * 删除会话的所有归档消息
    */
@@ -280,7 +391,7 @@ export class KnowledgeBase {
     if (!this.table) return;
 
     try {
-      await this.table.delete(`sessionId = "${sessionId}"`);
+      await this.table.delete(sessionFilter(sessionId));
       this.logger.debug('Deleted archived messages', { sessionId });
     } catch (error) {
       this.logger.error('Failed to delete session', {
@@ -3,6 +3,7 @@ import { HumanMessage, SystemMessage } from '@langchain/core/messages';
 import type { Logger } from '../logger/logger.js';
 import type { SummarizationConfig } from '../config/schema.js';
 import type { ConversationTurn, ConversationSummary } from './types.js';
+import { BUILTIN_PROMPT_SOURCE, type PromptSource } from '../prompts/index.js';
 
 /** Token 估算：4 个字符约等于 1 个 token */
 function estimateTokens(text: string): number {
@@ -14,16 +15,6 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
-const SUMMARY_SYSTEM_PROMPT = `你是一个对话摘要助手。你的任务是将多轮对话压缩成一个简洁的摘要。
-
-规则：
-1. 保留关键信息：用户问了什么、Bot 回答了什么要点
-2. 保留重要的上下文：用户的偏好、提到的关键事实
-3. 使用第三人称描述
-4. 控制长度在 200 字以内
-5. 不要包含无关的寒暄和礼貌用语
-6. 输出纯文本，不要使用 markdown 格式`;
-
 /**
  * 摘要服务
  *
@@ -36,6 +27,7 @@ export class SummaryService {
   private readonly config: SummarizationConfig;
   private readonly logger: Logger;
   private model: BaseChatModel | null = null;
+  private prompts: PromptSource = BUILTIN_PROMPT_SOURCE;
 
   /** 会话摘要存储：sessionId -> summaries */
   private readonly summaries: Map<string, ConversationSummary[]> = new Map();
@@ -62,6 +54,13 @@ export class SummaryService {
     this.model = model;
   }
 
+  /**
+   * 设置提示词来源（默认使用内置模板）
+   */
+  setPrompts(prompts: PromptSource): void {
+    this.prompts = prompts;
+  }
+
   /**
    * 是否启用摘要功能
    */
@@ -98,9 +97,11 @@ export class SummaryService {
       .map((t) => `用户: ${t.userMessage}\nBot: ${t.botResponse}`)
       .join('\n\n');
 
+    const prompt = this.prompts.render('memorySummary');
+
     try {
       const messages = [
-        new SystemMessage(SUMMARY_SYSTEM_PROMPT),
+        new SystemMessage(prompt.text),
         new HumanMessage(`请总结以下对话：\n\n${conversationText}`),
       ];
 
@@ -132,6 +133,7 @@ export class SummaryService {
         sessionId,
         turnCount: turns.length,
         summaryTokens: summary.estimatedTokens,
+        promptVersion: prompt.version,
       });
 
       return summary;
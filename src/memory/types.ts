@@ -1,4 +1,8 @@
-import type { AggregatedMessages } from '../pipeline/index.js';
+import type { AttachmentType } from '../onebot/types.js';
+import { formatMessageLine, type AggregatedMessages } from '../pipeline/index.js';
+
+/** 撤回消息的占位文本 */
+export const RECALLED_PLACEHOLDER = '[该消息已撤回]';
 
 /**
  * 单轮对话：用户消息 + Bot 回复
@@ -14,6 +18,35 @@ export interface ConversationTurn {
   estimatedTokens: number;
   /** 附件标记（用于上下文，不存储实际内容） */
   attachmentMarkers: string[];
+  /** 本轮包含的用户消息（用于撤回时脱敏，旧数据可能缺失） */
+  messages?: TurnMessage[];
+}
+
+/**
+ * 轮次中的单条用户消息
+ */
+export interface TurnMessage {
+  /** 消息 ID */
+  messageId: number;
+  /** 发送者昵称 */
+  nickname: string;
+  /** 格式化后的消息行 */
+  line: string;
+  /** 是否已被撤回 */
+  recalled?: boolean;
+  /** 已存入附件存储的附件，可按 contentHash 再次读取 */
+  attachments?: AttachmentRef[];
+}
+
+/**
+ * 附件存储中的附件引用
+ */
+export interface AttachmentRef {
+  type: AttachmentType;
+  filename: string;
+  mimeType: string;
+  /** 内容的 sha256，AttachmentStore 的读取键 */
+  contentHash: string;
 }
 
 /**
@@ -127,6 +160,71 @@ export function extractAttachmentMarkers(aggregated: AggregatedMessages): string
   return aggregated.attachments.map((att) => `[${att.type}: ${att.filename}]`);
 }
 
+/**
+ * 从 AggregatedMessages 提取逐条消息，用于撤回时定位和脱敏
+ */
+export function extractTurnMessages(aggregated: AggregatedMessages): TurnMessage[] {
+  return aggregated.messages.map((msg) => {
+    const turnMessage: TurnMessage = {
+      messageId: msg.messageId,
+      nickname: msg.nickname,
+      line: formatMessageLine(msg),
+    };
+
+    const attachments = msg.attachments.flatMap((att): AttachmentRef[] =>
+      att.contentHash
+        ? [
+            {
+              type: att.type,
+              filename: att.filename,
+              mimeType: att.mimeType,
+              contentHash: att.contentHash,
+            },
+          ]
+        : []
+    );
+    if (attachments.length > 0) {
+      turnMessage.attachments = attachments;
+    }
+    return turnMessage;
+  });
+}
+
+/**
+ * 将指定消息替换为撤回占位
+ *
+ * @returns 脱敏后的消息列表和重建的用户消息文本；消息不存在或已撤回时返回 null
+ */
+export function redactTurnMessages(
+  messages: TurnMessage[],
+  messageId: number
+): { messages: TurnMessage[]; userMessage: string; removedLine: string } | null {
+  const target = messages.find((m) => m.messageId === messageId);
+  if (!target || target.recalled) {
+    return null;
+  }
+
+  const redacted = messages.map((m): TurnMessage => {
+    if (m.messageId !== messageId) {
+      return m;
+    }
+    const recalled: TurnMessage = {
+      ...m,
+      line: `[${m.nickname}] ${RECALLED_PLACEHOLDER}`,
+      recalled: true,
+    };
+    // 撤回消息的附件引用一并移除
+    delete recalled.attachments;
+    return recalled;
+  });
+
+  return {
+    messages: redacted,
+    userMessage: redacted.map((m) => m.line).join('\n'),
+    removedLine: target.line,
+  };
+}
+
 /**
  * 从 AggregatedMessages 提取 targetId（群 ID 或用户 ID）
  */
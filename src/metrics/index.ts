@@ -18,13 +18,119 @@ interface ToolStats {
   maxDurationMs: number;
 }
 
+/**
+ * 结构化输出统计（按节点）
+ */
+export interface StructuredOutputStats {
+  /** 总调用次数 */
+  calls: number;
+  /** 使用原生结构化输出的次数 */
+  nativeCalls: number;
+  /** 原生解析失败、回退到 JSON 模式的次数 */
+  nativeFallbacks: number;
+  /** 要求模型修正输出的总次数 */
+  repairs: number;
+  /** 修正后仍无法解析的次数 */
+  failures: number;
+}
+
+/**
+ * 一次结构化输出调用的结果
+ */
+export interface StructuredOutputOutcome {
+  native: boolean;
+  nativeFallback: boolean;
+  repairs: number;
+  success: boolean;
+}
+
+/**
+ * LLM 调用统计（按模型、节点或会话汇总）
+ */
+export interface LLMUsageStats {
+  /** 调用次数（含失败） */
+  calls: number;
+  /** 失败次数 */
+  failures: number;
+  /** 输入 token 数（含缓存命中） */
+  inputTokens: number;
+  /** 输出 token 数 */
+  outputTokens: number;
+  /** 命中缓存的输入 token 数 */
+  cachedTokens: number;
+  /** 费用（美元，未配置价格的模型不计） */
+  costUsd: number;
+  /** 总耗时（毫秒） */
+  totalLatencyMs: number;
+}
+
+/**
+ * 一次 LLM 调用
+ */
+export interface LLMCallRecord {
+  /** ModelRegistry 中的名称 */
+  model: string;
+  /** 发起调用的图节点（图外的调用为 undefined） */
+  node?: string | undefined;
+  /** 会话 ID（会话外的调用为 undefined） */
+  session?: string | undefined;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+/**
+ * LLM 调用统计快照
+ */
+export interface LLMStatsSnapshot {
+  total: LLMUsageStats & { avgLatencyMs: number };
+  models: Record<string, LLMUsageStats & { avgLatencyMs: number }>;
+  nodes: Record<string, LLMUsageStats & { avgLatencyMs: number }>;
+  sessions: Record<string, LLMUsageStats & { avgLatencyMs: number }>;
+}
+
+function createLLMUsageStats(): LLMUsageStats {
+  return {
+    calls: 0,
+    failures: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedTokens: 0,
+    costUsd: 0,
+    totalLatencyMs: 0,
+  };
+}
+
+function withAvgLatency(stats: LLMUsageStats): LLMUsageStats & { avgLatencyMs: number } {
+  return {
+    ...stats,
+    avgLatencyMs: stats.calls > 0 ? Math.round(stats.totalLatencyMs / stats.calls) : 0,
+  };
+}
+
+function snapshotUsage(
+  map: Map<string, LLMUsageStats>
+): Record<string, LLMUsageStats & { avgLatencyMs: number }> {
+  return Object.fromEntries(
+    Array.from(map, ([key, stats]) => [key, withAvgLatency(stats)])
+  );
+}
+
 /**
  * Metrics 收集器
  *
- * 收集工具执行指标，用于监控和分析
+ * 收集工具执行、结构化输出和 LLM 调用指标，用于监控和分析
  */
 export class MetricsCollector {
   private readonly toolStats = new Map<string, ToolStats>();
+  private readonly structuredOutputStats = new Map<string, StructuredOutputStats>();
+  private llmTotal = createLLMUsageStats();
+  private readonly llmByModel = new Map<string, LLMUsageStats>();
+  private readonly llmByNode = new Map<string, LLMUsageStats>();
+  private readonly llmBySession = new Map<string, LLMUsageStats>();
   private startTime = Date.now();
 
   /**
@@ -68,6 +174,83 @@ export class MetricsCollector {
     stats.maxDurationMs = Math.max(stats.maxDurationMs, durationMs);
   }
 
+  /**
+   * 记录一次结构化输出调用
+   */
+  recordStructuredOutput(node: string, outcome: StructuredOutputOutcome): void {
+    let stats = this.structuredOutputStats.get(node);
+
+    if (!stats) {
+      stats = { calls: 0, nativeCalls: 0, nativeFallbacks: 0, repairs: 0, failures: 0 };
+      this.structuredOutputStats.set(node, stats);
+    }
+
+    stats.calls++;
+    stats.repairs += outcome.repairs;
+    if (outcome.native) {
+      stats.nativeCalls++;
+    }
+    if (outcome.nativeFallback) {
+      stats.nativeFallbacks++;
+    }
+    if (!outcome.success) {
+      stats.failures++;
+    }
+  }
+
+  /**
+   * 记录一次 LLM 调用，同时计入总计、模型、节点和会话
+   */
+  recordLLMCall(call: LLMCallRecord): void {
+    const targets = [this.llmTotal, this.getUsage(this.llmByModel, call.model)];
+    if (call.node) {
+      targets.push(this.getUsage(this.llmByNode, call.node));
+    }
+    if (call.session) {
+      targets.push(this.getUsage(this.llmBySession, call.session));
+    }
+
+    for (const stats of targets) {
+      stats.calls++;
+      if (!call.success) {
+        stats.failures++;
+      }
+      stats.inputTokens += call.inputTokens;
+      stats.outputTokens += call.outputTokens;
+      stats.cachedTokens += call.cachedTokens;
+      stats.costUsd += call.costUsd;
+      stats.totalLatencyMs += call.latencyMs;
+    }
+  }
+
+  /**
+   * 获取 LLM 调用统计
+   */
+  getLLMStats(): LLMStatsSnapshot {
+    return {
+      total: withAvgLatency(this.llmTotal),
+      models: snapshotUsage(this.llmByModel),
+      nodes: snapshotUsage(this.llmByNode),
+      sessions: snapshotUsage(this.llmBySession),
+    };
+  }
+
+  private getUsage(map: Map<string, LLMUsageStats>, key: string): LLMUsageStats {
+    let stats = map.get(key);
+    if (!stats) {
+      stats = createLLMUsageStats();
+      map.set(key, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * 获取节点的结构化输出统计
+   */
+  getStructuredOutputStats(node: string): StructuredOutputStats | undefined {
+    return this.structuredOutputStats.get(node);
+  }
+
   /**
    * 获取工具统计
    */
@@ -97,6 +280,8 @@ export class MetricsCollector {
     return {
       uptime: Date.now() - this.startTime,
       tools: toolStatsObj,
+      structuredOutput: Object.fromEntries(this.structuredOutputStats),
+      llm: this.getLLMStats(),
     };
   }
 
@@ -105,6 +290,11 @@ export class MetricsCollector {
    */
   reset(): void {
     this.toolStats.clear();
+    this.structuredOutputStats.clear();
+    this.llmTotal = createLLMUsageStats();
+    this.llmByModel.clear();
+    this.llmByNode.clear();
+    this.llmBySession.clear();
     this.startTime = Date.now();
   }
 
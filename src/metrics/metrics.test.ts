@@ -78,6 +78,51 @@ describe('MetricsCollector', () => {
     });
   });
 
+  describe('recordLLMCall', () => {
+    const call = {
+      model: 'claude',
+      inputTokens: 1000,
+      outputTokens: 200,
+      cachedTokens: 400,
+      costUsd: 0.01,
+      latencyMs: 800,
+      success: true,
+    };
+
+    it('should aggregate by model, node and session', () => {
+      collector.recordLLMCall({ ...call, node: 'chat', session: 'group_1' });
+      collector.recordLLMCall({ ...call, node: 'intent', session: 'group_1', latencyMs: 400 });
+      collector.recordLLMCall({ ...call, model: 'glm', costUsd: 0 });
+
+      const stats = collector.getLLMStats();
+
+      expect(stats.total).toMatchObject({ calls: 3, inputTokens: 3000, cachedTokens: 1200 });
+      expect(stats.models['claude']).toMatchObject({
+        calls: 2,
+        outputTokens: 400,
+        costUsd: 0.02,
+        avgLatencyMs: 600,
+      });
+      expect(stats.models['glm']).toMatchObject({ calls: 1, costUsd: 0 });
+      expect(Object.keys(stats.nodes)).toEqual(['chat', 'intent']);
+      expect(stats.sessions['group_1']).toMatchObject({ calls: 2, totalLatencyMs: 1200 });
+    });
+
+    it('should count failures', () => {
+      collector.recordLLMCall({ ...call, success: false });
+
+      expect(collector.getLLMStats().total).toMatchObject({ calls: 1, failures: 1 });
+    });
+
+    it('should be cleared by reset', () => {
+      collector.recordLLMCall(call);
+      collector.reset();
+
+      expect(collector.getLLMStats().total.calls).toBe(0);
+      expect(collector.getLLMStats().models).toEqual({});
+    });
+  });
+
   describe('getAllStats', () => {
     it('should return uptime and all tool stats', () => {
       collector.recordToolExecution('tool1', true, 100, false);
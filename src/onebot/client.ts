@@ -1,26 +1,28 @@
 import type { Logger } from '../logger/logger.js';
-import { OneBotConnectionError, OneBotApiError } from './errors.js';
+import { OneBotError, OneBotConnectionError, OneBotApiError } from './errors.js';
+import type { OneBotTransport } from './transports/index.js';
 import type {
-  OneBotApiResponse,
   OneBotSendMessageResponse,
   OneBotLoginInfo,
   OneBotGroupInfo,
-  Attachment,
+  OneBotGroupMemberInfo,
+  OneBotMessageDetail,
+  OneBotForwardMessage,
+  OutgoingMessage,
 } from './types.js';
-
-export interface OneBotClientConfig {
-  httpUrl: string;
-  accessToken?: string | undefined;
-}
+import { buildMessageSegments } from './message-builder.js';
+import {
+  parseForwardNodes,
+  toQuotedMessage,
+  type NormalizedMessage,
+} from './message-normalizer.js';
 
 export class OneBotClient {
-  private readonly httpUrl: string;
-  private readonly accessToken: string | undefined;
+  private readonly transport: OneBotTransport;
   private readonly logger: Logger;
 
-  constructor(config: OneBotClientConfig, logger: Logger) {
-    this.httpUrl = config.httpUrl.replace(/\/$/, '');
-    this.accessToken = config.accessToken;
+  constructor(transport: OneBotTransport, logger: Logger) {
+    this.transport = transport;
     this.logger = logger.child('OneBotClient');
   }
 
@@ -28,52 +30,25 @@ export class OneBotClient {
     action: string,
     params: Record<string, unknown> = {}
   ): Promise<T> {
-    const url = `${this.httpUrl}/${action}`;
-
-    this.logger.debug(`POST ${action}`, params);
+    this.logger.debug(`Call ${action}`, params);
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
+    const json = await this.transport.call<T>(action, params);
 
-    if (this.accessToken) {
-      headers['Authorization'] = `Bearer ${this.accessToken}`;
+    if (json.status === 'failed') {
+      throw new OneBotApiError(
+        json.message ?? json.wording ?? `API failed with retcode ${json.retcode}`,
+        json.retcode
+      );
     }
 
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      });
-
-      const json = (await response.json()) as OneBotApiResponse<T>;
-
-      if (json.status === 'failed') {
-        throw new OneBotApiError(
-          json.message ?? json.wording ?? `API failed with retcode ${json.retcode}`,
-          json.retcode
-        );
-      }
-
-      return json.data;
-    } catch (error) {
-      if (error instanceof OneBotApiError) {
-        throw error;
-      }
-
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new OneBotConnectionError(
-          `Failed to connect to OneBot at ${this.httpUrl}`,
-          error
-        );
-      }
+    return json.data;
+  }
 
-      throw new OneBotConnectionError(
-        `Request to OneBot failed: ${error instanceof Error ? error.message : String(error)}`,
-        error
-      );
-    }
+  /**
+   * 当前传输是否可用
+   */
+  isConnected(): boolean {
+    return this.transport.isConnected();
   }
 
   async getLoginInfo(): Promise<OneBotLoginInfo> {
@@ -83,40 +58,89 @@ export class OneBotClient {
     return result;
   }
 
-  async sendPrivateMsg(userId: number, message: string): Promise<number> {
-    this.logger.debug('Sending private message', { userId, messageLength: message.length });
-
-    const result = await this.request<OneBotSendMessageResponse>('send_private_msg', {
-      user_id: userId,
-      message: [{ type: 'text', data: { text: message } }],
-    });
-
-    this.logger.info('Private message sent', { messageId: result.message_id });
-    return result.message_id;
+  async sendPrivateMsg(userId: number, message: string | OutgoingMessage): Promise<number> {
+    return this.sendMsg('private', userId, message);
   }
 
-  async sendGroupMsg(groupId: number, message: string): Promise<number> {
-    this.logger.debug('Sending group message', { groupId, messageLength: message.length });
-
-    const result = await this.request<OneBotSendMessageResponse>('send_group_msg', {
-      group_id: groupId,
-      message: [{ type: 'text', data: { text: message } }],
-    });
-
-    this.logger.info('Group message sent', { messageId: result.message_id });
-    return result.message_id;
+  async sendGroupMsg(groupId: number, message: string | OutgoingMessage): Promise<number> {
+    return this.sendMsg('group', groupId, message);
   }
 
+  /**
+   * 发送消息，返回第一条消息的 ID
+   */
   async sendMsg(
     messageType: 'private' | 'group',
     targetId: number,
-    message: string
+    message: string | OutgoingMessage
   ): Promise<number> {
-    if (messageType === 'private') {
-      return this.sendPrivateMsg(targetId, message);
-    } else {
-      return this.sendGroupMsg(targetId, message);
+    const messageIds = await this.sendMessage(messageType, targetId, message);
+    return messageIds[0]!;
+  }
+
+  /**
+   * 发送消息
+   *
+   * 结构化回复可能拆成多条消息（正文 + 文件），返回全部消息 ID。
+   * 中途失败时已发出的消息不会撤回，需要重试时应按条发送（见 MessageSender）
+   */
+  async sendMessage(
+    messageType: 'private' | 'group',
+    targetId: number,
+    message: string | OutgoingMessage
+  ): Promise<number[]> {
+    const isGroup = messageType === 'group';
+    const batches = buildMessageSegments(message, isGroup);
+    if (batches.length === 0) {
+      throw new OneBotError('Cannot send empty message');
+    }
+
+    const action = isGroup ? 'send_group_msg' : 'send_private_msg';
+    const targetKey = isGroup ? 'group_id' : 'user_id';
+    const messageIds: number[] = [];
+
+    for (const segments of batches) {
+      this.logger.debug(isGroup ? 'Sending group message' : 'Sending private message', {
+        [targetKey]: targetId,
+        segmentTypes: segments.map((s) => s.type),
+      });
+
+      const result = await this.request<OneBotSendMessageResponse>(action, {
+        [targetKey]: targetId,
+        message: segments,
+      });
+      messageIds.push(result.message_id);
     }
+
+    this.logger.info(isGroup ? 'Group message sent' : 'Private message sent', {
+      messageId: messageIds[0],
+      messageCount: messageIds.length,
+    });
+    return messageIds;
+  }
+
+  /**
+   * 撤回消息
+   */
+  async deleteMsg(messageId: number): Promise<void> {
+    this.logger.debug('Recalling message', { messageId });
+    await this.request('delete_msg', { message_id: messageId });
+  }
+
+  /**
+   * 获取单条消息详情
+   */
+  async getMsg(messageId: number): Promise<OneBotMessageDetail> {
+    this.logger.debug('Getting message', { messageId });
+    return this.request<OneBotMessageDetail>('get_msg', { message_id: messageId });
+  }
+
+  /**
+   * 获取合并转发内容
+   */
+  async getForwardMsg(id: string): Promise<OneBotForwardMessage> {
+    this.logger.debug('Getting forward message', { id });
+    return this.request<OneBotForwardMessage>('get_forward_msg', { id });
   }
 
   async getGroupInfo(groupId: number): Promise<OneBotGroupInfo> {
@@ -128,61 +152,121 @@ export class OneBotClient {
   }
 
   /**
-   * 通过 HTTP 下载文件并返回 base64 编码数据
+   * 获取群成员信息
    */
-  async downloadFile(url: string): Promise<string> {
-    this.logger.debug('Downloading file', { url: url.substring(0, 100) });
+  async getGroupMemberInfo(groupId: number, userId: number): Promise<OneBotGroupMemberInfo> {
+    this.logger.debug('Getting group member info', { groupId, userId });
+    return this.request<OneBotGroupMemberInfo>('get_group_member_info', {
+      group_id: groupId,
+      user_id: userId,
+    });
+  }
 
-    try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status} ${response.statusText}`);
-      }
+  /**
+   * 获取群成员列表
+   */
+  async getGroupMemberList(groupId: number): Promise<OneBotGroupMemberInfo[]> {
+    this.logger.debug('Getting group member list', { groupId });
+    return this.request<OneBotGroupMemberInfo[]>('get_group_member_list', {
+      group_id: groupId,
+    });
+  }
 
-      const buffer = await response.arrayBuffer();
-      const base64 = Buffer.from(buffer).toString('base64');
+  /**
+   * 处理加好友请求
+   */
+  async setFriendAddRequest(flag: string, approve: boolean, remark?: string): Promise<void> {
+    this.logger.debug('Handling friend request', { approve });
+    await this.request('set_friend_add_request', {
+      flag,
+      approve,
+      ...(remark ? { remark } : {}),
+    });
+  }
 
-      this.logger.debug('File downloaded', { url: url.substring(0, 100), size: buffer.byteLength });
-      return base64;
-    } catch (error) {
-      throw new OneBotConnectionError(
-        `Failed to download file from ${url.substring(0, 100)}: ${error instanceof Error ? error.message : String(error)}`,
-        error
-      );
-    }
+  /**
+   * 处理加群请求 / 入群邀请
+   */
+  async setGroupAddRequest(
+    flag: string,
+    subType: 'add' | 'invite',
+    approve: boolean,
+    reason?: string
+  ): Promise<void> {
+    this.logger.debug('Handling group request', { subType, approve });
+    await this.request('set_group_add_request', {
+      flag,
+      sub_type: subType,
+      approve,
+      ...(reason ? { reason } : {}),
+    });
   }
 
   /**
-   * 并发下载多个附件，失败不阻塞其他下载
+   * 获取引用消息并展开合并转发，失败时保留原样不阻塞处理
    *
-   * 就地修改附件对象的 base64Data 字段
+   * 就地修改消息对象的 quoted / forwards / forwardIds 字段
    */
-  async downloadAttachments(attachments: Attachment[]): Promise<void> {
-    if (attachments.length === 0) {
-      return;
+  async resolveMessageContext(messages: NormalizedMessage[]): Promise<void> {
+    const tasks: Promise<void>[] = [];
+
+    for (const message of messages) {
+      if (message.replyToId !== undefined && !message.quoted) {
+        const replyToId = message.replyToId;
+        tasks.push(
+          this.getMsg(replyToId).then(
+            (detail) => {
+              message.quoted = toQuotedMessage(detail);
+            },
+            (error: unknown) => {
+              this.logger.warn('Failed to fetch quoted message', {
+                messageId: replyToId,
+                error: error instanceof Error ? error.message : String(error),
+              });
+            }
+          )
+        );
+      }
+
+      const forwardIds = message.forwardIds ?? [];
+      if (forwardIds.length > 0) {
+        // 按 ID 顺序回填，保持与消息中合并转发的出现顺序一致
+        tasks.push(
+          Promise.all(
+            forwardIds.map((id) =>
+              this.getForwardMsg(id).then(
+                (forward) => parseForwardNodes(forward.messages ?? []),
+                (error: unknown) => {
+                  this.logger.warn('Failed to fetch forward message', {
+                    id,
+                    error: error instanceof Error ? error.message : String(error),
+                  });
+                  return null;
+                }
+              )
+            )
+          ).then((results) => {
+            const pending: string[] = [];
+            results.forEach((nodes, index) => {
+              if (nodes) {
+                (message.forwards ??= []).push(nodes);
+              } else {
+                pending.push(forwardIds[index]!);
+              }
+            });
+            if (pending.length > 0) {
+              message.forwardIds = pending;
+            } else {
+              delete message.forwardIds;
+            }
+          })
+        );
+      }
     }
 
-    this.logger.info('Downloading attachments', { count: attachments.length });
-
-    const results = await Promise.allSettled(
-      attachments.map(async (attachment) => {
-        try {
-          attachment.base64Data = await this.downloadFile(attachment.url);
-        } catch (error) {
-          this.logger.warn('Failed to download attachment', {
-            filename: attachment.filename,
-            type: attachment.type,
-            error: error instanceof Error ? error.message : String(error),
-          });
-        }
-      })
-    );
-
-    const succeeded = results.filter((r) => r.status === 'fulfilled').length;
-    this.logger.info('Attachments download complete', {
-      total: attachments.length,
-      succeeded,
-      failed: attachments.length - succeeded,
-    });
+    if (tasks.length > 0) {
+      await Promise.all(tasks);
+      this.logger.debug('Message context resolved', { requests: tasks.length });
+    }
   }
 }
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { parseNoticeEvent, parseRequestEvent, getEventKey } from './events.js';
+import type { OneBotEvent } from './types.js';
+
+const base = { time: 1, self_id: 10000 };
+
+describe('parseNoticeEvent', () => {
+  it('should parse group recall notices', () => {
+    const event: OneBotEvent = {
+      ...base,
+      post_type: 'notice',
+      notice_type: 'group_recall',
+      group_id: 100,
+      user_id: 12345,
+      operator_id: 12345,
+      message_id: 99,
+    };
+
+    const notice = parseNoticeEvent(event);
+
+    expect(notice?.notice_type).toBe('group_recall');
+    expect(getEventKey(notice!)).toBe('notice.group_recall');
+  });
+
+  it('should map poke notifications to notice.poke', () => {
+    const notice = parseNoticeEvent({
+      ...base,
+      post_type: 'notice',
+      notice_type: 'notify',
+      sub_type: 'poke',
+      group_id: 100,
+      user_id: 12345,
+      target_id: 10000,
+    });
+
+    expect(getEventKey(notice!)).toBe('notice.poke');
+  });
+
+  it('should return null for unsupported or incomplete notices', () => {
+    expect(
+      parseNoticeEvent({ ...base, post_type: 'notice', notice_type: 'group_upload' })
+    ).toBeNull();
+    expect(
+      parseNoticeEvent({ ...base, post_type: 'notice', notice_type: 'group_recall', group_id: 1 })
+    ).toBeNull();
+    expect(
+      parseNoticeEvent({
+        ...base,
+        post_type: 'notice',
+        notice_type: 'notify',
+        sub_type: 'honor',
+        user_id: 1,
+      })
+    ).toBeNull();
+  });
+});
+
+describe('parseRequestEvent', () => {
+  it('should parse friend requests and default missing comment', () => {
+    const request = parseRequestEvent({
+      ...base,
+      post_type: 'request',
+      request_type: 'friend',
+      user_id: 12345,
+      flag: 'f1',
+    });
+
+    expect(request).toMatchObject({ request_type: 'friend', comment: '', flag: 'f1' });
+    expect(getEventKey(request!)).toBe('request.friend');
+  });
+
+  it('should parse group invites', () => {
+    const request = parseRequestEvent({
+      ...base,
+      post_type: 'request',
+      request_type: 'group',
+      sub_type: 'invite',
+      group_id: 100,
+      user_id: 12345,
+      flag: 'f2',
+    });
+
+    expect(getEventKey(request!)).toBe('request.group');
+  });
+
+  it('should return null without flag', () => {
+    expect(
+      parseRequestEvent({ ...base, post_type: 'request', request_type: 'friend', user_id: 1 })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import type {
+  OneBotEvent,
+  OneBotNoticeEvent,
+  OneBotRequestEvent,
+  GroupIncreaseNoticeEvent,
+  GroupDecreaseNoticeEvent,
+  GroupRecallNoticeEvent,
+  FriendRecallNoticeEvent,
+  PokeNoticeEvent,
+  FriendRequestEvent,
+  GroupRequestEvent,
+} from './types.js';
+
+/**
+ * 事件键到事件类型的映射
+ */
+export interface OneBotEventMap {
+  'notice.group_increase': GroupIncreaseNoticeEvent;
+  'notice.group_decrease': GroupDecreaseNoticeEvent;
+  'notice.group_recall': GroupRecallNoticeEvent;
+  'notice.friend_recall': FriendRecallNoticeEvent;
+  'notice.poke': PokeNoticeEvent;
+  'request.friend': FriendRequestEvent;
+  'request.group': GroupRequestEvent;
+}
+
+export type OneBotEventKey = keyof OneBotEventMap;
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number';
+}
+
+/**
+ * 解析通知事件，不支持或字段缺失时返回 null
+ */
+export function parseNoticeEvent(event: OneBotEvent): OneBotNoticeEvent | null {
+  if (event.post_type !== 'notice') {
+    return null;
+  }
+
+  const raw = event as unknown as Record<string, unknown>;
+
+  switch (event.notice_type) {
+    case 'group_increase':
+    case 'group_decrease':
+      return isNumber(event.group_id) && isNumber(event.user_id)
+        ? ({ operator_id: 0, ...raw } as unknown as OneBotNoticeEvent)
+        : null;
+    case 'group_recall':
+      return isNumber(event.group_id) && isNumber(event.user_id) && isNumber(event.message_id)
+        ? ({ operator_id: event.user_id, ...raw } as unknown as GroupRecallNoticeEvent)
+        : null;
+    case 'friend_recall':
+      return isNumber(event.user_id) && isNumber(event.message_id)
+        ? (raw as unknown as FriendRecallNoticeEvent)
+        : null;
+    case 'notify':
+      return event.sub_type === 'poke' && isNumber(event.user_id) && isNumber(event.target_id)
+        ? (raw as unknown as PokeNoticeEvent)
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * 解析请求事件，不支持或字段缺失时返回 null
+ */
+export function parseRequestEvent(event: OneBotEvent): OneBotRequestEvent | null {
+  if (event.post_type !== 'request' || !isNumber(event.user_id) || !event.flag) {
+    return null;
+  }
+
+  const raw = { comment: '', ...event } as unknown as Record<string, unknown>;
+
+  switch (event.request_type) {
+    case 'friend':
+      return raw as unknown as FriendRequestEvent;
+    case 'group':
+      return isNumber(event.group_id) && (event.sub_type === 'add' || event.sub_type === 'invite')
+        ? (raw as unknown as GroupRequestEvent)
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * 获取事件键，用于分发到对应的处理器
+ */
+export function getEventKey(event: OneBotNoticeEvent | OneBotRequestEvent): OneBotEventKey {
+  if (event.post_type === 'request') {
+    return `request.${event.request_type}`;
+  }
+  if (event.notice_type === 'notify') {
+    return 'notice.poke';
+  }
+  return `notice.${event.notice_type}`;
+}
@@ -1,21 +1,71 @@
-export { OneBotClient, type OneBotClientConfig } from './client.js';
-export { WebhookHandler, type MessageHandler, type WebhookHandlerConfig } from './webhook.js';
-export { normalizeMessage, type NormalizedMessage } from './message-normalizer.js';
+export { OneBotClient } from './client.js';
+export { MessageSender } from './sender.js';
+export { GroupMemberCache, type GroupMember } from './member-cache.js';
+export { splitMessage, splitSentences } from './message-splitter.js';
+export {
+  createTransport,
+  HttpTransport,
+  ForwardWsTransport,
+  ReverseWsTransport,
+  type OneBotTransport,
+  type OneBotTransportKind,
+  type OneBotEventListener,
+  type OneBotConnectListener,
+} from './transports/index.js';
+export {
+  WebhookHandler,
+  type MessageHandler,
+  type NoticeHandler,
+  type RequestHandler,
+  type WebhookHandlerConfig,
+  type WebhookTarget,
+} from './webhook.js';
+export {
+  normalizeMessage,
+  getDisplayName,
+  type NormalizedMessage,
+  type QuotedMessage,
+  type ForwardNode,
+} from './message-normalizer.js';
 export {
   OneBotError,
   OneBotConnectionError,
   OneBotApiError,
 } from './errors.js';
 export { guessMimeType } from './message-normalizer.js';
+export {
+  parseNoticeEvent,
+  parseRequestEvent,
+  getEventKey,
+  type OneBotEventMap,
+  type OneBotEventKey,
+} from './events.js';
+export { buildMessageSegments } from './message-builder.js';
 export type {
   OneBotSender,
   OneBotMessage,
   OneBotMessageSegment,
   OneBotEvent,
+  GroupIncreaseNoticeEvent,
+  GroupDecreaseNoticeEvent,
+  GroupRecallNoticeEvent,
+  FriendRecallNoticeEvent,
+  PokeNoticeEvent,
+  OneBotNoticeEvent,
+  FriendRequestEvent,
+  GroupRequestEvent,
+  OneBotRequestEvent,
   OneBotApiResponse,
   OneBotSendMessageResponse,
   OneBotLoginInfo,
   OneBotGroupInfo,
+  OneBotGroupMemberInfo,
+  OneBotMessageDetail,
+  OneBotForwardMessage,
+  GroupRole,
   AttachmentType,
   Attachment,
+  OutgoingMediaType,
+  OutgoingMedia,
+  OutgoingMessage,
 } from './types.js';
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GroupMemberCache } from './member-cache.js';
+import { OneBotApiError } from './errors.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+describe('GroupMemberCache', () => {
+  let client: {
+    getGroupMemberInfo: ReturnType<typeof vi.fn>;
+    getGroupMemberList: ReturnType<typeof vi.fn>;
+  };
+  let cache: GroupMemberCache;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = {
+      getGroupMemberInfo: vi.fn(async (groupId: number, userId: number) => ({
+        group_id: groupId,
+        user_id: userId,
+        nickname: `user${userId}`,
+        card: userId === 222 ? '小B' : '',
+        role: 'member',
+      })),
+      getGroupMemberList: vi.fn(async () => [
+        { group_id: 100, user_id: 1, nickname: 'Owner', card: '群主大人', role: 'owner' },
+        { group_id: 100, user_id: 2, nickname: 'Admin', card: '', role: 'admin' },
+      ]),
+    };
+    cache = new GroupMemberCache(client as never, 60_000, createMockLogger() as never);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve names via get_group_member_info and cache them', async () => {
+    const names = await cache.resolveNames(100, [222, 333, 222]);
+
+    expect(names).toEqual(
+      new Map([
+        [222, '小B'],
+        [333, 'user333'],
+      ])
+    );
+
+    await cache.resolve(100, 222);
+    expect(client.getGroupMemberInfo).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refetch after the TTL expires', async () => {
+    await cache.resolve(100, 222);
+    vi.advanceTimersByTime(60_001);
+
+    expect(cache.get(100, 222)).toBeUndefined();
+    await cache.resolve(100, 222);
+    expect(client.getGroupMemberInfo).toHaveBeenCalledTimes(2);
+  });
+
+  it('should omit members that cannot be resolved', async () => {
+    client.getGroupMemberInfo.mockRejectedValueOnce(new OneBotApiError('not found', 100));
+
+    const names = await cache.resolveNames(100, [999]);
+
+    expect(names.size).toBe(0);
+  });
+
+  it('should preload the whole member list', async () => {
+    const count = await cache.preload(100);
+
+    expect(count).toBe(2);
+    expect(cache.get(100, 1)).toEqual({ userId: 1, displayName: '群主大人', role: 'owner' });
+    expect(cache.get(100, 2)?.displayName).toBe('Admin');
+  });
+
+  it('should keep the cached role when observing senders without one', async () => {
+    await cache.preload(100);
+
+    cache.observe(100, { user_id: 2, nickname: 'Admin', card: '新名片' });
+
+    expect(cache.get(100, 2)).toEqual({ userId: 2, displayName: '新名片', role: 'admin' });
+  });
+});
@@ -0,0 +1,144 @@
+import type { Logger } from '../logger/logger.js';
+import type { OneBotClient } from './client.js';
+import { getDisplayName } from './message-normalizer.js';
+import type { GroupRole, OneBotSender } from './types.js';
+
+/**
+ * 缓存的群成员信息
+ */
+export interface GroupMember {
+  userId: number;
+  /** 展示名称：群名片优先，其次昵称 */
+  displayName: string;
+  role: GroupRole;
+}
+
+interface CacheEntry {
+  member: GroupMember;
+  expiresAt: number;
+}
+
+/**
+ * 群成员缓存
+ *
+ * 消息事件自带的发送者信息直接写入缓存；@ 到的其他成员按需调用
+ * get_group_member_info 查询，也可以用 get_group_member_list 整群预加载。
+ * 查询失败只记录日志，调用方回退到 QQ 号展示
+ */
+export class GroupMemberCache {
+  private readonly client: OneBotClient;
+  private readonly ttlMs: number;
+  private readonly logger: Logger;
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(client: OneBotClient, ttlMs: number, logger: Logger) {
+    this.client = client;
+    this.ttlMs = ttlMs;
+    this.logger = logger.child('GroupMemberCache');
+  }
+
+  /**
+   * 读取未过期的缓存
+   */
+  get(groupId: number, userId: number): GroupMember | undefined {
+    const key = `${groupId}_${userId}`;
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.member;
+  }
+
+  /**
+   * 用消息事件中的发送者信息更新缓存（缺少身份时保留已缓存的身份）
+   */
+  observe(groupId: number, sender: OneBotSender): void {
+    const role = sender.role ?? this.get(groupId, sender.user_id)?.role ?? 'member';
+    this.set(groupId, {
+      userId: sender.user_id,
+      displayName: getDisplayName(sender),
+      role,
+    });
+  }
+
+  /**
+   * 获取成员信息，缓存未命中时调用 get_group_member_info
+   */
+  async resolve(groupId: number, userId: number): Promise<GroupMember | undefined> {
+    const cached = this.get(groupId, userId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const info = await this.client.getGroupMemberInfo(groupId, userId);
+      const member: GroupMember = {
+        userId: info.user_id,
+        displayName: getDisplayName(info),
+        role: info.role,
+      };
+      this.set(groupId, member);
+      return member;
+    } catch (error) {
+      this.logger.warn('Failed to fetch group member', {
+        groupId,
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * 批量解析展示名称，无法解析的成员不出现在结果中
+   */
+  async resolveNames(groupId: number, userIds: number[]): Promise<Map<number, string>> {
+    const names = new Map<number, string>();
+    const members = await Promise.all(
+      [...new Set(userIds)].map((userId) => this.resolve(groupId, userId))
+    );
+    for (const member of members) {
+      if (member) {
+        names.set(member.userId, member.displayName);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * 通过 get_group_member_list 预加载整群成员
+   *
+   * @returns 加载的成员数量，失败时为 0
+   */
+  async preload(groupId: number): Promise<number> {
+    try {
+      const list = await this.client.getGroupMemberList(groupId);
+      for (const info of list) {
+        this.set(groupId, {
+          userId: info.user_id,
+          displayName: getDisplayName(info),
+          role: info.role,
+        });
+      }
+      this.logger.info('Group members preloaded', { groupId, count: list.length });
+      return list.length;
+    } catch (error) {
+      this.logger.warn('Failed to preload group members', {
+        groupId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return 0;
+    }
+  }
+
+  private set(groupId: number, member: GroupMember): void {
+    this.entries.set(`${groupId}_${member.userId}`, {
+      member,
+      expiresAt: Date.now() + this.ttlMs,
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { buildMessageSegments } from './message-builder.js';
+
+describe('buildMessageSegments', () => {
+  it('should wrap plain string in a text segment', () => {
+    expect(buildMessageSegments('hello', true)).toEqual([
+      [{ type: 'text', data: { text: 'hello' } }],
+    ]);
+  });
+
+  it('should order reply, at, text and image segments', () => {
+    const batches = buildMessageSegments(
+      {
+        text: '看这个',
+        replyTo: 42,
+        mentions: [100],
+        media: [{ type: 'image', file: 'https://example.com/a.png' }],
+      },
+      true
+    );
+
+    expect(batches).toEqual([
+      [
+        { type: 'reply', data: { id: '42' } },
+        { type: 'at', data: { qq: '100' } },
+        { type: 'text', data: { text: ' ' } },
+        { type: 'text', data: { text: '看这个' } },
+        { type: 'image', data: { file: 'https://example.com/a.png' } },
+      ],
+    ]);
+  });
+
+  it('should ignore mentions in private chat', () => {
+    const batches = buildMessageSegments({ text: 'hi', mentions: [100] }, false);
+
+    expect(batches).toEqual([[{ type: 'text', data: { text: 'hi' } }]]);
+  });
+
+  it('should send each file as a separate message', () => {
+    const batches = buildMessageSegments(
+      {
+        text: '文件如下',
+        media: [
+          { type: 'file', file: 'https://example.com/a.pdf', name: 'a.pdf' },
+          { type: 'file', file: 'https://example.com/b.zip' },
+        ],
+      },
+      true
+    );
+
+    expect(batches).toHaveLength(3);
+    expect(batches[1]).toEqual([
+      { type: 'file', data: { file: 'https://example.com/a.pdf', name: 'a.pdf' } },
+    ]);
+    expect(batches[2]).toEqual([{ type: 'file', data: { file: 'https://example.com/b.zip' } }]);
+  });
+
+  it('should skip empty body when only files are sent', () => {
+    const batches = buildMessageSegments(
+      { text: '', replyTo: 1, media: [{ type: 'file', file: 'https://example.com/a.pdf' }] },
+      true
+    );
+
+    expect(batches).toEqual([[{ type: 'file', data: { file: 'https://example.com/a.pdf' } }]]);
+  });
+});
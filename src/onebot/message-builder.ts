@@ -0,0 +1,59 @@
+import type { OneBotMessageSegment, OutgoingMessage } from './types.js';
+
+/**
+ * 将回复转换为待发送的 OneBot 消息列表
+ *
+ * 返回值每个元素是一条消息的消息段：
+ * - 第一条为正文（reply / at / text / image），正文为空时省略
+ * - 之后每个文件单独一条（多数 OneBot 实现要求 file 段独占一条消息）
+ *
+ * 私聊中 @ 没有意义，mentions 会被忽略
+ */
+export function buildMessageSegments(
+  message: string | OutgoingMessage,
+  isGroup: boolean
+): OneBotMessageSegment[][] {
+  if (typeof message === 'string') {
+    return message ? [[{ type: 'text', data: { text: message } }]] : [];
+  }
+
+  const body: OneBotMessageSegment[] = [];
+
+  if (isGroup) {
+    for (const userId of message.mentions ?? []) {
+      body.push({ type: 'at', data: { qq: String(userId) } });
+      body.push({ type: 'text', data: { text: ' ' } });
+    }
+  }
+
+  if (message.text) {
+    body.push({ type: 'text', data: { text: message.text } });
+  }
+
+  const files: OneBotMessageSegment[][] = [];
+  for (const media of message.media ?? []) {
+    if (media.type === 'image') {
+      body.push({ type: 'image', data: { file: media.file } });
+    } else {
+      files.push([
+        {
+          type: 'file',
+          data: media.name ? { file: media.file, name: media.name } : { file: media.file },
+        },
+      ]);
+    }
+  }
+
+  const hasContent = body.some(
+    (segment) => segment.type !== 'text' || String(segment.data['text']).trim() !== ''
+  );
+  if (!hasContent) {
+    return files;
+  }
+
+  if (message.replyTo !== undefined) {
+    body.unshift({ type: 'reply', data: { id: String(message.replyTo) } });
+  }
+
+  return [body, ...files];
+}
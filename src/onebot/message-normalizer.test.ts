@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeMessage,
+  parseForwardNodes,
+  toQuotedMessage,
+  getMentionedUserIds,
+} from './message-normalizer.js';
+import type { OneBotEvent, OneBotMessageSegment } from './types.js';
+
+function createEvent(message: OneBotMessageSegment[]): OneBotEvent {
+  return {
+    time: 1700000000,
+    self_id: 10000,
+    post_type: 'message',
+    message_type: 'group',
+    message_id: 1,
+    user_id: 12345,
+    group_id: 100,
+    message,
+    sender: { user_id: 12345, nickname: 'Alice' },
+  };
+}
+
+describe('normalizeMessage', () => {
+  it('should extract text, attachments and bot mentions', () => {
+    const result = normalizeMessage(
+      createEvent([
+        { type: 'at', data: { qq: '10000' } },
+        { type: 'text', data: { text: ' 看看这张图' } },
+        { type: 'image', data: { file: 'a.png', url: 'http://example.com/a.png' } },
+      ]),
+      10000
+    );
+
+    expect(result).toMatchObject({
+      text: '看看这张图',
+      isMentionBot: true,
+      attachments: [{ type: 'image', filename: 'a.png', mimeType: 'image/png' }],
+    });
+  });
+
+  it('should record the quoted message ID', () => {
+    const result = normalizeMessage(
+      createEvent([
+        { type: 'reply', data: { id: '-2147483000' } },
+        { type: 'text', data: { text: '这是什么' } },
+      ])
+    );
+
+    expect(result?.replyToId).toBe(-2147483000);
+    expect(result?.text).toBe('这是什么');
+  });
+
+  it('should collect forward IDs and inline forward content', () => {
+    const result = normalizeMessage(
+      createEvent([
+        { type: 'forward', data: { id: 'abc' } },
+        {
+          type: 'forward',
+          data: {
+            id: 'def',
+            content: [
+              {
+                sender: { user_id: 222, nickname: 'Bob' },
+                message: [{ type: 'text', data: { text: '转发内容' } }],
+              },
+            ],
+          },
+        },
+      ])
+    );
+
+    expect(result?.forwardIds).toEqual(['abc']);
+    expect(result?.forwards).toEqual([
+      [{ userId: 222, nickname: 'Bob', text: '转发内容', attachments: [] }],
+    ]);
+  });
+
+  it('should render faces and cards as text', () => {
+    const card = JSON.stringify({
+      prompt: '[分享]标题',
+      meta: { news: { title: '新闻标题', desc: '新闻摘要' } },
+    });
+    const result = normalizeMessage(
+      createEvent([
+        { type: 'face', data: { id: '178' } },
+        { type: 'json', data: { data: card } },
+        { type: 'xml', data: { data: '<msg brief="[聊天记录]"><item /></msg>' } },
+        { type: 'json', data: { data: 'not json' } },
+      ])
+    );
+
+    expect(result?.text).toBe('[表情][卡片: 新闻标题 - 新闻摘要][卡片: [聊天记录]][卡片消息]');
+  });
+
+  it('should prefer the group card and expose the sender role', () => {
+    const event = createEvent([{ type: 'text', data: { text: 'hi' } }]);
+    event.sender = { user_id: 12345, nickname: 'Alice', card: '  小A  ', role: 'admin' };
+
+    const result = normalizeMessage(event);
+
+    expect(result?.nickname).toBe('小A');
+    expect(result?.role).toBe('admin');
+  });
+
+  it('should fall back to the nickname when the card is blank', () => {
+    const event = createEvent([{ type: 'text', data: { text: 'hi' } }]);
+    event.sender = { user_id: 12345, nickname: 'Alice', card: '' };
+
+    expect(normalizeMessage(event)?.nickname).toBe('Alice');
+  });
+
+  it('should render mentions of other users as readable names', () => {
+    const result = normalizeMessage(
+      createEvent([
+        { type: 'at', data: { qq: '10000' } },
+        { type: 'at', data: { qq: '222', name: 'Bob' } },
+        { type: 'text', data: { text: ' 和 ' } },
+        { type: 'at', data: { qq: '333' } },
+        { type: 'text', data: { text: ' 和 ' } },
+        { type: 'at', data: { qq: '444' } },
+        { type: 'at', data: { qq: 'all' } },
+      ]),
+      10000,
+      new Map([[333, 'Carol']])
+    );
+
+    expect(result?.isMentionBot).toBe(true);
+    expect(result?.text).toBe('@Bob 和 @Carol 和 @444@全体成员');
+  });
+
+  it('should not set optional context fields for plain messages', () => {
+    const result = normalizeMessage(createEvent([{ type: 'text', data: { text: 'hi' } }]));
+
+    expect(result).not.toHaveProperty('replyToId');
+    expect(result).not.toHaveProperty('forwardIds');
+    expect(result).not.toHaveProperty('forwards');
+  });
+});
+
+describe('parseForwardNodes', () => {
+  it('should parse node segments and mark nested forwards', () => {
+    const nodes = parseForwardNodes([
+      {
+        type: 'node',
+        data: { user_id: '222', nickname: 'Bob', content: [{ type: 'text', data: { text: 'hi' } }] },
+      },
+      {
+        type: 'node',
+        data: { uin: 333, name: 'Carol', content: [{ type: 'forward', data: { id: 'x' } }] },
+      },
+      'invalid',
+    ]);
+
+    expect(nodes).toEqual([
+      { userId: 222, nickname: 'Bob', text: 'hi', attachments: [] },
+      { userId: 333, nickname: 'Carol', text: '[合并转发]', attachments: [] },
+    ]);
+  });
+});
+
+describe('toQuotedMessage', () => {
+  it('should convert get_msg results', () => {
+    const quoted = toQuotedMessage({
+      time: 1,
+      message_type: 'group',
+      message_id: 5,
+      sender: { user_id: 222, nickname: 'Bob' },
+      message: [
+        { type: 'text', data: { text: '原消息' } },
+        { type: 'image', data: { file: 'b.jpg', url: 'http://example.com/b.jpg' } },
+      ],
+    });
+
+    expect(quoted).toMatchObject({
+      messageId: 5,
+      userId: 222,
+      nickname: 'Bob',
+      text: '原消息',
+      attachments: [{ type: 'image', filename: 'b.jpg' }],
+    });
+  });
+});
+
+describe('getMentionedUserIds', () => {
+  it('should skip the bot, @all and segments that carry a name', () => {
+    const userIds = getMentionedUserIds(
+      [
+        { type: 'at', data: { qq: '10000' } },
+        { type: 'at', data: { qq: 'all' } },
+        { type: 'at', data: { qq: '222', name: 'Bob' } },
+        { type: 'at', data: { qq: 333 } },
+        { type: 'text', data: { text: 'hi' } },
+      ],
+      10000
+    );
+
+    expect(userIds).toEqual([333]);
+  });
+});
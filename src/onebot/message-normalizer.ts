@@ -1,4 +1,32 @@
-import type { OneBotEvent, OneBotMessageSegment, Attachment, AttachmentType } from './types.js';
+import type {
+  OneBotEvent,
+  OneBotMessageSegment,
+  OneBotMessageDetail,
+  Attachment,
+  AttachmentType,
+  GroupRole,
+} from './types.js';
+
+/**
+ * 被引用的消息（通过 get_msg 获取）
+ */
+export interface QuotedMessage {
+  messageId: number;
+  userId: number;
+  nickname: string;
+  text: string;
+  attachments: Attachment[];
+}
+
+/**
+ * 合并转发中的单条消息
+ */
+export interface ForwardNode {
+  userId: number;
+  nickname: string;
+  text: string;
+  attachments: Attachment[];
+}
 
 export interface NormalizedMessage {
   messageId: number;
@@ -11,6 +39,16 @@ export interface NormalizedMessage {
   isGroup: boolean;
   attachments: Attachment[];
   isMentionBot: boolean;
+  /** 发送者的群身份（仅群聊） */
+  role?: GroupRole;
+  /** 引用的消息 ID（reply 段） */
+  replyToId?: number;
+  /** 引用的消息内容（聚合前通过 get_msg 填充） */
+  quoted?: QuotedMessage;
+  /** 尚未展开的合并转发 ID（forward 段） */
+  forwardIds?: string[];
+  /** 已展开的合并转发，每个元素为一条转发的全部节点 */
+  forwards?: ForwardNode[][];
 }
 
 /** OneBot 段类型到附件类型的映射 */
@@ -38,6 +76,12 @@ const MIME_MAP: Record<string, string> = {
   csv: 'text/csv',
   xml: 'text/xml',
   html: 'text/html',
+  htm: 'text/html',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  epub: 'application/epub+zip',
+  zip: 'application/zip',
   js: 'text/javascript',
   ts: 'text/typescript',
   py: 'text/x-python',
@@ -87,20 +131,118 @@ export function guessMimeType(filename: string, attachmentType: AttachmentType):
   }
 }
 
+/** 卡片消息摘要的最大长度 */
+const MAX_CARD_SUMMARY_LENGTH = 100;
+
 interface ExtractedContent {
   text: string;
   attachments: Attachment[];
   isMentionBot: boolean;
+  replyToId: number | undefined;
+  forwardIds: string[];
+  forwards: ForwardNode[][];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+}
+
+/**
+ * 提取 json 卡片（小程序、分享链接等）的摘要
+ */
+function summarizeJsonCard(raw: unknown): string | undefined {
+  try {
+    const card: unknown = JSON.parse(String(raw ?? ''));
+    if (!isRecord(card)) {
+      return undefined;
+    }
+
+    // meta 下通常只有一个对象（detail_1 / news / music 等）
+    const meta = isRecord(card['meta']) ? Object.values(card['meta']).find(isRecord) : undefined;
+    const parts = [meta?.['title'], meta?.['desc']].filter(
+      (part): part is string => typeof part === 'string' && part.length > 0
+    );
+    if (parts.length > 0) {
+      return parts.join(' - ');
+    }
+
+    return typeof card['prompt'] === 'string' && card['prompt'] ? card['prompt'] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 提取 xml 卡片的摘要
+ */
+function summarizeXmlCard(raw: unknown): string | undefined {
+  const xml = String(raw ?? '');
+  const title = /<title>([^<]*)<\/title>/.exec(xml)?.[1]?.trim();
+  const brief = /brief="([^"]*)"/.exec(xml)?.[1]?.trim();
+  return title || brief || undefined;
+}
+
+function formatCard(summary: string | undefined): string {
+  return summary ? `[卡片: ${truncate(summary, MAX_CARD_SUMMARY_LENGTH)}]` : '[卡片消息]';
+}
+
+/**
+ * 获取展示名称：群名片优先，其次昵称
+ */
+export function getDisplayName(sender: { nickname: string; card?: string | undefined }): string {
+  return sender.card?.trim() || sender.nickname;
+}
+
+/**
+ * 收集需要查询名称的 @ 对象（排除 @bot、@全体成员和已附带名称的段）
+ */
+export function getMentionedUserIds(
+  message: string | OneBotMessageSegment[] | undefined,
+  selfId?: number
+): number[] {
+  if (!Array.isArray(message)) {
+    return [];
+  }
+
+  const userIds: number[] = [];
+  for (const seg of message) {
+    if (seg.type !== 'at' || seg.data['name']) {
+      continue;
+    }
+    const userId = Number(seg.data['qq']);
+    if (Number.isFinite(userId) && userId !== selfId) {
+      userIds.push(userId);
+    }
+  }
+  return userIds;
 }
 
-function extractContent(message: string | OneBotMessageSegment[], selfId?: number): ExtractedContent {
+function extractContent(
+  message: string | OneBotMessageSegment[],
+  selfId?: number,
+  memberNames?: ReadonlyMap<number, string>
+): ExtractedContent {
   if (typeof message === 'string') {
-    return { text: message, attachments: [], isMentionBot: false };
+    return {
+      text: message,
+      attachments: [],
+      isMentionBot: false,
+      replyToId: undefined,
+      forwardIds: [],
+      forwards: [],
+    };
   }
 
   const textParts: string[] = [];
   const attachments: Attachment[] = [];
+  const forwardIds: string[] = [];
+  const forwards: ForwardNode[][] = [];
   let isMentionBot = false;
+  let replyToId: number | undefined;
 
   for (const seg of message) {
     if (seg.type === 'text') {
@@ -108,14 +250,50 @@ function extractContent(message: string | OneBotMessageSegment[], selfId?: numbe
       continue;
     }
 
-    // 检测 @bot 段
-    if (seg.type === 'at' && selfId !== undefined) {
-      const qq = seg.data['qq'];
-      if (String(qq) === String(selfId)) {
+    if (seg.type === 'at') {
+      const qq = String(seg.data['qq'] ?? '');
+      // 检测 @bot 段，不将 @bot 文本加入 textParts
+      if (selfId !== undefined && qq === String(selfId)) {
         isMentionBot = true;
-        // 不将 @bot 文本加入 textParts
         continue;
       }
+
+      // @ 其他人渲染为可读的 @名称，查不到名称时回退到 QQ 号
+      const name =
+        qq === 'all'
+          ? '全体成员'
+          : String(seg.data['name'] || memberNames?.get(Number(qq)) || qq);
+      textParts.push(`@${name}`);
+      continue;
+    }
+
+    switch (seg.type) {
+      case 'reply': {
+        const id = Number(seg.data['id']);
+        if (Number.isFinite(id)) {
+          replyToId = id;
+        }
+        continue;
+      }
+      case 'forward': {
+        // 部分实现直接在段内附带转发内容，无需再调用 get_forward_msg
+        const content = seg.data['content'];
+        if (Array.isArray(content)) {
+          forwards.push(parseForwardNodes(content, selfId));
+        } else if (seg.data['id'] !== undefined) {
+          forwardIds.push(String(seg.data['id']));
+        }
+        continue;
+      }
+      case 'face':
+        textParts.push('[表情]');
+        continue;
+      case 'json':
+        textParts.push(formatCard(summarizeJsonCard(seg.data['data'])));
+        continue;
+      case 'xml':
+        textParts.push(formatCard(summarizeXmlCard(seg.data['data'])));
+        continue;
     }
 
     const attachmentType = SEGMENT_TYPE_MAP[seg.type];
@@ -145,10 +323,71 @@ function extractContent(message: string | OneBotMessageSegment[], selfId?: numbe
     text: textParts.join('').trim(),
     attachments,
     isMentionBot,
+    replyToId,
+    forwardIds,
+    forwards,
   };
 }
 
-export function normalizeMessage(event: OneBotEvent, selfId?: number): NormalizedMessage | null {
+/**
+ * 解析合并转发节点
+ *
+ * 兼容两种格式：node 段（data.user_id / data.nickname / data.content）
+ * 和消息事件（sender + message）。嵌套的合并转发不再展开，只保留标记
+ */
+export function parseForwardNodes(nodes: unknown[], selfId?: number): ForwardNode[] {
+  const result: ForwardNode[] = [];
+
+  for (const node of nodes) {
+    if (!isRecord(node)) {
+      continue;
+    }
+
+    const data = node['type'] === 'node' && isRecord(node['data']) ? node['data'] : undefined;
+    const sender = isRecord(node['sender']) ? node['sender'] : undefined;
+    const content = data ? (data['content'] ?? data['message']) : (node['message'] ?? node['content']);
+    if (typeof content !== 'string' && !Array.isArray(content)) {
+      continue;
+    }
+
+    const extracted = extractContent(content as string | OneBotMessageSegment[], selfId);
+    const nested = extracted.forwardIds.length + extracted.forwards.length > 0;
+
+    result.push({
+      userId: Number(data?.['user_id'] ?? data?.['uin'] ?? sender?.['user_id'] ?? 0),
+      nickname: String(data?.['nickname'] ?? data?.['name'] ?? sender?.['nickname'] ?? ''),
+      text: nested ? `${extracted.text} [合并转发]`.trim() : extracted.text,
+      attachments: extracted.attachments,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * 将 get_msg 结果转换为引用消息
+ */
+export function toQuotedMessage(detail: OneBotMessageDetail, selfId?: number): QuotedMessage {
+  const { text, attachments } = extractContent(detail.message, selfId);
+  return {
+    messageId: detail.message_id,
+    userId: detail.sender.user_id,
+    nickname: getDisplayName(detail.sender),
+    text,
+    attachments,
+  };
+}
+
+/**
+ * 标准化消息事件
+ *
+ * @param memberNames 预先解析的 @ 对象名称（QQ 号 → 展示名称）
+ */
+export function normalizeMessage(
+  event: OneBotEvent,
+  selfId?: number,
+  memberNames?: ReadonlyMap<number, string>
+): NormalizedMessage | null {
   if (event.post_type !== 'message') {
     return null;
   }
@@ -157,18 +396,37 @@ export function normalizeMessage(event: OneBotEvent, selfId?: number): Normalize
     return null;
   }
 
-  const { text, attachments, isMentionBot } = extractContent(event.message ?? '', selfId);
+  const { text, attachments, isMentionBot, replyToId, forwardIds, forwards } = extractContent(
+    event.message ?? '',
+    selfId,
+    memberNames
+  );
 
-  return {
+  const normalized: NormalizedMessage = {
     messageId: event.message_id,
     messageType: event.message_type,
     text,
     userId: event.user_id,
     groupId: event.group_id,
-    nickname: event.sender?.nickname ?? '',
+    nickname: event.sender ? getDisplayName(event.sender) : '',
     timestamp: new Date(event.time * 1000),
     isGroup: event.message_type === 'group',
     attachments,
     isMentionBot,
   };
+
+  if (normalized.isGroup && event.sender?.role) {
+    normalized.role = event.sender.role;
+  }
+  if (replyToId !== undefined) {
+    normalized.replyToId = replyToId;
+  }
+  if (forwardIds.length > 0) {
+    normalized.forwardIds = forwardIds;
+  }
+  if (forwards.length > 0) {
+    normalized.forwards = forwards;
+  }
+
+  return normalized;
 }
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { splitMessage } from './message-splitter.js';
+
+describe('splitMessage', () => {
+  it('should return short text as a single part', () => {
+    expect(splitMessage('你好。', 10)).toEqual(['你好。']);
+  });
+
+  it('should return no parts for blank text', () => {
+    expect(splitMessage('', 10)).toEqual([]);
+  });
+
+  it('should split at sentence boundaries', () => {
+    const parts = splitMessage('第一句话。第二句话！第三句话？', 10);
+
+    expect(parts).toEqual(['第一句话。第二句话！', '第三句话？']);
+  });
+
+  it('should keep closing quotes with the sentence', () => {
+    const parts = splitMessage('他说：“好的。”然后走了。', 8);
+
+    expect(parts).toEqual(['他说：“好的。”', '然后走了。']);
+  });
+
+  it('should split English text only at periods followed by whitespace', () => {
+    const parts = splitMessage('Version 1.5 is out. See example.com for details.', 30);
+
+    expect(parts).toEqual(['Version 1.5 is out.', 'See example.com for details.']);
+  });
+
+  it('should split at line breaks', () => {
+    const parts = splitMessage('第一行内容\n第二行内容\n第三行内容', 12);
+
+    expect(parts).toEqual(['第一行内容\n第二行内容', '第三行内容']);
+  });
+
+  it('should hard-cut sentences longer than maxLength', () => {
+    const parts = splitMessage('一二三四五六七八九十一二', 5);
+
+    expect(parts).toEqual(['一二三四五', '六七八九十', '一二']);
+  });
+
+  it('should not split surrogate pairs when hard-cutting', () => {
+    const parts = splitMessage('哈😀😀😀😀', 4);
+
+    expect(parts).toEqual(['哈😀', '😀😀', '😀']);
+    expect(parts.join('')).toBe('哈😀😀😀😀');
+  });
+});
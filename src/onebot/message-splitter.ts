@@ -0,0 +1,85 @@
+/** 句末标点（中英文），其后紧跟的右引号/右括号归入同一句 */
+const SENTENCE_TERMINATORS = new Set(['。', '！', '？', '!', '?', '；', ';', '…']);
+const CLOSING_MARKS = new Set(['”', '’', '」', '』', '）', ')', '"', "'", '】']);
+
+/**
+ * 将文本切分为句子单元（保留标点和换行）
+ */
+export function splitSentences(text: string): string[] {
+  const units: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    current += char;
+
+    const next = text[i + 1];
+    let boundary = false;
+
+    if (char === '\n') {
+      boundary = next !== '\n';
+    } else if (SENTENCE_TERMINATORS.has(char)) {
+      boundary = next === undefined || (!SENTENCE_TERMINATORS.has(next) && !CLOSING_MARKS.has(next));
+    } else if (CLOSING_MARKS.has(char) && SENTENCE_TERMINATORS.has(text[i - 1] ?? '')) {
+      boundary = next === undefined || !CLOSING_MARKS.has(next);
+    } else if (char === '.') {
+      // 英文句号需要后跟空白，避免切断小数和网址
+      boundary = next === undefined || /\s/.test(next);
+    }
+
+    if (boundary) {
+      units.push(current);
+      current = '';
+    }
+  }
+
+  if (current) {
+    units.push(current);
+  }
+
+  return units;
+}
+
+/**
+ * 将长文本切分为不超过 maxLength 的多段
+ *
+ * 优先在句子边界处切分，贪心合并相邻句子；单句超长时按长度硬切（不拆开代理对）
+ */
+export function splitMessage(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) {
+    return text.trim() ? [text] : [];
+  }
+
+  const parts: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) {
+      parts.push(current.trim());
+    }
+    current = '';
+  };
+
+  for (const unit of splitSentences(text)) {
+    if (unit.length > maxLength) {
+      flush();
+      // 按码点切分，避免把 emoji 等代理对拆成两半
+      for (const char of unit) {
+        if (current.length + char.length > maxLength) {
+          flush();
+        }
+        current += char;
+      }
+      flush();
+      continue;
+    }
+
+    if (current.length + unit.length > maxLength) {
+      flush();
+    }
+    current += unit;
+  }
+
+  flush();
+  return parts;
+}
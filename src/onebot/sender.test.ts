@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MessageSender } from './sender.js';
+import { OneBotApiError, OneBotConnectionError } from './errors.js';
+import type { SenderConfig } from '../config/schema.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function createConfig(overrides: Partial<SenderConfig> = {}): SenderConfig {
+  return {
+    maxMessageLength: 1000,
+    perTargetIntervalMs: 1000,
+    globalPerMinute: 30,
+    retry: { maxAttempts: 3, initialDelayMs: 100, maxDelayMs: 1000 },
+    streaming: { enabled: false, flushOn: 'sentence', minChars: 20 },
+    ...overrides,
+  };
+}
+
+describe('MessageSender', () => {
+  let client: { sendMessage: ReturnType<typeof vi.fn> };
+  let sentAt: number[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sentAt = [];
+    let nextId = 1;
+    client = {
+      sendMessage: vi.fn(async () => {
+        sentAt.push(Date.now());
+        return [nextId++];
+      }),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createSender(config: SenderConfig = createConfig()) {
+    return new MessageSender(client as never, config, createMockLogger() as never);
+  }
+
+  it('should split long replies and keep quote on the first part', async () => {
+    const sender = createSender(createConfig({ maxMessageLength: 10, perTargetIntervalMs: 0 }));
+
+    const messageIds = await sender.send('group', 1, {
+      text: '第一句话。第二句话！第三句话？',
+      replyTo: 42,
+      mentions: [100],
+      media: [{ type: 'image', file: 'https://example.com/a.png' }],
+    });
+
+    expect(messageIds).toEqual([1, 2]);
+    expect(client.sendMessage.mock.calls.map((call) => call[2])).toEqual([
+      { text: '第一句话。第二句话！', replyTo: 42, mentions: [100] },
+      {
+        text: '第三句话？',
+        media: [{ type: 'image', file: 'https://example.com/a.png' }],
+      },
+    ]);
+  });
+
+  it('should space messages to the same target by perTargetIntervalMs', async () => {
+    const sender = createSender();
+
+    const first = sender.send('group', 1, 'a');
+    const second = sender.send('group', 1, 'b');
+    await vi.runAllTimersAsync();
+    await Promise.all([first, second]);
+
+    expect(client.sendMessage.mock.calls.map((call) => call[2])).toEqual([
+      { text: 'a' },
+      { text: 'b' },
+    ]);
+    expect(sentAt[1]! - sentAt[0]!).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('should not delay messages to different targets', async () => {
+    const sender = createSender();
+
+    await Promise.all([sender.send('group', 1, 'a'), sender.send('group', 2, 'b')]);
+
+    expect(client.sendMessage).toHaveBeenCalledTimes(2);
+    expect(sentAt[1]).toBe(sentAt[0]);
+  });
+
+  it('should enforce the global per-minute limit', async () => {
+    const sender = createSender(createConfig({ globalPerMinute: 2, perTargetIntervalMs: 0 }));
+
+    const sends = [1, 2, 3].map((id) => sender.send('group', id, 'hi'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(client.sendMessage).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await Promise.all(sends);
+    expect(client.sendMessage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry connection errors with backoff', async () => {
+    client.sendMessage
+      .mockRejectedValueOnce(new OneBotConnectionError('disconnected'))
+      .mockRejectedValueOnce(new OneBotConnectionError('disconnected'))
+      .mockResolvedValueOnce([7]);
+    const sender = createSender();
+
+    const result = sender.send('private', 1, 'hi');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(client.sendMessage).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+
+    await expect(result).resolves.toEqual([7]);
+    expect(client.sendMessage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only retry the failed file without resending the text', async () => {
+    client.sendMessage
+      .mockResolvedValueOnce([1])
+      .mockResolvedValueOnce([2])
+      .mockRejectedValueOnce(new OneBotConnectionError('disconnected'))
+      .mockResolvedValueOnce([3]);
+    const sender = createSender(createConfig({ perTargetIntervalMs: 0 }));
+
+    const result = sender.send('group', 1, {
+      text: '报告在这里',
+      replyTo: 42,
+      media: [
+        { type: 'image', file: 'https://example.com/a.png' },
+        { type: 'file', file: 'https://example.com/a.pdf', name: 'a.pdf' },
+        { type: 'file', file: 'https://example.com/b.pdf', name: 'b.pdf' },
+      ],
+    });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual([1, 2, 3]);
+    expect(client.sendMessage.mock.calls.map((call) => call[2])).toEqual([
+      {
+        text: '报告在这里',
+        replyTo: 42,
+        media: [{ type: 'image', file: 'https://example.com/a.png' }],
+      },
+      { text: '', media: [{ type: 'file', file: 'https://example.com/a.pdf', name: 'a.pdf' }] },
+      { text: '', media: [{ type: 'file', file: 'https://example.com/b.pdf', name: 'b.pdf' }] },
+      { text: '', media: [{ type: 'file', file: 'https://example.com/b.pdf', name: 'b.pdf' }] },
+    ]);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    client.sendMessage.mockRejectedValue(new OneBotConnectionError('disconnected'));
+    const sender = createSender();
+
+    const result = sender.send('private', 1, 'hi');
+    const assertion = expect(result).rejects.toBeInstanceOf(OneBotConnectionError);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(client.sendMessage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry API errors', async () => {
+    client.sendMessage.mockRejectedValueOnce(new OneBotApiError('bad request', 100));
+    const sender = createSender();
+
+    await expect(sender.send('private', 1, 'hi')).rejects.toBeInstanceOf(OneBotApiError);
+    expect(client.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep sending to a target after a failed message', async () => {
+    client.sendMessage.mockRejectedValueOnce(new OneBotApiError('bad request', 100));
+    const sender = createSender(createConfig({ perTargetIntervalMs: 0 }));
+
+    const first = sender.send('group', 1, 'a');
+    const second = sender.send('group', 1, 'b');
+
+    await expect(first).rejects.toBeInstanceOf(OneBotApiError);
+    await expect(second).resolves.toHaveLength(1);
+  });
+});
@@ -0,0 +1,214 @@
+import type { Logger } from '../logger/logger.js';
+import type { SenderConfig } from '../config/schema.js';
+import type { OneBotClient } from './client.js';
+import { OneBotConnectionError } from './errors.js';
+import { buildMessageSegments } from './message-builder.js';
+import { splitMessage } from './message-splitter.js';
+import type { OutgoingMessage } from './types.js';
+
+/** 全局限流的统计窗口 */
+const GLOBAL_WINDOW_MS = 60_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 将回复按长度切分为多条
+ *
+ * 引用和 @ 放在第一条，图片和文件跟随最后一条
+ */
+function splitOutgoing(message: OutgoingMessage, maxLength: number): OutgoingMessage[] {
+  const texts = splitMessage(message.text, maxLength);
+  if (texts.length <= 1) {
+    return [message];
+  }
+
+  return texts.map((text, index) => {
+    const part: OutgoingMessage = { text };
+    if (index === 0) {
+      if (message.replyTo !== undefined) {
+        part.replyTo = message.replyTo;
+      }
+      if (message.mentions) {
+        part.mentions = message.mentions;
+      }
+    }
+    if (index === texts.length - 1 && message.media) {
+      part.media = message.media;
+    }
+    return part;
+  });
+}
+
+/**
+ * 将文件拆成单独的消息（与 buildMessageSegments 一致，file 段独占一条）
+ *
+ * 每条消息只对应一次 OneBot 请求，重试时不会重复发送已送达的正文或文件
+ */
+function separateFiles(message: OutgoingMessage, isGroup: boolean): OutgoingMessage[] {
+  const files = message.media?.filter((media) => media.type === 'file') ?? [];
+  if (files.length === 0) {
+    return [message];
+  }
+
+  const { media, ...rest } = message;
+  const images = media!.filter((item) => item.type === 'image');
+  const body: OutgoingMessage = images.length > 0 ? { ...rest, media: images } : rest;
+  const parts = files.map((file): OutgoingMessage => ({ text: '', media: [file] }));
+
+  // 正文为空时只发送文件
+  return buildMessageSegments(body, isGroup).length > 0 ? [body, ...parts] : parts;
+}
+
+/**
+ * 出站消息发送器
+ *
+ * 位于 App 与 OneBotClient 之间：
+ * 1. 长回复在句子边界处切分为多条，文件单独成条
+ * 2. 同一目标的消息串行发送，且相邻两条间隔不小于 perTargetIntervalMs
+ * 3. 所有目标合计每分钟不超过 globalPerMinute 条
+ * 4. OneBotConnectionError 按指数退避重试（只重试失败的那一条），其他错误直接抛出
+ */
+export class MessageSender {
+  private readonly client: OneBotClient;
+  private readonly config: SenderConfig;
+  private readonly logger: Logger;
+  /** 每个目标的发送队列尾部 */
+  private readonly tails = new Map<string, Promise<unknown>>();
+  /** 每个目标最近一次发送完成的时间 */
+  private readonly lastSentAt = new Map<string, number>();
+  /** 统计窗口内的全局发送时间戳 */
+  private readonly globalSentAt: number[] = [];
+
+  constructor(client: OneBotClient, config: SenderConfig, logger: Logger) {
+    this.client = client;
+    this.config = config;
+    this.logger = logger.child('MessageSender');
+  }
+
+  /**
+   * 发送消息，返回已发送的全部消息 ID（切分和文件会产生多条）
+   */
+  send(
+    messageType: 'private' | 'group',
+    targetId: number,
+    message: string | OutgoingMessage
+  ): Promise<number[]> {
+    const key = `${messageType}_${targetId}`;
+    const outgoing = typeof message === 'string' ? { text: message } : message;
+    const texts = splitOutgoing(outgoing, this.config.maxMessageLength);
+
+    if (texts.length > 1) {
+      this.logger.info('Splitting long message', {
+        target: key,
+        length: outgoing.text.length,
+        parts: texts.length,
+      });
+    }
+    const parts = texts.flatMap((part) => separateFiles(part, messageType === 'group'));
+
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const task = previous
+      .catch(() => undefined)
+      .then(() => this.sendParts(key, messageType, targetId, parts));
+
+    this.tails.set(key, task);
+    // 队列清空后移除，避免长期持有已结束的 Promise
+    void task
+      .catch(() => undefined)
+      .then(() => {
+        if (this.tails.get(key) === task) {
+          this.tails.delete(key);
+        }
+      });
+
+    return task;
+  }
+
+  private async sendParts(
+    key: string,
+    messageType: 'private' | 'group',
+    targetId: number,
+    parts: OutgoingMessage[]
+  ): Promise<number[]> {
+    const messageIds: number[] = [];
+
+    for (const part of parts) {
+      await this.waitForTargetSlot(key);
+      await this.acquireGlobalSlot();
+
+      try {
+        messageIds.push(...(await this.sendWithRetry(messageType, targetId, part)));
+      } finally {
+        this.lastSentAt.set(key, Date.now());
+      }
+    }
+
+    return messageIds;
+  }
+
+  /**
+   * 同一目标相邻两条消息之间保持最小间隔
+   */
+  private async waitForTargetSlot(key: string): Promise<void> {
+    const lastSentAt = this.lastSentAt.get(key);
+    if (lastSentAt === undefined) {
+      return;
+    }
+
+    const waitMs = lastSentAt + this.config.perTargetIntervalMs - Date.now();
+    if (waitMs > 0) {
+      this.logger.debug('Target rate limited, waiting', { target: key, waitMs });
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * 占用一个全局发送名额，窗口内名额用尽时等待最早的记录过期
+   */
+  private async acquireGlobalSlot(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      while (this.globalSentAt.length > 0 && this.globalSentAt[0]! <= now - GLOBAL_WINDOW_MS) {
+        this.globalSentAt.shift();
+      }
+
+      if (this.globalSentAt.length < this.config.globalPerMinute) {
+        this.globalSentAt.push(now);
+        return;
+      }
+
+      const waitMs = this.globalSentAt[0]! + GLOBAL_WINDOW_MS - now;
+      this.logger.warn('Global send rate limited, waiting', { waitMs });
+      await sleep(waitMs);
+    }
+  }
+
+  private async sendWithRetry(
+    messageType: 'private' | 'group',
+    targetId: number,
+    message: OutgoingMessage
+  ): Promise<number[]> {
+    const { maxAttempts, initialDelayMs, maxDelayMs } = this.config.retry;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.client.sendMessage(messageType, targetId, message);
+      } catch (error) {
+        if (!(error instanceof OneBotConnectionError) || attempt >= maxAttempts) {
+          throw error;
+        }
+
+        const delayMs = Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs);
+        this.logger.warn('Send failed, retrying', {
+          target: `${messageType}_${targetId}`,
+          attempt,
+          delayMs,
+          error: error.message,
+        });
+        await sleep(delayMs);
+      }
+    }
+  }
+}
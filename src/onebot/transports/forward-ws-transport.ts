@@ -0,0 +1,125 @@
+import { WebSocket } from 'ws';
+import type { Logger } from '../../logger/logger.js';
+import { WsTransportBase } from './ws-transport-base.js';
+
+export interface ForwardWsTransportConfig {
+  wsUrl: string;
+  accessToken?: string | undefined;
+  requestTimeoutMs: number;
+  reconnectIntervalMs: number;
+  maxReconnectIntervalMs: number;
+}
+
+/**
+ * 正向 WebSocket 传输
+ *
+ * Huluwa 作为客户端连接 OneBot 端的 WebSocket 服务，
+ * API 调用和事件上报共用一条连接；断开后按指数退避自动重连
+ */
+export class ForwardWsTransport extends WsTransportBase {
+  readonly kind = 'ws' as const;
+  private readonly config: ForwardWsTransportConfig;
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private stopped = true;
+
+  constructor(config: ForwardWsTransportConfig, logger: Logger) {
+    super(config.requestTimeoutMs, logger.child('ForwardWsTransport'));
+    this.config = config;
+  }
+
+  /**
+   * 发起连接，等待首次连接成功或超时（超时后继续在后台重连）
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        this.logger.warn('OneBot WebSocket not connected yet, retrying in background', {
+          wsUrl: this.config.wsUrl,
+        });
+        resolve();
+      }, this.config.requestTimeoutMs);
+
+      this.connect(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.socket) {
+      this.socket.close(1000, 'Client shutting down');
+      this.socket = null;
+    }
+  }
+
+  private connect(onOpen?: () => void): void {
+    const headers: Record<string, string> = {};
+    if (this.config.accessToken) {
+      headers['Authorization'] = `Bearer ${this.config.accessToken}`;
+    }
+
+    const socket = new WebSocket(this.config.wsUrl, { headers });
+    this.socket = socket;
+    this.listen(socket);
+
+    socket.on('open', () => {
+      this.reconnectAttempts = 0;
+      this.logger.info('OneBot WebSocket connected', { wsUrl: this.config.wsUrl });
+      this.setApiSocket(socket);
+      onOpen?.();
+    });
+
+    socket.on('close', (code) => {
+      this.releaseApiSocket(socket, `OneBot WebSocket closed (code ${code})`);
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+
+      if (!this.stopped) {
+        this.logger.warn('OneBot WebSocket disconnected', { code });
+        this.scheduleReconnect(onOpen);
+      }
+    });
+
+    socket.on('error', (error) => {
+      // close 事件随后触发，由其负责重连
+      this.logger.error('OneBot WebSocket error', { error: error.message });
+    });
+  }
+
+  private scheduleReconnect(onOpen?: () => void): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(
+      this.config.reconnectIntervalMs * 2 ** this.reconnectAttempts,
+      this.config.maxReconnectIntervalMs
+    );
+    this.reconnectAttempts++;
+
+    this.logger.info('Scheduling reconnect', {
+      attempt: this.reconnectAttempts,
+      delayMs: delay,
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) {
+        this.connect(onOpen);
+      }
+    }, delay);
+  }
+}
@@ -0,0 +1,118 @@
+import type { Logger } from '../../logger/logger.js';
+import type { HttpServer } from '../../server/server.js';
+import { OneBotConnectionError } from '../errors.js';
+import type { OneBotApiResponse, OneBotEvent } from '../types.js';
+import type {
+  OneBotTransport,
+  OneBotEventListener,
+  OneBotConnectListener,
+} from './types.js';
+
+export interface HttpTransportConfig {
+  httpUrl: string;
+  accessToken?: string | undefined;
+  webhookPath: string;
+  requestTimeoutMs: number;
+}
+
+/**
+ * HTTP 传输
+ *
+ * - API：POST {httpUrl}/{action}
+ * - 事件：OneBot 端 HTTP POST 上报到 webhookPath
+ */
+export class HttpTransport implements OneBotTransport {
+  readonly kind = 'http' as const;
+  private readonly httpUrl: string;
+  private readonly accessToken: string | undefined;
+  private readonly requestTimeoutMs: number;
+  private readonly logger: Logger;
+  private eventListener: OneBotEventListener | null = null;
+
+  constructor(config: HttpTransportConfig, server: HttpServer, logger: Logger) {
+    this.httpUrl = config.httpUrl.replace(/\/$/, '');
+    this.accessToken = config.accessToken;
+    this.requestTimeoutMs = config.requestTimeoutMs;
+    this.logger = logger.child('HttpTransport');
+
+    this.setupWebhookRoute(server, config.webhookPath);
+  }
+
+  async call<T>(
+    action: string,
+    params: Record<string, unknown>
+  ): Promise<OneBotApiResponse<T>> {
+    const url = `${this.httpUrl}/${action}`;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    if (this.accessToken) {
+      headers['Authorization'] = `Bearer ${this.accessToken}`;
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(params),
+        signal: AbortSignal.timeout(this.requestTimeoutMs),
+      });
+
+      return (await response.json()) as OneBotApiResponse<T>;
+    } catch (error) {
+      if (error instanceof TypeError && error.message.includes('fetch')) {
+        throw new OneBotConnectionError(
+          `Failed to connect to OneBot at ${this.httpUrl}`,
+          error
+        );
+      }
+
+      throw new OneBotConnectionError(
+        `Request to OneBot failed: ${error instanceof Error ? error.message : String(error)}`,
+        error
+      );
+    }
+  }
+
+  onEvent(listener: OneBotEventListener): void {
+    this.eventListener = listener;
+  }
+
+  /** HTTP 无状态，没有连接事件 */
+  onConnect(_listener: OneBotConnectListener): void {}
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  async start(): Promise<void> {
+    this.logger.info('HTTP transport ready', { httpUrl: this.httpUrl });
+  }
+
+  async stop(): Promise<void> {}
+
+  private setupWebhookRoute(server: HttpServer, webhookPath: string): void {
+    server.addRoute(webhookPath, async (req, res, body) => {
+      if (req.method !== 'POST') {
+        res.writeHead(405, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Method not allowed' }));
+        return;
+      }
+
+      try {
+        const event = JSON.parse(body) as OneBotEvent;
+        await this.eventListener?.(event);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok' }));
+      } catch (error) {
+        this.logger.error('Failed to process webhook', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid payload' }));
+      }
+    });
+  }
+}
@@ -0,0 +1,71 @@
+import type { Logger } from '../../logger/logger.js';
+import type { HttpServer } from '../../server/server.js';
+import type { OneBotConfig } from '../../config/schema.js';
+import { HttpTransport } from './http-transport.js';
+import { ForwardWsTransport } from './forward-ws-transport.js';
+import { ReverseWsTransport } from './reverse-ws-transport.js';
+import type { OneBotTransport } from './types.js';
+
+/**
+ * 根据配置创建 OneBot 传输
+ *
+ * HTTP webhook 路由和反向 WS 升级路径会注册到 server 上，需在 server 启动前调用
+ */
+export function createTransport(
+  config: OneBotConfig,
+  server: HttpServer,
+  logger: Logger
+): OneBotTransport {
+  switch (config.transport) {
+    case 'http':
+      // schema 保证 http 模式下 httpUrl 存在
+      return new HttpTransport(
+        {
+          httpUrl: config.httpUrl!,
+          accessToken: config.accessToken,
+          webhookPath: config.webhookPath,
+          requestTimeoutMs: config.requestTimeoutMs,
+        },
+        server,
+        logger
+      );
+    case 'ws':
+      return new ForwardWsTransport(
+        {
+          wsUrl: config.wsUrl!,
+          accessToken: config.accessToken,
+          requestTimeoutMs: config.requestTimeoutMs,
+          reconnectIntervalMs: config.reconnectIntervalMs,
+          maxReconnectIntervalMs: config.maxReconnectIntervalMs,
+        },
+        logger
+      );
+    case 'reverse-ws':
+      return new ReverseWsTransport(
+        {
+          path: config.reverseWsPath,
+          accessToken: config.accessToken,
+          requestTimeoutMs: config.requestTimeoutMs,
+        },
+        server,
+        logger
+      );
+  }
+}
+
+export { HttpTransport, type HttpTransportConfig } from './http-transport.js';
+export {
+  ForwardWsTransport,
+  type ForwardWsTransportConfig,
+} from './forward-ws-transport.js';
+export {
+  ReverseWsTransport,
+  type ReverseWsTransportConfig,
+} from './reverse-ws-transport.js';
+export { WsTransportBase } from './ws-transport-base.js';
+export type {
+  OneBotTransport,
+  OneBotTransportKind,
+  OneBotEventListener,
+  OneBotConnectListener,
+} from './types.js';
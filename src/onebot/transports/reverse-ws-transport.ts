@@ -0,0 +1,116 @@
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { Logger } from '../../logger/logger.js';
+import type { HttpServer } from '../../server/server.js';
+import { WsTransportBase } from './ws-transport-base.js';
+
+export interface ReverseWsTransportConfig {
+  path: string;
+  accessToken?: string | undefined;
+  requestTimeoutMs: number;
+}
+
+/** OneBot 反向 WS 客户端角色（X-Client-Role） */
+type ClientRole = 'Universal' | 'API' | 'Event';
+
+/**
+ * 反向 WebSocket 传输
+ *
+ * OneBot 端作为客户端连接到 Huluwa 的 path；
+ * Universal / API 连接用于 API 调用，Universal / Event 连接用于事件上报。
+ * 断线重连由 OneBot 端负责，新连接会替换旧的 API 连接
+ */
+export class ReverseWsTransport extends WsTransportBase {
+  readonly kind = 'reverse-ws' as const;
+  private readonly config: ReverseWsTransportConfig;
+  private readonly wss: WebSocketServer;
+  private readonly clients = new Set<WebSocket>();
+
+  constructor(config: ReverseWsTransportConfig, server: HttpServer, logger: Logger) {
+    super(config.requestTimeoutMs, logger.child('ReverseWsTransport'));
+    this.config = config;
+    this.wss = new WebSocketServer({ noServer: true });
+
+    server.onUpgradePath(config.path, (req, socket, head) => {
+      this.handleUpgrade(req, socket, head);
+    });
+  }
+
+  async start(): Promise<void> {
+    this.logger.info('Waiting for OneBot reverse WebSocket connection', {
+      path: this.config.path,
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const client of this.clients) {
+      client.close(1000, 'Server shutting down');
+    }
+    this.clients.clear();
+    this.wss.close();
+  }
+
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    if (!this.isAuthorized(req)) {
+      this.logger.warn('Rejected reverse WebSocket connection: invalid access token', {
+        ip: req.socket.remoteAddress ?? 'unknown',
+      });
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    const role = this.parseRole(req);
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      this.clients.add(ws);
+      this.logger.info('OneBot reverse WebSocket connected', {
+        role,
+        selfId: req.headers['x-self-id'],
+      });
+
+      this.listen(ws);
+      if (role !== 'Event') {
+        this.setApiSocket(ws);
+      }
+
+      ws.on('close', (code) => {
+        this.clients.delete(ws);
+        this.releaseApiSocket(ws, `OneBot reverse WebSocket closed (code ${code})`);
+        this.logger.warn('OneBot reverse WebSocket disconnected', { role, code });
+      });
+
+      ws.on('error', (error) => {
+        this.logger.error('OneBot reverse WebSocket error', { role, error: error.message });
+      });
+    });
+  }
+
+  /**
+   * 校验 access token（Authorization 头或 access_token 查询参数）
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.config.accessToken) {
+      return true;
+    }
+
+    const authorization = req.headers['authorization'];
+    if (authorization) {
+      const token = authorization.replace(/^(Bearer|Token)\s+/i, '');
+      return token === this.config.accessToken;
+    }
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    return url.searchParams.get('access_token') === this.config.accessToken;
+  }
+
+  private parseRole(req: IncomingMessage): ClientRole {
+    const header = req.headers['x-client-role'];
+    const role = Array.isArray(header) ? header[0] : header;
+    if (role === 'API' || role === 'Event') {
+      return role;
+    }
+    return 'Universal';
+  }
+}
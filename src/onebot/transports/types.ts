@@ -0,0 +1,33 @@
+import type { OneBotApiResponse, OneBotEvent } from '../types.js';
+
+export type OneBotTransportKind = 'http' | 'ws' | 'reverse-ws';
+
+export type OneBotEventListener = (event: OneBotEvent) => Promise<void>;
+
+export type OneBotConnectListener = () => void;
+
+/**
+ * OneBot 传输层
+ *
+ * 负责 API 调用（action → 响应）和事件上报两个方向，
+ * OneBotClient 和 WebhookHandler 只依赖此接口，不关心底层协议
+ */
+export interface OneBotTransport {
+  readonly kind: OneBotTransportKind;
+
+  /** 调用 OneBot API，连接失败或超时时抛出 OneBotConnectionError */
+  call<T>(action: string, params: Record<string, unknown>): Promise<OneBotApiResponse<T>>;
+
+  /** 注册事件回调 */
+  onEvent(listener: OneBotEventListener): void;
+
+  /** 注册连接（重连）成功回调 */
+  onConnect(listener: OneBotConnectListener): void;
+
+  /** 当前是否可以调用 API */
+  isConnected(): boolean;
+
+  start(): Promise<void>;
+
+  stop(): Promise<void>;
+}
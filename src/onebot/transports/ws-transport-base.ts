@@ -0,0 +1,170 @@
+import { WebSocket } from 'ws';
+import type { Logger } from '../../logger/logger.js';
+import { OneBotConnectionError } from '../errors.js';
+import type { OneBotApiResponse, OneBotEvent } from '../types.js';
+import type {
+  OneBotTransport,
+  OneBotTransportKind,
+  OneBotEventListener,
+  OneBotConnectListener,
+} from './types.js';
+
+interface PendingRequest {
+  action: string;
+  resolve: (response: OneBotApiResponse<unknown>) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * WebSocket 传输公共逻辑
+ *
+ * - API 请求带 echo 字段发送，收到相同 echo 的响应时 resolve
+ * - 不带 echo 且含 post_type 的帧视为事件
+ * - 连接断开时所有未完成请求立即失败
+ *
+ * 子类负责建立连接，并通过 listen / setApiSocket 交给基类
+ */
+export abstract class WsTransportBase implements OneBotTransport {
+  abstract readonly kind: OneBotTransportKind;
+  protected readonly logger: Logger;
+  private readonly requestTimeoutMs: number;
+  private readonly pending = new Map<string, PendingRequest>();
+  private apiSocket: WebSocket | null = null;
+  private eventListener: OneBotEventListener | null = null;
+  private connectListener: OneBotConnectListener | null = null;
+  private echoCounter = 0;
+
+  constructor(requestTimeoutMs: number, logger: Logger) {
+    this.requestTimeoutMs = requestTimeoutMs;
+    this.logger = logger;
+  }
+
+  abstract start(): Promise<void>;
+
+  abstract stop(): Promise<void>;
+
+  async call<T>(
+    action: string,
+    params: Record<string, unknown>
+  ): Promise<OneBotApiResponse<T>> {
+    const socket = this.apiSocket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      throw new OneBotConnectionError(
+        `OneBot WebSocket is not connected, cannot call "${action}"`
+      );
+    }
+
+    const echo = `${Date.now()}-${++this.echoCounter}`;
+
+    return new Promise<OneBotApiResponse<T>>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(echo);
+        reject(
+          new OneBotConnectionError(
+            `Request "${action}" timed out after ${this.requestTimeoutMs}ms`
+          )
+        );
+      }, this.requestTimeoutMs);
+
+      this.pending.set(echo, {
+        action,
+        resolve: resolve as (response: OneBotApiResponse<unknown>) => void,
+        reject,
+        timer,
+      });
+
+      socket.send(JSON.stringify({ action, params, echo }), (error) => {
+        if (error) {
+          this.settle(echo)?.reject(
+            new OneBotConnectionError(`Failed to send "${action}": ${error.message}`, error)
+          );
+        }
+      });
+    });
+  }
+
+  onEvent(listener: OneBotEventListener): void {
+    this.eventListener = listener;
+  }
+
+  onConnect(listener: OneBotConnectListener): void {
+    this.connectListener = listener;
+  }
+
+  isConnected(): boolean {
+    return this.apiSocket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * 监听 socket 上的帧（响应和事件）
+   */
+  protected listen(socket: WebSocket): void {
+    socket.on('message', (data) => {
+      this.handleFrame(data.toString());
+    });
+  }
+
+  /**
+   * 设置用于 API 调用的 socket，并通知连接成功
+   */
+  protected setApiSocket(socket: WebSocket): void {
+    this.apiSocket = socket;
+    this.connectListener?.();
+  }
+
+  /**
+   * API socket 断开：清除引用并让未完成的请求失败
+   */
+  protected releaseApiSocket(socket: WebSocket, reason: string): void {
+    if (this.apiSocket !== socket) {
+      return;
+    }
+
+    this.apiSocket = null;
+    for (const echo of Array.from(this.pending.keys())) {
+      this.settle(echo)?.reject(new OneBotConnectionError(reason));
+    }
+  }
+
+  private settle(echo: string): PendingRequest | undefined {
+    const request = this.pending.get(echo);
+    if (request) {
+      clearTimeout(request.timer);
+      this.pending.delete(echo);
+    }
+    return request;
+  }
+
+  private handleFrame(raw: string): void {
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(raw) as Record<string, unknown>;
+    } catch {
+      this.logger.warn('Received invalid frame', { preview: raw.substring(0, 100) });
+      return;
+    }
+
+    if (payload['echo'] !== undefined && payload['echo'] !== null) {
+      const request = this.settle(String(payload['echo']));
+      if (request) {
+        request.resolve(payload as unknown as OneBotApiResponse<unknown>);
+      } else {
+        this.logger.debug('Received response for unknown echo', {
+          echo: payload['echo'],
+        });
+      }
+      return;
+    }
+
+    if (typeof payload['post_type'] === 'string') {
+      const event = payload as unknown as OneBotEvent;
+      this.eventListener?.(event).catch((error: unknown) => {
+        this.logger.error('Event listener error', {
+          postType: event.post_type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }
+}
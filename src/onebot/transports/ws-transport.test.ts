@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { AddressInfo } from 'node:net';
+import { ForwardWsTransport } from './forward-ws-transport.js';
+import { ReverseWsTransport } from './reverse-ws-transport.js';
+import { HttpServer } from '../../server/server.js';
+import { OneBotConnectionError } from '../errors.js';
+import type { OneBotEvent } from '../types.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+/** 模拟 OneBot 端：对每个 action 回复 { status: 'ok', data: { action } } */
+function startFakeOneBot(): Promise<{ wss: WebSocketServer; url: string }> {
+  return new Promise((resolve) => {
+    const wss = new WebSocketServer({ port: 0, host: '127.0.0.1' }, () => {
+      const { port } = wss.address() as AddressInfo;
+      resolve({ wss, url: `ws://127.0.0.1:${port}` });
+    });
+
+    wss.on('connection', (ws) => {
+      ws.on('message', (data) => {
+        const request = JSON.parse(data.toString()) as {
+          action: string;
+          echo: string;
+        };
+        if (request.action === 'no_reply') {
+          return;
+        }
+        ws.send(
+          JSON.stringify({
+            status: 'ok',
+            retcode: 0,
+            data: { action: request.action },
+            echo: request.echo,
+          })
+        );
+      });
+    });
+  });
+}
+
+function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const startTime = Date.now();
+    const check = () => {
+      if (condition()) {
+        resolve();
+      } else if (Date.now() - startTime > timeoutMs) {
+        reject(new Error('waitFor timed out'));
+      } else {
+        setTimeout(check, 10);
+      }
+    };
+    check();
+  });
+}
+
+function closeServer(wss: WebSocketServer): Promise<void> {
+  for (const client of wss.clients) {
+    client.terminate();
+  }
+  return new Promise((resolve) => wss.close(() => resolve()));
+}
+
+describe('ForwardWsTransport', () => {
+  let wss: WebSocketServer | null = null;
+  let transport: ForwardWsTransport | null = null;
+
+  afterEach(async () => {
+    await transport?.stop();
+    if (wss) {
+      await closeServer(wss);
+    }
+    transport = null;
+    wss = null;
+  });
+
+  function createTransport(url: string, overrides: { requestTimeoutMs?: number } = {}) {
+    return new ForwardWsTransport(
+      {
+        wsUrl: url,
+        requestTimeoutMs: overrides.requestTimeoutMs ?? 2000,
+        reconnectIntervalMs: 50,
+        maxReconnectIntervalMs: 200,
+      },
+      createMockLogger() as never
+    );
+  }
+
+  it('should match responses to requests by echo', async () => {
+    const server = await startFakeOneBot();
+    wss = server.wss;
+    transport = createTransport(server.url);
+    await transport.start();
+
+    const [a, b] = await Promise.all([
+      transport.call<{ action: string }>('get_login_info', {}),
+      transport.call<{ action: string }>('get_group_info', { group_id: 1 }),
+    ]);
+
+    expect(a.data.action).toBe('get_login_info');
+    expect(b.data.action).toBe('get_group_info');
+  });
+
+  it('should dispatch frames with post_type as events', async () => {
+    const server = await startFakeOneBot();
+    wss = server.wss;
+    transport = createTransport(server.url);
+
+    const events: OneBotEvent[] = [];
+    transport.onEvent(async (event) => {
+      events.push(event);
+    });
+    await transport.start();
+
+    for (const client of wss.clients) {
+      client.send(JSON.stringify({ time: 1, self_id: 100, post_type: 'message' }));
+    }
+
+    await waitFor(() => events.length === 1);
+    expect(events[0]!.post_type).toBe('message');
+  });
+
+  it('should reject calls when not connected', async () => {
+    transport = createTransport('ws://127.0.0.1:1', { requestTimeoutMs: 1000 });
+
+    await expect(transport.call('get_login_info', {})).rejects.toBeInstanceOf(
+      OneBotConnectionError
+    );
+  });
+
+  it('should time out requests without response', async () => {
+    const server = await startFakeOneBot();
+    wss = server.wss;
+    transport = createTransport(server.url, { requestTimeoutMs: 1000 });
+    await transport.start();
+
+    await expect(transport.call('no_reply', {})).rejects.toThrow('timed out');
+  });
+
+  it('should reconnect after the connection drops', async () => {
+    const server = await startFakeOneBot();
+    wss = server.wss;
+    transport = createTransport(server.url);
+
+    const onConnect = vi.fn();
+    transport.onConnect(onConnect);
+    await transport.start();
+    expect(onConnect).toHaveBeenCalledTimes(1);
+
+    for (const client of wss.clients) {
+      client.terminate();
+    }
+
+    await waitFor(() => onConnect.mock.calls.length === 2);
+    expect(transport.isConnected()).toBe(true);
+  });
+});
+
+describe('ReverseWsTransport', () => {
+  let server: HttpServer | null = null;
+  let transport: ReverseWsTransport | null = null;
+  const sockets: WebSocket[] = [];
+
+  afterEach(async () => {
+    for (const ws of sockets) {
+      ws.terminate();
+    }
+    sockets.length = 0;
+    await transport?.stop();
+    await server?.stop();
+    transport = null;
+    server = null;
+  });
+
+  async function setup(accessToken?: string): Promise<string> {
+    server = new HttpServer({ port: 0, host: '127.0.0.1' }, createMockLogger() as never);
+    transport = new ReverseWsTransport(
+      { path: '/onebot/ws', accessToken, requestTimeoutMs: 2000 },
+      server,
+      createMockLogger() as never
+    );
+    await server.start();
+    await transport.start();
+    const { port } = server.getServer()!.address() as AddressInfo;
+    return `ws://127.0.0.1:${port}/onebot/ws`;
+  }
+
+  /** 以 OneBot 端身份连接，并对 API 请求回显 action */
+  function connectClient(
+    url: string,
+    headers: Record<string, string> = {}
+  ): Promise<WebSocket> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url, { headers });
+      sockets.push(ws);
+      ws.on('message', (data) => {
+        const request = JSON.parse(data.toString()) as { action: string; echo: string };
+        ws.send(
+          JSON.stringify({
+            status: 'ok',
+            retcode: 0,
+            data: { action: request.action },
+            echo: request.echo,
+          })
+        );
+      });
+      ws.on('open', () => resolve(ws));
+      ws.on('error', reject);
+    });
+  }
+
+  it('should use universal connection for API calls', async () => {
+    const url = await setup();
+    await connectClient(url);
+    await waitFor(() => transport!.isConnected());
+
+    const response = await transport!.call<{ action: string }>('get_login_info', {});
+    expect(response.data.action).toBe('get_login_info');
+  });
+
+  it('should not use event-only connection for API calls', async () => {
+    const url = await setup();
+    await connectClient(url, { 'X-Client-Role': 'Event' });
+
+    expect(transport!.isConnected()).toBe(false);
+  });
+
+  it('should reject connections with invalid access token', async () => {
+    const url = await setup('secret');
+
+    await expect(
+      connectClient(url, { Authorization: 'Bearer wrong' })
+    ).rejects.toThrow();
+
+    await connectClient(url, { Authorization: 'Bearer secret' });
+    await waitFor(() => transport!.isConnected());
+  });
+});
@@ -1,12 +1,15 @@
 // OneBot 11 协议类型定义
 
+/** 群成员身份 */
+export type GroupRole = 'owner' | 'admin' | 'member';
+
 export interface OneBotSender {
   user_id: number;
   nickname: string;
   card?: string;
   sex?: 'male' | 'female' | 'unknown';
   age?: number;
-  role?: 'owner' | 'admin' | 'member';
+  role?: GroupRole;
 }
 
 export interface OneBotMessage {
@@ -41,8 +44,98 @@ export interface OneBotEvent {
   message?: string | OneBotMessageSegment[];
   raw_message?: string;
   sender?: OneBotSender;
+  notice_type?: string;
+  request_type?: string;
+  operator_id?: number;
+  target_id?: number;
+  comment?: string;
+  flag?: string;
+}
+
+// 通知事件（post_type = notice）
+
+interface OneBotNoticeEventBase {
+  time: number;
+  self_id: number;
+  post_type: 'notice';
+}
+
+/** 群成员增加 */
+export interface GroupIncreaseNoticeEvent extends OneBotNoticeEventBase {
+  notice_type: 'group_increase';
+  sub_type: 'approve' | 'invite';
+  group_id: number;
+  operator_id: number;
+  user_id: number;
+}
+
+/** 群成员减少 */
+export interface GroupDecreaseNoticeEvent extends OneBotNoticeEventBase {
+  notice_type: 'group_decrease';
+  sub_type: 'leave' | 'kick' | 'kick_me';
+  group_id: number;
+  operator_id: number;
+  user_id: number;
+}
+
+/** 群消息撤回 */
+export interface GroupRecallNoticeEvent extends OneBotNoticeEventBase {
+  notice_type: 'group_recall';
+  group_id: number;
+  user_id: number;
+  operator_id: number;
+  message_id: number;
+}
+
+/** 好友消息撤回 */
+export interface FriendRecallNoticeEvent extends OneBotNoticeEventBase {
+  notice_type: 'friend_recall';
+  user_id: number;
+  message_id: number;
+}
+
+/** 戳一戳（group_id 缺省表示私聊） */
+export interface PokeNoticeEvent extends OneBotNoticeEventBase {
+  notice_type: 'notify';
+  sub_type: 'poke';
+  group_id?: number;
+  user_id: number;
+  target_id: number;
+}
+
+export type OneBotNoticeEvent =
+  | GroupIncreaseNoticeEvent
+  | GroupDecreaseNoticeEvent
+  | GroupRecallNoticeEvent
+  | FriendRecallNoticeEvent
+  | PokeNoticeEvent;
+
+// 请求事件（post_type = request）
+
+interface OneBotRequestEventBase {
+  time: number;
+  self_id: number;
+  post_type: 'request';
+  user_id: number;
+  comment: string;
+  /** 处理请求时需要回传的标识 */
+  flag: string;
 }
 
+/** 加好友请求 */
+export interface FriendRequestEvent extends OneBotRequestEventBase {
+  request_type: 'friend';
+}
+
+/** 加群请求（add）/ 邀请 bot 入群（invite） */
+export interface GroupRequestEvent extends OneBotRequestEventBase {
+  request_type: 'group';
+  sub_type: 'add' | 'invite';
+  group_id: number;
+}
+
+export type OneBotRequestEvent = FriendRequestEvent | GroupRequestEvent;
+
 export interface OneBotApiResponse<T = unknown> {
   status: 'ok' | 'async' | 'failed';
   retcode: number;
@@ -60,6 +153,35 @@ export interface OneBotLoginInfo {
   nickname: string;
 }
 
+/** get_msg 返回的消息详情 */
+export interface OneBotMessageDetail {
+  time: number;
+  message_type: 'private' | 'group';
+  message_id: number;
+  real_id?: number;
+  sender: OneBotSender;
+  message: string | OneBotMessageSegment[];
+}
+
+/**
+ * get_forward_msg 返回结果
+ *
+ * 节点格式因实现而异：node 段（data.content）或消息事件（sender + message）
+ */
+export interface OneBotForwardMessage {
+  messages: unknown[];
+}
+
+/** get_group_member_info / get_group_member_list 返回的成员信息 */
+export interface OneBotGroupMemberInfo {
+  group_id: number;
+  user_id: number;
+  nickname: string;
+  /** 群名片，未设置时为空字符串 */
+  card: string;
+  role: GroupRole;
+}
+
 export interface OneBotGroupInfo {
   group_id: number;
   group_name: string;
@@ -78,4 +200,48 @@ export interface Attachment {
   mimeType: string;
   /** 下载后填充，base64 编码的文件内容 */
   base64Data?: string;
+  /** 内容的 sha256，附件存储中的键（下载后填充，可在记忆中再次引用） */
+  contentHash?: string;
+  /** 文件大小（字节，下载后填充） */
+  size?: number;
+  /** 语音转写文本（audio 类型或视频音轨，聚合前填充） */
+  transcript?: string;
+  /** 视频抽取的画面帧，base64 编码的 JPEG（video 类型，聚合前填充） */
+  frames?: string[];
+  /** 视频时长（秒） */
+  durationSeconds?: number;
+  /** 视频画面的文字描述（供不支持图片的模型使用） */
+  description?: string;
+  /** 从文档中提取的文本，按长度分段，超出文本预算的段落被丢弃（file 类型，下载后填充） */
+  textChunks?: string[];
+  /** 文档分段总数，大于 textChunks 长度时表示内容被截断 */
+  totalChunks?: number;
+}
+
+// 发送消息结构
+
+export type OutgoingMediaType = 'image' | 'file';
+
+export interface OutgoingMedia {
+  type: OutgoingMediaType;
+  /** 文件来源：http(s) URL、file:// 路径或 base64:// 数据 */
+  file: string;
+  /** 文件名（file 类型展示给用户） */
+  name?: string;
+}
+
+/**
+ * 结构化回复
+ *
+ * 发送时映射为 OneBot 消息段：reply → at → text → image，
+ * 文件在正文之后逐个单独发送
+ */
+export interface OutgoingMessage {
+  text: string;
+  /** 引用回复的消息 ID */
+  replyTo?: number;
+  /** 需要 @ 的用户 QQ 号（仅群聊生效） */
+  mentions?: number[];
+  /** 附带的图片或文件 */
+  media?: OutgoingMedia[];
 }
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { WebhookHandler } from './webhook.js';
+import type { OneBotEvent, OneBotMessageSegment } from './types.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function createEvent(messageId: number, message: OneBotMessageSegment[]): OneBotEvent {
+  return {
+    time: 1700000000,
+    self_id: 10000,
+    post_type: 'message',
+    message_type: 'group',
+    message_id: messageId,
+    user_id: 12345,
+    group_id: 100,
+    message,
+    sender: { user_id: 12345, nickname: 'Alice' },
+  };
+}
+
+describe('WebhookHandler', () => {
+  it('should keep arrival order while resolving member names', async () => {
+    let resolveLookup: (names: Map<number, string>) => void = () => {};
+    const memberCache = {
+      observe: vi.fn(),
+      get: vi.fn(() => undefined),
+      resolveNames: vi.fn(
+        () => new Promise<Map<number, string>>((resolve) => (resolveLookup = resolve))
+      ),
+    };
+    const handler = new WebhookHandler(
+      { targets: [{ type: 'group', id: 100 }], selfId: 10000, memberCache: memberCache as never },
+      createMockLogger() as never
+    );
+    const received: number[] = [];
+    handler.onMessage(async (message) => {
+      received.push(message.messageId);
+    });
+
+    // 第一条需要查询 @ 对象名称，第二条不需要
+    const first = handler.handleEvent(
+      createEvent(1, [
+        { type: 'at', data: { qq: '222' } },
+        { type: 'text', data: { text: ' 你好' } },
+      ])
+    );
+    const second = handler.handleEvent(createEvent(2, [{ type: 'text', data: { text: '在吗' } }]));
+    await vi.waitFor(() => expect(memberCache.resolveNames).toHaveBeenCalled());
+    expect(received).toEqual([]);
+
+    resolveLookup(new Map([[222, '小B']]));
+    await Promise.all([first, second]);
+
+    expect(received).toEqual([1, 2]);
+  });
+
+  it('should not hold up other sessions', async () => {
+    const memberCache = {
+      observe: vi.fn(),
+      get: vi.fn(() => undefined),
+      resolveNames: vi.fn(() => new Promise<Map<number, string>>(() => {})),
+    };
+    const handler = new WebhookHandler(
+      {
+        targets: [
+          { type: 'group', id: 100 },
+          { type: 'group', id: 200 },
+        ],
+        selfId: 10000,
+        memberCache: memberCache as never,
+      },
+      createMockLogger() as never
+    );
+    const received: number[] = [];
+    handler.onMessage(async (message) => {
+      received.push(message.messageId);
+    });
+
+    void handler.handleEvent(createEvent(1, [{ type: 'at', data: { qq: '222' } }]));
+    await handler.handleEvent({
+      ...createEvent(2, [{ type: 'text', data: { text: '在吗' } }]),
+      group_id: 200,
+    });
+
+    expect(received).toEqual([2]);
+  });
+
+  it('should drop pokes from denied users', async () => {
+    const access = { checkUser: vi.fn(() => ({ allowed: false })) };
+    const handler = new WebhookHandler(
+      { targets: [{ type: 'group', id: 100 }], selfId: 10000, access: access as never },
+      createMockLogger() as never
+    );
+    const noticeHandler = vi.fn(async () => {});
+    handler.onNotice(noticeHandler);
+
+    await handler.handleEvent({
+      time: 1,
+      self_id: 10000,
+      post_type: 'notice',
+      notice_type: 'notify',
+      sub_type: 'poke',
+      group_id: 100,
+      user_id: 12345,
+      target_id: 10000,
+    } as OneBotEvent);
+
+    expect(access.checkUser).toHaveBeenCalledWith({ userId: 12345, groupId: 100 });
+    expect(noticeHandler).not.toHaveBeenCalled();
+  });
+});
@@ -1,26 +1,49 @@
 import type { Logger } from '../logger/logger.js';
-import { normalizeMessage, type NormalizedMessage } from './message-normalizer.js';
-import type { OneBotEvent } from './types.js';
+import type { AccessControl } from '../acl/index.js';
+import {
+  normalizeMessage,
+  getMentionedUserIds,
+  type NormalizedMessage,
+} from './message-normalizer.js';
+import type { GroupMemberCache } from './member-cache.js';
+import { parseNoticeEvent, parseRequestEvent } from './events.js';
+import type { OneBotEvent, OneBotNoticeEvent, OneBotRequestEvent } from './types.js';
 
 export type MessageHandler = (message: NormalizedMessage) => Promise<void>;
+export type NoticeHandler = (event: OneBotNoticeEvent) => Promise<void>;
+export type RequestHandler = (event: OneBotRequestEvent) => Promise<void>;
+
+export interface WebhookTarget {
+  type: 'private' | 'group';
+  id: number;
+}
 
 export interface WebhookHandlerConfig {
-  targetType: 'private' | 'group';
-  targetId: number;
+  targets: WebhookTarget[];
   selfId?: number;
+  /** 群成员缓存，用于解析 @ 对象名称和补全发送者身份 */
+  memberCache?: GroupMemberCache;
+  /** 访问控制，名单外的用户的消息直接丢弃 */
+  access?: AccessControl;
 }
 
 export class WebhookHandler {
   private readonly logger: Logger;
-  private readonly targetType: 'private' | 'group';
-  private readonly targetId: number;
+  private readonly targets: WebhookTarget[];
+  private readonly memberCache: GroupMemberCache | undefined;
+  private readonly access: AccessControl | undefined;
   private selfId: number | undefined;
   private messageHandler: MessageHandler | null = null;
+  private noticeHandler: NoticeHandler | null = null;
+  private requestHandler: RequestHandler | null = null;
+  /** 每个会话中尚未完成预处理的最后一条消息，用于保持到达顺序 */
+  private readonly pendingBySession = new Map<string, Promise<unknown>>();
 
   constructor(config: WebhookHandlerConfig, logger: Logger) {
-    this.targetType = config.targetType;
-    this.targetId = config.targetId;
+    this.targets = config.targets;
     this.selfId = config.selfId;
+    this.memberCache = config.memberCache;
+    this.access = config.access;
     this.logger = logger.child('WebhookHandler');
   }
 
@@ -32,9 +55,32 @@ export class WebhookHandler {
     this.messageHandler = handler;
   }
 
+  onNotice(handler: NoticeHandler): void {
+    this.noticeHandler = handler;
+  }
+
+  onRequest(handler: RequestHandler): void {
+    this.requestHandler = handler;
+  }
+
   async handleEvent(event: OneBotEvent): Promise<void> {
     this.logger.debug('Received event', { postType: event.post_type });
 
+    // 反向 WS 等场景下事件可能先于 get_login_info 到达
+    if (this.selfId === undefined && event.self_id) {
+      this.selfId = event.self_id;
+    }
+
+    if (event.post_type === 'notice') {
+      await this.handleNotice(event);
+      return;
+    }
+
+    if (event.post_type === 'request') {
+      await this.handleRequest(event);
+      return;
+    }
+
     if (event.post_type !== 'message') {
       this.logger.debug('Ignoring non-message event', { postType: event.post_type });
       return;
@@ -47,27 +93,28 @@ export class WebhookHandler {
     }
 
     // 过滤非目标聊天的消息
-    if (this.targetType === 'group') {
-      if (event.message_type !== 'group' || event.group_id !== this.targetId) {
-        this.logger.debug('Ignoring message from non-target group', {
-          messageType: event.message_type,
-          groupId: event.group_id,
-          targetGroupId: this.targetId,
-        });
-        return;
-      }
-    } else {
-      if (event.message_type !== 'private' || event.user_id !== this.targetId) {
-        this.logger.debug('Ignoring message from non-target user', {
-          messageType: event.message_type,
-          userId: event.user_id,
-          targetUserId: this.targetId,
-        });
-        return;
-      }
+    if (!this.isTargetEvent(event)) {
+      this.logger.debug('Ignoring message from non-target chat', {
+        messageType: event.message_type,
+        groupId: event.group_id,
+        userId: event.user_id,
+      });
+      return;
     }
 
-    const normalized = normalizeMessage(event, this.selfId);
+    // 过滤被拒绝的用户（拒绝原因由 AccessControl 记录）
+    if (
+      this.access &&
+      event.user_id !== undefined &&
+      !this.access.checkUser({ userId: event.user_id, groupId: event.group_id }).allowed
+    ) {
+      return;
+    }
+
+    // WS 事件并发分发，解析 @ 名称可能需要请求成员信息；
+    // 同一会话的消息按到达顺序依次预处理，避免后到的消息先进入管道
+    const sessionKey = `${event.message_type}:${event.group_id ?? event.user_id}`;
+    const normalized = await this.serialize(sessionKey, () => this.prepareMessage(event));
     if (!normalized) {
       this.logger.warn('Failed to normalize message');
       return;
@@ -90,4 +137,156 @@ export class WebhookHandler {
       }
     }
   }
+
+  /**
+   * 在同一会话前一条消息的预处理完成后再执行 task
+   */
+  private serialize<T>(sessionKey: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.pendingBySession.get(sessionKey) ?? Promise.resolve();
+    const result = previous.then(task);
+    const settled = result.catch(() => undefined);
+    this.pendingBySession.set(sessionKey, settled);
+    void settled.then(() => {
+      if (this.pendingBySession.get(sessionKey) === settled) {
+        this.pendingBySession.delete(sessionKey);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * 解析 @ 名称并规范化消息，不支持的消息返回 null
+   */
+  private async prepareMessage(event: OneBotEvent): Promise<NormalizedMessage | null> {
+    const memberNames = await this.resolveMemberNames(event);
+    const normalized = normalizeMessage(event, this.selfId, memberNames);
+    if (!normalized) {
+      return null;
+    }
+
+    // 部分实现端的事件不携带群身份，从缓存补全
+    if (normalized.isGroup && !normalized.role && normalized.groupId !== undefined) {
+      const role = this.memberCache?.get(normalized.groupId, normalized.userId)?.role;
+      if (role) {
+        normalized.role = role;
+      }
+    }
+
+    return normalized;
+  }
+
+  /**
+   * 记录发送者信息并解析消息中 @ 对象的展示名称
+   */
+  private async resolveMemberNames(event: OneBotEvent): Promise<Map<number, string> | undefined> {
+    if (!this.memberCache || event.message_type !== 'group' || event.group_id === undefined) {
+      return undefined;
+    }
+
+    if (event.sender) {
+      this.memberCache.observe(event.group_id, event.sender);
+    }
+
+    const userIds = getMentionedUserIds(event.message, this.selfId);
+    return userIds.length > 0
+      ? this.memberCache.resolveNames(event.group_id, userIds)
+      : undefined;
+  }
+
+  /**
+   * 处理通知事件，仅分发来自目标会话的通知
+   */
+  private async handleNotice(event: OneBotEvent): Promise<void> {
+    const notice = parseNoticeEvent(event);
+    if (!notice) {
+      this.logger.debug('Ignoring unsupported notice', {
+        noticeType: event.notice_type,
+        subType: event.sub_type,
+      });
+      return;
+    }
+
+    const groupId = 'group_id' in notice ? notice.group_id : undefined;
+    const isTarget = this.targets.some((target) =>
+      target.type === 'group'
+        ? groupId === target.id
+        : groupId === undefined && notice.user_id === target.id
+    );
+    if (!isTarget) {
+      this.logger.debug('Ignoring notice from non-target chat', {
+        noticeType: notice.notice_type,
+        groupId,
+        userId: notice.user_id,
+      });
+      return;
+    }
+
+    // 戳一戳由用户主动触发，与消息一样过滤被拒绝的用户
+    if (
+      this.access &&
+      notice.notice_type === 'notify' &&
+      !this.access.checkUser({ userId: notice.user_id, groupId }).allowed
+    ) {
+      return;
+    }
+
+    this.logger.info('Processing notice', {
+      noticeType: notice.notice_type,
+      groupId,
+      userId: notice.user_id,
+    });
+
+    if (this.noticeHandler) {
+      try {
+        await this.noticeHandler(notice);
+      } catch (error) {
+        this.logger.error('Notice handler error', {
+          noticeType: notice.notice_type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * 处理请求事件（加好友、邀请入群），不按目标过滤，由处理策略决定
+   */
+  private async handleRequest(event: OneBotEvent): Promise<void> {
+    const request = parseRequestEvent(event);
+    if (!request) {
+      this.logger.debug('Ignoring unsupported request', {
+        requestType: event.request_type,
+        subType: event.sub_type,
+      });
+      return;
+    }
+
+    this.logger.info('Processing request', {
+      requestType: request.request_type,
+      userId: request.user_id,
+      groupId: request.request_type === 'group' ? request.group_id : undefined,
+    });
+
+    if (this.requestHandler) {
+      try {
+        await this.requestHandler(request);
+      } catch (error) {
+        this.logger.error('Request handler error', {
+          requestType: request.request_type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * 判断事件是否来自任一目标会话
+   */
+  private isTargetEvent(event: OneBotEvent): boolean {
+    return this.targets.some((target) =>
+      target.type === 'group'
+        ? event.message_type === 'group' && event.group_id === target.id
+        : event.message_type === 'private' && event.user_id === target.id
+    );
+  }
 }
@@ -0,0 +1,9 @@
+export { PersonaManager, UnknownPersonaError, type ActivePersona } from './persona-manager.js';
+export {
+  DEFAULT_PERSONA,
+  buildPersonaVariables,
+  buildStyleRules,
+  describePersona,
+  formatRules,
+  type PersonaResolver,
+} from './prompt.js';
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PersonaManager, UnknownPersonaError } from './persona-manager.js';
+import { PersonasSchema } from '../config/schema.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+function createManager() {
+  const config = PersonasSchema.parse({
+    default: 'huluwa',
+    profiles: {
+      huluwa: { alias: '葫芦娃' },
+      tutor: { name: 'Tutor', language: 'English', replyLength: 'long', markdown: true },
+      cat: { name: 'Mimi', systemPrompt: '说话带喵' },
+    },
+  });
+  return new PersonaManager(config, createMockLogger() as never);
+}
+
+describe('PersonaManager', () => {
+  it('should use the default persona for unassigned sessions', () => {
+    const manager = createManager();
+
+    const active = manager.get('group_1');
+
+    expect(active.key).toBe('huluwa');
+    expect(active.profile.name).toBe('Huluwa');
+    expect(active.overridden).toBe(false);
+  });
+
+  it('should prefer the target persona over the default', () => {
+    const manager = createManager();
+    manager.assign('group_1', 'tutor');
+
+    expect(manager.get('group_1').profile.language).toBe('English');
+    expect(manager.get('group_2').key).toBe('huluwa');
+  });
+
+  it('should switch and reset personas at runtime', () => {
+    const manager = createManager();
+    manager.assign('group_1', 'tutor');
+
+    expect(manager.switch('group_1', 'cat')).toMatchObject({ key: 'cat', overridden: true });
+    expect(manager.get('group_1').profile.systemPrompt).toBe('说话带喵');
+
+    expect(manager.reset('group_1')).toMatchObject({ key: 'tutor', overridden: false });
+  });
+
+  it('should reject unknown personas', () => {
+    const manager = createManager();
+
+    expect(() => manager.switch('group_1', 'pirate')).toThrow(UnknownPersonaError);
+    expect(() => manager.assign('group_1', 'pirate')).toThrow(UnknownPersonaError);
+    expect(manager.get('group_1').key).toBe('huluwa');
+  });
+
+  it('should list profile names', () => {
+    expect(createManager().getNames()).toEqual(['huluwa', 'tutor', 'cat']);
+  });
+});
+
+describe('PersonasSchema', () => {
+  it('should provide the Huluwa persona by default', () => {
+    const config = PersonasSchema.parse({});
+
+    expect(config.default).toBe('huluwa');
+    expect(config.profiles['huluwa']).toMatchObject({
+      name: 'Huluwa',
+      alias: '葫芦娃',
+      language: '中文',
+      replyLength: 'short',
+      markdown: false,
+    });
+  });
+
+  it('should reject a default persona missing from profiles', () => {
+    const result = PersonasSchema.safeParse({ default: 'tutor', profiles: { huluwa: {} } });
+
+    expect(result.success).toBe(false);
+  });
+});
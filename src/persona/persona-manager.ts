@@ -0,0 +1,92 @@
+import type { Logger } from '../logger/logger.js';
+import type { PersonaProfile, PersonasConfig } from '../config/schema.js';
+
+export class UnknownPersonaError extends Error {
+  constructor(name: string) {
+    super(`Persona "${name}" not found`);
+    this.name = 'UnknownPersonaError';
+  }
+}
+
+/**
+ * 会话当前使用的人设
+ */
+export interface ActivePersona {
+  /** profiles 中的 key */
+  key: string;
+  profile: PersonaProfile;
+  /** 是否为运行时切换的结果（而非配置） */
+  overridden: boolean;
+}
+
+/**
+ * 人设管理器
+ *
+ * 人设优先级：运行时切换 > 目标会话配置（targets[].persona）> personas.default。
+ * 运行时切换只保存在内存中，重启后恢复为配置
+ */
+export class PersonaManager {
+  private readonly config: PersonasConfig;
+  private readonly logger: Logger;
+  /** 目标会话配置的人设 */
+  private readonly assigned = new Map<string, string>();
+  /** 运行时切换的人设 */
+  private readonly overrides = new Map<string, string>();
+
+  constructor(config: PersonasConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger.child('PersonaManager');
+  }
+
+  /**
+   * 设置目标会话配置的人设
+   */
+  assign(sessionId: string, key: string): void {
+    this.requireProfile(key);
+    this.assigned.set(sessionId, key);
+  }
+
+  /**
+   * 获取会话当前的人设
+   */
+  get(sessionId: string): ActivePersona {
+    const override = this.overrides.get(sessionId);
+    const key = override ?? this.assigned.get(sessionId) ?? this.config.default;
+    return { key, profile: this.requireProfile(key), overridden: override !== undefined };
+  }
+
+  /**
+   * 运行时切换会话的人设，立即对下一轮回复生效
+   */
+  switch(sessionId: string, key: string): ActivePersona {
+    this.requireProfile(key);
+    this.overrides.set(sessionId, key);
+    this.logger.info('Persona switched', { sessionId, persona: key });
+    return this.get(sessionId);
+  }
+
+  /**
+   * 撤销运行时切换，恢复为配置的人设
+   */
+  reset(sessionId: string): ActivePersona {
+    if (this.overrides.delete(sessionId)) {
+      this.logger.info('Persona reset', { sessionId });
+    }
+    return this.get(sessionId);
+  }
+
+  /**
+   * 所有人设名称
+   */
+  getNames(): string[] {
+    return Object.keys(this.config.profiles);
+  }
+
+  private requireProfile(key: string): PersonaProfile {
+    const profile = this.config.profiles[key];
+    if (!profile) {
+      throw new UnknownPersonaError(key);
+    }
+    return profile;
+  }
+}
@@ -0,0 +1,54 @@
+import { PersonaProfileSchema, type PersonaProfile } from '../config/schema.js';
+
+/**
+ * 获取当前人设，节点每轮调用一次，运行时切换可立即生效
+ */
+export type PersonaResolver = () => PersonaProfile;
+
+/** 未配置人设时使用的默认人设 */
+export const DEFAULT_PERSONA: PersonaProfile = PersonaProfileSchema.parse({ alias: '葫芦娃' });
+
+const REPLY_LENGTH_RULES: Record<PersonaProfile['replyLength'], string> = {
+  short: '回复不要太长，通常 1-3 句话即可',
+  medium: '回复长度适中，把问题说清楚即可，不要展开无关内容',
+  long: '可以给出详细、完整的回答，必要时分点说明',
+};
+
+/**
+ * 人设的完整称呼，如 "Huluwa（葫芦娃）"
+ */
+export function describePersona(persona: PersonaProfile): string {
+  return persona.alias ? `${persona.name}（${persona.alias}）` : persona.name;
+}
+
+/**
+ * 人设决定的回复风格规则：语言、长度、是否允许 markdown
+ */
+export function buildStyleRules(persona: PersonaProfile): string[] {
+  return [
+    `用${persona.language}回复`,
+    REPLY_LENGTH_RULES[persona.replyLength],
+    persona.markdown
+      ? '可以使用简单的 markdown 格式（列表、加粗、代码块），不要使用标题和表格'
+      : '不要使用 markdown 格式，直接输出纯文本',
+  ];
+}
+
+/**
+ * 将规则列表格式化为编号列表
+ */
+export function formatRules(rules: string[]): string {
+  return rules.map((rule, index) => `${index + 1}. ${rule}`).join('\n');
+}
+
+/**
+ * 提示词模板中的人设变量：identity、name、systemPrompt、language
+ */
+export function buildPersonaVariables(persona: PersonaProfile): Record<string, string> {
+  return {
+    identity: describePersona(persona),
+    name: persona.name,
+    systemPrompt: persona.systemPrompt,
+    language: persona.language,
+  };
+}
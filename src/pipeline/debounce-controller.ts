@@ -78,6 +78,39 @@ export class DebounceController {
     await this.trigger();
   }
 
+  /**
+   * 移除待处理的消息（如被撤回），队列清空时取消定时器
+   *
+   * @returns 是否找到并移除
+   */
+  remove(messageId: number): boolean {
+    if (!this.queue.remove(messageId)) {
+      return false;
+    }
+
+    if (this.queue.isEmpty()) {
+      this.clearTimers();
+      this.firstMessageTime = null;
+    }
+    return true;
+  }
+
+  /**
+   * 取消本轮等待，返回待处理的消息
+   */
+  cancel(): NormalizedMessage[] {
+    this.clearTimers();
+    this.firstMessageTime = null;
+    return this.queue.flush();
+  }
+
+  /**
+   * 查看待处理的消息（不移除）
+   */
+  peek(): NormalizedMessage[] {
+    return this.queue.peek();
+  }
+
   /**
    * 获取队列中待处理的消息数量
    */
@@ -106,7 +139,9 @@ export class DebounceController {
       clearTimeout(this.debounceTimer);
     }
 
+    // 定时器触发后立即清空句柄：处理中跳过的触发不能留下已过期的句柄
     this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
       this.logger.debug('Debounce timer triggered');
       void this.trigger();
     }, this.config.debounceMs);
@@ -118,6 +153,7 @@ export class DebounceController {
     }
 
     this.maxWaitTimer = setTimeout(() => {
+      this.maxWaitTimer = null;
       this.logger.debug('Max wait timer triggered');
       void this.trigger();
     }, this.config.maxWaitMs);
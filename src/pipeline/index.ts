@@ -6,6 +6,14 @@ export {
 } from './debounce-controller.js';
 export {
   MessageAggregator,
+  formatMessageLine,
   type AggregatedMessages,
   type Participant,
 } from './message-aggregator.js';
+export {
+  SessionPipeline,
+  type SessionPipelineConfig,
+  type SessionPipelineMode,
+  type SessionTriggerCallback,
+  type TriggerContext,
+} from './session-pipeline.js';
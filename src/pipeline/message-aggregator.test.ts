@@ -50,6 +50,13 @@ describe('MessageAggregator', () => {
     expect(result.groupId).toBe(67890);
   });
 
+  it('should carry the proactive reason from the trigger context', () => {
+    const msg = createTestMessage(1, '有人知道吗', 111, 'Alice');
+
+    expect(aggregator.aggregate([msg], { proactive: '没人回答' }).proactive).toBe('没人回答');
+    expect(aggregator.aggregate([msg])).not.toHaveProperty('proactive');
+  });
+
   it('should aggregate multiple messages from same user', () => {
     const msgs = [
       createTestMessage(1, 'hello', 111, 'Alice', 1000),
@@ -150,4 +157,97 @@ describe('MessageAggregator', () => {
 
     expect(result.attachments).toHaveLength(0);
   });
+
+  it('should include quoted messages and their attachments', () => {
+    const image: Attachment = {
+      type: 'image',
+      filename: 'meme.jpg',
+      url: 'http://example.com/meme.jpg',
+      mimeType: 'image/jpeg',
+    };
+    const msg: NormalizedMessage = {
+      ...createTestMessage(2, '这是什么意思', 111, 'Alice'),
+      replyToId: 1,
+      quoted: { messageId: 1, userId: 222, nickname: 'Bob', text: '看图', attachments: [image] },
+    };
+
+    const result = aggregator.aggregate([msg]);
+
+    expect(result.formattedText).toBe(
+      '[Alice] 这是什么意思\n  [引用 Bob] 看图 [image: meme.jpg]'
+    );
+    expect(result.attachments).toEqual([image]);
+  });
+
+  it('should mark quotes that could not be fetched', () => {
+    const msg: NormalizedMessage = { ...createTestMessage(2, '?', 111, 'Alice'), replyToId: 1 };
+
+    const result = aggregator.aggregate([msg]);
+
+    expect(result.formattedText).toBe('[Alice] ?\n  [引用了一条消息，内容不可用]');
+  });
+
+  it('should expand forwarded messages', () => {
+    const msg: NormalizedMessage = {
+      ...createTestMessage(1, '你看看', 111, 'Alice'),
+      forwards: [
+        [
+          { userId: 222, nickname: 'Bob', text: '第一条', attachments: [] },
+          { userId: 333, nickname: 'Carol', text: '第二条', attachments: [] },
+        ],
+      ],
+      forwardIds: ['unresolved'],
+    };
+
+    const result = aggregator.aggregate([msg]);
+
+    expect(result.formattedText).toBe(
+      [
+        '[Alice] 你看看',
+        '  [合并转发]',
+        '    [Bob] 第一条',
+        '    [Carol] 第二条',
+        '  [合并转发，内容不可用]',
+      ].join('\n')
+    );
+  });
+
+  it('should tag owners and admins', () => {
+    const msgs: NormalizedMessage[] = [
+      { ...createTestMessage(1, '都安静', 111, 'Alice'), role: 'owner' },
+      { ...createTestMessage(2, '收到', 222, 'Bob'), role: 'member' },
+    ];
+
+    const result = aggregator.aggregate(msgs);
+
+    expect(result.formattedText).toBe('[Alice] [群主] 都安静\n[Bob] 收到');
+  });
+
+  it('should include voice transcripts', () => {
+    const voice: Attachment = {
+      type: 'audio',
+      filename: 'voice.amr',
+      url: 'http://example.com/voice.amr',
+      mimeType: 'audio/amr',
+      transcript: '今天吃什么',
+    };
+
+    const result = aggregator.aggregate([createTestMessage(1, '', 111, 'Alice', 1000, [voice])]);
+
+    expect(result.formattedText).toBe('[Alice]  [audio: voice.amr]（语音转写: 今天吃什么）');
+  });
+
+  it('should label video audio transcripts', () => {
+    const video: Attachment = {
+      type: 'video',
+      filename: 'clip.mp4',
+      url: 'http://example.com/clip.mp4',
+      mimeType: 'video/mp4',
+      transcript: '大家好',
+    };
+
+    const result = aggregator.aggregate([createTestMessage(1, '', 111, 'Alice', 1000, [video])]);
+
+    expect(result.formattedText).toBe('[Alice]  [video: clip.mp4]（视频语音: 大家好）');
+  });
 });
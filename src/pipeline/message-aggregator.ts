@@ -1,5 +1,6 @@
 import type { NormalizedMessage } from '../onebot/message-normalizer.js';
-import type { Attachment } from '../onebot/types.js';
+import type { Attachment, GroupRole } from '../onebot/types.js';
+import type { TriggerContext } from './session-pipeline.js';
 
 /**
  * 聚合后的消息结构
@@ -55,6 +56,11 @@ export interface AggregatedMessages {
    * 群 ID（如果是群聊）
    */
   groupId?: number;
+
+  /**
+   * 主动发言的原因（未被 @，由 ambient 模式触发时设置）
+   */
+  proactive?: string;
 }
 
 export interface Participant {
@@ -63,6 +69,69 @@ export interface Participant {
   messageCount: number;
 }
 
+/** 群身份标注（普通成员不标注） */
+const ROLE_LABELS: Partial<Record<GroupRole, string>> = {
+  owner: '群主',
+  admin: '管理员',
+};
+
+/** 每条合并转发最多展示的节点数 */
+const MAX_FORWARD_NODES = 30;
+
+/**
+ * 附件标注，已转写的语音和视频音轨附带转写文本
+ */
+function formatAttachmentMarkers(attachments: Attachment[]): string {
+  return attachments
+    .map((att) => {
+      const marker = ` [${att.type}: ${att.filename}]`;
+      if (!att.transcript) {
+        return marker;
+      }
+      const label = att.type === 'video' ? '视频语音' : '语音转写';
+      return `${marker}（${label}: ${att.transcript}）`;
+    })
+    .join('');
+}
+
+/**
+ * 格式化单条消息（含群身份、附件标注和 @bot 标记）
+ * 格式: "[昵称] [管理员] [→@我] 消息内容 [image: a.jpg]"
+ *
+ * 引用和合并转发内容以缩进行附在消息之后：
+ *   [引用 昵称] 原消息内容
+ *   [合并转发]
+ *     [昵称] 转发内容
+ */
+export function formatMessageLine(msg: NormalizedMessage): string {
+  const roleLabel = msg.role ? ROLE_LABELS[msg.role] : undefined;
+  const roleTag = roleLabel ? ` [${roleLabel}]` : '';
+  const mentionTag = msg.isMentionBot ? ' [→@我]' : '';
+  let line = `[${msg.nickname}]${roleTag}${mentionTag} ${msg.text}${formatAttachmentMarkers(msg.attachments)}`;
+
+  if (msg.quoted) {
+    const { nickname, text, attachments } = msg.quoted;
+    line += `\n  [引用 ${nickname}] ${text}${formatAttachmentMarkers(attachments)}`;
+  } else if (msg.replyToId !== undefined) {
+    line += '\n  [引用了一条消息，内容不可用]';
+  }
+
+  for (const nodes of msg.forwards ?? []) {
+    line += '\n  [合并转发]';
+    for (const node of nodes.slice(0, MAX_FORWARD_NODES)) {
+      line += `\n    [${node.nickname}] ${node.text}${formatAttachmentMarkers(node.attachments)}`;
+    }
+    if (nodes.length > MAX_FORWARD_NODES) {
+      line += `\n    ...（还有 ${nodes.length - MAX_FORWARD_NODES} 条）`;
+    }
+  }
+  for (let i = 0; i < (msg.forwardIds?.length ?? 0); i++) {
+    line += '\n  [合并转发，内容不可用]';
+  }
+
+  return line;
+}
+
 /**
  * 消息聚合器
  *
@@ -70,9 +139,9 @@ export interface Participant {
  */
 export class MessageAggregator {
   /**
-   * 聚合消息
+   * 聚合消息，context 为会话管道的触发信息（主动发言的原因等）
    */
-  aggregate(messages: NormalizedMessage[]): AggregatedMessages {
+  aggregate(messages: NormalizedMessage[], context?: TriggerContext): AggregatedMessages {
     if (messages.length === 0) {
       throw new Error('Cannot aggregate empty message list');
     }
@@ -106,22 +175,17 @@ export class MessageAggregator {
       messageCount: data.count,
     }));
 
-    // 收集所有附件
+    // 收集所有附件（含引用消息中的附件，便于模型查看被引用的图片）
     const attachments: Attachment[] = [];
     for (const msg of messages) {
       attachments.push(...msg.attachments);
+      if (msg.quoted) {
+        attachments.push(...msg.quoted.attachments);
+      }
     }
 
     // 格式化对话文本（含附件标注和 @bot 标记）
-    const formattedLines = messages.map((msg) => {
-      const mentionTag = msg.isMentionBot ? ' [→@我]' : '';
-      let line = `[${msg.nickname}]${mentionTag} ${msg.text}`;
-      for (const att of msg.attachments) {
-        line += ` [${att.type}: ${att.filename}]`;
-      }
-      return line;
-    });
-    const formattedText = formattedLines.join('\n');
+    const formattedText = messages.map(formatMessageLine).join('\n');
 
     // 纯文本拼接
     const plainText = messages.map((msg) => msg.text).join('\n');
@@ -141,6 +205,9 @@ export class MessageAggregator {
     if (firstMessage.groupId !== undefined) {
       result.groupId = firstMessage.groupId;
     }
+    if (context?.proactive !== undefined) {
+      result.proactive = context.proactive;
+    }
 
     return result;
   }
@@ -71,6 +71,15 @@ describe('MessageQueue', () => {
     expect(queue.isEmpty()).toBe(true);
   });
 
+  it('should remove a message by ID', () => {
+    queue.enqueue(createTestMessage(1, 'hello'));
+    queue.enqueue(createTestMessage(2, 'world'));
+
+    expect(queue.remove(1)).toBe(true);
+    expect(queue.remove(99)).toBe(false);
+    expect(queue.peek().map((m) => m.messageId)).toEqual([2]);
+  });
+
   it('should maintain FIFO order', () => {
     queue.enqueue(createTestMessage(1, 'first'));
     queue.enqueue(createTestMessage(2, 'second'));
@@ -22,6 +22,20 @@ export class MessageQueue {
     return messages;
   }
 
+  /**
+   * 移除指定 ID 的消息（如被撤回）
+   *
+   * @returns 是否找到并移除
+   */
+  remove(messageId: number): boolean {
+    const index = this.queue.findIndex((m) => m.messageId === messageId);
+    if (index === -1) {
+      return false;
+    }
+    this.queue.splice(index, 1);
+    return true;
+  }
+
   /**
    * 查看队列中的消息（不移除）
    */
@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionPipeline } from './session-pipeline.js';
+import type { NormalizedMessage } from '../onebot/message-normalizer.js';
+
+function createTestMessage(
+  id: number,
+  text: string,
+  isMentionBot = false
+): NormalizedMessage {
+  return {
+    messageId: id,
+    messageType: 'group',
+    userId: 12345,
+    groupId: 67890,
+    isGroup: true,
+    text,
+    nickname: 'TestUser',
+    timestamp: new Date(),
+    attachments: [],
+    isMentionBot,
+  };
+}
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+describe('SessionPipeline', () => {
+  let pipeline: SessionPipeline;
+
+  beforeEach(() => {
+    pipeline = new SessionPipeline('group_67890', createMockLogger() as never);
+  });
+
+  it('should buffer messages without mention', async () => {
+    const callback = vi.fn().mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.onMessage(createTestMessage(1, 'hello'));
+    await pipeline.onMessage(createTestMessage(2, 'world'));
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(pipeline.getPendingCount()).toBe(2);
+  });
+
+  it('should flush buffered messages on mention', async () => {
+    const callback = vi.fn().mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.onMessage(createTestMessage(1, 'hello'));
+    await pipeline.onMessage(createTestMessage(2, 'bot?', true));
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    const messages = callback.mock.calls[0]![0] as NormalizedMessage[];
+    expect(messages.map((m) => m.messageId)).toEqual([1, 2]);
+    expect(pipeline.getPendingCount()).toBe(0);
+  });
+
+  it('should process triggers sequentially', async () => {
+    const order: string[] = [];
+    let releaseFirst: () => void = () => {};
+    const firstDone = new Promise<void>((resolve) => {
+      releaseFirst = resolve;
+    });
+
+    pipeline.onTrigger(async (messages) => {
+      const id = messages[messages.length - 1]!.messageId;
+      order.push(`start:${id}`);
+      if (id === 1) {
+        await firstDone;
+      }
+      order.push(`end:${id}`);
+    });
+
+    const first = pipeline.onMessage(createTestMessage(1, 'first', true));
+    const second = pipeline.onMessage(createTestMessage(2, 'second', true));
+
+    releaseFirst();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['start:1', 'end:1', 'start:2', 'end:2']);
+  });
+
+  it('should keep processing after callback error', async () => {
+    const callback = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.onMessage(createTestMessage(1, 'first', true));
+    await pipeline.onMessage(createTestMessage(2, 'second', true));
+
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('should remove recalled messages from the buffer', async () => {
+    await pipeline.onMessage(createTestMessage(1, 'hello'));
+    await pipeline.onMessage(createTestMessage(2, 'world'));
+
+    expect(pipeline.removeMessage(1)).toBe(true);
+    expect(pipeline.removeMessage(1)).toBe(false);
+    expect(pipeline.getPendingCount()).toBe(1);
+  });
+
+  it('should clear buffer on stop', async () => {
+    await pipeline.onMessage(createTestMessage(1, 'hello'));
+    pipeline.stop();
+
+    expect(pipeline.getPendingCount()).toBe(0);
+  });
+
+  it('should flush the buffer on proactive trigger', async () => {
+    const callback = vi.fn().mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.triggerProactive('nothing buffered');
+    expect(callback).not.toHaveBeenCalled();
+
+    await pipeline.onMessage(createTestMessage(1, 'hello'));
+    await pipeline.onMessage(createTestMessage(2, '有人知道吗？'));
+    expect(pipeline.getBuffered().map((m) => m.messageId)).toEqual([1, 2]);
+
+    await pipeline.triggerProactive('unanswered question');
+
+    expect(callback).toHaveBeenCalledWith([expect.anything(), expect.anything()], {
+      proactive: 'unanswered question',
+    });
+    expect(pipeline.getPendingCount()).toBe(0);
+  });
+});
+
+describe('SessionPipeline (debounce mode)', () => {
+  let pipeline: SessionPipeline;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    pipeline = new SessionPipeline('group_67890', createMockLogger() as never, {
+      mode: 'debounce',
+      debounceMs: 1000,
+      maxWaitMs: 5000,
+    });
+  });
+
+  afterEach(() => {
+    pipeline.stop();
+    vi.useRealTimers();
+  });
+
+  it('should not start debounce before mention', async () => {
+    const callback = vi.fn().mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.onMessage(createTestMessage(1, 'hello'));
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(pipeline.getPendingCount()).toBe(1);
+  });
+
+  it('should collect follow-up messages after mention into one trigger', async () => {
+    const callback = vi.fn().mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.onMessage(createTestMessage(1, 'context'));
+    await pipeline.onMessage(createTestMessage(2, 'bot', true));
+    await vi.advanceTimersByTimeAsync(500);
+    await pipeline.onMessage(createTestMessage(3, 'one more thing'));
+    await vi.advanceTimersByTimeAsync(500);
+
+    // debounce 计时被第 3 条消息重置
+    expect(callback).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(600);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    const messages = callback.mock.calls[0]![0] as NormalizedMessage[];
+    expect(messages.map((m) => m.messageId)).toEqual([1, 2, 3]);
+    expect(pipeline.getPendingCount()).toBe(0);
+  });
+
+  it('should trigger after maxWaitMs during a continuous burst', async () => {
+    const callback = vi.fn().mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.onMessage(createTestMessage(1, 'bot', true));
+    for (let i = 2; i <= 10; i++) {
+      await vi.advanceTimersByTimeAsync(600);
+      await pipeline.onMessage(createTestMessage(i, `msg ${i}`));
+    }
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the max wait for messages that arrive during processing', async () => {
+    let finishFirst: () => void = () => {};
+    const callback = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise<void>((resolve) => (finishFirst = resolve)))
+      .mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.onMessage(createTestMessage(1, 'bot', true));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    // 处理期间到达的 @bot 消息：debounce 和 maxWait 定时器都在处理中触发并被跳过
+    await pipeline.onMessage(createTestMessage(2, 'bot again', true));
+    await vi.advanceTimersByTimeAsync(6000);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    finishFirst();
+    await vi.advanceTimersByTimeAsync(0);
+
+    // 处理结束后的连续消息仍受 maxWaitMs 限制
+    for (let i = 3; i <= 12; i++) {
+      await vi.advanceTimersByTimeAsync(600);
+      await pipeline.onMessage(createTestMessage(i, `msg ${i}`));
+    }
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    const messages = callback.mock.calls[1]![0] as NormalizedMessage[];
+    expect(messages[0]!.messageId).toBe(2);
+  });
+
+  it('should buffer messages as history again after trigger', async () => {
+    const callback = vi.fn().mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.onMessage(createTestMessage(1, 'bot', true));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    await pipeline.onMessage(createTestMessage(2, 'chatting'));
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(pipeline.getPendingCount()).toBe(1);
+  });
+
+  it('should drop recalled follow-up messages from the pending trigger', async () => {
+    const callback = vi.fn().mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.onMessage(createTestMessage(1, 'bot', true));
+    await pipeline.onMessage(createTestMessage(2, 'oops'));
+    expect(pipeline.removeMessage(2)).toBe(true);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    const messages = callback.mock.calls[0]![0] as NormalizedMessage[];
+    expect(messages.map((m) => m.messageId)).toEqual([1]);
+  });
+
+  it('should not trigger proactively while collecting after a mention', async () => {
+    const callback = vi.fn().mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.onMessage(createTestMessage(1, 'context'));
+    await pipeline.onMessage(createTestMessage(2, 'bot', true));
+    await pipeline.triggerProactive('keyword');
+    expect(callback).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0]![1]).toBeUndefined();
+  });
+
+  it('should cancel the trigger when the mention is recalled', async () => {
+    const callback = vi.fn().mockResolvedValue(undefined);
+    pipeline.onTrigger(callback);
+
+    await pipeline.onMessage(createTestMessage(1, 'context'));
+    await pipeline.onMessage(createTestMessage(2, 'bot', true));
+    expect(pipeline.removeMessage(2)).toBe(true);
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(callback).not.toHaveBeenCalled();
+    // 其余消息回到历史缓冲
+    expect(pipeline.getPendingCount()).toBe(1);
+  });
+});
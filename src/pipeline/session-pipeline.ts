@@ -0,0 +1,218 @@
+import type { Logger } from '../logger/logger.js';
+import type { NormalizedMessage } from '../onebot/message-normalizer.js';
+import { MessageQueue } from './message-queue.js';
+import { DebounceController, type DebounceConfig } from './debounce-controller.js';
+
+export type SessionPipelineMode = 'immediate' | 'debounce';
+
+export interface SessionPipelineConfig extends DebounceConfig {
+  mode: SessionPipelineMode;
+}
+
+/**
+ * 触发信息
+ */
+export interface TriggerContext {
+  /** 主动发言的原因（未被 @，由 ambient 模式触发时提供） */
+  proactive?: string | undefined;
+}
+
+export type SessionTriggerCallback = (
+  messages: NormalizedMessage[],
+  context?: TriggerContext
+) => Promise<void>;
+
+/**
+ * 会话管道
+ *
+ * 每个目标会话独立持有一份消息缓冲：
+ * 1. 所有消息入队作为历史缓冲
+ * 2. @bot 时触发处理：
+ *    - immediate 模式：立即 flush 全部缓冲
+ *    - debounce 模式：将缓冲交给 DebounceController，继续收集后续消息，
+ *      停顿 debounceMs（或累计 maxWaitMs）后统一处理
+ * 3. 同一会话内的处理串行执行，不同会话之间互不阻塞
+ *
+ * 也可以不经 @bot 主动 flush 历史缓冲（ambient 模式）
+ */
+export class SessionPipeline {
+  readonly sessionId: string;
+  private readonly logger: Logger;
+  private readonly queue = new MessageQueue();
+  private readonly debounce: DebounceController | null;
+  private triggerCallback: SessionTriggerCallback | null = null;
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(sessionId: string, logger: Logger, config?: SessionPipelineConfig) {
+    this.sessionId = sessionId;
+    this.logger = logger.child(`SessionPipeline:${sessionId}`);
+
+    if (config?.mode === 'debounce') {
+      this.debounce = new DebounceController(config, this.logger);
+      this.debounce.onTrigger((messages) => this.enqueueTrigger(messages));
+    } else {
+      this.debounce = null;
+    }
+  }
+
+  /**
+   * 设置触发回调
+   */
+  onTrigger(callback: SessionTriggerCallback): void {
+    this.triggerCallback = callback;
+  }
+
+  /**
+   * 接收新消息
+   *
+   * immediate 模式下返回的 Promise 在本次触发的处理完成后 resolve；
+   * debounce 模式下处理由定时器异步触发，立即 resolve
+   */
+  onMessage(message: NormalizedMessage): Promise<void> {
+    if (this.debounce) {
+      this.collect(this.debounce, message);
+      return Promise.resolve();
+    }
+
+    this.queue.enqueue(message);
+    this.logger.debug('Message buffered', {
+      messageId: message.messageId,
+      queueSize: this.queue.size(),
+      isMentionBot: message.isMentionBot,
+    });
+
+    if (!message.isMentionBot) {
+      return Promise.resolve();
+    }
+
+    const messages = this.queue.flush();
+    this.logger.info('Mention detected, flushing queue', {
+      messageCount: messages.length,
+    });
+
+    return this.enqueueTrigger(messages);
+  }
+
+  /**
+   * 主动处理历史缓冲中的消息（不需要 @bot）
+   *
+   * debounce 模式下正在收集 @bot 后的消息时不触发（该轮处理会包含这些消息）；
+   * 缓冲为空时不触发
+   */
+  triggerProactive(reason: string): Promise<void> {
+    if (this.debounce && this.debounce.getPendingCount() > 0) {
+      return Promise.resolve();
+    }
+
+    const messages = this.queue.flush();
+    if (messages.length === 0) {
+      return Promise.resolve();
+    }
+
+    this.logger.info('Proactive trigger, flushing queue', {
+      messageCount: messages.length,
+      reason,
+    });
+    return this.enqueueTrigger(messages, { proactive: reason });
+  }
+
+  /**
+   * 获取历史缓冲中尚未处理的消息（不含 debounce 等待中的消息）
+   */
+  getBuffered(): NormalizedMessage[] {
+    return this.queue.peek();
+  }
+
+  /**
+   * 移除尚未处理的消息（如被撤回）
+   *
+   * debounce 模式下如果撤回的是本轮唯一的 @bot 消息，放弃本轮触发，
+   * 其余消息退回历史缓冲
+   *
+   * @returns 是否找到并移除
+   */
+  removeMessage(messageId: number): boolean {
+    if (this.queue.remove(messageId)) {
+      this.logger.debug('Recalled message removed from buffer', { messageId });
+      return true;
+    }
+
+    if (!this.debounce?.remove(messageId)) {
+      return false;
+    }
+
+    this.logger.debug('Recalled message removed from debounce', { messageId });
+    if (!this.debounce.peek().some((m) => m.isMentionBot)) {
+      for (const message of this.debounce.cancel()) {
+        this.queue.enqueue(message);
+      }
+      this.logger.info('Mention recalled, trigger cancelled', {
+        queueSize: this.queue.size(),
+      });
+    }
+    return true;
+  }
+
+  /**
+   * 获取缓冲中的消息数量（含 debounce 等待中的消息）
+   */
+  getPendingCount(): number {
+    return this.queue.size() + (this.debounce?.getPendingCount() ?? 0);
+  }
+
+  /**
+   * 清空缓冲并停止定时器
+   */
+  stop(): void {
+    this.queue.clear();
+    this.debounce?.stop();
+  }
+
+  /**
+   * debounce 模式：@bot 之前的消息作为历史缓冲，
+   * @bot 之后的消息（直到本轮触发）都交给 DebounceController 并重置定时器
+   */
+  private collect(debounce: DebounceController, message: NormalizedMessage): void {
+    const isCollecting = debounce.getPendingCount() > 0;
+
+    if (!isCollecting && !message.isMentionBot) {
+      this.queue.enqueue(message);
+      this.logger.debug('Message buffered', {
+        messageId: message.messageId,
+        queueSize: this.queue.size(),
+      });
+      return;
+    }
+
+    if (!isCollecting) {
+      const history = this.queue.flush();
+      this.logger.info('Mention detected, collecting follow-up messages', {
+        historyCount: history.length,
+      });
+      for (const buffered of history) {
+        debounce.onMessage(buffered);
+      }
+    }
+
+    debounce.onMessage(message);
+  }
+
+  private enqueueTrigger(messages: NormalizedMessage[], context?: TriggerContext): Promise<void> {
+    this.tail = this.tail.then(() => this.trigger(messages, context));
+    return this.tail;
+  }
+
+  private async trigger(messages: NormalizedMessage[], context?: TriggerContext): Promise<void> {
+    if (!this.triggerCallback) {
+      return;
+    }
+
+    try {
+      await this.triggerCallback(messages, context);
+    } catch (error) {
+      this.logger.error('Trigger callback error', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,15 @@
+export {
+  PromptRegistry,
+  BUILTIN_PROMPT_SOURCE,
+  type PromptSource,
+  type PromptTemplate,
+  type RenderedPrompt,
+} from './prompt-registry.js';
+export { BUILTIN_PROMPTS, BUILTIN_VERSION, type PromptName } from './builtin.js';
+export {
+  PromptTemplateError,
+  findVariables,
+  parseTemplateFile,
+  renderTemplate,
+  type PromptVariables,
+} from './template.js';
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { PromptRegistry, BUILTIN_PROMPT_SOURCE } from './prompt-registry.js';
+import { BUILTIN_PROMPTS } from './builtin.js';
+import { PromptTemplateError, parseTemplateFile, renderTemplate } from './template.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+describe('renderTemplate', () => {
+  it('should replace variables', () => {
+    const text = renderTemplate('你好，{{ name }}！用{{language}}回复', {
+      name: 'Tutor',
+      language: '英文',
+    });
+
+    expect(text).toBe('你好，Tutor！用英文回复');
+  });
+
+  it('should throw on missing variables', () => {
+    expect(() => renderTemplate('{{name}}', {})).toThrow(PromptTemplateError);
+  });
+});
+
+describe('parseTemplateFile', () => {
+  it('should read version from front matter', () => {
+    expect(parseTemplateFile('---\nversion: v2\n---\n正文\n')).toEqual({
+      version: 'v2',
+      text: '正文',
+    });
+  });
+
+  it('should derive a stable version from content when not declared', () => {
+    const first = parseTemplateFile('正文');
+    const second = parseTemplateFile('正文\n');
+    const changed = parseTemplateFile('新正文');
+
+    expect(first.version).toMatch(/^[0-9a-f]{8}$/);
+    expect(second.version).toBe(first.version);
+    expect(changed.version).not.toBe(first.version);
+  });
+
+  it('should reject empty templates', () => {
+    expect(() => parseTemplateFile('---\nversion: v1\n---\n')).toThrow(PromptTemplateError);
+  });
+});
+
+describe('PromptRegistry', () => {
+  let directory: string;
+  let logger: ReturnType<typeof createMockLogger>;
+  let registry: PromptRegistry;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'prompt-registry-test-'));
+    logger = createMockLogger();
+    registry = new PromptRegistry({ dir: directory, watch: true }, logger as never);
+  });
+
+  afterEach(async () => {
+    registry.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should use builtin templates when no files exist', () => {
+    registry.load();
+
+    const rendered = registry.render('intent');
+    expect(rendered).toEqual(BUILTIN_PROMPT_SOURCE.render('intent'));
+    expect(rendered.version).toBe('builtin');
+    expect(rendered.text).toBe(BUILTIN_PROMPTS.intent.text);
+  });
+
+  it('should override templates with files from the directory', async () => {
+    await writeFile(
+      path.join(directory, 'summary.txt'),
+      '---\nversion: summary-v2\n---\n请用{{language}}总结，称呼机器人为 {{name}}。'
+    );
+    registry.load();
+
+    expect(registry.get('summary')).toMatchObject({ source: 'file', version: 'summary-v2' });
+    expect(registry.render('summary', { name: 'Tutor', language: '英文' })).toEqual({
+      name: 'summary',
+      version: 'summary-v2',
+      text: '请用英文总结，称呼机器人为 Tutor。',
+    });
+    expect(registry.get('intent').source).toBe('builtin');
+  });
+
+  it('should ignore files that do not match a template', async () => {
+    await writeFile(path.join(directory, 'unknown.txt'), '内容');
+    await writeFile(path.join(directory, 'intent.md'), '内容');
+    registry.load();
+
+    expect(registry.list().every((template) => template.source === 'builtin')).toBe(true);
+    expect(registry.list()).toHaveLength(Object.keys(BUILTIN_PROMPTS).length);
+  });
+
+  it('should keep the previous version when a file uses unknown variables', async () => {
+    const file = path.join(directory, 'intent.txt');
+    await writeFile(file, '---\nversion: v1\n---\n识别意图');
+    registry.load();
+
+    await writeFile(file, '---\nversion: v2\n---\n识别 {{summary}} 的意图');
+    registry.load();
+
+    expect(registry.get('intent').version).toBe('v1');
+  });
+
+  it('should fall back to builtin when a file is removed', async () => {
+    const file = path.join(directory, 'intent.txt');
+    await writeFile(file, '识别意图');
+    registry.load();
+    expect(registry.get('intent').source).toBe('file');
+
+    await unlink(file);
+    registry.load();
+
+    expect(registry.get('intent')).toMatchObject({ source: 'builtin', version: 'builtin' });
+  });
+
+  it('should use builtin templates when the directory does not exist', () => {
+    const missing = new PromptRegistry(
+      { dir: path.join(directory, 'missing'), watch: true },
+      logger as never
+    );
+    missing.load();
+
+    expect(missing.get('plan').source).toBe('builtin');
+  });
+
+  it('should reload templates when files change', async () => {
+    registry.load();
+    registry.watch();
+
+    await writeFile(path.join(directory, 'intent.txt'), '---\nversion: hot\n---\n识别意图');
+
+    await vi.waitFor(() => expect(registry.get('intent').version).toBe('hot'), {
+      timeout: 3000,
+      interval: 50,
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Logger } from '../logger/logger.js';
+import type { PromptsConfig } from '../config/schema.js';
+import { BUILTIN_PROMPTS, BUILTIN_VERSION, isPromptName, type PromptName } from './builtin.js';
+import {
+  PromptTemplateError,
+  findVariables,
+  parseTemplateFile,
+  renderTemplate,
+  type PromptVariables,
+} from './template.js';
+
+/** 模板文件扩展名，文件名（不含扩展名）即模板名 */
+const TEMPLATE_EXTENSION = '.txt';
+
+/** 目录变化后等待的时间，合并编辑器保存时的多次写入 */
+const RELOAD_DEBOUNCE_MS = 200;
+
+/**
+ * 当前生效的提示词模板
+ */
+export interface PromptTemplate {
+  name: PromptName;
+  version: string;
+  source: 'builtin' | 'file';
+  text: string;
+  /** 模板文件路径（仅 file 来源） */
+  file?: string;
+}
+
+/**
+ * 渲染结果，version 记录到 Agent 状态和日志
+ */
+export interface RenderedPrompt {
+  name: PromptName;
+  version: string;
+  text: string;
+}
+
+/**
+ * 提示词来源，节点只依赖此接口
+ */
+export interface PromptSource {
+  render(name: PromptName, variables?: PromptVariables): RenderedPrompt;
+}
+
+function builtinTemplate(name: PromptName): PromptTemplate {
+  return { name, version: BUILTIN_VERSION, source: 'builtin', text: BUILTIN_PROMPTS[name].text };
+}
+
+function renderPrompt(template: PromptTemplate, variables: PromptVariables): RenderedPrompt {
+  return {
+    name: template.name,
+    version: template.version,
+    text: renderTemplate(template.text, variables),
+  };
+}
+
+/** 只使用内置模板的提示词来源，节点未传入注册表时使用 */
+export const BUILTIN_PROMPT_SOURCE: PromptSource = {
+  render: (name, variables = {}) => renderPrompt(builtinTemplate(name), variables),
+};
+
+/**
+ * 提示词模板注册表
+ *
+ * 从 prompts.dir 加载 `<模板名>.txt` 覆盖内置模板，未覆盖的模板使用内置版本。
+ * 开启 watch 时目录中的文件变化会触发重新加载，无需重启即可切换提示词：
+ * - 文件格式错误或引用了模板不支持的变量时，保留该模板之前的版本
+ * - 文件被删除时恢复为内置模板
+ */
+export class PromptRegistry implements PromptSource {
+  private readonly config: PromptsConfig;
+  private readonly logger: Logger;
+  private readonly templates = new Map<PromptName, PromptTemplate>();
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: PromptsConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger.child('PromptRegistry');
+  }
+
+  /**
+   * 从目录加载模板（可重复调用，用于热更新）
+   */
+  load(): void {
+    const dir = this.config.dir;
+    const files = dir ? this.listTemplateFiles(dir) : new Map<PromptName, string>();
+
+    for (const name of Object.keys(BUILTIN_PROMPTS) as PromptName[]) {
+      const file = files.get(name);
+      const next = file ? this.loadFile(name, file) : builtinTemplate(name);
+      if (next) {
+        this.setTemplate(next);
+      }
+    }
+  }
+
+  /**
+   * 监听目录变化并自动重新加载
+   */
+  watch(): void {
+    const dir = this.config.dir;
+    if (!dir || this.watcher || !fs.existsSync(dir)) {
+      return;
+    }
+
+    this.watcher = fs.watch(dir, () => this.scheduleReload());
+    this.watcher.on('error', (error) => {
+      this.logger.error('Prompt directory watcher failed', { dir, error: error.message });
+    });
+    this.logger.info('Watching prompt templates', { dir });
+  }
+
+  /**
+   * 停止监听
+   */
+  close(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * 获取当前生效的模板
+   */
+  get(name: PromptName): PromptTemplate {
+    return this.templates.get(name) ?? builtinTemplate(name);
+  }
+
+  /**
+   * 列出全部模板
+   */
+  list(): PromptTemplate[] {
+    return (Object.keys(BUILTIN_PROMPTS) as PromptName[]).map((name) => this.get(name));
+  }
+
+  render(name: PromptName, variables: PromptVariables = {}): RenderedPrompt {
+    return renderPrompt(this.get(name), variables);
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.load();
+    }, RELOAD_DEBOUNCE_MS);
+  }
+
+  /**
+   * 列出目录中的模板文件，忽略不对应任何模板的文件
+   */
+  private listTemplateFiles(dir: string): Map<PromptName, string> {
+    const files = new Map<PromptName, string>();
+
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(dir);
+    } catch (error) {
+      this.logger.warn('Prompt directory not readable, using builtin templates', {
+        dir,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return files;
+    }
+
+    for (const entry of entries) {
+      if (path.extname(entry) !== TEMPLATE_EXTENSION) {
+        continue;
+      }
+      const name = path.basename(entry, TEMPLATE_EXTENSION);
+      if (!isPromptName(name)) {
+        this.logger.warn('Ignoring unknown prompt template', { file: entry });
+        continue;
+      }
+      files.set(name, path.join(dir, entry));
+    }
+
+    return files;
+  }
+
+  /**
+   * 读取并校验模板文件，失败时返回 null（保留之前的版本）
+   */
+  private loadFile(name: PromptName, file: string): PromptTemplate | null {
+    try {
+      const { version, text } = parseTemplateFile(fs.readFileSync(file, 'utf-8'));
+
+      const allowed: readonly string[] = BUILTIN_PROMPTS[name].variables;
+      const unknown = findVariables(text).filter((variable) => !allowed.includes(variable));
+      if (unknown.length > 0) {
+        throw new PromptTemplateError(
+          `Unknown variables ${unknown.join(', ')} (available: ${allowed.join(', ') || 'none'})`
+        );
+      }
+
+      return { name, version, source: 'file', text, file };
+    } catch (error) {
+      this.logger.error('Invalid prompt template, keeping previous version', {
+        name,
+        file,
+        previous: this.get(name).version,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  private setTemplate(template: PromptTemplate): void {
+    const previous = this.templates.get(template.name);
+    this.templates.set(template.name, template);
+
+    if (previous?.version === template.version && previous.source === template.source) {
+      return;
+    }
+    // 启动时只记录来自文件的模板，之后的每次切换都记录
+    if (previous || template.source === 'file') {
+      this.logger.info('Prompt template loaded', {
+        name: template.name,
+        version: template.version,
+        previous: previous?.version,
+        file: template.file,
+      });
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { createHash } from 'node:crypto';
+
+/** 模板变量：{{name}}，变量名只含字母、数字和下划线 */
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** 文件头部的元数据块 */
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+export type PromptVariables = Record<string, string>;
+
+/**
+ * 模板格式错误或渲染时缺少变量
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * 提示词模板文件的解析结果
+ */
+export interface ParsedTemplate {
+  /** 元数据中的 version，未声明时为内容哈希 */
+  version: string;
+  text: string;
+}
+
+/**
+ * 列出模板中引用的变量名（去重）
+ */
+export function findVariables(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(VARIABLE_PATTERN), (match) => match[1]!))];
+}
+
+/**
+ * 替换模板中的 {{变量}}，缺少变量时抛出 PromptTemplateError
+ */
+export function renderTemplate(text: string, variables: PromptVariables): string {
+  return text.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new PromptTemplateError(`Missing prompt variable: ${name}`);
+    }
+    return value;
+  });
+}
+
+/**
+ * 解析模板文件内容
+ *
+ * 文件可以以元数据块开头声明版本号：
+ *
+ *     ---
+ *     version: chat-v2
+ *     ---
+ *     模板正文
+ */
+export function parseTemplateFile(content: string): ParsedTemplate {
+  let text = content;
+  let version: string | undefined;
+
+  const frontMatter = FRONT_MATTER_PATTERN.exec(content);
+  if (frontMatter) {
+    text = content.slice(frontMatter[0].length);
+    for (const line of frontMatter[1]!.split(/\r?\n/)) {
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+      if (line.slice(0, separator).trim() === 'version') {
+        version = line.slice(separator + 1).trim() || undefined;
+      }
+    }
+  }
+
+  text = text.trim();
+  if (!text) {
+    throw new PromptTemplateError('Prompt template is empty');
+  }
+
+  return {
+    version: version ?? createHash('sha256').update(text).digest('hex').slice(0, 8),
+    text,
+  };
+}
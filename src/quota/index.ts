@@ -0,0 +1,23 @@
+import type { Logger } from '../logger/logger.js';
+import type { QuotaConfig } from '../config/schema.js';
+import { QuotaManager } from './quota-manager.js';
+
+export {
+  QuotaManager,
+  formatQuotaExceeded,
+  type QuotaCheckResult,
+  type QuotaMetric,
+  type QuotaPeriod,
+  type QuotaReservation,
+  type QuotaReserveResult,
+  type QuotaScope,
+  type QuotaSubject,
+  type QuotaUsage,
+} from './quota-manager.js';
+
+/**
+ * 根据配置创建额度管理器，未启用时返回 null（不限制用量）
+ */
+export function createQuotaManager(config: QuotaConfig, logger: Logger): QuotaManager | null {
+  return config.enabled ? new QuotaManager(config, logger) : null;
+}
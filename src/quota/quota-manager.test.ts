@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { QuotaSchema } from '../config/schema.js';
+import { QuotaManager, formatQuotaExceeded } from './quota-manager.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(() => createMockLogger()),
+});
+
+describe('QuotaManager', () => {
+  let directory: string;
+  // 2026-10-19 10:00 (Asia/Shanghai)
+  let now = Date.parse('2026-10-19T02:00:00Z');
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'quota-manager-test-'));
+    now = Date.parse('2026-10-19T02:00:00Z');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function createManager(quota: Record<string, unknown>) {
+    const config = QuotaSchema.parse({ enabled: true, directory, saveIntervalSeconds: 0, ...quota });
+    return new QuotaManager(config, createMockLogger() as never, () => now);
+  }
+
+  const alice = { userId: 1001, groupId: 2001 };
+  const bob = { userId: 1002, groupId: 2001 };
+
+  it('should reject after the daily invocation limit is used up', () => {
+    const manager = createManager({ user: { daily: { invocations: 2 } } });
+
+    manager.record(alice, { tokens: 100, costUsd: 0 });
+    expect(manager.check(alice)).toEqual({ allowed: true });
+    manager.record(alice, { tokens: 100, costUsd: 0 });
+
+    expect(manager.check(alice)).toEqual({
+      allowed: false,
+      scope: 'user',
+      period: 'daily',
+      metric: 'invocations',
+      limit: 2,
+      used: 2,
+      notify: true,
+    });
+    expect(manager.check(bob)).toEqual({ allowed: true });
+  });
+
+  it('should only notify once per user and period', () => {
+    const manager = createManager({ user: { daily: { invocations: 1 } } });
+    manager.record(alice, { tokens: 0, costUsd: 0 });
+
+    expect(manager.check(alice)).toMatchObject({ allowed: false, notify: true });
+    expect(manager.check(alice)).toMatchObject({ allowed: false, notify: false });
+  });
+
+  it('should enforce group and global limits on tokens and cost', () => {
+    const manager = createManager({
+      global: { monthly: { costUsd: 1 } },
+      group: { daily: { tokens: 1000 } },
+    });
+
+    manager.record(alice, { tokens: 1200, costUsd: 0.5 });
+    expect(manager.check(bob)).toMatchObject({ allowed: false, scope: 'group', metric: 'tokens' });
+    expect(manager.check({ userId: 1003 })).toEqual({ allowed: true });
+
+    manager.record({ userId: 1003 }, { tokens: 10, costUsd: 0.6 });
+    expect(manager.check({ userId: 1003 })).toMatchObject({
+      allowed: false,
+      scope: 'global',
+      period: 'monthly',
+      metric: 'costUsd',
+    });
+  });
+
+  it('should apply per-user overrides on top of the defaults', () => {
+    const manager = createManager({
+      user: { daily: { invocations: 1, tokens: 10000 } },
+      users: { '1001': { daily: { invocations: 3 } } },
+    });
+
+    manager.record(alice, { tokens: 0, costUsd: 0 });
+    manager.record(bob, { tokens: 0, costUsd: 0 });
+
+    expect(manager.check(alice)).toEqual({ allowed: true });
+    expect(manager.check(bob)).toMatchObject({ allowed: false, limit: 1 });
+  });
+
+  it('should reserve the invocation at check time', () => {
+    const manager = createManager({ user: { daily: { invocations: 1 } } });
+
+    // 两个并发的运行：第一个预占后第二个即被拒绝
+    const first = manager.reserve(alice);
+    expect(first.allowed).toBe(true);
+    expect(manager.reserve(alice)).toMatchObject({ allowed: false, used: 1 });
+
+    if (first.allowed) {
+      first.reservation.commit({ tokens: 120, costUsd: 0.01 });
+      first.reservation.release({ tokens: 999, costUsd: 1 });
+    }
+    expect(manager.getUsage('user', 1001).daily).toEqual({
+      invocations: 1,
+      tokens: 120,
+      costUsd: 0.01,
+    });
+  });
+
+  it('should give back the invocation but keep the usage when the run fails', () => {
+    const manager = createManager({ user: { daily: { invocations: 1, tokens: 1000 } } });
+
+    const failed = manager.reserve(alice);
+    if (failed.allowed) {
+      failed.reservation.release({ tokens: 800, costUsd: 0.05 });
+    }
+
+    expect(manager.getUsage('user', 1001).daily).toEqual({
+      invocations: 0,
+      tokens: 800,
+      costUsd: 0.05,
+    });
+    expect(manager.getUsage('global').monthly.invocations).toBe(0);
+    expect(manager.reserve(alice).allowed).toBe(true);
+  });
+
+  it('should only charge group and global quota when there is no sender', () => {
+    const manager = createManager({
+      user: { daily: { invocations: 1 } },
+      group: { daily: { invocations: 2 } },
+    });
+    manager.record(alice, { tokens: 0, costUsd: 0 });
+
+    // 主动发言不受发送者的用户额度限制，也不计入
+    const proactive = { groupId: 2001 };
+    expect(manager.reserve(proactive).allowed).toBe(true);
+    expect(manager.getUsage('user', 1001).daily.invocations).toBe(1);
+    expect(manager.getUsage('group', 2001).daily.invocations).toBe(2);
+    expect(manager.check(proactive)).toMatchObject({ allowed: false, scope: 'group' });
+  });
+
+  it('should reset daily counters on a new day but keep the month', () => {
+    const manager = createManager({ user: { daily: { invocations: 1 } } });
+    manager.record(alice, { tokens: 50, costUsd: 0.1 });
+
+    // 2026-10-20 00:30 (Asia/Shanghai)
+    now = Date.parse('2026-10-19T16:30:00Z');
+
+    expect(manager.check(alice)).toEqual({ allowed: true });
+    expect(manager.getUsage('user', 1001)).toEqual({
+      daily: { invocations: 0, tokens: 0, costUsd: 0 },
+      monthly: { invocations: 1, tokens: 50, costUsd: 0.1 },
+    });
+  });
+
+  it('should persist counters across restarts', () => {
+    const first = createManager({});
+    first.record(alice, { tokens: 300, costUsd: 0.02 });
+    first.shutdown();
+
+    const second = createManager({});
+    expect(second.getUsage('group', 2001).daily).toEqual({
+      invocations: 1,
+      tokens: 300,
+      costUsd: 0.02,
+    });
+    expect(second.getUsage('global').monthly.invocations).toBe(1);
+
+    // 次月重启时丢弃上月的计数
+    now = Date.parse('2026-11-02T02:00:00Z');
+    expect(createManager({}).getUsage('global').monthly.invocations).toBe(0);
+  });
+
+  it('should reject invalid timezones in config', () => {
+    expect(() => QuotaSchema.parse({ timezone: 'Mars/Olympus' })).toThrow(/Invalid timezone/);
+  });
+});
+
+describe('formatQuotaExceeded', () => {
+  it('should describe the scope and the reset time', () => {
+    const base = { allowed: false, metric: 'invocations', limit: 1, used: 1, notify: true } as const;
+
+    expect(formatQuotaExceeded({ ...base, scope: 'user', period: 'daily' })).toContain('明天');
+    expect(formatQuotaExceeded({ ...base, scope: 'group', period: 'monthly' })).toContain(
+      '本群这个月'
+    );
+  });
+});
@@ -0,0 +1,410 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Logger } from '../logger/logger.js';
+import type { QuotaConfig, QuotaLimitConfig, QuotaLimitsConfig } from '../config/schema.js';
+
+/** 持久化格式版本 */
+const STORE_VERSION = 1;
+
+export type QuotaScope = 'global' | 'group' | 'user';
+export type QuotaPeriod = 'daily' | 'monthly';
+export type QuotaMetric = 'invocations' | 'tokens' | 'costUsd';
+
+/**
+ * 一个计数对象在一个周期内的用量
+ */
+export interface QuotaUsage {
+  invocations: number;
+  tokens: number;
+  costUsd: number;
+}
+
+/**
+ * 计入额度的对象：触发消息的发送者及所在的群（私聊时无群）
+ *
+ * 主动发言没有发送者（userId 为 undefined），只计入群和全局额度
+ */
+export interface QuotaSubject {
+  userId?: number | undefined;
+  groupId?: number | undefined;
+}
+
+/**
+ * 额度检查结果，超额时给出第一个超出的额度
+ */
+export type QuotaCheckResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      scope: QuotaScope;
+      period: QuotaPeriod;
+      metric: QuotaMetric;
+      limit: number;
+      used: number;
+      /** 是否需要提示用户（同一用户在同一周期内只提示一次） */
+      notify: boolean;
+    };
+
+/**
+ * 额度预占：检查通过时已计入一次调用，避免并发的会话在记录用量之前都通过检查
+ */
+export interface QuotaReservation {
+  /** 运行结束后补记消耗的 token 和费用 */
+  commit(usage: Omit<QuotaUsage, 'invocations'>): void;
+  /** 运行失败时撤销预占的调用次数，已消耗的 token 和费用照常计入 */
+  release(usage: Omit<QuotaUsage, 'invocations'>): void;
+}
+
+/**
+ * 预占结果，超额时与 check 相同
+ */
+export type QuotaReserveResult =
+  | { allowed: true; reservation: QuotaReservation }
+  | Extract<QuotaCheckResult, { allowed: false }>;
+
+interface SerializedQuotaStore {
+  version: number;
+  savedAt: number;
+  day: string;
+  month: string;
+  daily: Record<string, QuotaUsage>;
+  monthly: Record<string, QuotaUsage>;
+}
+
+const METRICS: QuotaMetric[] = ['invocations', 'tokens', 'costUsd'];
+const PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+
+function createUsage(): QuotaUsage {
+  return { invocations: 0, tokens: 0, costUsd: 0 };
+}
+
+/**
+ * 合并默认额度和单独配置的额度（按项覆盖）
+ */
+function mergeLimits(base: QuotaLimitsConfig, override?: QuotaLimitsConfig): QuotaLimitsConfig {
+  if (!override) {
+    return base;
+  }
+  return {
+    daily: { ...base.daily, ...override.daily },
+    monthly: { ...base.monthly, ...override.monthly },
+  };
+}
+
+/**
+ * 用量额度管理器
+ *
+ * 按全局、群、用户三级分别统计每日和每月的调用次数、token 和费用，
+ * 任一级别的任一额度用尽即拒绝。日 / 月按 timezone 划分，跨周期时计数自动清零。
+ * 计数定期写入 directory/quota.json，重启后继续累计
+ */
+export class QuotaManager {
+  private readonly config: QuotaConfig;
+  private readonly logger: Logger;
+  private readonly now: () => number;
+  private readonly formatDay: Intl.DateTimeFormat;
+  private day = '';
+  private month = '';
+  private daily = new Map<string, QuotaUsage>();
+  private monthly = new Map<string, QuotaUsage>();
+  /** 本周期内已提示过的超额（内存中，重启后可能再提示一次） */
+  private readonly notified = new Set<string>();
+  private saveTimer: ReturnType<typeof setInterval> | null = null;
+  private dirty = false;
+
+  constructor(config: QuotaConfig, logger: Logger, now: () => number = Date.now) {
+    this.config = config;
+    this.logger = logger.child('QuotaManager');
+    this.now = now;
+    // en-CA 的日期格式为 YYYY-MM-DD
+    this.formatDay = new Intl.DateTimeFormat('en-CA', {
+      timeZone: config.timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+
+    this.rollOver();
+    this.loadFromDisk();
+    this.startAutoSave();
+
+    this.logger.info('QuotaManager initialized', {
+      timezone: config.timezone,
+      users: Object.keys(config.users).length,
+      groups: Object.keys(config.groups).length,
+    });
+  }
+
+  /**
+   * 检查对象是否还有额度（按全局、群、用户的顺序）
+   */
+  check(subject: QuotaSubject): QuotaCheckResult {
+    this.rollOver();
+
+    for (const { scope, key, limits } of this.resolve(subject)) {
+      for (const period of PERIODS) {
+        const limit: QuotaLimitConfig = limits[period];
+        const usage = this.getCounters(period).get(key) ?? createUsage();
+        for (const metric of METRICS) {
+          const max = limit[metric];
+          if (max === undefined || usage[metric] < max) {
+            continue;
+          }
+
+          const notifyKey = `${period}:${key}:user:${subject.userId ?? 'proactive'}`;
+          const notify = !this.notified.has(notifyKey);
+          this.notified.add(notifyKey);
+          return { allowed: false, scope, period, metric, limit: max, used: usage[metric], notify };
+        }
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * 检查额度并预占一次调用
+   *
+   * 通过时立即计入调用次数，运行结束后用 commit 补记 token 和费用；
+   * 运行失败时用 release 退还调用次数，但失败前消耗的 token 和费用仍然计入
+   */
+  reserve(subject: QuotaSubject): QuotaReserveResult {
+    const result = this.check(subject);
+    if (!result.allowed) {
+      return result;
+    }
+
+    this.add(subject, { invocations: 1, tokens: 0, costUsd: 0 });
+    const { day, month } = this;
+    let settled = false;
+
+    return {
+      allowed: true,
+      reservation: {
+        commit: (usage) => {
+          if (settled) return;
+          settled = true;
+          this.add(subject, { invocations: 0, ...usage });
+        },
+        release: (usage) => {
+          if (settled) return;
+          settled = true;
+          this.add(subject, { invocations: 0, ...usage });
+          // 跨周期后预占的计数已随旧周期清零
+          const periods = PERIODS.filter((period) =>
+            period === 'daily' ? this.day === day : this.month === month
+          );
+          this.add(subject, { invocations: -1, tokens: 0, costUsd: 0 }, periods);
+        },
+      },
+    };
+  }
+
+  /**
+   * 记录一次调用及其消耗的 token 和费用
+   */
+  record(subject: QuotaSubject, usage: Omit<QuotaUsage, 'invocations'>): void {
+    this.add(subject, { invocations: 1, ...usage });
+  }
+
+  /**
+   * 获取对象在当前周期的用量
+   */
+  getUsage(scope: QuotaScope, id?: number): Record<QuotaPeriod, QuotaUsage> {
+    this.rollOver();
+    const key = scope === 'global' ? 'global' : `${scope}:${id}`;
+    return {
+      daily: { ...(this.daily.get(key) ?? createUsage()) },
+      monthly: { ...(this.monthly.get(key) ?? createUsage()) },
+    };
+  }
+
+  /**
+   * 停止自动保存并写入未保存的计数
+   */
+  shutdown(): void {
+    if (this.saveTimer) {
+      clearInterval(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (this.dirty) {
+      this.saveToDisk();
+    }
+  }
+
+  /**
+   * 累加对象各级计数项的用量
+   */
+  private add(subject: QuotaSubject, delta: QuotaUsage, periods = PERIODS): void {
+    this.rollOver();
+
+    for (const { key } of this.resolve(subject)) {
+      for (const period of periods) {
+        const counters = this.getCounters(period);
+        const current = counters.get(key) ?? createUsage();
+        current.invocations += delta.invocations;
+        current.tokens += delta.tokens;
+        current.costUsd += delta.costUsd;
+        counters.set(key, current);
+      }
+    }
+    this.dirty = true;
+  }
+
+  /**
+   * 对象涉及的计数项及其额度
+   */
+  private resolve(
+    subject: QuotaSubject
+  ): Array<{ scope: QuotaScope; key: string; limits: QuotaLimitsConfig }> {
+    const entries: Array<{ scope: QuotaScope; key: string; limits: QuotaLimitsConfig }> = [
+      { scope: 'global', key: 'global', limits: this.config.global },
+    ];
+    if (subject.groupId !== undefined) {
+      entries.push({
+        scope: 'group',
+        key: `group:${subject.groupId}`,
+        limits: mergeLimits(this.config.group, this.config.groups[String(subject.groupId)]),
+      });
+    }
+    if (subject.userId !== undefined) {
+      entries.push({
+        scope: 'user',
+        key: `user:${subject.userId}`,
+        limits: mergeLimits(this.config.user, this.config.users[String(subject.userId)]),
+      });
+    }
+    return entries;
+  }
+
+  private getCounters(period: QuotaPeriod): Map<string, QuotaUsage> {
+    return period === 'daily' ? this.daily : this.monthly;
+  }
+
+  /**
+   * 进入新的日 / 月时清零对应的计数
+   */
+  private rollOver(): void {
+    const day = this.formatDay.format(this.now());
+    const month = day.slice(0, 7);
+
+    if (day !== this.day) {
+      this.day = day;
+      this.daily = new Map();
+      this.notified.clear();
+    }
+    if (month !== this.month) {
+      this.month = month;
+      this.monthly = new Map();
+    }
+  }
+
+  /**
+   * 获取持久化文件路径
+   */
+  private getStorePath(): string {
+    return path.join(this.config.directory, 'quota.json');
+  }
+
+  /**
+   * 从磁盘加载当前周期的计数，过期的周期直接丢弃
+   */
+  private loadFromDisk(): void {
+    const filePath = this.getStorePath();
+
+    try {
+      if (!fs.existsSync(filePath)) {
+        this.logger.debug('No quota file found, starting fresh');
+        return;
+      }
+
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SerializedQuotaStore;
+      if (parsed.version !== STORE_VERSION) {
+        this.logger.warn('Quota file version mismatch, starting fresh', {
+          expected: STORE_VERSION,
+          found: parsed.version,
+        });
+        return;
+      }
+
+      if (parsed.day === this.day) {
+        this.daily = new Map(Object.entries(parsed.daily));
+      }
+      if (parsed.month === this.month) {
+        this.monthly = new Map(Object.entries(parsed.monthly));
+      }
+
+      this.logger.info('Loaded quota usage from disk', {
+        daily: this.daily.size,
+        monthly: this.monthly.size,
+        savedAt: new Date(parsed.savedAt).toISOString(),
+      });
+    } catch (error) {
+      this.logger.warn('Failed to load quota file, starting fresh', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * 保存计数到磁盘（先写临时文件再替换，避免写入中断损坏文件）
+   */
+  private saveToDisk(): void {
+    const filePath = this.getStorePath();
+
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+      const store: SerializedQuotaStore = {
+        version: STORE_VERSION,
+        savedAt: this.now(),
+        day: this.day,
+        month: this.month,
+        daily: Object.fromEntries(this.daily),
+        monthly: Object.fromEntries(this.monthly),
+      };
+
+      fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(store, null, 2), 'utf-8');
+      fs.renameSync(`${filePath}.tmp`, filePath);
+      this.dirty = false;
+    } catch (error) {
+      this.logger.error('Failed to save quota file', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * 启动自动保存定时器
+   */
+  private startAutoSave(): void {
+    const intervalMs = this.config.saveIntervalSeconds * 1000;
+    if (intervalMs <= 0) return;
+
+    this.saveTimer = setInterval(() => {
+      if (this.dirty) {
+        this.saveToDisk();
+      }
+    }, intervalMs);
+
+    // 防止定时器阻止进程退出
+    this.saveTimer.unref();
+  }
+}
+
+/**
+ * 超额时的回复文本
+ */
+export function formatQuotaExceeded(result: Extract<QuotaCheckResult, { allowed: false }>): string {
+  const period = result.period === 'daily' ? '今天' : '这个月';
+  const next = result.period === 'daily' ? '明天' : '下个月';
+
+  switch (result.scope) {
+    case 'user':
+      return `你${period}的使用额度已经用完啦，${next}再来找我吧～`;
+    case 'group':
+      return `本群${period}的使用额度已经用完啦，${next}再来找我吧～`;
+    case 'global':
+      return `我${period}已经聊得太多啦，需要休息一下，${next}再来找我吧～`;
+  }
+}
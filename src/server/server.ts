@@ -62,6 +62,7 @@ export class HttpServer {
   private readonly logger: Logger;
   private readonly config: ServerConfig;
   private upgradeHandler: UpgradeHandler | null = null;
+  private readonly pathUpgradeHandlers: Map<string, UpgradeHandler> = new Map();
   private staticDir: string | null = null;
   private staticBasePath: string = '/';
 
@@ -116,6 +117,15 @@ export class HttpServer {
     this.logger.debug('WebSocket upgrade handler registered');
   }
 
+  /**
+   * Set WebSocket upgrade handler for a specific path
+   * Path handlers take precedence over the default upgrade handler
+   */
+  onUpgradePath(path: string, handler: UpgradeHandler): void {
+    this.pathUpgradeHandlers.set(path, handler);
+    this.logger.debug('WebSocket upgrade path registered', { path });
+  }
+
   /**
    * Get the underlying HTTP server instance
    */
@@ -144,9 +154,9 @@ export class HttpServer {
       });
 
       // Handle WebSocket upgrades
-      if (this.upgradeHandler) {
+      if (this.upgradeHandler || this.pathUpgradeHandlers.size > 0) {
         this.server.on('upgrade', (req, socket, head) => {
-          this.upgradeHandler?.(req, socket, head);
+          this.handleUpgrade(req, socket, head);
         });
       }
 
@@ -180,6 +190,22 @@ export class HttpServer {
     });
   }
 
+  private handleUpgrade(
+    req: http.IncomingMessage,
+    socket: Duplex,
+    head: Buffer
+  ): void {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    const handler = this.pathUpgradeHandlers.get(url.pathname) ?? this.upgradeHandler;
+
+    if (!handler) {
+      socket.destroy();
+      return;
+    }
+
+    handler(req, socket, head);
+  }
+
   private async handleRequest(
     req: http.IncomingMessage,
     res: http.ServerResponse
@@ -66,6 +66,7 @@ export const urlFetchTool: ToolDefinition<typeof urlFetchSchema> = {
   category: 'web',
   timeoutMs: 30000,
   cacheTTL: 300000, // 5 分钟缓存
+  permission: 'admin', // 可访问任意地址（包括内网），默认仅群管理员可用
 
   async func({ url, maxLength = 8000 }): Promise<string> {
     try {
@@ -71,6 +71,7 @@ export const webSearchTool: ToolDefinition<typeof webSearchSchema> = {
   schema: webSearchSchema,
   category: 'search',
   timeoutMs: 30000,
+  permission: 'member', // 所有人可用；需要限制搜索 API 额度时可在 acl.tools 中提高为 admin
   // 不缓存搜索结果（时效性要求高）
 
   async func({ query, maxResults = 5 }): Promise<string> {
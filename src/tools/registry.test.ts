@@ -169,6 +169,24 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('pick', () => {
+    it('should create registry with only listed tools', () => {
+      registry.register(echoTool);
+      registry.register(addTool);
+
+      const subset = registry.pick(['add']);
+      expect(subset.getNames()).toEqual(['add']);
+      expect(registry.size).toBe(2);
+    });
+
+    it('should ignore unknown tool names', () => {
+      registry.register(echoTool);
+
+      const subset = registry.pick(['echo', 'nonexistent']);
+      expect(subset.getNames()).toEqual(['echo']);
+    });
+  });
+
   describe('tool execution', () => {
     it('should execute registered tool', async () => {
       registry.register(echoTool);
@@ -98,4 +98,18 @@ export class ToolRegistry {
   getDefinition(name: string): ToolDefinition | undefined {
     return this.definitions.get(name);
   }
+
+  /**
+   * 创建仅包含指定工具的子注册表（不存在的名称会被忽略）
+   */
+  pick(names: string[]): ToolRegistry {
+    const subset = new ToolRegistry();
+    for (const name of names) {
+      const definition = this.definitions.get(name);
+      if (definition) {
+        subset.register(definition);
+      }
+    }
+    return subset;
+  }
 }
@@ -1,4 +1,5 @@
 import type { z } from 'zod';
+import type { AccessRole } from '../config/schema.js';
 
 /**
  * 工具定义接口
@@ -26,6 +27,9 @@ export interface ToolDefinition<T extends z.ZodType = z.ZodType> {
 
   /** 执行超时（毫秒），默认 30000 */
   timeoutMs?: number;
+
+  /** 使用该工具需要的最低身份，默认 'member'（可被 acl.tools 覆盖） */
+  permission?: AccessRole;
 }
 
 /**
@@ -3,10 +3,11 @@ import { json } from '../../server/server.js';
 import type { Config } from '../../config/schema.js';
 
 export interface ConfigResponse {
-  target: {
+  targets: Array<{
     type: 'private' | 'group';
     id: number;
-  };
+    name?: string;
+  }>;
   server: {
     port: number;
     host: string;
@@ -18,10 +19,17 @@ export interface ConfigResponse {
     fileDirectory: string;
   };
   pipeline: {
+    mode: 'immediate' | 'debounce';
     debounceMs: number;
     maxWaitMs: number;
     progressFeedback: boolean;
   };
+  sender: {
+    maxMessageLength: number;
+    perTargetIntervalMs: number;
+    globalPerMinute: number;
+    retryMaxAttempts: number;
+  };
   memory: {
     enabled: boolean;
     maxTurns: number;
@@ -65,10 +73,11 @@ export function createConfigHandler(config: Config) {
   return async (ctx: RequestContext): Promise<void> => {
     // Return sanitized config (no API keys)
     const response: ConfigResponse = {
-      target: {
-        type: config.target.type,
-        id: config.target.id,
-      },
+      targets: config.targets.map((target) => ({
+        type: target.type,
+        id: target.id,
+        ...(target.name ? { name: target.name } : {}),
+      })),
       server: {
         port: config.server.port,
         host: config.server.host,
@@ -80,10 +89,17 @@ export function createConfigHandler(config: Config) {
         fileDirectory: config.logging.file.directory,
       },
       pipeline: {
+        mode: config.pipeline.mode,
         debounceMs: config.pipeline.debounceMs,
         maxWaitMs: config.pipeline.maxWaitMs,
         progressFeedback: config.pipeline.progressFeedback,
       },
+      sender: {
+        maxMessageLength: config.sender.maxMessageLength,
+        perTargetIntervalMs: config.sender.perTargetIntervalMs,
+        globalPerMinute: config.sender.globalPerMinute,
+        retryMaxAttempts: config.sender.retry.maxAttempts,
+      },
       memory: {
         enabled: config.memory.enabled,
         maxTurns: config.memory.maxTurns,
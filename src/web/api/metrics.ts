@@ -1,6 +1,10 @@
 import type { RequestContext } from '../../server/server.js';
 import { json } from '../../server/server.js';
-import { metrics } from '../../metrics/index.js';
+import {
+  metrics,
+  type LLMStatsSnapshot,
+  type StructuredOutputStats,
+} from '../../metrics/index.js';
 
 export interface MetricsResponse {
   uptime: number;
@@ -17,6 +21,10 @@ export interface MetricsResponse {
       avgDurationMs: number;
     }
   >;
+  /** 按节点统计的结构化输出（intent / plan） */
+  structuredOutput: Record<string, StructuredOutputStats>;
+  /** LLM 调用的 token、费用和耗时（按模型、节点、会话） */
+  llm: LLMStatsSnapshot;
   summary: {
     totalExecutions: number;
     totalSuccesses: number;
@@ -40,6 +48,8 @@ export async function handleMetrics(ctx: RequestContext): Promise<void> {
       maxDurationMs: number;
       avgDurationMs: number;
     }>;
+    structuredOutput: Record<string, StructuredOutputStats>;
+    llm: LLMStatsSnapshot;
   };
 
   // Calculate summary
@@ -58,6 +68,8 @@ export async function handleMetrics(ctx: RequestContext): Promise<void> {
   const response: MetricsResponse = {
     uptime: allStats.uptime,
     tools: allStats.tools,
+    structuredOutput: allStats.structuredOutput,
+    llm: allStats.llm,
     summary: {
       totalExecutions,
       totalSuccesses,
@@ -0,0 +1,86 @@
+import type { RequestContext } from '../../server/server.js';
+import { json } from '../../server/server.js';
+import type { Config } from '../../config/schema.js';
+import { getSessionId } from '../../memory/index.js';
+import { UnknownPersonaError, type PersonaManager } from '../../persona/index.js';
+
+export interface PersonasResponse {
+  default: string;
+  profiles: Array<{
+    key: string;
+    name: string;
+    language: string;
+    replyLength: 'short' | 'medium' | 'long';
+    markdown: boolean;
+  }>;
+  sessions: Array<{
+    sessionId: string;
+    persona: string;
+    overridden: boolean;
+  }>;
+}
+
+function listSessionIds(config: Config): string[] {
+  return config.targets.map((target) => getSessionId(target.type === 'group', target.id));
+}
+
+export function createPersonasHandler(config: Config, personas: PersonaManager) {
+  return async (ctx: RequestContext): Promise<void> => {
+    const response: PersonasResponse = {
+      default: config.personas.default,
+      profiles: Object.entries(config.personas.profiles).map(([key, profile]) => ({
+        key,
+        name: profile.name,
+        language: profile.language,
+        replyLength: profile.replyLength,
+        markdown: profile.markdown,
+      })),
+      sessions: listSessionIds(config).map((sessionId) => {
+        const active = personas.get(sessionId);
+        return { sessionId, persona: active.key, overridden: active.overridden };
+      }),
+    };
+
+    json(ctx.res, response);
+  };
+}
+
+/**
+ * 切换会话人设
+ *
+ * 请求体 {"persona": "key"} 切换，{"persona": null} 恢复为配置的人设
+ */
+export function createSwitchPersonaHandler(config: Config, personas: PersonaManager) {
+  return async (ctx: RequestContext): Promise<void> => {
+    const sessionId = ctx.params['sessionId'] ?? '';
+    if (!listSessionIds(config).includes(sessionId)) {
+      json(ctx.res, { error: `Session "${sessionId}" not found` }, 404);
+      return;
+    }
+
+    let persona: unknown;
+    try {
+      persona = (JSON.parse(ctx.body) as { persona?: unknown }).persona;
+    } catch {
+      json(ctx.res, { error: 'Invalid JSON body' }, 400);
+      return;
+    }
+
+    if (persona !== null && typeof persona !== 'string') {
+      json(ctx.res, { error: 'Field "persona" must be a string or null' }, 400);
+      return;
+    }
+
+    try {
+      const active =
+        persona === null ? personas.reset(sessionId) : personas.switch(sessionId, persona);
+      json(ctx.res, { sessionId, persona: active.key, overridden: active.overridden });
+    } catch (error) {
+      if (error instanceof UnknownPersonaError) {
+        json(ctx.res, { error: error.message }, 404);
+        return;
+      }
+      throw error;
+    }
+  };
+}
@@ -1,17 +1,20 @@
 import type { RequestContext } from '../../server/server.js';
 import { json } from '../../server/server.js';
 import type { Config } from '../../config/schema.js';
+import type { ProviderHealth } from '../../ai/index.js';
 
 export interface StatusResponse {
   status: 'running' | 'starting' | 'error';
   uptime: number;
   version: string;
-  target: {
+  targets: Array<{
     type: 'private' | 'group';
     id: number;
-  };
+    name?: string;
+  }>;
   onebot: {
-    httpUrl: string;
+    transport: 'http' | 'ws' | 'reverse-ws';
+    url: string;
     connected: boolean;
   };
   memory: {
@@ -23,23 +26,43 @@ export interface StatusResponse {
     enabled: boolean;
     basePath: string;
   };
+  /** 各 AI provider 的熔断状态 */
+  providers: ProviderHealth[];
 }
 
 const startTime = Date.now();
 
-export function createStatusHandler(config: Config) {
+/** OneBot 连接地址：反向 WS 模式下为本地监听路径 */
+function resolveOneBotUrl(config: Config): string {
+  switch (config.onebot.transport) {
+    case 'http':
+      return config.onebot.httpUrl ?? '';
+    case 'ws':
+      return config.onebot.wsUrl ?? '';
+    case 'reverse-ws':
+      return config.onebot.reverseWsPath;
+  }
+}
+
+export function createStatusHandler(
+  config: Config,
+  isOneBotConnected: () => boolean = () => true,
+  getProviderHealth: () => ProviderHealth[] = () => []
+) {
   return async (ctx: RequestContext): Promise<void> => {
     const response: StatusResponse = {
       status: 'running',
       uptime: Date.now() - startTime,
       version: '1.0.0',
-      target: {
-        type: config.target.type,
-        id: config.target.id,
-      },
+      targets: config.targets.map((target) => ({
+        type: target.type,
+        id: target.id,
+        ...(target.name ? { name: target.name } : {}),
+      })),
       onebot: {
-        httpUrl: config.onebot.httpUrl,
-        connected: true, // TODO: Add actual connection check
+        transport: config.onebot.transport,
+        url: resolveOneBotUrl(config),
+        connected: isOneBotConnected(),
       },
       memory: {
         enabled: config.memory.enabled,
@@ -50,6 +73,7 @@ export function createStatusHandler(config: Config) {
         enabled: config.webui.enabled,
         basePath: config.webui.basePath,
       },
+      providers: getProviderHealth(),
     };
 
     json(ctx.res, response);
@@ -7,6 +7,8 @@ import { setupWebRoutes } from './router.js';
 import { WebUIWebSocketServer } from './ws/server.js';
 import type { LogEvent, MetricsEvent } from './ws/types.js';
 import { metrics } from '../metrics/index.js';
+import type { PersonaManager } from '../persona/index.js';
+import type { ProviderHealth } from '../ai/index.js';
 
 export interface WebUIModule {
   wsServer: WebUIWebSocketServer;
@@ -17,13 +19,19 @@ export interface InitWebUIOptions {
   server: HttpServer;
   config: Config;
   logger: Logger;
+  /** OneBot 连接状态（用于 status API） */
+  isOneBotConnected?: () => boolean;
+  /** AI provider 健康状态（用于 status API） */
+  getProviderHealth?: () => ProviderHealth[];
+  /** 人设管理器（用于人设 API） */
+  personas?: PersonaManager;
 }
 
 /**
  * Initialize the Web UI module
  */
 export function initWebUI(options: InitWebUIOptions): WebUIModule {
-  const { server, config, logger } = options;
+  const { server, config, logger, isOneBotConnected, getProviderHealth, personas } = options;
   const log = logger.child('WebUI');
 
   if (!config.webui.enabled) {
@@ -41,7 +49,14 @@ export function initWebUI(options: InitWebUIOptions): WebUIModule {
   });
 
   // Setup REST API routes
-  const logReader = setupWebRoutes({ server, config, logger });
+  const logReader = setupWebRoutes({
+    server,
+    config,
+    logger,
+    isOneBotConnected,
+    getProviderHealth,
+    personas,
+  });
 
   // Setup WebSocket server
   const wsServer = new WebUIWebSocketServer(logger);
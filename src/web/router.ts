@@ -1,20 +1,28 @@
 import type { HttpServer } from '../server/server.js';
 import type { Config } from '../config/schema.js';
 import type { Logger } from '../logger/logger.js';
+import type { PersonaManager } from '../persona/index.js';
+import type { ProviderHealth } from '../ai/index.js';
 import { createStatusHandler } from './api/status.js';
 import { handleMetrics } from './api/metrics.js';
 import { createLogsHandler } from './api/logs.js';
 import { createConfigHandler } from './api/config.js';
+import { createPersonasHandler, createSwitchPersonaHandler } from './api/personas.js';
 import { LogReaderService } from './services/log-reader.js';
 
 export interface WebRouterOptions {
   server: HttpServer;
   config: Config;
   logger: Logger;
+  isOneBotConnected?: (() => boolean) | undefined;
+  /** AI provider 健康状态（用于 status API） */
+  getProviderHealth?: (() => ProviderHealth[]) | undefined;
+  /** 人设管理器（提供时注册人设查询和切换接口） */
+  personas?: PersonaManager | undefined;
 }
 
 export function setupWebRoutes(options: WebRouterOptions): LogReaderService {
-  const { server, config, logger } = options;
+  const { server, config, logger, isOneBotConnected, getProviderHealth, personas } = options;
   const log = logger.child('WebRouter');
   const apiPath = config.webui.apiPath;
 
@@ -24,7 +32,10 @@ export function setupWebRoutes(options: WebRouterOptions): LogReaderService {
   const logReader = new LogReaderService(config.logging);
 
   // Status API
-  server.get(`${apiPath}/status`, createStatusHandler(config));
+  server.get(
+    `${apiPath}/status`,
+    createStatusHandler(config, isOneBotConnected, getProviderHealth)
+  );
 
   // Metrics API
   server.get(`${apiPath}/metrics`, handleMetrics);
@@ -35,14 +46,24 @@ export function setupWebRoutes(options: WebRouterOptions): LogReaderService {
   // Config API (read-only, sanitized)
   server.get(`${apiPath}/config`, createConfigHandler(config));
 
-  log.info('Web API routes registered', {
-    routes: [
-      `GET ${apiPath}/status`,
-      `GET ${apiPath}/metrics`,
-      `GET ${apiPath}/logs`,
-      `GET ${apiPath}/config`,
-    ],
-  });
+  const routes = [
+    `GET ${apiPath}/status`,
+    `GET ${apiPath}/metrics`,
+    `GET ${apiPath}/logs`,
+    `GET ${apiPath}/config`,
+  ];
+
+  // Personas API（运行时切换会话人设）
+  if (personas) {
+    server.get(`${apiPath}/personas`, createPersonasHandler(config, personas));
+    server.post(
+      `${apiPath}/personas/:sessionId`,
+      createSwitchPersonaHandler(config, personas)
+    );
+    routes.push(`GET ${apiPath}/personas`, `POST ${apiPath}/personas/:sessionId`);
+  }
+
+  log.info('Web API routes registered', { routes });
 
   return logReader;
 }
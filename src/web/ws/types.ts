@@ -7,6 +7,7 @@ export type ServerEvent =
   | LogEvent
   | MetricsEvent
   | AgentNodeEvent
+  | AgentTokenEvent
   | MessageReceivedEvent
   | MessageSentEvent
   | ConnectionEvent;
@@ -44,6 +45,15 @@ export interface AgentNodeEvent {
   };
 }
 
+export interface AgentTokenEvent {
+  type: 'agent:token';
+  data: {
+    sessionId: string;
+    delta: string;
+    timestamp: number;
+  };
+}
+
 export interface MessageReceivedEvent {
   type: 'message:received';
   data: {
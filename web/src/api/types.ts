@@ -4,12 +4,14 @@ export interface StatusResponse {
   status: 'running' | 'starting' | 'error';
   uptime: number;
   version: string;
-  target: {
+  targets: Array<{
     type: 'private' | 'group';
     id: number;
-  };
+    name?: string;
+  }>;
   onebot: {
-    httpUrl: string;
+    transport: 'http' | 'ws' | 'reverse-ws';
+    url: string;
     connected: boolean;
   };
   memory: {
@@ -21,6 +23,37 @@ export interface StatusResponse {
     enabled: boolean;
     basePath: string;
   };
+  providers: ProviderHealth[];
+}
+
+export interface ProviderHealth {
+  name: string;
+  provider: string;
+  model: string;
+  state: 'closed' | 'open' | 'half-open';
+  consecutiveFailures: number;
+  totalFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  openedAt?: number;
+}
+
+export interface LLMUsageStats {
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  costUsd: number;
+  totalLatencyMs: number;
+  avgLatencyMs: number;
+}
+
+export interface LLMStats {
+  total: LLMUsageStats;
+  models: Record<string, LLMUsageStats>;
+  nodes: Record<string, LLMUsageStats>;
+  sessions: Record<string, LLMUsageStats>;
 }
 
 export interface MetricsResponse {
@@ -38,6 +71,7 @@ export interface MetricsResponse {
       avgDurationMs: number;
     }
   >;
+  llm: LLMStats;
   summary: {
     totalExecutions: number;
     totalSuccesses: number;
@@ -11,6 +11,94 @@ import {
 import { Card } from '../components/Card';
 import { StatusCard } from '../components/StatusCard';
 import { useStatusStore } from '../stores/status';
+import type { LLMUsageStats } from '../api/types';
+
+const circuitStyles = {
+  closed: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  'half-open': 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  open: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+const circuitLabels = {
+  closed: 'Healthy',
+  'half-open': 'Recovering',
+  open: 'Circuit Open',
+};
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+  return String(tokens);
+}
+
+function formatCost(usd: number): string {
+  return `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+function UsageTable({ label, usage }: { label: string; usage: Record<string, LLMUsageStats> }) {
+  const entries = Object.entries(usage).sort(([, a], [, b]) => b.costUsd - a.costUsd);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-slate-200 dark:border-slate-700">
+            <th className="pb-3 text-left font-medium text-slate-500 dark:text-slate-400">
+              {label}
+            </th>
+            <th className="pb-3 text-right font-medium text-slate-500 dark:text-slate-400">
+              Calls
+            </th>
+            <th className="pb-3 text-right font-medium text-slate-500 dark:text-slate-400">
+              Input
+            </th>
+            <th className="pb-3 text-right font-medium text-slate-500 dark:text-slate-400">
+              Cached
+            </th>
+            <th className="pb-3 text-right font-medium text-slate-500 dark:text-slate-400">
+              Output
+            </th>
+            <th className="pb-3 text-right font-medium text-slate-500 dark:text-slate-400">
+              Cost
+            </th>
+            <th className="pb-3 text-right font-medium text-slate-500 dark:text-slate-400">
+              Avg Latency
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(([name, stats]) => (
+            <tr key={name} className="border-b border-slate-100 dark:border-slate-800">
+              <td className="py-3 font-medium text-slate-800 dark:text-white">{name}</td>
+              <td className="py-3 text-right text-slate-600 dark:text-slate-300">
+                {stats.calls}
+                {stats.failures > 0 && (
+                  <span className="ml-1 text-xs text-red-500">({stats.failures} failed)</span>
+                )}
+              </td>
+              <td className="py-3 text-right text-slate-600 dark:text-slate-300">
+                {formatTokens(stats.inputTokens)}
+              </td>
+              <td className="py-3 text-right text-slate-600 dark:text-slate-300">
+                {formatTokens(stats.cachedTokens)}
+              </td>
+              <td className="py-3 text-right text-slate-600 dark:text-slate-300">
+                {formatTokens(stats.outputTokens)}
+              </td>
+              <td className="py-3 text-right text-slate-600 dark:text-slate-300">
+                {formatCost(stats.costUsd)}
+              </td>
+              <td className="py-3 text-right text-slate-600 dark:text-slate-300">
+                {stats.avgLatencyMs}ms
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
 
 function formatUptime(ms: number): string {
   const seconds = Math.floor(ms / 1000);
@@ -112,18 +200,18 @@ export function Dashboard() {
               </div>
               <div className="flex justify-between">
                 <dt className="text-sm text-slate-500 dark:text-slate-400">
-                  Target Type
+                  Targets
                 </dt>
-                <dd className="text-sm font-medium text-slate-800 dark:text-white capitalize">
-                  {status.target.type}
-                </dd>
-              </div>
-              <div className="flex justify-between">
-                <dt className="text-sm text-slate-500 dark:text-slate-400">
-                  Target ID
-                </dt>
-                <dd className="text-sm font-medium text-slate-800 dark:text-white">
-                  {status.target.id}
+                <dd className="space-y-1 text-right">
+                  {status.targets.map((target) => (
+                    <div
+                      key={`${target.type}_${target.id}`}
+                      className="text-sm font-medium text-slate-800 dark:text-white"
+                    >
+                      <span className="capitalize">{target.type}</span> {target.id}
+                      {target.name ? ` (${target.name})` : ''}
+                    </div>
+                  ))}
                 </dd>
               </div>
               <div className="flex justify-between">
@@ -131,7 +219,8 @@ export function Dashboard() {
                   OneBot URL
                 </dt>
                 <dd className="text-sm font-medium text-slate-800 dark:text-white truncate max-w-[200px]">
-                  {status.onebot.httpUrl}
+                  {status.onebot.url}
+                  <span className="ml-1 text-xs text-slate-400">({status.onebot.transport})</span>
                 </dd>
               </div>
               <div className="flex justify-between">
@@ -234,6 +323,76 @@ export function Dashboard() {
         </Card>
       </div>
 
+      {/* AI Providers */}
+      {status && status.providers.length > 0 && (
+        <Card title="AI Providers">
+          <dl className="space-y-4">
+            {status.providers.map((provider) => (
+              <div key={provider.name} className="flex justify-between">
+                <dt className="text-sm text-slate-500 dark:text-slate-400">
+                  {provider.name}
+                  <span className="ml-1 text-xs text-slate-400">
+                    ({provider.provider} / {provider.model})
+                  </span>
+                </dt>
+                <dd className="flex items-center gap-2">
+                  {provider.totalFailures > 0 && (
+                    <span
+                      className="text-xs text-slate-400"
+                      title={provider.lastError}
+                    >
+                      {provider.totalFailures} failures
+                    </span>
+                  )}
+                  <span
+                    className={`rounded-full px-2 py-1 text-xs font-medium ${circuitStyles[provider.state]}`}
+                  >
+                    {circuitLabels[provider.state]}
+                  </span>
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </Card>
+      )}
+
+      {/* LLM Usage */}
+      {metrics && metrics.llm.total.calls > 0 && (
+        <Card title="LLM Usage">
+          <div className="mb-4 flex flex-wrap gap-6 text-sm text-slate-500 dark:text-slate-400">
+            <span>
+              Calls:{' '}
+              <span className="font-medium text-slate-800 dark:text-white">
+                {metrics.llm.total.calls}
+              </span>
+            </span>
+            <span>
+              Tokens:{' '}
+              <span className="font-medium text-slate-800 dark:text-white">
+                {formatTokens(metrics.llm.total.inputTokens + metrics.llm.total.outputTokens)}
+              </span>
+            </span>
+            <span>
+              Cost:{' '}
+              <span className="font-medium text-slate-800 dark:text-white">
+                {formatCost(metrics.llm.total.costUsd)}
+              </span>
+            </span>
+            <span>
+              Avg Latency:{' '}
+              <span className="font-medium text-slate-800 dark:text-white">
+                {metrics.llm.total.avgLatencyMs}ms
+              </span>
+            </span>
+          </div>
+          <div className="space-y-6">
+            <UsageTable label="Model" usage={metrics.llm.models} />
+            <UsageTable label="Node" usage={metrics.llm.nodes} />
+            <UsageTable label="Session" usage={metrics.llm.sessions} />
+          </div>
+        </Card>
+      )}
+
       {/* Tools Metrics */}
       {metrics && Object.keys(metrics.tools).length > 0 && (
         <Card title="Tool Statistics">